@@ -0,0 +1,40 @@
+// Foursquare client backed by the recorded API fixtures, for tests
+import { writeFileSync } from 'fs';
+import { join } from 'path';
+
+import {
+  createRecordingFetch,
+  createReplayFetch,
+  sortRecordings,
+  type RecordedResponse,
+} from '@/api/fixtures';
+import { FoursquareClient } from '@/api/foursquareClient';
+
+import recordings from './fixtures/foursquare-recordings.json';
+
+export const placesFixtures = recordings as Record<string, RecordedResponse>;
+
+const RECORDINGS_PATH = join(__dirname, 'fixtures', 'foursquare-recordings.json');
+
+// Merge a response into the recordings file
+const saveRecording = (fixture: RecordedResponse) => {
+  placesFixtures[fixture.request] = fixture;
+  writeFileSync(RECORDINGS_PATH, `${JSON.stringify(sortRecordings(placesFixtures), null, 2)}\n`);
+};
+
+/**
+ * Client that replays the recordings
+ * Run Jest with FOURSQUARE_FIXTURES=record and FOURSQUARE_API_KEY set to call the real API
+ * instead and write its responses back to the recordings.
+ */
+export const createFixtureClient = (): FoursquareClient =>
+  process.env.FOURSQUARE_FIXTURES === 'record'
+    ? new FoursquareClient({
+        apiKey: process.env.FOURSQUARE_API_KEY ?? '',
+        fetch: createRecordingFetch(fetch, saveRecording),
+      })
+    : new FoursquareClient({
+        apiKey: 'replay',
+        fetch: createReplayFetch(placesFixtures),
+        scheduler: { maxRetries: 0 },
+      });
@@ -0,0 +1,121 @@
+import {
+  createRecordingFetch,
+  createReplayFetch,
+  emptyResultsFetch,
+  getFixtureKey,
+  type RecordedResponse,
+} from '@/api/fixtures';
+import { FoursquareClient, PLACE_SUMMARY_FIELDS } from '@/api/foursquareClient';
+import { createFixtureClient, placesFixtures } from '@/__mocks__/placesFixtures';
+
+const austin = { latitude: 30.2672, longitude: -97.7431 };
+const franklinId = '4df44456d1add5a8baa15599';
+
+describe('getFixtureKey', () => {
+  it('should sort parameters and drop the base URL and API version', () => {
+    expect(
+      getFixtureKey(
+        'https://api.foursquare.com/v3/places/search?query=bbq&limit=5&categories=13000'
+      )
+    ).toBe('/places/search?categories=13000&limit=5&query=bbq');
+  });
+
+  it('should round coordinates and ignore session tokens', () => {
+    expect(getFixtureKey('/v3/places/abc?session_token=t1&ll=30.26721%2C-97.74309')).toBe(
+      '/places/abc?ll=30.267,-97.743'
+    );
+  });
+});
+
+describe('fixture replay', () => {
+  it('should replay a recorded search', async () => {
+    const client = createFixtureClient();
+
+    const result = await client.searchNearbyVenues(
+      austin,
+      'restaurants',
+      ['4d4b7105d754a06374d81259'],
+      50000,
+      40
+    );
+
+    expect(result.results.length).toBeGreaterThan(0);
+  });
+
+  it('should replay recorded details for a place', async () => {
+    const client = createFixtureClient();
+
+    const venue = await client.getVenueDetails(franklinId, PLACE_SUMMARY_FIELDS, {
+      sessionToken: 'any-session',
+    });
+
+    expect(venue.name).toBe('Franklin Barbecue');
+  });
+
+  it('should fall back to the same search recorded elsewhere', async () => {
+    const client = new FoursquareClient({
+      apiKey: 'replay',
+      fetch: createReplayFetch(placesFixtures),
+      scheduler: { maxRetries: 0 },
+    });
+
+    const result = await client.getRecommendedVenues({ latitude: 40.7128, longitude: -74.006 });
+
+    expect(result.results.length).toBeGreaterThan(0);
+  });
+
+  it('should fail requests that were never recorded', async () => {
+    const replay = createReplayFetch({});
+
+    await expect(replay('https://api.foursquare.com/v3/places/missing')).rejects.toMatchObject({
+      message: 'No recorded fixture for /places/missing',
+    });
+  });
+
+  it('should pass requests that were never recorded on when asked to', async () => {
+    const unrecorded = jest.fn(async () => ({ ok: true, status: 200 }));
+    const replay = createReplayFetch({}, unrecorded as unknown as typeof fetch);
+
+    await replay('https://api.foursquare.com/v3/places/missing');
+    expect(unrecorded).toHaveBeenCalledWith(
+      'https://api.foursquare.com/v3/places/missing',
+      undefined
+    );
+  });
+
+  it('should answer unrecorded searches with no results and unrecorded places as not found', async () => {
+    const search = await emptyResultsFetch('https://api.foursquare.com/v3/places/search?query=x');
+    const photos = await emptyResultsFetch('https://api.foursquare.com/v3/places/abc/photos');
+    const place = await emptyResultsFetch('https://api.foursquare.com/v3/places/abc');
+
+    expect(await search.json()).toEqual({ results: [] });
+    expect(await photos.json()).toEqual([]);
+    expect(place.status).toBe(404);
+  });
+});
+
+describe('createRecordingFetch', () => {
+  it('should save the response under its normalized request', async () => {
+    const saved: RecordedResponse[] = [];
+    const realFetch = jest.fn(async () => ({
+      status: 200,
+      headers: { get: (name: string) => (name === 'link' ? '<next>; rel="next"' : null) },
+      text: async () => '{"results":[]}',
+    }));
+    const recordingFetch = createRecordingFetch(realFetch as unknown as typeof fetch, fixture => {
+      saved.push(fixture);
+    });
+
+    const response = await recordingFetch('https://api.foursquare.com/v3/places/search?limit=1');
+
+    expect(await response.json()).toEqual({ results: [] });
+    expect(saved).toEqual([
+      {
+        request: '/places/search?limit=1',
+        status: 200,
+        headers: { link: '<next>; rel="next"' },
+        body: { results: [] },
+      },
+    ]);
+  });
+});
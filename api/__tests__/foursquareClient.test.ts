@@ -0,0 +1,152 @@
+import { FoursquareClient, FoursquareError } from '@/api/foursquareClient';
+import { createMockSearchResponse, createMockVenue } from '@/__mocks__';
+
+const jsonResponse = (body: unknown, status = 200, headers: Record<string, string> = {}) =>
+  ({
+    ok: status >= 200 && status < 300,
+    status,
+    statusText: String(status),
+    headers: { get: (name: string) => headers[name] ?? null },
+    json: async () => body,
+    text: async () => JSON.stringify(body),
+  } as unknown as Response);
+
+const createClient = (response: Response | Error) => {
+  const fetchMock = jest.fn(async () => {
+    if (response instanceof Error) {
+      throw response;
+    }
+    return response;
+  });
+  const client = new FoursquareClient({
+    apiKey: 'test-key',
+    baseUrl: 'https://places.test/v3',
+    fetch: fetchMock as unknown as typeof fetch,
+    // Retries are covered by the scheduler tests
+    scheduler: { maxRetries: 0 },
+  });
+  return { client, fetchMock };
+};
+
+const austin = { latitude: 30.2672, longitude: -97.7431 };
+
+describe('FoursquareClient', () => {
+  it('should search nearby venues', async () => {
+    const { client, fetchMock } = createClient(
+      jsonResponse(createMockSearchResponse([createMockVenue()]))
+    );
+
+    const result = await client.searchNearbyVenues(austin, 'tacos', ['13000', '13065'], 1000, 5);
+
+    expect(result.results).toHaveLength(1);
+    expect(result.results[0].name).toBe('Mock Venue');
+    const [url, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+    expect(url).toBe(
+      'https://places.test/v3/places/search?ll=30.2672%2C-97.7431&query=tacos&categories=13000%2C13065&radius=1000&limit=5'
+    );
+    expect(init.headers).toEqual({ Accept: 'application/json', Authorization: 'test-key' });
+  });
+
+  it('should return the next page cursor from the Link header', async () => {
+    const { client, fetchMock } = createClient(
+      jsonResponse(createMockSearchResponse(), 200, {
+        Link: '<https://places.test/v3/places/search?query=pizza&cursor=c2Vjb25k%3D>; rel="next"',
+      })
+    );
+
+    const result = await client.searchVenues({ ll: '30.2672,-97.7431', cursor: 'Zmlyc3Q=' });
+
+    expect(result.nextCursor).toBe('c2Vjb25k=');
+    expect(fetchMock.mock.calls[0][0]).toContain('cursor=Zmlyc3Q%3D');
+  });
+
+  it('should sort recommended venues by rating', async () => {
+    const { client, fetchMock } = createClient(jsonResponse(createMockSearchResponse()));
+
+    await client.getRecommendedVenues(austin);
+
+    expect(fetchMock.mock.calls[0][0]).toContain('sort=RATING');
+  });
+
+  it('should fetch venue details without the query string of a deep link id', async () => {
+    const { client, fetchMock } = createClient(
+      jsonResponse(createMockVenue({ name: 'Detailed Venue' }))
+    );
+
+    const result = await client.getVenueDetails('mock-venue-id?ref=share', ['fsq_id', 'name']);
+
+    expect(result.name).toBe('Detailed Venue');
+    expect(fetchMock.mock.calls[0][0]).toBe(
+      'https://places.test/v3/places/mock-venue-id?fields=fsq_id%2Cname'
+    );
+  });
+
+  it('should close an autocomplete session with the details call', async () => {
+    const { client, fetchMock } = createClient(jsonResponse(createMockVenue()));
+
+    await client.getVenueDetails('mock-venue-id', undefined, { sessionToken: 'session-1' });
+
+    expect(fetchMock.mock.calls[0][0]).toBe(
+      'https://places.test/v3/places/mock-venue-id?session_token=session-1'
+    );
+  });
+
+  it('should map error responses to error kinds', async () => {
+    const cases: [Response | Error, string][] = [
+      [jsonResponse({ message: 'Invalid key' }, 401), 'auth'],
+      [jsonResponse({}, 404), 'not_found'],
+      [jsonResponse({}, 429, { 'Retry-After': '30' }), 'rate_limited'],
+      [jsonResponse({}, 500), 'http'],
+      [new TypeError('Network request failed'), 'network'],
+      [jsonResponse({ unexpected: true }), 'malformed'],
+    ];
+
+    for (const [response, kind] of cases) {
+      const { client } = createClient(response);
+      const error = await client.searchVenues({ ll: '30.2672,-97.7431' }).catch(e => e);
+      expect(error).toBeInstanceOf(FoursquareError);
+      expect(error.kind).toBe(kind);
+    }
+  });
+
+  it('should report when to retry a rate-limited request', async () => {
+    const { client } = createClient(jsonResponse({}, 429, { 'Retry-After': '30' }));
+
+    const error = await client.getVenueTips('mock-venue-id').catch(e => e);
+
+    expect(error.retryAfter).toBe(30);
+  });
+
+  it('should retry a failed request until it succeeds', async () => {
+    const responses = [jsonResponse({}, 503), jsonResponse(createMockVenue())];
+    const fetchMock = jest.fn(async () => responses.shift() as Response);
+    const client = new FoursquareClient({
+      apiKey: 'test-key',
+      fetch: fetchMock as unknown as typeof fetch,
+      scheduler: { baseDelayMs: 1 },
+    });
+
+    const result = await client.getVenueDetails('mock-venue-id');
+
+    expect(result.name).toBe('Mock Venue');
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('should return autocomplete suggestions', async () => {
+    const { client, fetchMock } = createClient(
+      jsonResponse({
+        results: [{ type: 'place', text: { primary: 'Mock Venue' }, place: createMockVenue() }],
+      })
+    );
+
+    const result = await client.autocomplete({
+      query: 'moc',
+      ll: '30.2672,-97.7431',
+      types: ['place'],
+      sessionToken: 'session-1',
+    });
+
+    expect(result.results[0].text.primary).toBe('Mock Venue');
+    expect(fetchMock.mock.calls[0][0]).toContain('session_token=session-1');
+  });
+});
@@ -0,0 +1,84 @@
+import { FoursquareError } from '@/api/foursquareClient';
+import { LocalPlacesProvider, osmElementToVenue } from '@/api/localPlacesProvider';
+import osmAustin from '@/assets/data/osm-austin.json';
+import { FoursquareCategory } from '@/config/foursquare';
+import { type OsmExtract } from '@/models/osm';
+
+const provider = new LocalPlacesProvider(osmAustin as OsmExtract);
+const downtownAustin = { latitude: 30.2672, longitude: -97.7431 };
+
+describe('LocalPlacesProvider', () => {
+  it('should find places by name and cuisine, nearest first', async () => {
+    const result = await provider.search({ coordinates: downtownAustin, query: 'barbecue' });
+
+    expect(result.results.map(venue => venue.name)).toEqual(['Franklin Barbecue', 'La Barbecue']);
+    expect(result.results[0].distance).toBeGreaterThan(0);
+  });
+
+  it('should filter by Foursquare top-level category', async () => {
+    const result = await provider.search({
+      coordinates: downtownAustin,
+      categories: [FoursquareCategory.Coffee],
+    });
+
+    expect(result.results.map(venue => venue.name)).toEqual(['Houndstooth Coffee']);
+  });
+
+  it('should filter by the Foursquare category of a cuisine', async () => {
+    const mexican = await provider.search({ coordinates: downtownAustin, categories: ['13303'] });
+    // Asian Restaurant covers Japanese and Thai
+    const asian = await provider.search({ coordinates: downtownAustin, categories: ['13072'] });
+
+    expect(mexican.results.map(venue => venue.name)).toContain('Veracruz All Natural');
+    expect(asian.results.map(venue => venue.name).sort()).toEqual(['Ramen Tatsu-ya', 'Thai Kun']);
+  });
+
+  it('should page through results with a cursor', async () => {
+    const first = await provider.search({ coordinates: downtownAustin, limit: 5 });
+    const second = await provider.search({
+      coordinates: downtownAustin,
+      limit: 5,
+      cursor: first.nextCursor,
+    });
+
+    expect(first.nextCursor).toBe('5');
+    const firstIds = first.results.map(venue => venue.fsq_id);
+    expect(second.results.some(venue => firstIds.includes(venue.fsq_id))).toBe(false);
+    expect(first.results.length + second.results.length).toBe(
+      Math.min(10, first.totalResults ?? 0)
+    );
+  });
+
+  it('should only return places within the radius', async () => {
+    const result = await provider.search({ coordinates: downtownAustin, radius: 500 });
+
+    expect(result.results.every(venue => (venue.distance ?? Infinity) <= 500)).toBe(true);
+  });
+
+  it('should return details for a known place and not_found otherwise', async () => {
+    const venue = await provider.getDetails('osm-node-4356012301');
+    const error = await provider.getDetails('osm-node-1').catch(e => e);
+
+    expect(venue.name).toBe('Franklin Barbecue');
+    expect(venue.categories?.[0].name).toBe('Barbecue Restaurant');
+    expect(error).toBeInstanceOf(FoursquareError);
+    expect(error.kind).toBe('not_found');
+  });
+});
+
+describe('osmElementToVenue', () => {
+  it('should skip unnamed elements and unknown amenities', () => {
+    expect(
+      osmElementToVenue({ type: 'node', id: 1, lat: 0, lon: 0, tags: { amenity: 'cafe' } })
+    ).toBeNull();
+    expect(
+      osmElementToVenue({
+        type: 'node',
+        id: 2,
+        lat: 0,
+        lon: 0,
+        tags: { name: 'Bank', amenity: 'bank' },
+      })
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,151 @@
+import { RequestScheduler, getBackoffDelay } from '@/api/requestScheduler';
+
+class RetryableError extends Error {
+  constructor(readonly retryAfterMs?: number) {
+    super('Try again');
+  }
+}
+
+const classifyError = (error: unknown) =>
+  error instanceof RetryableError
+    ? { retryable: true, retryAfterMs: error.retryAfterMs }
+    : { retryable: false };
+
+// A request that stays pending until released, and rejects when aborted
+const createDeferredRequest = <T>(value: T) => {
+  let release: () => void = () => undefined;
+  const request = jest.fn(
+    (signal: AbortSignal) =>
+      new Promise<T>((resolve, reject) => {
+        release = () => resolve(value);
+        signal.addEventListener('abort', () => reject(new Error('aborted')));
+      })
+  );
+  return { request, release: () => release() };
+};
+
+const tick = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('RequestScheduler', () => {
+  it('should share one request between identical in-flight calls', async () => {
+    const scheduler = new RequestScheduler();
+    const { request, release } = createDeferredRequest('venue');
+
+    const first = scheduler.schedule(request, { key: '/places/1' });
+    const second = scheduler.schedule(request, { key: '/places/1' });
+    await tick();
+    release();
+
+    expect(await Promise.all([first, second])).toEqual(['venue', 'venue']);
+    expect(request).toHaveBeenCalledTimes(1);
+  });
+
+  it('should cap how many requests run at once', async () => {
+    const scheduler = new RequestScheduler({ maxConcurrent: 2 });
+    const requests = [1, 2, 3].map(createDeferredRequest);
+
+    const results = requests.map(({ request }) => scheduler.schedule(request));
+    await tick();
+
+    expect(requests[2].request).not.toHaveBeenCalled();
+    requests[0].release();
+    await tick();
+    expect(requests[2].request).toHaveBeenCalledTimes(1);
+
+    requests[1].release();
+    requests[2].release();
+    expect(await Promise.all(results)).toEqual([1, 2, 3]);
+  });
+
+  it('should retry idempotent requests with backoff', async () => {
+    const scheduler = new RequestScheduler({ classifyError, baseDelayMs: 1 });
+    let attempts = 0;
+    const request = jest.fn(async () => {
+      attempts += 1;
+      if (attempts < 3) {
+        throw new RetryableError();
+      }
+      return 'ok';
+    });
+
+    expect(await scheduler.schedule(request, { idempotent: true })).toBe('ok');
+    expect(request).toHaveBeenCalledTimes(3);
+  });
+
+  it('should not retry requests that are not idempotent', async () => {
+    const scheduler = new RequestScheduler({ classifyError, baseDelayMs: 1 });
+    const request = jest.fn(async () => {
+      throw new RetryableError();
+    });
+
+    await expect(scheduler.schedule(request)).rejects.toBeInstanceOf(RetryableError);
+    expect(request).toHaveBeenCalledTimes(1);
+  });
+
+  it('should give up after the maximum number of retries', async () => {
+    const scheduler = new RequestScheduler({ classifyError, baseDelayMs: 1, maxRetries: 2 });
+    const request = jest.fn(async () => {
+      throw new RetryableError();
+    });
+
+    await expect(scheduler.schedule(request, { idempotent: true })).rejects.toBeInstanceOf(
+      RetryableError
+    );
+    expect(request).toHaveBeenCalledTimes(3);
+  });
+
+  it('should hold other requests back after a rate-limited response', async () => {
+    const scheduler = new RequestScheduler({ classifyError, maxRetries: 0 });
+    const limited = jest.fn(async () => {
+      throw new RetryableError(50);
+    });
+    await scheduler.schedule(limited).catch(() => undefined);
+    const pausedAt = Date.now();
+
+    const startedAt = await scheduler.schedule(async () => Date.now());
+
+    expect(startedAt - pausedAt).toBeGreaterThanOrEqual(40);
+  });
+
+  it('should abort a shared request only when every caller cancels', async () => {
+    const scheduler = new RequestScheduler();
+    const { request, release } = createDeferredRequest('venue');
+    const firstCaller = new AbortController();
+    const secondCaller = new AbortController();
+
+    const first = scheduler.schedule(request, { key: '/places/1', signal: firstCaller.signal });
+    const second = scheduler.schedule(request, { key: '/places/1', signal: secondCaller.signal });
+    await tick();
+    firstCaller.abort();
+    release();
+
+    await expect(first).rejects.toMatchObject({ name: 'AbortError' });
+    expect(await second).toBe('venue');
+  });
+
+  it('should abort the request when its only caller cancels', async () => {
+    const scheduler = new RequestScheduler();
+    const { request } = createDeferredRequest('venue');
+    const caller = new AbortController();
+
+    const result = scheduler.schedule(request, { signal: caller.signal });
+    await tick();
+    caller.abort();
+
+    await expect(result).rejects.toMatchObject({ name: 'AbortError' });
+    const signal = request.mock.calls[0][0] as AbortSignal;
+    expect(signal.aborted).toBe(true);
+    expect(scheduler.pendingCount).toBe(0);
+  });
+});
+
+describe('getBackoffDelay', () => {
+  it('should grow exponentially up to the maximum', () => {
+    const maxJitter = () => 1;
+
+    expect(getBackoffDelay(0, 500, 30000, maxJitter)).toBe(500);
+    expect(getBackoffDelay(3, 500, 30000, maxJitter)).toBe(4000);
+    expect(getBackoffDelay(10, 500, 30000, maxJitter)).toBe(30000);
+    expect(getBackoffDelay(3, 500, 30000, () => 0.5)).toBe(2000);
+  });
+});
@@ -0,0 +1,30 @@
+import * as Crypto from 'expo-crypto';
+
+/**
+ * A Places autocomplete session
+ *
+ * Foursquare bills the autocomplete calls of a session together with the details call that ends
+ * it, so every keystroke of one search shares a token until a place is opened.
+ */
+export class AutocompleteSession {
+  private token: string | null = null;
+
+  constructor(private readonly createToken: () => string = Crypto.randomUUID) {}
+
+  /**
+   * Token for the current session, starting one if needed
+   */
+  getToken(): string {
+    this.token ??= this.createToken();
+    return this.token;
+  }
+
+  /**
+   * End the session, returning its token for the details call that closes it
+   */
+  end(): string | undefined {
+    const token = this.token ?? undefined;
+    this.token = null;
+    return token;
+  }
+}
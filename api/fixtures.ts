@@ -0,0 +1,165 @@
+/**
+ * Fixture record and replay for the Foursquare Places API
+ *
+ * Recorded responses live in __mocks__/fixtures/foursquare-recordings.json, keyed by normalized
+ * request. Replaying them through the client's injectable fetch lets the app and tests run without
+ * an API key or network. Recordings are made by Jest or, in dev builds, by the app itself.
+ */
+
+// off: real API; record: real API, saving each response; replay: recorded responses only
+export type FixtureMode = 'off' | 'record' | 'replay';
+
+export interface RecordedResponse {
+  // Normalized request, see getFixtureKey
+  request: string;
+  status: number;
+  headers: Record<string, string>;
+  body: unknown;
+}
+
+// Response headers worth keeping; the rest vary per request
+const RECORDED_HEADERS = ['link', 'retry-after'];
+
+// Query parameters that differ between otherwise identical requests
+const VOLATILE_PARAMS = ['session_token'];
+
+// Coordinates are rounded to about 100m so nearby positions share fixtures
+const COORDINATE_DECIMALS = 3;
+
+export const parseFixtureMode = (value: string): FixtureMode =>
+  value === 'record' || value === 'replay' ? value : 'off';
+
+const normalizeLatLng = (value: string) =>
+  value
+    .split(',')
+    .map(part => Number(part).toFixed(COORDINATE_DECIMALS))
+    .join(',');
+
+/**
+ * Stable key for a request: API path plus sorted query parameters, without volatile ones
+ * e.g. `/places/search?limit=10&ll=30.267,-97.743&sort=RATING`
+ */
+export const getFixtureKey = (url: string): string => {
+  const [base, query = ''] = url.split('?');
+  // Keep the path after the API version, so keys do not depend on the base URL
+  const path = base.replace(/^https?:\/\/[^/]+/, '').replace(/^\/v\d+/, '');
+  const params = query
+    .split('&')
+    .filter(Boolean)
+    .map(pair => {
+      const [name, value = ''] = pair.split('=').map(decodeURIComponent);
+      return [name, name === 'll' ? normalizeLatLng(value) : value] as const;
+    })
+    .filter(([name]) => !VOLATILE_PARAMS.includes(name))
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([name, value]) => `${name}=${value}`);
+  return params.length > 0 ? `${path}?${params.join('&')}` : path;
+};
+
+const withoutParam = (key: string, param: string): string =>
+  key.replace(new RegExp(`([?&])${param}=[^&]*&?`), '$1').replace(/[?&]$/, '');
+
+const toResponse = ({ status, headers, body }: RecordedResponse): Response =>
+  ({
+    ok: status >= 200 && status < 300,
+    status,
+    statusText: String(status),
+    headers: { get: (name: string) => headers[name.toLowerCase()] ?? null },
+    json: async () => body,
+    text: async () => JSON.stringify(body),
+  } as unknown as Response);
+
+/**
+ * Recordings with their keys sorted, so diffs of the recordings file stay small
+ */
+export const sortRecordings = (
+  recordings: Record<string, RecordedResponse>
+): Record<string, RecordedResponse> =>
+  Object.fromEntries(
+    Object.keys(recordings)
+      .sort()
+      .map(key => [key, recordings[key]])
+  );
+
+/**
+ * A fetch that serves recorded responses
+ * A request without its own fixture falls back to one for the same search elsewhere, so replay
+ * works wherever the simulator thinks it is.
+ * @param unrecorded Handles requests with no recording at all; without it they fail
+ */
+export const createReplayFetch = (
+  fixtures: Record<string, RecordedResponse>,
+  unrecorded?: typeof fetch
+): typeof fetch =>
+  (async (input: RequestInfo | URL, init?: RequestInit) => {
+    const key = getFixtureKey(String(input));
+    const fixture =
+      fixtures[key] ??
+      Object.values(fixtures).find(
+        candidate => withoutParam(candidate.request, 'll') === withoutParam(key, 'll')
+      );
+    if (!fixture) {
+      if (unrecorded) {
+        return unrecorded(input, init);
+      }
+      throw new Error(`No recorded fixture for ${key}`);
+    }
+    return toResponse(fixture);
+  }) as typeof fetch;
+
+// An empty answer for list endpoints; a single place has none, so it is not found
+const getEmptyBody = (key: string): unknown => {
+  const path = key.split('?')[0];
+  if (path === '/places/search' || path === '/autocomplete') {
+    return { results: [] };
+  }
+  return /\/(photos|tips)$/.test(path) ? [] : undefined;
+};
+
+/**
+ * A fetch answering every request with no results, for replaying without a key to call the API
+ */
+export const emptyResultsFetch = (async (input: RequestInfo | URL) => {
+  const key = getFixtureKey(String(input));
+  const body = getEmptyBody(key);
+  console.warn(`[Fixtures] No recording for ${key}, answering with no results`);
+  return toResponse(
+    body === undefined
+      ? { request: key, status: 404, headers: {}, body: { message: `No recording for ${key}` } }
+      : { request: key, status: 200, headers: {}, body }
+  );
+}) as typeof fetch;
+
+/**
+ * A fetch that passes requests through and hands each response to `save`
+ */
+export const createRecordingFetch = (
+  fetchImpl: typeof fetch,
+  save: (fixture: RecordedResponse) => void | Promise<void>
+): typeof fetch =>
+  (async (input: RequestInfo | URL, init?: RequestInit) => {
+    const response = await fetchImpl(input, init);
+    const text = await response.text();
+    let body: unknown = text;
+    try {
+      body = JSON.parse(text);
+    } catch {
+      // Keep non-JSON bodies as text so malformed responses replay as malformed
+    }
+
+    const headers: Record<string, string> = {};
+    for (const name of RECORDED_HEADERS) {
+      const value = response.headers?.get(name);
+      if (value) {
+        headers[name] = value;
+      }
+    }
+    const fixture = {
+      request: getFixtureKey(String(input)),
+      status: response.status,
+      headers,
+      body,
+    };
+    await save(fixture);
+    return toResponse(fixture);
+  }) as typeof fetch;
@@ -0,0 +1,428 @@
+/**
+ * Foursquare Places API client
+ *
+ * The one client for the Places API v3: search, details, photos, tips and autocomplete.
+ * Failures are thrown as FoursquareError with a kind callers can branch on, and fetch can be
+ * injected so tests run without the network. Requests go through a RequestScheduler, so
+ * identical calls are shared, concurrency is capped and transient failures are retried.
+ */
+import {
+  type FoursquareAutocompleteParams,
+  type FoursquareAutocompleteResponse,
+  type FoursquareListParams,
+  type FoursquareTip,
+} from '@/models/foursquare';
+import {
+  type Coordinates,
+  type VenueDetailsResponse,
+  type VenuePhoto,
+  type VenueSearchParams,
+  type VenueSearchResponse,
+} from '@/models/venue';
+import { FOURSQUARE_API_KEY, FOURSQUARE_API_URL } from '@/utils/env';
+
+import { RequestScheduler, type RequestSchedulerOptions } from './requestScheduler';
+
+export type FoursquareErrorKind =
+  | 'auth' // Missing or rejected API key (401/403)
+  | 'rate_limited' // Too many requests (429)
+  | 'not_found' // Unknown place id (404)
+  | 'network' // The request never got a response
+  | 'malformed' // The response was not the JSON shape we expect
+  | 'cancelled' // The caller aborted the request, e.g. a saga cancelled by takeLatest
+  | 'http'; // Any other non-2xx response
+
+/**
+ * A failed Places API request
+ */
+export class FoursquareError extends Error {
+  readonly kind: FoursquareErrorKind;
+  readonly status?: number;
+  // Seconds to wait before retrying, from Retry-After on rate-limited responses
+  readonly retryAfter?: number;
+
+  constructor(
+    kind: FoursquareErrorKind,
+    message: string,
+    details: { status?: number; retryAfter?: number } = {}
+  ) {
+    super(message);
+    this.name = 'FoursquareError';
+    this.kind = kind;
+    this.status = details.status;
+    this.retryAfter = details.retryAfter;
+  }
+}
+
+export interface FoursquareClientOptions {
+  apiKey?: string;
+  baseUrl?: string;
+  fetch?: typeof fetch;
+  scheduler?: RequestSchedulerOptions;
+}
+
+export interface FoursquareRequestOptions {
+  signal?: AbortSignal;
+}
+
+export interface FoursquareDetailsOptions extends FoursquareRequestOptions {
+  // Ends the autocomplete session the place was picked from
+  sessionToken?: string;
+}
+
+// Default search radius (3 miles) used by the nearby searches
+export const DEFAULT_SEARCH_RADIUS_METERS = 4828;
+
+// Fields requested when only a place summary is needed
+export const PLACE_SUMMARY_FIELDS = ['fsq_id', 'name', 'geocodes', 'location', 'photos', 'rating'];
+
+// Search fields that include what client-side search filters check
+export const FILTERABLE_SEARCH_FIELDS = [
+  'fsq_id',
+  'name',
+  'categories',
+  'geocodes',
+  'location',
+  'distance',
+  'rating',
+  'price',
+  'hours',
+];
+
+type QueryParams = Record<string, string | number | undefined | null>;
+
+const buildQuery = (params: QueryParams): string => {
+  const query = Object.keys(params)
+    .filter(key => params[key] !== undefined && params[key] !== null && params[key] !== '')
+    .map(key => `${encodeURIComponent(key)}=${encodeURIComponent(String(params[key]))}`)
+    .join('&');
+  return query ? `?${query}` : '';
+};
+
+// Ids from deep links and notifications sometimes carry a query string
+const normalizePlaceId = (placeId: string): string => {
+  const id = placeId.split('?')[0].trim();
+  if (!id) {
+    throw new FoursquareError('not_found', 'Invalid place id');
+  }
+  return id;
+};
+
+const errorForStatus = (response: Response, body: string): FoursquareError => {
+  const { status } = response;
+  const detail = body ? `: ${body}` : '';
+  if (status === 401 || status === 403) {
+    return new FoursquareError('auth', `Foursquare rejected the API key${detail}`, { status });
+  }
+  if (status === 404) {
+    return new FoursquareError('not_found', 'Place not found', { status });
+  }
+  if (status === 429) {
+    const retryAfter = parseInt(response.headers?.get('Retry-After') ?? '', 10);
+    return new FoursquareError('rate_limited', 'Too many requests to Foursquare', {
+      status,
+      retryAfter: Number.isNaN(retryAfter) ? undefined : retryAfter,
+    });
+  }
+  return new FoursquareError('http', `HTTP ${status}: ${response.statusText}${detail}`, {
+    status,
+  });
+};
+
+// Transient failures worth another attempt; rate limits also pause the other queued requests
+const classifyFoursquareError = (error: unknown) => {
+  if (!(error instanceof FoursquareError)) {
+    return { retryable: false };
+  }
+  return {
+    retryable:
+      error.kind === 'network' ||
+      error.kind === 'rate_limited' ||
+      (error.kind === 'http' && (error.status ?? 0) >= 500),
+    retryAfterMs: error.retryAfter !== undefined ? error.retryAfter * 1000 : undefined,
+  };
+};
+
+interface FoursquarePage<T> {
+  data: T;
+  nextCursor?: string;
+}
+
+/**
+ * Cursor of the next page from a Link header, e.g. `<https://...?cursor=abc>; rel="next"`
+ */
+export const parseNextCursor = (link: string | null): string | undefined => {
+  const next = link?.match(/<([^>]+)>\s*;\s*rel="?next"?/);
+  const cursor = next?.[1].match(/[?&]cursor=([^&]+)/);
+  return cursor ? decodeURIComponent(cursor[1]) : undefined;
+};
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Message suitable for showing to the user
+ */
+export const describeFoursquareError = (error: unknown, fallback: string): string => {
+  if (!(error instanceof FoursquareError)) {
+    return fallback;
+  }
+  switch (error.kind) {
+    case 'network':
+      return 'No connection. Check your network and try again.';
+    case 'rate_limited':
+      return 'Too many requests right now. Try again in a minute.';
+    case 'not_found':
+      return 'This place is no longer listed on Foursquare.';
+    default:
+      return fallback;
+  }
+};
+
+export class FoursquareClient {
+  private readonly apiKey: string;
+  private readonly baseUrl: string;
+  private readonly fetchImpl: typeof fetch;
+  private readonly scheduler: RequestScheduler;
+
+  constructor(options: FoursquareClientOptions = {}) {
+    this.apiKey = options.apiKey ?? FOURSQUARE_API_KEY;
+    this.baseUrl = options.baseUrl ?? FOURSQUARE_API_URL;
+    // Look fetch up per call so a global installed after import is still used
+    this.fetchImpl = options.fetch ?? ((input, init) => fetch(input, init));
+    this.scheduler = new RequestScheduler({
+      classifyError: classifyFoursquareError,
+      createAbortError: () => new FoursquareError('cancelled', 'Request cancelled'),
+      ...options.scheduler,
+    });
+
+    if (this.apiKey === 'dev-api-key') {
+      console.warn('[FoursquareClient] Using development API key - API calls will fail');
+    }
+  }
+
+  private async get<T>(
+    endpoint: string,
+    params: QueryParams = {},
+    options?: FoursquareRequestOptions
+  ): Promise<T> {
+    return (await this.getPage<T>(endpoint, params, options)).data;
+  }
+
+  // Like get, also returning the cursor of the next page from the Link header
+  private getPage<T>(
+    endpoint: string,
+    params: QueryParams = {},
+    { signal }: FoursquareRequestOptions = {}
+  ): Promise<FoursquarePage<T>> {
+    const url = `${this.baseUrl}${endpoint}${buildQuery(params)}`;
+    return this.scheduler.schedule(
+      attemptSignal => this.fetchJson<T>(url, endpoint, attemptSignal),
+      {
+        key: url,
+        signal,
+        idempotent: true,
+      }
+    );
+  }
+
+  private async fetchJson<T>(
+    url: string,
+    endpoint: string,
+    signal: AbortSignal
+  ): Promise<FoursquarePage<T>> {
+    let response: Response;
+    try {
+      response = await this.fetchImpl(url, {
+        method: 'GET',
+        headers: {
+          Accept: 'application/json',
+          Authorization: this.apiKey,
+        },
+        signal,
+      });
+    } catch (error: any) {
+      if (signal.aborted) {
+        throw new FoursquareError('cancelled', 'Request cancelled');
+      }
+      throw new FoursquareError('network', error?.message || 'Network request failed');
+    }
+
+    if (!response.ok) {
+      const body = await response.text().catch(() => '');
+      console.error(`[FoursquareClient] HTTP ${response.status} for ${endpoint}`);
+      throw errorForStatus(response, body);
+    }
+
+    let data: T;
+    try {
+      data = (await response.json()) as T;
+    } catch {
+      throw new FoursquareError('malformed', `Invalid JSON from ${endpoint}`, {
+        status: response.status,
+      });
+    }
+    return { data, nextCursor: parseNextCursor(response.headers?.get('Link') ?? null) };
+  }
+
+  /**
+   * Search for places
+   */
+  async searchVenues(
+    params: VenueSearchParams,
+    options?: FoursquareRequestOptions
+  ): Promise<VenueSearchResponse> {
+    const { data, nextCursor } = await this.getPage<unknown>(
+      '/places/search',
+      {
+        ll: params.ll,
+        query: params.query,
+        categories: params.categories,
+        radius: params.radius,
+        limit: params.limit ?? 20,
+        sort: params.sort,
+        min_price: params.min_price,
+        max_price: params.max_price,
+        open_now: params.open_now === undefined ? undefined : String(params.open_now),
+        fields: params.fields?.join(','),
+        cursor: params.cursor,
+      },
+      options
+    );
+    if (!isObject(data) || !Array.isArray(data.results)) {
+      throw new FoursquareError('malformed', 'Search response has no results');
+    }
+    return {
+      results: data.results,
+      context: data.context ?? undefined,
+      totalResults: data.totalResults ?? data.results.length,
+      nextCursor,
+    };
+  }
+
+  /**
+   * Search for places around a position
+   */
+  async searchNearbyVenues(
+    coordinates: Coordinates,
+    query?: string,
+    categories?: string[],
+    radius = DEFAULT_SEARCH_RADIUS_METERS,
+    limit = 20,
+    options?: FoursquareRequestOptions
+  ): Promise<VenueSearchResponse> {
+    return this.searchVenues(
+      {
+        ll: `${coordinates.latitude},${coordinates.longitude}`,
+        query,
+        categories: categories && categories.length > 0 ? categories.join(',') : undefined,
+        radius,
+        limit,
+      },
+      options
+    );
+  }
+
+  /**
+   * Highest rated places around a position
+   */
+  async getRecommendedVenues(
+    coordinates: Coordinates,
+    limit = 10,
+    options?: FoursquareRequestOptions
+  ): Promise<VenueSearchResponse> {
+    return this.searchVenues(
+      {
+        ll: `${coordinates.latitude},${coordinates.longitude}`,
+        limit,
+        sort: 'RATING',
+      },
+      options
+    );
+  }
+
+  /**
+   * Get a place by id
+   * @param fields Response fields to request; the API default set when omitted
+   */
+  async getVenueDetails(
+    placeId: string,
+    fields?: string[],
+    { sessionToken, ...options }: FoursquareDetailsOptions = {}
+  ): Promise<VenueDetailsResponse> {
+    const data = await this.get<unknown>(
+      `/places/${normalizePlaceId(placeId)}`,
+      { fields: fields?.join(','), session_token: sessionToken },
+      options
+    );
+    if (!isObject(data) || typeof data.name !== 'string') {
+      throw new FoursquareError('malformed', 'Place response has no name');
+    }
+    return data as VenueDetailsResponse;
+  }
+
+  /**
+   * Photos of a place
+   */
+  async getVenuePhotos(
+    placeId: string,
+    params: FoursquareListParams = {},
+    options?: FoursquareRequestOptions
+  ): Promise<VenuePhoto[]> {
+    const data = await this.get<unknown>(
+      `/places/${normalizePlaceId(placeId)}/photos`,
+      { limit: params.limit, sort: params.sort },
+      options
+    );
+    if (!Array.isArray(data)) {
+      throw new FoursquareError('malformed', 'Photos response is not a list');
+    }
+    return data;
+  }
+
+  /**
+   * Tips left about a place
+   */
+  async getVenueTips(
+    placeId: string,
+    params: FoursquareListParams = {},
+    options?: FoursquareRequestOptions
+  ): Promise<FoursquareTip[]> {
+    const data = await this.get<unknown>(
+      `/places/${normalizePlaceId(placeId)}/tips`,
+      { limit: params.limit, sort: params.sort },
+      options
+    );
+    if (!Array.isArray(data)) {
+      throw new FoursquareError('malformed', 'Tips response is not a list');
+    }
+    return data;
+  }
+
+  /**
+   * Suggestions for a partially typed query
+   */
+  async autocomplete(
+    params: FoursquareAutocompleteParams,
+    options?: FoursquareRequestOptions
+  ): Promise<FoursquareAutocompleteResponse> {
+    const data = await this.get<unknown>(
+      '/autocomplete',
+      {
+        query: params.query,
+        ll: params.ll,
+        radius: params.radius,
+        types: params.types?.join(','),
+        limit: params.limit,
+        session_token: params.sessionToken,
+      },
+      options
+    );
+    if (!isObject(data) || !Array.isArray(data.results)) {
+      throw new FoursquareError('malformed', 'Autocomplete response has no results');
+    }
+    return { results: data.results };
+  }
+}
+
+export const foursquareClient = new FoursquareClient();
@@ -0,0 +1,86 @@
+/**
+ * Places provider backed by the Foursquare Places API
+ */
+import { type FoursquareAutocompleteParams, type FoursquareListParams } from '@/models/foursquare';
+import { type VenueCategory } from '@/models/venue';
+import { FoursquareCategory } from '@/config/foursquare';
+
+import { FoursquareClient, foursquareClient } from './foursquareClient';
+import {
+  type PlacesDetailsOptions,
+  type PlacesProvider,
+  type PlacesRequestOptions,
+  type PlacesSearchParams,
+} from './placesProvider';
+
+const CATEGORY_ICON_PREFIX = 'https://ss3.4sqi.net/img/categories_v2/';
+
+// Top-level categories offered for filtering
+const TOP_LEVEL_CATEGORIES: VenueCategory[] = [
+  {
+    id: FoursquareCategory.Food,
+    name: 'Food',
+    icon: { prefix: `${CATEGORY_ICON_PREFIX}food/default_`, suffix: '.png' },
+  },
+  {
+    id: FoursquareCategory.Coffee,
+    name: 'Coffee',
+    icon: { prefix: `${CATEGORY_ICON_PREFIX}food/coffeeshop_`, suffix: '.png' },
+  },
+  {
+    id: FoursquareCategory.Nightlife,
+    name: 'Nightlife',
+    icon: { prefix: `${CATEGORY_ICON_PREFIX}nightlife/default_`, suffix: '.png' },
+  },
+  {
+    id: FoursquareCategory.Fun,
+    name: 'Arts and Entertainment',
+    icon: { prefix: `${CATEGORY_ICON_PREFIX}arts_entertainment/default_`, suffix: '.png' },
+  },
+  {
+    id: FoursquareCategory.Shopping,
+    name: 'Shopping',
+    icon: { prefix: `${CATEGORY_ICON_PREFIX}shops/default_`, suffix: '.png' },
+  },
+];
+
+export class FoursquarePlacesProvider implements PlacesProvider {
+  readonly name = 'foursquare';
+
+  constructor(private readonly client: FoursquareClient = foursquareClient) {}
+
+  search(params: PlacesSearchParams, options?: PlacesRequestOptions) {
+    return this.client.searchVenues(
+      {
+        ll: `${params.coordinates.latitude},${params.coordinates.longitude}`,
+        query: params.query,
+        categories: params.categories?.length ? params.categories.join(',') : undefined,
+        radius: params.radius,
+        limit: params.limit,
+        sort: params.sort,
+        min_price: params.minPrice,
+        max_price: params.maxPrice,
+        open_now: params.openNow || undefined,
+        fields: params.fields,
+        cursor: params.cursor,
+      },
+      options
+    );
+  }
+
+  getDetails(placeId: string, { fields, ...options }: PlacesDetailsOptions = {}) {
+    return this.client.getVenueDetails(placeId, fields, options);
+  }
+
+  getPhotos(placeId: string, params?: FoursquareListParams, options?: PlacesRequestOptions) {
+    return this.client.getVenuePhotos(placeId, params, options);
+  }
+
+  async getCategories() {
+    return TOP_LEVEL_CATEGORIES;
+  }
+
+  autocomplete(params: FoursquareAutocompleteParams, options?: PlacesRequestOptions) {
+    return this.client.autocomplete(params, options);
+  }
+}
@@ -0,0 +1,262 @@
+/**
+ * Places provider that reads an OpenStreetMap extract
+ *
+ * Works without an API key or network: the app falls back to it in development and tests use it
+ * for deterministic results. OSM elements are converted to the app's Venue shape once, up front.
+ */
+import { FoursquareCategory } from '@/config/foursquare';
+import { type FoursquareListParams } from '@/models/foursquare';
+import { type OsmElement, type OsmExtract } from '@/models/osm';
+import { type Venue, type VenueCategory, type VenuePhoto } from '@/models/venue';
+import { venueMatchesCategories } from '@/utils/categoryTaxonomy';
+import { METERS_PER_MILE } from '@/utils/distanceConstants';
+import { getDistance } from '@/utils/distanceUtils';
+
+import { DEFAULT_SEARCH_RADIUS_METERS, FoursquareError } from './foursquareClient';
+import { type PlacesProvider, type PlacesSearchParams } from './placesProvider';
+
+const ICON_PREFIX = 'https://ss3.4sqi.net/img/categories_v2/';
+
+interface AmenityCategory {
+  name: string;
+  // Foursquare top-level category the amenity belongs to, so existing category filters still apply
+  group: FoursquareCategory;
+  icon: string;
+  // Whether a cuisine makes it a "<Cuisine> Restaurant"
+  servesMeals?: boolean;
+}
+
+const AMENITY_CATEGORIES: Record<string, AmenityCategory> = {
+  restaurant: {
+    name: 'Restaurant',
+    group: FoursquareCategory.Food,
+    icon: 'food/default_',
+    servesMeals: true,
+  },
+  fast_food: {
+    name: 'Fast Food Restaurant',
+    group: FoursquareCategory.Food,
+    icon: 'food/fastfood_',
+    servesMeals: true,
+  },
+  food_court: {
+    name: 'Food Court',
+    group: FoursquareCategory.Food,
+    icon: 'food/foodcourt_',
+    servesMeals: true,
+  },
+  ice_cream: { name: 'Ice Cream Parlor', group: FoursquareCategory.Food, icon: 'food/icecream_' },
+  cafe: { name: 'Café', group: FoursquareCategory.Coffee, icon: 'food/coffeeshop_' },
+  bar: { name: 'Bar', group: FoursquareCategory.Nightlife, icon: 'nightlife/default_' },
+  pub: { name: 'Pub', group: FoursquareCategory.Nightlife, icon: 'nightlife/pub_' },
+  biergarten: {
+    name: 'Beer Garden',
+    group: FoursquareCategory.Nightlife,
+    icon: 'nightlife/beergarden_',
+  },
+  nightclub: {
+    name: 'Night Club',
+    group: FoursquareCategory.Nightlife,
+    icon: 'nightlife/nightclub_',
+  },
+};
+
+// Foursquare categories of OSM cuisines, so Foursquare category and cuisine filters apply
+const CUISINE_CATEGORIES: Record<string, string> = {
+  american: '13068',
+  barbecue: '13026',
+  burger: '13031',
+  chinese: '13099',
+  coffee_shop: '13035',
+  french: '13148',
+  indian: '13199',
+  italian: '13236',
+  japanese: '13263',
+  mexican: '13303',
+  pizza: '13064',
+  ramen: '13272',
+  seafood: '13338',
+  steak_house: '13383',
+  tacos: '13306',
+  'tex-mex': '13303',
+  thai: '13352',
+  vegan: '13377',
+  vegetarian: '13377',
+};
+
+export const LOCAL_PLACE_ID_PREFIX = 'osm-';
+
+const titleCase = (value: string) =>
+  value
+    .split('_')
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
+
+const categoryIcon = (path: string) => ({ prefix: `${ICON_PREFIX}${path}`, suffix: '.png' });
+
+const getCategories = (tags: Record<string, string>): VenueCategory[] => {
+  const amenity = AMENITY_CATEGORIES[tags.amenity];
+  if (!amenity) {
+    return [];
+  }
+  const categories: VenueCategory[] = [];
+  // OSM lists several cuisines separated by semicolons; the first is the main one
+  const cuisine = tags.cuisine?.split(';')[0]?.trim();
+  if (cuisine) {
+    categories.push({
+      id: `osm:cuisine=${cuisine}`,
+      name: amenity.servesMeals ? `${titleCase(cuisine)} Restaurant` : titleCase(cuisine),
+      icon: categoryIcon(amenity.icon),
+      primary: true,
+    });
+  }
+  categories.push({
+    id: `osm:amenity=${tags.amenity}`,
+    name: amenity.name,
+    icon: categoryIcon(amenity.icon),
+    primary: !cuisine,
+  });
+  return categories;
+};
+
+/**
+ * Convert an OSM element to a venue, or null when it is not a named place we know how to show
+ */
+export const osmElementToVenue = (element: OsmElement): Venue | null => {
+  const tags = element.tags ?? {};
+  const latitude = element.lat ?? element.center?.lat;
+  const longitude = element.lon ?? element.center?.lon;
+  const categories = getCategories(tags);
+  if (!tags.name || latitude === undefined || longitude === undefined || categories.length === 0) {
+    return null;
+  }
+
+  const id = `${LOCAL_PLACE_ID_PREFIX}${element.type}-${element.id}`;
+  const address = [tags['addr:housenumber'], tags['addr:street']].filter(Boolean).join(' ');
+  const cityLine = [tags['addr:city'], tags['addr:postcode']].filter(Boolean).join(' ');
+  return {
+    id,
+    fsq_id: id,
+    name: tags.name,
+    categories,
+    location: {
+      address: address || undefined,
+      locality: tags['addr:city'],
+      postalCode: tags['addr:postcode'],
+      formatted_address: [address, cityLine].filter(Boolean).join(', ') || undefined,
+    },
+    geocodes: { main: { latitude, longitude } },
+    hours: tags.opening_hours ? { display: tags.opening_hours } : undefined,
+    tel: tags.phone,
+    website: tags.website,
+  } as Venue;
+};
+
+const matchesQuery = (venue: Venue, query?: string): boolean => {
+  const terms = query?.toLowerCase().split(/\s+/).filter(Boolean) ?? [];
+  if (terms.length === 0) {
+    return true;
+  }
+  const text = [venue.name, ...(venue.categories ?? []).map(category => category.name)]
+    .join(' ')
+    .toLowerCase();
+  return terms.every(term => text.includes(term));
+};
+
+/**
+ * The Foursquare category an OSM category stands for, if any
+ */
+const toFoursquareCategoryId = (categoryId: string): string | undefined => {
+  if (categoryId.startsWith('osm:cuisine=')) {
+    return CUISINE_CATEGORIES[categoryId.slice('osm:cuisine='.length)];
+  }
+  if (categoryId.startsWith('osm:amenity=')) {
+    return AMENITY_CATEGORIES[categoryId.slice('osm:amenity='.length)]?.group;
+  }
+  return undefined;
+};
+
+/**
+ * A venue's categories, with the Foursquare categories its OSM ones stand for added
+ */
+export const withFoursquareCategories = (venue: Venue): Pick<VenueCategory, 'id' | 'name'>[] =>
+  (venue.categories ?? []).flatMap(category => {
+    const id = toFoursquareCategoryId(String(category.id));
+    return id ? [category, { id, name: category.name }] : [category];
+  });
+
+const matchesCategories = (venue: Venue, categoryIds?: string[]): boolean =>
+  !categoryIds ||
+  venueMatchesCategories({ categories: withFoursquareCategories(venue) }, categoryIds);
+
+export class LocalPlacesProvider implements PlacesProvider {
+  readonly name = 'local';
+  private readonly venues: Venue[];
+
+  constructor(extract: OsmExtract) {
+    this.venues = extract.elements
+      .map(osmElementToVenue)
+      .filter((venue): venue is Venue => venue !== null);
+  }
+
+  async search(params: PlacesSearchParams) {
+    const { latitude, longitude } = params.coordinates;
+    const radiusMiles = (params.radius ?? DEFAULT_SEARCH_RADIUS_METERS) / METERS_PER_MILE;
+    const limit = params.limit ?? 20;
+    // Cursors are offsets into the sorted matches
+    const offset = params.cursor ? parseInt(params.cursor, 10) || 0 : 0;
+
+    const matches = this.venues
+      .map(venue => ({
+        venue,
+        miles: getDistance(
+          latitude,
+          longitude,
+          venue.geocodes!.main!.latitude!,
+          venue.geocodes!.main!.longitude!
+        ),
+      }))
+      .filter(
+        ({ venue, miles }) =>
+          miles <= radiusMiles &&
+          matchesQuery(venue, params.query) &&
+          matchesCategories(venue, params.categories)
+      )
+      // OSM has no ratings or popularity, so every sort falls back to distance
+      .sort((a, b) => a.miles - b.miles);
+
+    const page = matches.slice(offset, offset + limit);
+    return {
+      results: page.map(({ venue, miles }) => ({
+        ...venue,
+        distance: Math.round(miles * METERS_PER_MILE),
+      })),
+      totalResults: matches.length,
+      nextCursor: offset + limit < matches.length ? String(offset + limit) : undefined,
+    };
+  }
+
+  async getDetails(placeId: string) {
+    const id = placeId.split('?')[0];
+    const venue = this.venues.find(candidate => candidate.fsq_id === id);
+    if (!venue) {
+      throw new FoursquareError('not_found', 'Place not found', { status: 404 });
+    }
+    return venue;
+  }
+
+  async getPhotos(_placeId: string, _params?: FoursquareListParams): Promise<VenuePhoto[]> {
+    // OSM has no photos
+    return [];
+  }
+
+  async getCategories() {
+    const categories = new Map<string, VenueCategory>();
+    for (const venue of this.venues) {
+      for (const category of venue.categories ?? []) {
+        categories.set(String(category.id), category);
+      }
+    }
+    return [...categories.values()].sort((a, b) => a.name.localeCompare(b.name));
+  }
+}
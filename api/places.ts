@@ -0,0 +1,116 @@
+/**
+ * The places provider the app uses
+ */
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Clipboard from 'expo-clipboard';
+
+import osmAustin from '@/assets/data/osm-austin.json';
+import { type OsmExtract } from '@/models/osm';
+import { FOURSQUARE_API_KEY, FOURSQUARE_FIXTURES, PLACES_PROVIDER } from '@/utils/env';
+
+import {
+  createRecordingFetch,
+  createReplayFetch,
+  emptyResultsFetch,
+  parseFixtureMode,
+  sortRecordings,
+  type RecordedResponse,
+} from './fixtures';
+import { FoursquareClient } from './foursquareClient';
+import { FoursquarePlacesProvider } from './foursquarePlacesProvider';
+import { LocalPlacesProvider } from './localPlacesProvider';
+import { type PlacesProvider } from './placesProvider';
+
+export type PlacesProviderName = 'foursquare' | 'local';
+
+// Responses recorded by the app, kept until they are exported into the recordings file
+const RECORDINGS_STORAGE_KEY = 'dinnafind_foursquare_recordings';
+
+const hasFoursquareKey = !!FOURSQUARE_API_KEY && FOURSQUARE_API_KEY !== 'dev-api-key';
+
+// Look fetch up per call so a global installed after import is still used
+const liveFetch: typeof fetch = (input, init) => fetch(input, init);
+
+export const createPlacesProvider = (name: PlacesProviderName): PlacesProvider =>
+  name === 'local'
+    ? new LocalPlacesProvider(osmAustin as OsmExtract)
+    : new FoursquarePlacesProvider();
+
+/**
+ * Foursquare answered from recorded responses, so it works without a key or network
+ * Requests that were never recorded go to the API when there is a key, and get no results when not.
+ */
+export const createReplayPlacesProvider = (
+  fixtures: Record<string, RecordedResponse>
+): PlacesProvider =>
+  new FoursquarePlacesProvider(
+    new FoursquareClient({
+      apiKey: hasFoursquareKey ? FOURSQUARE_API_KEY : 'replay',
+      fetch: createReplayFetch(fixtures, hasFoursquareKey ? liveFetch : emptyResultsFetch),
+      scheduler: { maxRetries: 0 },
+    })
+  );
+
+/**
+ * Foursquare with every response saved on the device
+ * Call exportFoursquareRecordings() from the debugger to copy them, merged with the existing
+ * recordings, for pasting into __mocks__/fixtures/foursquare-recordings.json.
+ */
+export const createRecordingPlacesProvider = (
+  fixtures: Record<string, RecordedResponse>
+): PlacesProvider => {
+  let recorded: Promise<Record<string, RecordedResponse>> = AsyncStorage.getItem(
+    RECORDINGS_STORAGE_KEY
+  )
+    .then(stored => (stored ? JSON.parse(stored) : {}))
+    .catch(() => ({}));
+
+  const save = async (fixture: RecordedResponse) => {
+    recorded = recorded.then(recordings => ({ ...recordings, [fixture.request]: fixture }));
+    await AsyncStorage.setItem(RECORDINGS_STORAGE_KEY, JSON.stringify(await recorded));
+  };
+
+  (globalThis as any).exportFoursquareRecordings = async () => {
+    const recordings = await recorded;
+    const json = `${JSON.stringify(sortRecordings({ ...fixtures, ...recordings }), null, 2)}\n`;
+    await Clipboard.setStringAsync(json);
+    console.log(
+      `[Places] Copied ${Object.keys(recordings).length} new recordings; paste them into ` +
+        '__mocks__/fixtures/foursquare-recordings.json'
+    );
+    return json;
+  };
+
+  return new FoursquarePlacesProvider(
+    new FoursquareClient({ fetch: createRecordingFetch(liveFetch, save) })
+  );
+};
+
+// An explicit choice wins; otherwise only use Foursquare when there is a key to call it with
+const resolvePlacesProviderName = (): PlacesProviderName => {
+  if (PLACES_PROVIDER === 'foursquare' || PLACES_PROVIDER === 'local') {
+    return PLACES_PROVIDER;
+  }
+  return hasFoursquareKey ? 'foursquare' : 'local';
+};
+
+// Fixtures are a development aid; release builds always use the real provider
+const fixtureMode = __DEV__ ? parseFixtureMode(FOURSQUARE_FIXTURES) : 'off';
+
+const resolvePlacesProvider = (): PlacesProvider => {
+  // Release builds drop this branch, and the recordings with it
+  if (__DEV__ && fixtureMode !== 'off') {
+    const fixtures = require('@/__mocks__/fixtures/foursquare-recordings.json');
+    return fixtureMode === 'replay'
+      ? createReplayPlacesProvider(fixtures)
+      : createRecordingPlacesProvider(fixtures);
+  }
+  return createPlacesProvider(resolvePlacesProviderName());
+};
+
+export const placesProvider = resolvePlacesProvider();
+console.log(
+  `[Places] Using the ${placesProvider.name} places provider` +
+    (fixtureMode === 'replay' ? ' with recorded responses' : '') +
+    (fixtureMode === 'record' ? ', recording responses' : '')
+);
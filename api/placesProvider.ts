@@ -0,0 +1,66 @@
+/**
+ * Places provider abstraction
+ *
+ * Sagas, services and screens talk to a PlacesProvider instead of a specific API, so providers can
+ * be swapped without touching them. Every provider returns venues in the app's Venue shape and
+ * reports failures as FoursquareError kinds, which the UI already knows how to describe.
+ */
+import {
+  type FoursquareAutocompleteParams,
+  type FoursquareAutocompleteResponse,
+  type FoursquareListParams,
+} from '@/models/foursquare';
+import {
+  type Coordinates,
+  type VenueCategory,
+  type VenueDetailsResponse,
+  type VenuePhoto,
+  type VenueSearchParams,
+  type VenueSearchResponse,
+} from '@/models/venue';
+
+export interface PlacesRequestOptions {
+  signal?: AbortSignal;
+}
+
+export interface PlacesDetailsOptions extends PlacesRequestOptions {
+  // Response fields to request, where the provider supports partial responses
+  fields?: string[];
+  // Autocomplete session the place was picked from
+  sessionToken?: string;
+}
+
+export interface PlacesSearchParams {
+  coordinates: Coordinates;
+  query?: string;
+  categories?: string[];
+  radius?: number;
+  limit?: number;
+  sort?: VenueSearchParams['sort'];
+  // Price tiers from 1 (cheapest) to 4; providers without prices ignore them
+  minPrice?: number;
+  maxPrice?: number;
+  openNow?: boolean;
+  // Response fields to request, where the provider supports partial responses
+  fields?: string[];
+  // From a previous response's nextCursor
+  cursor?: string;
+}
+
+export interface PlacesProvider {
+  readonly name: string;
+  search(params: PlacesSearchParams, options?: PlacesRequestOptions): Promise<VenueSearchResponse>;
+  getDetails(placeId: string, options?: PlacesDetailsOptions): Promise<VenueDetailsResponse>;
+  getPhotos(
+    placeId: string,
+    params?: FoursquareListParams,
+    options?: PlacesRequestOptions
+  ): Promise<VenuePhoto[]>;
+  // Top-level categories that can be passed to search
+  getCategories(): Promise<VenueCategory[]>;
+  // Optional: providers without typeahead leave it out
+  autocomplete?(
+    params: FoursquareAutocompleteParams,
+    options?: PlacesRequestOptions
+  ): Promise<FoursquareAutocompleteResponse>;
+}
@@ -0,0 +1,254 @@
+/**
+ * Request scheduler for API calls
+ *
+ * Coalesces identical in-flight requests, caps how many run at once, pauses everything when the
+ * server asks us to back off and retries idempotent requests with jittered exponential backoff.
+ * Each caller can cancel with an AbortSignal; a shared request is only aborted once every caller
+ * waiting on it has cancelled.
+ */
+
+export interface RetryClassification {
+  retryable: boolean;
+  // Delay the server asked for (Retry-After); pauses all queued requests
+  retryAfterMs?: number;
+}
+
+export interface RequestSchedulerOptions {
+  maxConcurrent?: number;
+  // Retries after the first attempt, for idempotent requests only
+  maxRetries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  classifyError?: (error: unknown) => RetryClassification;
+  createAbortError?: () => Error;
+  random?: () => number;
+  now?: () => number;
+}
+
+export interface ScheduleOptions {
+  // Requests with the same key share one in-flight request
+  key?: string;
+  signal?: AbortSignal;
+  // Only idempotent requests are retried
+  idempotent?: boolean;
+}
+
+export const DEFAULT_MAX_CONCURRENT_REQUESTS = 4;
+export const DEFAULT_MAX_RETRIES = 3;
+
+interface InFlightRequest {
+  controller: AbortController;
+  promise: Promise<unknown>;
+  callers: number;
+}
+
+interface QueuedRequest {
+  start: () => void;
+}
+
+const notRetryable = (): RetryClassification => ({ retryable: false });
+
+const defaultAbortError = (): Error => {
+  const error = new Error('Request cancelled');
+  error.name = 'AbortError';
+  return error;
+};
+
+/**
+ * Exponential backoff with full jitter: a random delay up to base * 2^attempt, capped
+ */
+export const getBackoffDelay = (
+  attempt: number,
+  baseDelayMs: number,
+  maxDelayMs: number,
+  random: () => number = Math.random
+): number => Math.round(random() * Math.min(maxDelayMs, baseDelayMs * 2 ** attempt));
+
+export class RequestScheduler {
+  private readonly maxConcurrent: number;
+  private readonly maxRetries: number;
+  private readonly baseDelayMs: number;
+  private readonly maxDelayMs: number;
+  private readonly classifyError: (error: unknown) => RetryClassification;
+  private readonly createAbortError: () => Error;
+  private readonly random: () => number;
+  private readonly now: () => number;
+
+  private active = 0;
+  private queue: QueuedRequest[] = [];
+  private inFlight = new Map<string, InFlightRequest>();
+  // No request starts before this time after a rate-limited response
+  private pausedUntil = 0;
+
+  constructor(options: RequestSchedulerOptions = {}) {
+    this.maxConcurrent = options.maxConcurrent ?? DEFAULT_MAX_CONCURRENT_REQUESTS;
+    this.maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+    this.baseDelayMs = options.baseDelayMs ?? 500;
+    this.maxDelayMs = options.maxDelayMs ?? 30000;
+    this.classifyError = options.classifyError ?? notRetryable;
+    this.createAbortError = options.createAbortError ?? defaultAbortError;
+    this.random = options.random ?? Math.random;
+    this.now = options.now ?? Date.now;
+  }
+
+  /**
+   * Run a request through the scheduler
+   * @param request Performs one attempt; must stop when the given signal aborts
+   */
+  schedule<T>(
+    request: (signal: AbortSignal) => Promise<T>,
+    { key, signal, idempotent = false }: ScheduleOptions = {}
+  ): Promise<T> {
+    if (signal?.aborted) {
+      return Promise.reject(this.createAbortError());
+    }
+
+    let entry = key ? this.inFlight.get(key) : undefined;
+    if (!entry) {
+      const controller = new AbortController();
+      const created: InFlightRequest = {
+        controller,
+        promise: this.run(request, controller.signal, idempotent),
+        callers: 0,
+      };
+      if (key) {
+        this.inFlight.set(key, created);
+        created.promise
+          .catch(() => undefined)
+          .then(() => {
+            if (this.inFlight.get(key) === created) {
+              this.inFlight.delete(key);
+            }
+          });
+      }
+      entry = created;
+    }
+
+    return this.subscribe(entry, key, signal) as Promise<T>;
+  }
+
+  get pendingCount(): number {
+    return this.active + this.queue.length;
+  }
+
+  // Wait for a shared request, leaving it early if this caller's signal aborts
+  private subscribe(entry: InFlightRequest, key?: string, signal?: AbortSignal): Promise<unknown> {
+    entry.callers += 1;
+    return new Promise((resolve, reject) => {
+      let settled = false;
+      const onAbort = () => {
+        if (settled) return;
+        settled = true;
+        entry.callers -= 1;
+        if (entry.callers === 0) {
+          // Nobody is waiting any more: stop the request and let new callers start afresh
+          entry.controller.abort();
+          if (key && this.inFlight.get(key) === entry) {
+            this.inFlight.delete(key);
+          }
+        }
+        reject(this.createAbortError());
+      };
+      signal?.addEventListener('abort', onAbort);
+
+      entry.promise.then(
+        value => {
+          if (settled) return;
+          settled = true;
+          signal?.removeEventListener('abort', onAbort);
+          resolve(value);
+        },
+        error => {
+          if (settled) return;
+          settled = true;
+          signal?.removeEventListener('abort', onAbort);
+          reject(error);
+        }
+      );
+    });
+  }
+
+  private async run<T>(
+    request: (signal: AbortSignal) => Promise<T>,
+    signal: AbortSignal,
+    idempotent: boolean
+  ): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      await this.acquire(signal);
+      let classification: RetryClassification;
+      try {
+        await this.waitUntilResumed(signal);
+        return await request(signal);
+      } catch (error) {
+        if (signal.aborted) {
+          throw this.createAbortError();
+        }
+        classification = this.classifyError(error);
+        if (classification.retryAfterMs !== undefined) {
+          this.pausedUntil = Math.max(this.pausedUntil, this.now() + classification.retryAfterMs);
+        }
+        if (!idempotent || !classification.retryable || attempt >= this.maxRetries) {
+          throw error;
+        }
+      } finally {
+        this.release();
+      }
+
+      const delay =
+        classification.retryAfterMs ??
+        getBackoffDelay(attempt, this.baseDelayMs, this.maxDelayMs, this.random);
+      console.log(`[RequestScheduler] Retrying in ${delay}ms (attempt ${attempt + 2})`);
+      await this.sleep(delay, signal);
+    }
+  }
+
+  private acquire(signal: AbortSignal): Promise<void> {
+    if (this.active < this.maxConcurrent) {
+      this.active += 1;
+      return Promise.resolve();
+    }
+    return new Promise((resolve, reject) => {
+      const queued: QueuedRequest = {
+        start: () => {
+          signal.removeEventListener('abort', onAbort);
+          resolve();
+        },
+      };
+      const onAbort = () => {
+        this.queue = this.queue.filter(item => item !== queued);
+        reject(this.createAbortError());
+      };
+      signal.addEventListener('abort', onAbort);
+      this.queue.push(queued);
+    });
+  }
+
+  private release(): void {
+    const next = this.queue.shift();
+    if (next) {
+      // Hand the slot straight to the next request
+      next.start();
+    } else {
+      this.active -= 1;
+    }
+  }
+
+  private waitUntilResumed(signal: AbortSignal): Promise<void> {
+    const remaining = this.pausedUntil - this.now();
+    return remaining > 0 ? this.sleep(remaining, signal) : Promise.resolve();
+  }
+
+  private sleep(ms: number, signal: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(this.createAbortError());
+      };
+      const timer = setTimeout(() => {
+        signal.removeEventListener('abort', onAbort);
+        resolve();
+      }, ms);
+      signal.addEventListener('abort', onAbort);
+    });
+  }
+}
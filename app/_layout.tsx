@@ -16,6 +16,15 @@ import { useSimpleDeferredLink } from '@/hooks/useSimpleDeferredLink';
 import { useAppInitialization } from '@/hooks/useAppInitialization';
 import { AppErrorBoundary } from '@/components/common/AppErrorBoundary';
 import { LoadingScreen } from '@/components/screens/LoadingScreen';
+import {
+  claimGeofenceNotificationResponse,
+  handleGeofenceNotificationAction,
+  registerGeofenceActionTask,
+  registerGeofenceNotificationCategory,
+} from '@/services/GeofenceNotificationActions';
+import GeofencingService from '@/services/GeofencingService';
+import { VISIT_PROMPT_NOTIFICATION_KIND } from '@/utils/arrivalDetection';
+import { ALERT_BATCH_NOTIFICATION_KIND } from '@/utils/notificationBatching';
 
 export default function RootLayout() {
   return (
@@ -150,9 +159,22 @@ function RootLayoutContent() {
   React.useEffect(() => {
     const navigateFromGeofenceNotification = (data: any) => {
       try {
+        // Grouped "N bucket-list spots nearby" alerts open the map filtered to those venues
+        if (data?.kind === ALERT_BATCH_NOTIFICATION_KIND) {
+          const geofenceIds = (data?.geofenceIds as string[] | undefined) ?? [];
+          router.push({ pathname: '/(tabs)', params: { itemIds: geofenceIds.join(',') } });
+          return;
+        }
+
         const geofenceId = data?.geofenceId as string | undefined;
         if (!geofenceId) return;
 
+        // "Did you eat at X?" prompts open the rating flow
+        if (data?.kind === VISIT_PROMPT_NOTIFICATION_KIND) {
+          router.push({ pathname: '/rate-visit', params: { itemId: geofenceId } });
+          return;
+        }
+
         const state = store.getState();
         const items = state.bucketList?.items || [];
         const matchedItem = items.find((it: any) => it.id === geofenceId);
@@ -171,17 +193,44 @@ function RootLayoutContent() {
       }
     };
 
-    const subscription = Notifications.addNotificationResponseReceivedListener(response => {
-      const data = response?.notification?.request?.content?.data as any;
-      navigateFromGeofenceNotification(data);
-    });
+    const handleResponse = async (response: Notifications.NotificationResponse) => {
+      // The background task or an earlier launch may have handled it already
+      if (!(await claimGeofenceNotificationResponse(response))) {
+        return;
+      }
 
-    // Handle cold start when the app is opened by tapping a notification
-    Notifications.getLastNotificationResponseAsync().then(response => {
+      // Any response means the alert was seen, which resets the ignored-alert back-off
+      const responseData = response?.notification?.request?.content?.data as any;
+      const alertedIds: string[] =
+        responseData?.geofenceIds ?? (responseData?.geofenceId ? [responseData.geofenceId] : []);
+      if (alertedIds.length > 0) {
+        GeofencingService.acknowledgeAlerts(alertedIds);
+      }
+
+      // Action buttons (Directions, Snooze, Mark visited, Mute) are handled without navigating
+      if (response.actionIdentifier !== Notifications.DEFAULT_ACTION_IDENTIFIER) {
+        const handled = await handleGeofenceNotificationAction(response, store.dispatch);
+        if (handled) return;
+      }
       const data = response?.notification?.request?.content?.data as any;
       if (data) {
         navigateFromGeofenceNotification(data);
       }
+    };
+
+    registerGeofenceNotificationCategory();
+    registerGeofenceActionTask();
+
+    const subscription = Notifications.addNotificationResponseReceivedListener(response => {
+      handleResponse(response);
+    });
+
+    // Handle cold start when the app is opened by tapping a notification
+    Notifications.getLastNotificationResponseAsync().then(async response => {
+      if (response) {
+        await handleResponse(response);
+        await Notifications.clearLastNotificationResponseAsync();
+      }
     });
 
     return () => {
@@ -211,6 +260,18 @@ function RootLayoutContent() {
             presentation: 'card',
           }}
         />
+        <Stack.Screen
+          name="categories"
+          options={{
+            presentation: 'card',
+          }}
+        />
+        <Stack.Screen
+          name="rate-visit"
+          options={{
+            presentation: 'modal',
+          }}
+        />
       </Stack>
     </>
   );
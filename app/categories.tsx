@@ -0,0 +1,7 @@
+import React from 'react';
+
+import { CategoryBrowserScreen } from '@/components/screens/CategoryBrowserScreen';
+
+export default function CategoriesPage() {
+  return <CategoryBrowserScreen />;
+}
@@ -0,0 +1,14 @@
+import { useLocalSearchParams } from 'expo-router';
+import React from 'react';
+
+import { RateVisitScreen } from '@/components/screens/RateVisitScreen';
+
+export default function RateVisitPage() {
+  const { itemId } = useLocalSearchParams<{ itemId: string }>();
+
+  if (!itemId) {
+    return null;
+  }
+
+  return <RateVisitScreen itemId={itemId} />;
+}
@@ -1,5 +1,5 @@
 import { Icon, Slider } from '@rneui/themed';
-import React, { useEffect, useRef, useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { checkAllPermissions } from '@/services/PermissionsService';
 import {
   Platform,
@@ -20,27 +20,132 @@ import {
   setMasterNotificationsEnabled,
   selectDistanceMiles,
   setDistanceMiles,
+  selectQuietHours,
+  setQuietHours,
+  selectPriorityScaledRadius,
+  setPriorityScaledRadius,
+  selectNotificationFrequency,
+  setNotificationFrequency,
 } from '@/store/slices/uiSlice';
-import { setNotificationEnabled } from '@/store/slices/bucketListSlice';
+import { setNotificationEnabled, updateBucketListItem } from '@/store/slices/bucketListSlice';
+import {
+  loadGeofenceEvents,
+  selectGeofenceDriftReport,
+  selectGeofenceEvents,
+  summarizeGeofenceVisits,
+} from '@/store/slices/geofencingSlice';
 import { theme } from '@/theme';
+import { clampAlertRadiusMiles, getAlertRadiusMiles } from '@/utils/alertRadius';
+import {
+  COOLDOWN_OPTIONS_MINUTES,
+  DAILY_CAP_OPTIONS,
+  MINUTES_PER_HOUR,
+  VENUE_COOLDOWN_OPTIONS_HOURS,
+  formatCooldown,
+} from '@/utils/notificationFrequency';
+import { QUIET_HOURS_TIME_OPTIONS } from '@/utils/notificationPolicy';
 import { BucketListItem } from '@/models/bucket-list';
+import { type GeofenceBudgetReport, type GeofenceEvent } from '@/models/geofence';
+
+const ONE_WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+// Step used by the per-restaurant radius editor
+const RADIUS_STEP_MILES = 0.25;
+
+// Timeline label and icon for each geofence event type
+const EVENT_DISPLAY: Record<GeofenceEvent['type'], { label: string; icon: string }> = {
+  enter: { label: 'Passed by', icon: 'directions-walk' },
+  exit: { label: 'Left', icon: 'logout' },
+  notified: { label: 'Alerted about', icon: 'notifications-active' },
+  suppressed_cooldown: { label: 'Limited alerts for', icon: 'snooze' },
+  suppressed_policy: { label: 'Held alert for', icon: 'notifications-paused' },
+  arrived: { label: 'Arrived at', icon: 'place' },
+  visit_prompted: { label: 'Asked you to rate', icon: 'rate-review' },
+};
+
+// Format an event time relative to now, e.g. "5m ago" or "3d ago"
+const formatTimeAgo = (timestamp: number): string => {
+  const minutes = Math.floor((Date.now() - timestamp) / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes}m ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h ago`;
+  return `${Math.floor(hours / 24)}d ago`;
+};
+
+// Format a "HH:mm" preference value for display, e.g. "22:00" -> "10:00 PM"
+const formatTimeOfDay = (value: string): string => {
+  const [hours, minutes] = value.split(':').map(Number);
+  const suffix = hours >= 12 ? 'PM' : 'AM';
+  const displayHours = hours % 12 === 0 ? 12 : hours % 12;
+  return `${displayHours}:${String(minutes).padStart(2, '0')} ${suffix}`;
+};
+
+// Compact -/+ control that steps through a fixed list of options
+function OptionStepper<T>({
+  options,
+  value,
+  format,
+  onChange,
+}: {
+  options: T[];
+  value: T;
+  format: (value: T) => string;
+  onChange: (value: T) => void;
+}) {
+  const index = Math.max(0, options.indexOf(value));
+  return (
+    <View style={styles.radiusEditor}>
+      <TouchableOpacity
+        style={styles.radiusButton}
+        disabled={index === 0}
+        onPress={() => onChange(options[index - 1])}
+      >
+        <Icon name="remove" type="material" size={16} color={theme.colors.grey1} />
+      </TouchableOpacity>
+      <Text style={styles.radiusText}>{format(value)}</Text>
+      <TouchableOpacity
+        style={styles.radiusButton}
+        disabled={index === options.length - 1}
+        onPress={() => onChange(options[index + 1])}
+      >
+        <Icon name="add" type="material" size={16} color={theme.colors.grey1} />
+      </TouchableOpacity>
+    </View>
+  );
+}
 
 export function AlertsScreen() {
   const dispatch = useAppDispatch();
   const bucketListItems = useAppSelector(state => state.bucketList.items);
   const masterEnabled = useAppSelector(selectMasterNotificationsEnabled);
   const distanceMiles = useAppSelector(selectDistanceMiles);
+  const quietHours = useAppSelector(selectQuietHours);
+  const priorityScaledRadius = useAppSelector(selectPriorityScaledRadius);
+  const frequency = useAppSelector(selectNotificationFrequency);
+  const geofenceEvents = useAppSelector(selectGeofenceEvents);
+  const driftReport = useAppSelector(selectGeofenceDriftReport);
   const [permissions, setPermissions] = useState({
     location: { foreground: false, background: false },
     notifications: { granted: false },
   });
   const [isPermissionsExpanded, setIsPermissionsExpanded] = useState(false);
   const [sliderValue, setSliderValue] = useState<number>(distanceMiles || 1.25);
-  const isUpdatingRef = useRef(false);
+  const [budgetReport, setBudgetReport] = useState<GeofenceBudgetReport | null>(null);
 
   useEffect(() => {
     checkPermissions();
-  }, []);
+    dispatch(loadGeofenceEvents() as any);
+  }, [dispatch]);
+
+  const weeklySummary = useMemo(
+    () => summarizeGeofenceVisits(geofenceEvents, Date.now() - ONE_WEEK_MS),
+    [geofenceEvents]
+  );
+  const recentEvents = useMemo(() => geofenceEvents.slice(-5).reverse(), [geofenceEvents]);
+
+  useEffect(() => {
+    setBudgetReport(GeofencingService.getBudgetReport());
+  }, [driftReport]);
 
   const checkPermissions = async () => {
     const perms = await checkAllPermissions();
@@ -67,57 +172,27 @@ export function AlertsScreen() {
       await checkPermissions();
     }
 
+    // The geofencing saga re-registers geofences for the new setting
     dispatch(setMasterNotificationsEnabled(value));
+  };
 
-    if (value) {
-      // Master ON: enable all geofences
-      // Clear all existing geofences first
-      await GeofencingService.clearAllGeofences();
-      for (const restaurant of bucketListItems as BucketListItem[]) {
-        if (
-          restaurant.venue?.geocodes?.main?.latitude &&
-          restaurant.venue?.geocodes?.main?.longitude
-        ) {
-          await GeofencingService.addGeofence({
-            id: restaurant.id,
-            name: restaurant.venue.name,
-            latitude: restaurant.venue.geocodes.main.latitude,
-            longitude: restaurant.venue.geocodes.main.longitude,
-            radius: distanceMiles * 1609.34,
-            venueId: restaurant.venue.id,
-          });
-          console.log(`[AlertsScreen] Added geofence for: ${restaurant.venue.name}`);
-        }
-      }
-    } else {
-      // Master OFF: Revert to individual settings
-      await GeofencingService.clearAllGeofences();
-      for (const restaurant of bucketListItems as BucketListItem[]) {
-        if (
-          restaurant.notificationsEnabled &&
-          restaurant.venue?.geocodes?.main?.latitude &&
-          restaurant.venue?.geocodes?.main?.longitude
-        ) {
-          await GeofencingService.addGeofence({
-            id: restaurant.id,
-            name: restaurant.venue.name,
-            latitude: restaurant.venue.geocodes.main.latitude,
-            longitude: restaurant.venue.geocodes.main.longitude,
-            radius: distanceMiles * 1609.34,
-            venueId: restaurant.venue.id,
-          });
-          console.log(`[AlertsScreen] Re-added geofence for: ${restaurant.venue.name}`);
-        }
-      }
-    }
+  // Set or clear (undefined) a restaurant's own alert radius
+  const handleRadiusOverride = (restaurant: BucketListItem, miles: number | undefined) => {
+    const alertRadiusMiles = miles === undefined ? undefined : clampAlertRadiusMiles(miles);
+    dispatch(updateBucketListItem({ id: restaurant.id, updates: { alertRadiusMiles } }) as any);
   };
+
+  // Set or clear (undefined) a restaurant's own alert cooldown
+  const handleCooldownOverride = (restaurant: BucketListItem, hours: number | undefined) => {
+    dispatch(
+      updateBucketListItem({ id: restaurant.id, updates: { alertCooldownHours: hours } }) as any
+    );
+  };
+
   console.log('🔍 Bucket list items:', JSON.stringify(bucketListItems));
 
   const restaurantsWithLocation = bucketListItems.filter((item: BucketListItem) => {
-    return (
-      item.venue?.geocodes?.main?.latitude !== undefined &&
-      item.venue?.geocodes?.main?.longitude !== undefined
-    );
+    return item.venue?.coordinates !== undefined;
   });
   console.log('🔍 Restaurants with location:', restaurantsWithLocation);
 
@@ -170,44 +245,14 @@ export function AlertsScreen() {
             onValueChange={val => {
               setSliderValue(val);
             }}
-            onSlidingComplete={async val => {
+            onSlidingComplete={val => {
               // Prevent redundant updates
               if (Number(val.toFixed(2)) === Number((distanceMiles || 1.25).toFixed(2))) {
                 return;
               }
 
-              // Persist to store
+              // Persist to store; geofences are reconciled once per commit
               dispatch(setDistanceMiles(val));
-
-              // Update geofences once per commit when master is enabled
-              if (masterEnabled) {
-                if (isUpdatingRef.current) return;
-                isUpdatingRef.current = true;
-                try {
-                  await GeofencingService.clearAllGeofences();
-                  for (const restaurant of bucketListItems as BucketListItem[]) {
-                    if (
-                      restaurant.notificationsEnabled &&
-                      restaurant.venue?.geocodes?.main?.latitude &&
-                      restaurant.venue?.geocodes?.main?.longitude
-                    ) {
-                      await GeofencingService.addGeofence({
-                        id: restaurant.id,
-                        name: restaurant.venue.name,
-                        latitude: restaurant.venue.geocodes.main.latitude,
-                        longitude: restaurant.venue.geocodes.main.longitude,
-                        radius: val * 1609.34,
-                        venueId: restaurant.venue.id,
-                      });
-                    }
-                  }
-                  console.log(
-                    `[AlertsScreen] Updated all geofence radii to ${val.toFixed(2)} miles`
-                  );
-                } finally {
-                  isUpdatingRef.current = false;
-                }
-              }
             }}
             minimumValue={0.1}
             maximumValue={10}
@@ -217,8 +262,168 @@ export function AlertsScreen() {
             minimumTrackTintColor={theme.colors.primary}
             maximumTrackTintColor={theme.colors.grey4}
           />
+          <View style={styles.priorityRadiusRow}>
+            <View style={styles.masterToggleText}>
+              <Text style={styles.priorityRadiusTitle}>Scale by priority</Text>
+              <Text style={styles.masterToggleSubtitle}>
+                High priority restaurants alert from farther away
+              </Text>
+            </View>
+            <Switch
+              value={priorityScaledRadius}
+              onValueChange={scaled => {
+                dispatch(setPriorityScaledRadius(scaled));
+              }}
+              trackColor={{
+                false: theme.colors.grey4,
+                true: theme.colors.primary,
+              }}
+              thumbColor={Platform.OS === 'android' ? theme.colors.grey5 : undefined}
+            />
+          </View>
         </View>
 
+        {/* Quiet Hours */}
+        <View style={styles.sliderCard}>
+          <View style={styles.masterToggleContent}>
+            <Icon
+              name="bedtime"
+              type="material"
+              size={24}
+              color={quietHours.enabled ? theme.colors.primary : theme.colors.grey3}
+            />
+            <View style={styles.masterToggleText}>
+              <Text style={styles.masterToggleTitle}>Quiet Hours</Text>
+              <Text style={styles.masterToggleSubtitle}>
+                {`Hold alerts from ${formatTimeOfDay(quietHours.start)} to ${formatTimeOfDay(
+                  quietHours.end
+                )}`}
+              </Text>
+            </View>
+            <Switch
+              value={quietHours.enabled}
+              disabled={!masterEnabled}
+              onValueChange={enabled => {
+                dispatch(setQuietHours({ ...quietHours, enabled }));
+              }}
+              trackColor={{
+                false: theme.colors.grey4,
+                true: theme.colors.primary,
+              }}
+              thumbColor={Platform.OS === 'android' ? theme.colors.grey5 : undefined}
+            />
+          </View>
+          {quietHours.enabled && (
+            <>
+              <View style={styles.frequencyRow}>
+                <Text style={styles.priorityRadiusTitle}>Starts</Text>
+                <OptionStepper
+                  options={QUIET_HOURS_TIME_OPTIONS}
+                  value={quietHours.start}
+                  format={formatTimeOfDay}
+                  onChange={start => {
+                    dispatch(setQuietHours({ ...quietHours, start }));
+                  }}
+                />
+              </View>
+              <View style={styles.frequencyRow}>
+                <Text style={styles.priorityRadiusTitle}>Ends</Text>
+                <OptionStepper
+                  options={QUIET_HOURS_TIME_OPTIONS}
+                  value={quietHours.end}
+                  format={formatTimeOfDay}
+                  onChange={end => {
+                    dispatch(setQuietHours({ ...quietHours, end }));
+                  }}
+                />
+              </View>
+            </>
+          )}
+        </View>
+
+        {/* Alert Frequency */}
+        <View style={styles.sliderCard}>
+          <Text style={styles.sliderLabel}>Alert Frequency</Text>
+          <View style={styles.frequencyRow}>
+            <View style={styles.masterToggleText}>
+              <Text style={styles.priorityRadiusTitle}>Wait between alerts</Text>
+              <Text style={styles.masterToggleSubtitle}>For the same restaurant</Text>
+            </View>
+            <OptionStepper
+              options={COOLDOWN_OPTIONS_MINUTES}
+              value={frequency.cooldownMinutes}
+              format={formatCooldown}
+              onChange={cooldownMinutes => {
+                dispatch(setNotificationFrequency({ ...frequency, cooldownMinutes }));
+              }}
+            />
+          </View>
+          <View style={styles.frequencyRow}>
+            <View style={styles.masterToggleText}>
+              <Text style={styles.priorityRadiusTitle}>Daily limit</Text>
+              <Text style={styles.masterToggleSubtitle}>Across all restaurants</Text>
+            </View>
+            <OptionStepper
+              options={DAILY_CAP_OPTIONS}
+              value={frequency.dailyCap}
+              format={cap => (cap === null ? 'No limit' : `${cap} per day`)}
+              onChange={dailyCap => {
+                dispatch(setNotificationFrequency({ ...frequency, dailyCap }));
+              }}
+            />
+          </View>
+          <View style={styles.priorityRadiusRow}>
+            <View style={styles.masterToggleText}>
+              <Text style={styles.priorityRadiusTitle}>Once a week per place</Text>
+              <Text style={styles.masterToggleSubtitle}>
+                Skip places you pass every day, like on a commute
+              </Text>
+            </View>
+            <Switch
+              value={frequency.oncePerWeekPerVenue}
+              onValueChange={oncePerWeekPerVenue => {
+                dispatch(setNotificationFrequency({ ...frequency, oncePerWeekPerVenue }));
+              }}
+              trackColor={{
+                false: theme.colors.grey4,
+                true: theme.colors.primary,
+              }}
+              thumbColor={Platform.OS === 'android' ? theme.colors.grey5 : undefined}
+            />
+          </View>
+          <View style={styles.priorityRadiusRow}>
+            <View style={styles.masterToggleText}>
+              <Text style={styles.priorityRadiusTitle}>Back off when ignored</Text>
+              <Text style={styles.masterToggleSubtitle}>
+                Each unopened alert doubles the wait for that place
+              </Text>
+            </View>
+            <Switch
+              value={frequency.backoffOnIgnore}
+              onValueChange={backoffOnIgnore => {
+                dispatch(setNotificationFrequency({ ...frequency, backoffOnIgnore }));
+              }}
+              trackColor={{
+                false: theme.colors.grey4,
+                true: theme.colors.primary,
+              }}
+              thumbColor={Platform.OS === 'android' ? theme.colors.grey5 : undefined}
+            />
+          </View>
+        </View>
+
+        {/* Region budget status */}
+        {budgetReport && budgetReport.dormant.length > 0 && (
+          <View style={styles.statusCard}>
+            <Icon name="my-location" type="material" size={20} color={theme.colors.primary} />
+            <Text style={styles.statusText}>
+              {`Watching the ${budgetReport.armed.length} nearest of ${
+                budgetReport.armed.length + budgetReport.dormant.length
+              } restaurants. Others activate as you get closer.`}
+            </Text>
+          </View>
+        )}
+
         {bucketListItems.length === 0 && (
           <View style={styles.emptyStateCard}>
             <Icon name="location-off" type="material" size={48} color={theme.colors.grey3} />
@@ -373,7 +578,7 @@ export function AlertsScreen() {
         )}
 
         {/* Restaurant List */}
-        {bucketListItems.length > 0 && !masterEnabled && (
+        {bucketListItems.length > 0 && masterEnabled && (
           <View style={styles.sectionContainer}>
             <Text style={styles.sectionTitle}>Your Saved Restaurants</Text>
 
@@ -381,71 +586,82 @@ export function AlertsScreen() {
               {restaurantsWithLocation.map((restaurant: BucketListItem) => {
                 // Defensive: ensure id and venue fields are present and valid
 
-                // Defensive: ensure name, address, category are strings (fallback to empty string if not)
-                const name = typeof restaurant.venue.name === 'string' ? restaurant.venue.name : '';
-                const address =
-                  typeof restaurant.venue.address === 'string' ? restaurant.venue.address : '';
-                const category =
-                  typeof restaurant.venue.category === 'string' ? restaurant.venue.category : '';
+                const name = restaurant.venue.name;
+                const address = restaurant.venue.location.formattedAddress ?? '';
+                const category = restaurant.venue.categories[0]?.name ?? '';
 
                 // Use the actual notificationsEnabled state from the bucket list item
                 const isNotificationEnabled = restaurant.notificationsEnabled === true;
+                const radiusMiles = getAlertRadiusMiles(
+                  restaurant,
+                  distanceMiles,
+                  priorityScaledRadius
+                );
+                const hasRadiusOverride = restaurant.alertRadiusMiles !== undefined;
 
                 return (
                   <View key={restaurant.id} style={[styles.restaurantCard]}>
                     <View style={styles.restaurantInfo}>
                       <Text style={[styles.restaurantName]}>{name}</Text>
-                      <Text
-                        style={[
-                          styles.restaurantAddress,
-                          masterEnabled && { color: theme.colors.grey4 }, // Mute text when master is enabled
-                        ]}
-                        numberOfLines={1}
-                      >
+                      <Text style={styles.restaurantAddress} numberOfLines={1}>
                         {address}
                       </Text>
-                      {category ? (
-                        <Text
-                          style={[
-                            styles.restaurantCategory,
-                            masterEnabled && { color: theme.colors.grey4 }, // Mute text when master is enabled
-                          ]}
+                      {category ? <Text style={styles.restaurantCategory}>{category}</Text> : null}
+                      {/* Per-restaurant alert radius */}
+                      <View style={styles.radiusEditor}>
+                        <TouchableOpacity
+                          style={styles.radiusButton}
+                          onPress={() =>
+                            handleRadiusOverride(restaurant, radiusMiles - RADIUS_STEP_MILES)
+                          }
                         >
-                          {category}
+                          <Icon
+                            name="remove"
+                            type="material"
+                            size={16}
+                            color={theme.colors.grey1}
+                          />
+                        </TouchableOpacity>
+                        <Text style={styles.radiusText}>
+                          {`${radiusMiles.toFixed(2)} mi${hasRadiusOverride ? '' : ' (auto)'}`}
                         </Text>
-                      ) : null}
+                        <TouchableOpacity
+                          style={styles.radiusButton}
+                          onPress={() =>
+                            handleRadiusOverride(restaurant, radiusMiles + RADIUS_STEP_MILES)
+                          }
+                        >
+                          <Icon name="add" type="material" size={16} color={theme.colors.grey1} />
+                        </TouchableOpacity>
+                        {hasRadiusOverride && (
+                          <TouchableOpacity
+                            onPress={() => handleRadiusOverride(restaurant, undefined)}
+                          >
+                            <Text style={styles.radiusResetText}>Reset</Text>
+                          </TouchableOpacity>
+                        )}
+                      </View>
+                      {/* Per-restaurant alert cooldown */}
+                      <OptionStepper
+                        options={VENUE_COOLDOWN_OPTIONS_HOURS}
+                        value={restaurant.alertCooldownHours}
+                        format={hours =>
+                          hours === undefined
+                            ? `Every ${formatCooldown(frequency.cooldownMinutes)} (auto)`
+                            : `Every ${formatCooldown(hours * MINUTES_PER_HOUR)}`
+                        }
+                        onChange={hours => handleCooldownOverride(restaurant, hours)}
+                      />
                     </View>
                     <Switch
                       value={isNotificationEnabled}
-                      disabled={masterEnabled} // Individual toggles are disabled when master is ON
-                      onValueChange={async enabled => {
+                      onValueChange={enabled => {
+                        // The geofencing saga adds or removes the venue's geofence
                         dispatch(setNotificationEnabled({ id: restaurant.id as string, enabled }));
-
-                        // Geofence is only managed here when master is OFF
-                        if (!masterEnabled) {
-                          if (enabled) {
-                            if (
-                              restaurant.venue?.geocodes?.main?.latitude &&
-                              restaurant.venue?.geocodes?.main?.longitude
-                            ) {
-                              await GeofencingService.addGeofence({
-                                id: restaurant.id as string,
-                                name,
-                                latitude: restaurant.venue.geocodes.main.latitude,
-                                longitude: restaurant.venue.geocodes.main.longitude,
-                                radius: distanceMiles * 1609.34,
-                              });
-                              console.log(`[AlertsScreen] Enabled geofence for: ${name}`);
-                            }
-                          } else {
-                            await GeofencingService.removeGeofence(restaurant.id as string);
-                            console.log(`[AlertsScreen] Disabled geofence for: ${name}`);
-                          }
-                        }
                       }}
                       trackColor={{
-                        false: masterEnabled ? theme.colors.grey4 : theme.colors.grey4,
-                        true: masterEnabled ? theme.colors.grey3 : theme.colors.primary,
+                        false: theme.colors.grey4,
+                        true: theme.colors.primary,
                       }}
                       thumbColor={Platform.OS === 'android' ? theme.colors.grey5 : undefined}
                     />
@@ -456,6 +672,47 @@ export function AlertsScreen() {
           </View>
         )}
 
+        {/* Timeline */}
+        {geofenceEvents.length > 0 && (
+          <View style={styles.sectionContainer}>
+            <Text style={styles.sectionTitle}>This Week</Text>
+            <View style={styles.timelineCard}>
+              {weeklySummary.length === 0 ? (
+                <Text style={styles.timelineEmptyText}>No saved restaurants passed this week</Text>
+              ) : (
+                weeklySummary.slice(0, 5).map(summary => (
+                  <View key={summary.geofenceId} style={styles.timelineItem}>
+                    <Icon name="place" type="material" size={20} color={theme.colors.primary} />
+                    <Text style={styles.timelineText}>
+                      {`You passed ${summary.name} ${summary.count} ${
+                        summary.count === 1 ? 'time' : 'times'
+                      } this week`}
+                    </Text>
+                  </View>
+                ))
+              )}
+            </View>
+
+            <Text style={[styles.sectionTitle, styles.timelineSubtitle]}>Recent Activity</Text>
+            <View style={styles.timelineCard}>
+              {recentEvents.map(event => (
+                <View key={event.id} style={styles.timelineItem}>
+                  <Icon
+                    name={EVENT_DISPLAY[event.type].icon}
+                    type="material"
+                    size={20}
+                    color={theme.colors.grey2}
+                  />
+                  <Text style={styles.timelineText} numberOfLines={1}>
+                    {`${EVENT_DISPLAY[event.type].label} ${event.name}`}
+                  </Text>
+                  <Text style={styles.timelineTime}>{formatTimeAgo(event.timestamp)}</Text>
+                </View>
+              ))}
+            </View>
+          </View>
+        )}
+
         {/* Info Section */}
         <View style={styles.infoSection}>
           <Text style={styles.infoTitle}>How Location Alerts Work</Text>
@@ -474,6 +731,12 @@ export function AlertsScreen() {
               {`Get notified when you're within ${distanceMiles?.toFixed(2)} miles`}
             </Text>
           </View>
+          <View style={styles.infoItem}>
+            <Icon name="schedule" type="material" size={20} color={theme.colors.grey2} />
+            <Text style={styles.infoText}>
+              Alerts are skipped while a restaurant is closed and held during quiet hours
+            </Text>
+          </View>
           <View style={styles.infoItem}>
             <Icon
               name="battery-charging-full"
@@ -646,6 +909,72 @@ const styles = StyleSheet.create({
     color: theme.colors.primary,
     marginTop: 4,
   },
+  priorityRadiusRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 12,
+  },
+  priorityRadiusTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: theme.colors.backgroundDark,
+  },
+  frequencyRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: 4,
+  },
+  radiusEditor: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  radiusButton: {
+    backgroundColor: theme.colors.grey5,
+    borderRadius: 12,
+    padding: 4,
+  },
+  radiusText: {
+    fontSize: 12,
+    color: theme.colors.grey1,
+    marginHorizontal: 8,
+  },
+  radiusResetText: {
+    fontSize: 12,
+    color: theme.colors.primary,
+    marginLeft: 8,
+  },
+  timelineCard: {
+    backgroundColor: theme.colors.background,
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+  },
+  timelineSubtitle: {
+    marginTop: 16,
+  },
+  timelineItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+  },
+  timelineText: {
+    fontSize: 14,
+    color: theme.colors.grey1,
+    marginLeft: 12,
+    flex: 1,
+  },
+  timelineTime: {
+    fontSize: 12,
+    color: theme.colors.grey3,
+    marginLeft: 8,
+  },
+  timelineEmptyText: {
+    fontSize: 14,
+    color: theme.colors.grey2,
+    paddingVertical: 8,
+  },
   infoSection: {
     backgroundColor: theme.colors.background,
     borderRadius: 12,
@@ -1,5 +1,5 @@
 import type React from 'react';
-import { useEffect, useState } from 'react';
+import { useEffect, useMemo, useState } from 'react';
 
 import {
   ActivityIndicator,
@@ -8,7 +8,9 @@ import {
   Modal,
   Platform,
   SafeAreaView,
+  ScrollView,
   StyleSheet,
+  Switch,
   Text,
   TextInput,
   TouchableOpacity,
@@ -19,14 +21,34 @@ import { Ionicons } from '@expo/vector-icons';
 import { router } from 'expo-router';
 import { useAppDispatch } from '@/store';
 
-import type { BucketListItem } from '@/models/bucket-list';
+import { useBucketListSearch } from '@/hooks/useBucketListSearch';
+import type { BucketListCollection, BucketListItem } from '@/models/bucket-list';
 import { useAppSelector } from '@/store';
 import {
+  addItemToCollection,
+  createCollection,
+  deleteCollection,
   fetchBucketList,
   markAsVisited,
   removeFromBucketList,
+  removeItemFromCollection,
+  renameCollection,
+  reorderCollections,
+  selectBucketListFilters,
+  selectCollections,
+  selectFilteredBucketListItems,
+  setCollectionGeofencingEnabled,
+  setFilters,
   updateBucketListItem,
 } from '@/store/slices/bucketListSlice';
+import {
+  type BucketListSearchField,
+  type BucketListSearchResult,
+  getHighlightSegments,
+  getSearchableFields,
+} from '@/utils/bucketListSearch';
+import { getVenueCategories } from '@/utils/categoryTaxonomy';
+import { MAX_COLLECTION_NAME_LENGTH, moveCollection } from '@/utils/collections';
 
 // Color palette
 const COLORS = {
@@ -36,27 +58,50 @@ const COLORS = {
   text: '#333333',
   textLight: '#666666',
   border: '#E0E0E0',
+  highlight: '#FFF3B0',
 };
 
 // Priority options for bucket list items
 const PRIORITY_OPTIONS = ['high', 'medium', 'low', 'none'];
 
+// Fields that are not on the card, shown when a search matched them
+const EXTRA_MATCH_FIELDS: { field: BucketListSearchField; label: string }[] = [
+  { field: 'neighborhood', label: 'Neighborhood' },
+  { field: 'review', label: 'Review' },
+];
+
+type SearchMatches = BucketListSearchResult['matches'];
+
+// Text with the words a search matched highlighted, for use inside a <Text>
+const renderHighlighted = (text: string, words?: string[]) =>
+  getHighlightSegments(text, words).map((segment, index) =>
+    segment.highlighted ? (
+      <Text key={index} style={styles.highlightedText}>
+        {segment.text}
+      </Text>
+    ) : (
+      segment.text
+    )
+  );
+
 /**
  * Edit Modal Component for inline editing of bucket list items
  */
 interface EditModalProps {
   item: BucketListItem | null;
+  collections: BucketListCollection[];
   visible: boolean;
   onClose: () => void;
   onSave: (updatedItem: BucketListItem) => void;
 }
 
-const EditModal: React.FC<EditModalProps> = ({ item, visible, onClose, onSave }) => {
+const EditModal: React.FC<EditModalProps> = ({ item, collections, visible, onClose, onSave }) => {
   // State for form fields - initialized with empty values
   const [notes, setNotes] = useState<string>('');
   const [priority, setPriority] = useState<string>('none');
   const [tags, setTags] = useState<string>('');
   const [plannedDate, setPlannedDate] = useState<string>('');
+  const [collectionIds, setCollectionIds] = useState<string[]>([]);
 
   // Reset form when item changes
   useEffect(() => {
@@ -67,9 +112,18 @@ const EditModal: React.FC<EditModalProps> = ({ item, visible, onClose, onSave })
       setPlannedDate(
         item.plannedVisitDate ? new Date(item.plannedVisitDate).toISOString().split('T')[0] : ''
       );
+      setCollectionIds(item.collectionIds ?? []);
     }
   }, [item]);
 
+  const toggleCollection = (collectionId: string) => {
+    setCollectionIds(current =>
+      current.includes(collectionId)
+        ? current.filter(id => id !== collectionId)
+        : [...current, collectionId]
+    );
+  };
+
   // Handle saving the edited item
   const handleSave = () => {
     if (!item) return;
@@ -87,6 +141,7 @@ const EditModal: React.FC<EditModalProps> = ({ item, visible, onClose, onSave })
       priority: priority === 'none' ? undefined : (priority as 'high' | 'medium' | 'low'),
       tags: tagsList,
       plannedVisitDate: plannedDate ? new Date(plannedDate).getTime() : undefined,
+      collectionIds,
     };
 
     onSave(updatedItem);
@@ -177,6 +232,33 @@ const EditModal: React.FC<EditModalProps> = ({ item, visible, onClose, onSave })
             />
           </View>
 
+          {collections.length > 0 && (
+            <View style={styles.formGroup}>
+              <Text style={styles.formLabel}>Lists</Text>
+              <View style={styles.collectionOptions}>
+                {collections.map(collection => {
+                  const selected = collectionIds.includes(collection.id);
+                  return (
+                    <TouchableOpacity
+                      key={collection.id}
+                      style={[styles.categoryChip, selected && styles.categoryChipSelected]}
+                      onPress={() => toggleCollection(collection.id)}
+                    >
+                      <Text
+                        style={[
+                          styles.categoryChipText,
+                          selected && styles.categoryChipTextSelected,
+                        ]}
+                      >
+                        {collection.name}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+            </View>
+          )}
+
           <View style={styles.buttonContainer}>
             <TouchableOpacity style={styles.cancelButton} onPress={onClose}>
               <Text style={styles.cancelButtonText}>Cancel</Text>
@@ -191,15 +273,186 @@ const EditModal: React.FC<EditModalProps> = ({ item, visible, onClose, onSave })
   );
 };
 
+/**
+ * Collections Modal Component for creating, renaming, ordering and deleting lists
+ */
+interface CollectionsModalProps {
+  collections: BucketListCollection[];
+  visible: boolean;
+  onClose: () => void;
+  onCreate: (name: string) => void;
+  onRename: (id: string, name: string) => void;
+  onMove: (id: string, offset: -1 | 1) => void;
+  onToggleGeofencing: (id: string, enabled: boolean) => void;
+  onDelete: (collection: BucketListCollection) => void;
+}
+
+const CollectionsModal: React.FC<CollectionsModalProps> = ({
+  collections,
+  visible,
+  onClose,
+  onCreate,
+  onRename,
+  onMove,
+  onToggleGeofencing,
+  onDelete,
+}) => {
+  const [newName, setNewName] = useState<string>('');
+  // Names being edited, by collection id
+  const [names, setNames] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    if (visible) {
+      setNewName('');
+      setNames({});
+    }
+  }, [visible]);
+
+  const handleCreate = () => {
+    if (newName.trim()) {
+      onCreate(newName);
+      setNewName('');
+    }
+  };
+
+  const handleRename = (collection: BucketListCollection) => {
+    const name = names[collection.id]?.trim();
+    if (name && name !== collection.name) {
+      onRename(collection.id, name);
+    } else {
+      setNames(({ [collection.id]: _, ...rest }) => rest);
+    }
+  };
+
+  return (
+    <Modal transparent animationType="slide" visible={visible} onRequestClose={onClose}>
+      <View style={styles.modalOverlay}>
+        <View style={styles.modalContainer}>
+          <View style={styles.modalHeader}>
+            <Text style={styles.modalTitle}>My Lists</Text>
+            <TouchableOpacity style={styles.closeButton} onPress={onClose}>
+              <Ionicons color="#333333" name="close" size={24} />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView style={styles.collectionList}>
+            {collections.map((collection, index) => (
+              <View key={collection.id} style={styles.collectionRow}>
+                <TextInput
+                  maxLength={MAX_COLLECTION_NAME_LENGTH}
+                  style={[styles.textInput, styles.collectionNameInput]}
+                  value={names[collection.id] ?? collection.name}
+                  onChangeText={text =>
+                    setNames(current => ({ ...current, [collection.id]: text }))
+                  }
+                  onEndEditing={() => handleRename(collection)}
+                />
+                <TouchableOpacity
+                  disabled={index === 0}
+                  hitSlop={{ top: 10, bottom: 10, left: 4, right: 4 }}
+                  onPress={() => onMove(collection.id, -1)}
+                >
+                  <Ionicons
+                    color={index === 0 ? COLORS.border : COLORS.textLight}
+                    name="chevron-up"
+                    size={20}
+                  />
+                </TouchableOpacity>
+                <TouchableOpacity
+                  disabled={index === collections.length - 1}
+                  hitSlop={{ top: 10, bottom: 10, left: 4, right: 4 }}
+                  onPress={() => onMove(collection.id, 1)}
+                >
+                  <Ionicons
+                    color={index === collections.length - 1 ? COLORS.border : COLORS.textLight}
+                    name="chevron-down"
+                    size={20}
+                  />
+                </TouchableOpacity>
+                <Ionicons
+                  color={collection.geofencingEnabled ? COLORS.saved : COLORS.textLight}
+                  name={collection.geofencingEnabled ? 'notifications' : 'notifications-off'}
+                  size={16}
+                />
+                <Switch
+                  value={collection.geofencingEnabled}
+                  onValueChange={enabled => onToggleGeofencing(collection.id, enabled)}
+                />
+                <TouchableOpacity
+                  hitSlop={{ top: 10, bottom: 10, left: 4, right: 4 }}
+                  onPress={() => onDelete(collection)}
+                >
+                  <Ionicons color={COLORS.primary} name="trash-outline" size={18} />
+                </TouchableOpacity>
+              </View>
+            ))}
+            {collections.length === 0 && (
+              <Text style={styles.collectionHint}>
+                Group your saved places into lists like Date night or Tokyo trip.
+              </Text>
+            )}
+          </ScrollView>
+
+          <View style={styles.collectionRow}>
+            <TextInput
+              maxLength={MAX_COLLECTION_NAME_LENGTH}
+              placeholder="New list name"
+              returnKeyType="done"
+              style={[styles.textInput, styles.collectionNameInput]}
+              value={newName}
+              onChangeText={setNewName}
+              onSubmitEditing={handleCreate}
+            />
+            <TouchableOpacity
+              disabled={!newName.trim()}
+              style={styles.addCollectionButton}
+              onPress={handleCreate}
+            >
+              <Text style={styles.saveButtonText}>Add</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
 export const BucketListScreen: React.FC = () => {
   const dispatch = useAppDispatch();
   const bucketListItems = useAppSelector(state => state.bucketList.items);
   const loading = useAppSelector(state => state.bucketList.loading);
   const error = useAppSelector(state => state.bucketList.error);
+  const filters = useAppSelector(selectBucketListFilters);
+  const filteredItems = useAppSelector(selectFilteredBucketListItems);
+  const selectedCategories = filters.categories ?? [];
+  const collections = useAppSelector(selectCollections);
+  const activeCollection = collections.find(({ id }) => id === filters.collectionId);
+  const searchTerm = filters.searchTerm ?? '';
+  const searchResults = useBucketListSearch(bucketListItems, searchTerm);
+
+  // Search results in rank order, narrowed by the other filters
+  const { listItems, searchMatches } = useMemo(() => {
+    if (!searchResults) {
+      return { listItems: filteredItems, searchMatches: new Map<string, SearchMatches>() };
+    }
+    const filteredIds = new Set(filteredItems.map(item => item.id));
+    const results = searchResults.filter(result => filteredIds.has(result.item.id));
+    return {
+      listItems: results.map(result => result.item),
+      searchMatches: new Map(results.map(result => [result.item.id, result.matches])),
+    };
+  }, [filteredItems, searchResults]);
+
+  // Categories of the saved venues, offered as filters
+  const categoryOptions = useMemo(
+    () => getVenueCategories(bucketListItems.map(item => item.venue)),
+    [bucketListItems]
+  );
 
   // State for edit modal
   const [editModalVisible, setEditModalVisible] = useState<boolean>(false);
   const [currentEditItem, setCurrentEditItem] = useState<BucketListItem | null>(null);
+  const [collectionsModalVisible, setCollectionsModalVisible] = useState<boolean>(false);
 
   // Fetch bucket list on mount
   useEffect(() => {
@@ -270,6 +523,45 @@ export const BucketListScreen: React.FC = () => {
     });
   };
 
+  const selectCollection = (collectionId?: string) => {
+    dispatch(setFilters({ ...filters, collectionId }));
+  };
+
+  const handleDeleteCollection = (collection: BucketListCollection) => {
+    Alert.alert(
+      'Delete List',
+      `Delete ${collection.name}? The places in it stay in your bucket list.`,
+      [
+        {
+          text: 'Cancel',
+          style: 'cancel',
+        },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: () => {
+            dispatch(deleteCollection(collection.id));
+          },
+        },
+      ]
+    );
+  };
+
+  const handleSearchChange = (text: string) => {
+    dispatch(setFilters({ ...filters, searchTerm: text }));
+  };
+
+  const toggleCategory = (categoryId: string) => {
+    dispatch(
+      setFilters({
+        ...filters,
+        categories: selectedCategories.includes(categoryId)
+          ? selectedCategories.filter(id => id !== categoryId)
+          : [...selectedCategories, categoryId],
+      })
+    );
+  };
+
   // Handle editing an item
   const handleEditItem = (item: BucketListItem) => {
     setCurrentEditItem(item);
@@ -278,6 +570,19 @@ export const BucketListScreen: React.FC = () => {
 
   // Handle saving edited item
   const handleSaveEdit = (updatedItem: BucketListItem) => {
+    const previousIds = currentEditItem?.collectionIds ?? [];
+    const nextIds = updatedItem.collectionIds ?? [];
+    nextIds
+      .filter(id => !previousIds.includes(id))
+      .forEach(collectionId =>
+        dispatch(addItemToCollection({ itemId: updatedItem.id, collectionId }))
+      );
+    previousIds
+      .filter(id => !nextIds.includes(id))
+      .forEach(collectionId =>
+        dispatch(removeItemFromCollection({ itemId: updatedItem.id, collectionId }))
+      );
+
     dispatch(
       updateBucketListItem({
         id: updatedItem.id,
@@ -301,6 +606,8 @@ export const BucketListScreen: React.FC = () => {
 
   const renderBucketListItem = ({ item, index }: { item: BucketListItem; index: number }) => {
     const isVisited = !!item.visitedAt;
+    const matches = searchMatches.get(item.id) ?? {};
+    const extraMatches = EXTRA_MATCH_FIELDS.filter(({ field }) => matches[field]);
 
     return (
       <TouchableOpacity
@@ -312,14 +619,14 @@ export const BucketListScreen: React.FC = () => {
         <View style={styles.itemContent}>
           {/* Venue Image/Icon */}
           <View style={styles.imageContainer}>
-            {item.venue.photo ? (
+            {item.venue.heroImageUrl ? (
               <View style={styles.placeholderImage}>
                 <Ionicons color={COLORS.textLight} name="restaurant" size={24} />
               </View>
             ) : (
               // <Image
               //   key={item.fsq_id}
-              //   source={{ uri: item.venue.photo }}
+              //   source={{ uri: item.venue.heroImageUrl }}
               //   style={styles.venueImage}
               // />
               <View style={styles.placeholderImage}>
@@ -352,19 +659,18 @@ export const BucketListScreen: React.FC = () => {
           {/* Venue Details */}
           <View style={styles.detailsContainer}>
             <Text numberOfLines={1} style={[styles.venueName, isVisited && styles.visitedText]}>
-              {item.venue.name}
+              {renderHighlighted(item.venue.name, matches.name)}
             </Text>
             <Text numberOfLines={1} style={styles.venueCategory}>
-              {item.venue.categories && item.venue.categories.length > 0
-                ? item.venue.categories[0].name
-                : item.venue.category || 'Restaurant'}
+              {renderHighlighted(
+                item.venue.categories[0]?.name || 'Restaurant',
+                matches.categories
+              )}
             </Text>
             <Text numberOfLines={2} style={styles.venueAddress}>
-              {item.venue.location?.formatted_address ||
-                item.venue.location?.formattedAddress ||
-                item.venue.location?.address ||
-                item.venue.address ||
-                'Address not available'}
+              {item.venue.location.formattedAddress
+                ? renderHighlighted(item.venue.location.formattedAddress, matches.address)
+                : 'Address not available'}
             </Text>
 
             {/* Rating and visited status */}
@@ -400,7 +706,7 @@ export const BucketListScreen: React.FC = () => {
               <View style={styles.tagsContainer}>
                 {item.tags.slice(0, 3).map((tag, index) => (
                   <View key={`${item.id}-tag-${index}`} style={styles.tagBadge}>
-                    <Text style={styles.tagText}>{tag}</Text>
+                    <Text style={styles.tagText}>{renderHighlighted(tag, matches.tags)}</Text>
                   </View>
                 ))}
                 {item.tags.length > 3 && (
@@ -413,9 +719,16 @@ export const BucketListScreen: React.FC = () => {
             {item.notes && (
               <Text numberOfLines={1} style={styles.notesText}>
                 <Ionicons color={COLORS.textLight} name="document-text-outline" size={10} />{' '}
-                {item.notes}
+                {renderHighlighted(item.notes, matches.notes)}
               </Text>
             )}
+
+            {/* Search matches in fields not shown above */}
+            {extraMatches.map(({ field, label }) => (
+              <Text key={field} numberOfLines={1} style={styles.matchText}>
+                {label}: {renderHighlighted(getSearchableFields(item)[field], matches[field])}
+              </Text>
+            ))}
           </View>
 
           {/* Actions */}
@@ -471,6 +784,18 @@ export const BucketListScreen: React.FC = () => {
     </View>
   );
 
+  const renderNoMatches = () => (
+    <View style={styles.emptyContainer}>
+      <Text style={styles.emptyDescription}>
+        {searchTerm.trim()
+          ? `No saved venues match "${searchTerm.trim()}".`
+          : activeCollection && selectedCategories.length === 0
+          ? `Nothing in ${activeCollection.name} yet. Edit a saved place to add it to this list.`
+          : 'No saved venues in the selected categories.'}
+      </Text>
+    </View>
+  );
+
   // If we're fetching data for the first time, show loading indicator
   if (loading && bucketListItems.length === 0) {
     return (
@@ -520,12 +845,107 @@ export const BucketListScreen: React.FC = () => {
         </View>
       </View>
 
+      {/* List switcher */}
+      <ScrollView
+        horizontal
+        contentContainerStyle={styles.categoryRowContent}
+        showsHorizontalScrollIndicator={false}
+        style={styles.categoryRow}
+      >
+        <TouchableOpacity
+          style={[styles.categoryChip, !activeCollection && styles.categoryChipSelected]}
+          onPress={() => selectCollection(undefined)}
+        >
+          <Text
+            style={[styles.categoryChipText, !activeCollection && styles.categoryChipTextSelected]}
+          >
+            All
+          </Text>
+        </TouchableOpacity>
+        {collections.map(collection => {
+          const selected = activeCollection?.id === collection.id;
+          return (
+            <TouchableOpacity
+              key={collection.id}
+              style={[styles.categoryChip, selected && styles.categoryChipSelected]}
+              onPress={() => selectCollection(collection.id)}
+            >
+              <Text style={[styles.categoryChipText, selected && styles.categoryChipTextSelected]}>
+                {collection.name}
+                {/* Alerts are off for this list */}
+                {!collection.geofencingEnabled && (
+                  <>
+                    {' '}
+                    <Ionicons
+                      color={selected ? COLORS.background : COLORS.textLight}
+                      name="notifications-off-outline"
+                      size={12}
+                    />
+                  </>
+                )}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+        <TouchableOpacity
+          style={styles.categoryChip}
+          onPress={() => setCollectionsModalVisible(true)}
+        >
+          <Ionicons color={COLORS.text} name="list" size={16} />
+        </TouchableOpacity>
+      </ScrollView>
+
+      {/* Search */}
+      {bucketListItems.length > 0 && (
+        <View style={styles.searchBar}>
+          <Ionicons color={COLORS.textLight} name="search" size={18} />
+          <TextInput
+            autoCapitalize="none"
+            autoCorrect={false}
+            clearButtonMode="while-editing"
+            placeholder="Search names, notes, tags..."
+            placeholderTextColor={COLORS.textLight}
+            returnKeyType="search"
+            style={styles.searchInput}
+            value={searchTerm}
+            onChangeText={handleSearchChange}
+          />
+        </View>
+      )}
+
+      {/* Category filters */}
+      {categoryOptions.length > 1 && (
+        <ScrollView
+          horizontal
+          contentContainerStyle={styles.categoryRowContent}
+          showsHorizontalScrollIndicator={false}
+          style={styles.categoryRow}
+        >
+          {categoryOptions.map(category => {
+            const selected = selectedCategories.includes(category.id);
+            return (
+              <TouchableOpacity
+                key={category.id}
+                style={[styles.categoryChip, selected && styles.categoryChipSelected]}
+                onPress={() => toggleCategory(category.id)}
+              >
+                <Text
+                  style={[styles.categoryChipText, selected && styles.categoryChipTextSelected]}
+                >
+                  {category.name}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </ScrollView>
+      )}
+
       {/* Bucket List */}
       <FlatList
         contentContainerStyle={styles.listContainer}
-        data={bucketListItems}
+        data={listItems}
         keyExtractor={(item, index) => item.fsq_id + index.toString()}
-        ListEmptyComponent={renderEmptyList}
+        ListEmptyComponent={bucketListItems.length > 0 ? renderNoMatches : renderEmptyList}
         refreshing={loading}
         renderItem={renderBucketListItem}
         showsVerticalScrollIndicator={false}
@@ -534,11 +954,28 @@ export const BucketListScreen: React.FC = () => {
 
       {/* Edit Modal */}
       <EditModal
+        collections={collections}
         item={currentEditItem}
         visible={editModalVisible}
         onClose={handleCloseEditModal}
         onSave={handleSaveEdit}
       />
+
+      {/* Collections Modal */}
+      <CollectionsModal
+        collections={collections}
+        visible={collectionsModalVisible}
+        onClose={() => setCollectionsModalVisible(false)}
+        onCreate={name => dispatch(createCollection(name))}
+        onDelete={handleDeleteCollection}
+        onMove={(id, offset) =>
+          dispatch(reorderCollections(moveCollection(collections, id, offset)))
+        }
+        onRename={(id, name) => dispatch(renameCollection({ id, name }))}
+        onToggleGeofencing={(id, enabled) =>
+          dispatch(setCollectionGeofencingEnabled({ id, enabled }))
+        }
+      />
     </SafeAreaView>
   );
 };
@@ -576,10 +1013,62 @@ const styles = StyleSheet.create({
     color: COLORS.saved,
     marginLeft: 4,
   },
+  searchBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginHorizontal: 16,
+    marginTop: 8,
+    paddingHorizontal: 12,
+    borderRadius: 8,
+    backgroundColor: '#F5F5F5',
+  },
+  searchInput: {
+    flex: 1,
+    paddingVertical: 8,
+    marginLeft: 8,
+    fontSize: 14,
+    color: COLORS.text,
+  },
+  highlightedText: {
+    backgroundColor: COLORS.highlight,
+  },
+  matchText: {
+    fontSize: 11,
+    color: COLORS.textLight,
+    marginTop: 4,
+  },
   listContainer: {
     padding: 16,
     flexGrow: 1,
   },
+  categoryRow: {
+    flexGrow: 0,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.border,
+  },
+  categoryRowContent: {
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    gap: 8,
+  },
+  categoryChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+  },
+  categoryChipSelected: {
+    backgroundColor: COLORS.primary,
+    borderColor: COLORS.primary,
+  },
+  categoryChipText: {
+    fontSize: 13,
+    color: COLORS.text,
+  },
+  categoryChipTextSelected: {
+    color: COLORS.background,
+  },
   loadingContainer: {
     flex: 1,
     justifyContent: 'center',
@@ -952,6 +1441,36 @@ const styles = StyleSheet.create({
     backgroundColor: '#4CAF50',
     borderRadius: 8,
   },
+  collectionOptions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  collectionList: {
+    maxHeight: 320,
+    marginBottom: 12,
+  },
+  collectionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 10,
+  },
+  collectionNameInput: {
+    flex: 1,
+  },
+  collectionHint: {
+    fontSize: 14,
+    color: COLORS.textLight,
+    textAlign: 'center',
+    paddingVertical: 12,
+  },
+  addCollectionButton: {
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    backgroundColor: COLORS.saved,
+    borderRadius: 8,
+  },
   saveButtonText: {
     color: '#FFFFFF',
     fontWeight: 'bold',
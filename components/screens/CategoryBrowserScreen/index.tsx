@@ -0,0 +1,210 @@
+import type React from 'react';
+import { useState } from 'react';
+
+import {
+  FlatList,
+  Image,
+  SafeAreaView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+
+import { Ionicons } from '@expo/vector-icons';
+import { router } from 'expo-router';
+
+import { type FoursquareCategoryNode } from '@/models/foursquare';
+import { useAppDispatch, useAppSelector } from '@/store';
+import { selectDefaultCategories, setDefaultCategories } from '@/store/slices/uiSlice';
+import { selectSearchFilters, setSearchFilters } from '@/store/slices/venuesSlice';
+import { CATEGORY_TAXONOMY, findCategory, getCategoryIconUrl } from '@/utils/categoryTaxonomy';
+
+// Color palette
+const COLORS = {
+  primary: '#FF4500',
+  star: '#FFB300',
+  background: '#FFFFFF',
+  text: '#333333',
+  textLight: '#666666',
+  border: '#E0E0E0',
+};
+
+const DEFAULT_ICON = require('@/assets/images/default_88.png');
+
+/**
+ * Browse the Foursquare category tree
+ * Each category can start a search scoped to it, or be starred as a default search category
+ */
+export const CategoryBrowserScreen: React.FC = () => {
+  const dispatch = useAppDispatch();
+  const filters = useAppSelector(selectSearchFilters);
+  const defaultCategories = useAppSelector(selectDefaultCategories);
+
+  // Ids of the categories opened so far, from the top of the tree down
+  const [path, setPath] = useState<string[]>([]);
+  const current = path.length > 0 ? findCategory(path[path.length - 1]) : undefined;
+  const categories = current ? current.children ?? [] : CATEGORY_TAXONOMY.categories;
+
+  const close = () => {
+    if (router.canGoBack()) {
+      router.back();
+    } else {
+      router.replace('/(tabs)/search');
+    }
+  };
+
+  const handleBack = () => {
+    if (path.length > 0) {
+      setPath(path.slice(0, -1));
+    } else {
+      close();
+    }
+  };
+
+  const searchCategory = (category: FoursquareCategoryNode) => {
+    dispatch(setSearchFilters({ ...filters, cuisines: [category.id] }));
+    router.navigate('/(tabs)/search');
+  };
+
+  const toggleDefault = (category: FoursquareCategoryNode) => {
+    dispatch(
+      setDefaultCategories(
+        defaultCategories.includes(category.id)
+          ? defaultCategories.filter(id => id !== category.id)
+          : [...defaultCategories, category.id]
+      )
+    );
+  };
+
+  const renderCategory = ({ item: category }: { item: FoursquareCategoryNode }) => {
+    const isDefault = defaultCategories.includes(category.id);
+    const hasChildren = !!category.children?.length;
+
+    return (
+      <TouchableOpacity
+        style={styles.categoryRow}
+        onPress={() => (hasChildren ? setPath([...path, category.id]) : searchCategory(category))}
+      >
+        <Image
+          defaultSource={DEFAULT_ICON}
+          source={{ uri: getCategoryIconUrl(category, 64) }}
+          style={styles.categoryIcon}
+        />
+        <View style={styles.categoryContent}>
+          <Text style={styles.categoryName}>{category.name}</Text>
+          {hasChildren && (
+            <Text style={styles.categoryCount}>{category.children!.length} categories</Text>
+          )}
+        </View>
+        <TouchableOpacity
+          hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+          style={styles.rowButton}
+          onPress={() => toggleDefault(category)}
+        >
+          <Ionicons
+            color={isDefault ? COLORS.star : COLORS.textLight}
+            name={isDefault ? 'star' : 'star-outline'}
+            size={20}
+          />
+        </TouchableOpacity>
+        {hasChildren && (
+          <TouchableOpacity
+            hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+            style={styles.rowButton}
+            onPress={() => searchCategory(category)}
+          >
+            <Ionicons color={COLORS.primary} name="search" size={20} />
+          </TouchableOpacity>
+        )}
+        {hasChildren && <Ionicons color={COLORS.textLight} name="chevron-forward" size={20} />}
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={handleBack}>
+          <Ionicons color={COLORS.text} name="chevron-back" size={24} />
+        </TouchableOpacity>
+        <Text numberOfLines={1} style={styles.headerTitle}>
+          {current?.name ?? 'Categories'}
+        </Text>
+      </View>
+      <Text style={styles.hint}>
+        Tap a category to search it. Starred categories are searched by default.
+      </Text>
+      <FlatList
+        contentContainerStyle={styles.listContainer}
+        data={categories}
+        keyExtractor={category => category.id}
+        renderItem={renderCategory}
+      />
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 8,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.border,
+  },
+  backButton: {
+    padding: 8,
+  },
+  headerTitle: {
+    flex: 1,
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: COLORS.text,
+  },
+  hint: {
+    fontSize: 13,
+    color: COLORS.textLight,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+  },
+  listContainer: {
+    paddingBottom: 24,
+  },
+  categoryRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.border,
+  },
+  categoryIcon: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    backgroundColor: COLORS.primary,
+  },
+  categoryContent: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  categoryName: {
+    fontSize: 16,
+    color: COLORS.text,
+  },
+  categoryCount: {
+    fontSize: 12,
+    color: COLORS.textLight,
+    marginTop: 2,
+  },
+  rowButton: {
+    padding: 6,
+    marginLeft: 4,
+  },
+});
@@ -21,14 +21,19 @@ import { Ionicons } from '@expo/vector-icons';
 import { router, useLocalSearchParams } from 'expo-router';
 import MapView, { Marker } from 'react-native-maps';
 import { useDispatch } from 'react-redux';
-import { foursquareV3Service } from '@/api/foursquareV3';
+import { describeFoursquareError } from '@/api/foursquareClient';
 import { useAppSelector } from '@/store';
 import { addToBucketList, fetchBucketList } from '@/store/slices/bucketListSlice';
+import { venueViewed } from '@/store/slices/searchHistorySlice';
+import { selectNetworkStatus } from '@/store/slices/uiSlice';
 import { AnyAction } from 'redux';
 
-import { getVenueDetails, StandardizedVenueDetails } from '@/api/venueDetailsService';
+import { getVenueDetails } from '@/api/venueDetailsService';
+import { toRecentVenue } from '@/utils/searchHistory';
+import { normalizeVenue } from '@/utils/venueModel';
 
 import type { BucketListItem } from '@/models/bucket-list';
+import type { CanonicalVenue } from '@/models/venue';
 
 // Get screen dimensions
 const { width: SCREEN_WIDTH } = Dimensions.get('window');
@@ -36,60 +41,32 @@ const { width: SCREEN_WIDTH } = Dimensions.get('window');
 // Default icon for when venue doesn't have photos - using the highest resolution
 const DEFAULT_ICON = 'https://ss3.4sqi.net/img/categories_v2/food/default_512.png';
 
-// Update VenueDetails interface to make rating optional
-interface VenueDetails {
-  fsq_id: string;
-  name: string;
-  geocodes?: {
-    main?: {
-      latitude?: number;
-      longitude?: number;
-    };
-  };
-  location: {
-    formatted_address?: string;
-    address?: string;
-    locality?: string;
-    region?: string;
-    postcode?: string;
-    country?: string;
-  };
-  photos?: {
-    id: string;
-    created_at?: string;
-    prefix?: string;
-    suffix?: string;
-    width?: number;
-    height?: number;
-    classifications?: string[];
-  }[];
-  rating?: number;
-  iconUrl?: string;
-  categories?: any[];
-}
-
 export const DetailScreen: React.FC = () => {
   const params = useLocalSearchParams();
   const iconPrefix = typeof params.iconPrefix === 'string' ? params.iconPrefix : undefined;
   const iconSuffix = typeof params.iconSuffix === 'string' ? params.iconSuffix : undefined;
+  // Set when opened from a search suggestion; the details call closes that autocomplete session
+  const sessionToken = typeof params.sessionToken === 'string' ? params.sessionToken : undefined;
 
   const dispatch = useDispatch();
 
   // State for venue details
-  const [venueDetails, setVenueDetails] = useState<VenueDetails | null>(null);
+  const [venueDetails, setVenueDetails] = useState<CanonicalVenue | null>(null);
   const [isLoadingDetails, setIsLoadingDetails] = useState(false);
   const [detailsError, setDetailsError] = useState<string | null>(null);
 
   // Add these state variables at the top if not already present
-  const [basicVenueData, setBasicVenueData] = useState<any>(null);
+  const [basicVenueData, setBasicVenueData] = useState<CanonicalVenue | null>(null);
   const [isLoadingBasicData, setIsLoadingBasicData] = useState(false);
   const [imageLoaded, setImageLoaded] = useState(false);
   const [autoSaveTriggered, setAutoSaveTriggered] = useState(false);
 
   // Get saved venues to check if this one is already saved (normalize IDs)
   const savedVenues = useAppSelector(state => state.bucketList.items) as BucketListItem[];
+  // Offline we only show venues from the cache instead of attempting a request
+  const offline = useAppSelector(selectNetworkStatus) === 'offline';
   let savedVenue: BucketListItem | undefined = undefined;
-  const venueId = venueDetails?.fsq_id || basicVenueData?.id;
+  const venueId = venueDetails?.id || basicVenueData?.id;
   if (venueId) {
     savedVenue = savedVenues.find((item: import('@/models/bucket-list').BucketListItem) => {
       const itemId = typeof item.id === 'string' ? item.id.split('?')[0] : undefined;
@@ -109,24 +86,16 @@ export const DetailScreen: React.FC = () => {
     iconUrl = `${iconPrefix}88${iconSuffix}`;
   } else if (venueDetails?.iconUrl) {
     iconUrl = venueDetails.iconUrl;
-  } else if (
-    venueDetails?.categories &&
-    venueDetails.categories.length > 0 &&
-    venueDetails.categories[0].icon &&
-    venueDetails.categories[0].icon.prefix &&
-    venueDetails.categories[0].icon.suffix
-  ) {
-    iconUrl = `${venueDetails.categories[0].icon.prefix}88${venueDetails.categories[0].icon.suffix}`;
   }
 
   // Parse the venue data from various sources
-  let venue = null;
+  let venue: CanonicalVenue | null = null;
 
   // Priority 1: Check Redux store
   if (params.data) {
     try {
       const decodedData = decodeURIComponent(params.data as string);
-      venue = JSON.parse(decodedData);
+      venue = normalizeVenue(JSON.parse(decodedData));
       console.log('Using decoded venue data from URL params:', venue);
     } catch (error) {
       console.error('Error parsing encoded venue data:', error);
@@ -135,7 +104,9 @@ export const DetailScreen: React.FC = () => {
   // Priority 3: Try to parse from itemData param
   else if (params.itemData) {
     try {
-      venue = typeof params.itemData === 'string' ? JSON.parse(params.itemData) : params.itemData;
+      venue = normalizeVenue(
+        typeof params.itemData === 'string' ? JSON.parse(params.itemData) : params.itemData
+      );
       console.log('Using itemData param');
     } catch (error) {
       console.error('Error parsing venue data:', error);
@@ -157,25 +128,16 @@ export const DetailScreen: React.FC = () => {
         setIsLoadingBasicData(true);
         try {
           console.log('Fetching venue data for ID:', params.venueId);
-          const details = await foursquareV3Service.getPlacesDetails(params.venueId as string);
-
-          if (details) {
-            // Create a basic venue object from the details
-            const basicVenue = {
-              id: details.fsq_id,
-              fsq_id: details.fsq_id,
-              name: details.name,
-              categories: details.categories || [],
-              location: details.location,
-              geocodes: details.geocodes,
-              referralId: details.fsq_id,
-            };
-            setBasicVenueData(basicVenue);
-            setVenueDetails(details);
-          }
+          const details = await getVenueDetails(params.venueId as string, {
+            offline,
+            sessionToken,
+          });
+
+          setBasicVenueData(details);
+          setVenueDetails(details);
         } catch (error) {
           console.error('Error fetching basic venue data:', error);
-          setDetailsError('Failed to load venue information');
+          setDetailsError(describeFoursquareError(error, 'Failed to load venue information'));
         } finally {
           setIsLoadingBasicData(false);
         }
@@ -192,7 +154,7 @@ export const DetailScreen: React.FC = () => {
       }
 
       // Skip if we already have venue details
-      if (venueDetails && venueDetails.fsq_id === venueId) {
+      if (venueDetails && venueDetails.id === venueId) {
         return;
       }
 
@@ -201,20 +163,12 @@ export const DetailScreen: React.FC = () => {
 
       try {
         console.log('Fetching venue details for ID:', venueId);
-        const details = await getVenueDetails(venueId);
-
-        if (details) {
-          const venueDetailsObj = {
-            ...details,
-            iconUrl,
-          };
-          setVenueDetails(venueDetailsObj);
-        } else {
-          setDetailsError('Failed to fetch venue details');
-        }
+        const details = await getVenueDetails(venueId, { offline });
+
+        setVenueDetails({ ...details, iconUrl });
       } catch (error) {
         console.error('Error fetching venue details:', error);
-        setDetailsError('Failed to load venue details');
+        setDetailsError(describeFoursquareError(error, 'Failed to load venue details'));
       } finally {
         setIsLoadingDetails(false);
       }
@@ -223,6 +177,14 @@ export const DetailScreen: React.FC = () => {
     fetchVenueData();
   }, [iconUrl, venueId]);
 
+  // Remember the venue for the search screen's recently viewed list
+  useEffect(() => {
+    if (venueDetails) {
+      dispatch(venueViewed(toRecentVenue(venueDetails)));
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [venueDetails?.id, dispatch]);
+
   // Auto-save logic: if autoSave param is true and not already saved, save after details load
   useEffect(() => {
     if (params.autoSave === 'true' && !isVenueSaved && venueDetails && !autoSaveTriggered) {
@@ -283,17 +245,12 @@ export const DetailScreen: React.FC = () => {
   const venueName = (venueDetails?.name || venue.name) ?? 'Restaurant';
 
   // Handle category - could be in categories array or single category field
-  const venueCategory =
-    venue.categories && venue.categories.length > 0
-      ? venue.categories[0].name
-      : venue.category ?? 'Restaurant';
+  const venueCategory = venue.categories[0]?.name ?? 'Restaurant';
 
   // Handle address - prioritize venue details, then fallback to basic venue data
   const venueAddress =
-    (venueDetails?.location?.formatted_address ||
-      venue.location?.formattedAddress ||
-      venue.location?.formatted_address ||
-      venue.address) ??
+    venueDetails?.location.formattedAddress ||
+    venue.location.formattedAddress ||
     'Address not available';
 
   const getHeroImageUrl = () => {
@@ -306,15 +263,10 @@ export const DetailScreen: React.FC = () => {
     }
 
     // Fallback to category icon
-    if (
-      venue.categories &&
-      venue.categories.length > 0 &&
-      venue.categories[0].icon &&
-      venue.categories[0].icon.prefix &&
-      venue.categories[0].icon.suffix
-    ) {
+    const icon = venue.categories[0]?.icon;
+    if (icon?.prefix && icon.suffix) {
       // Use the highest resolution icon (512px)
-      return `${venue.categories[0].icon.prefix}512${venue.categories[0].icon.suffix}`;
+      return `${icon.prefix}512${icon.suffix}`;
     }
 
     return DEFAULT_ICON;
@@ -344,17 +296,10 @@ export const DetailScreen: React.FC = () => {
 
   // Handle opening maps for directions
   const handleGetDirections = () => {
-    // Check for coordinates in different possible locations, prioritize venue details
-    const lat =
-      venueDetails?.geocodes?.main?.latitude ||
-      venue.location?.lat ||
-      venue.coordinates?.latitude ||
-      venue.geocodes?.main?.latitude;
-    const lng =
-      venueDetails?.geocodes?.main?.longitude ||
-      venue.location?.lng ||
-      venue.coordinates?.longitude ||
-      venue.geocodes?.main?.longitude;
+    // Prioritize venue details
+    const coordinates = venueDetails?.coordinates ?? venue.coordinates;
+    const lat = coordinates?.latitude;
+    const lng = coordinates?.longitude;
 
     if (lat && lng) {
       const url = Platform.select({
@@ -378,7 +323,7 @@ export const DetailScreen: React.FC = () => {
 
   // Handle sharing the venue
   const handleShareVenue = async () => {
-    const deepLink = `dinnafind://restaurant/${venueDetails?.fsq_id}?autoSave=true`;
+    const deepLink = `dinnafind://restaurant/${venueDetails?.id}?autoSave=true`;
     const message = `Check out ${venueName} - ${venueCategory}\n${venueAddress}\n\nSave to your bucket list: ${deepLink}`;
     try {
       await Share.share({
@@ -456,16 +401,9 @@ export const DetailScreen: React.FC = () => {
 
           {/* Map section if coordinates are available */}
           {(() => {
-            const lat =
-              venueDetails?.geocodes?.main?.latitude ||
-              venue.location?.lat ||
-              venue.coordinates?.latitude ||
-              venue.geocodes?.main?.latitude;
-            const lng =
-              venueDetails?.geocodes?.main?.longitude ||
-              venue.location?.lng ||
-              venue.coordinates?.longitude ||
-              venue.geocodes?.main?.longitude;
+            const coordinates = venueDetails?.coordinates ?? venue.coordinates;
+            const lat = coordinates?.latitude;
+            const lng = coordinates?.longitude;
 
             if (lat && lng) {
               return (
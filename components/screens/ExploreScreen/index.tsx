@@ -1,20 +1,85 @@
-import React, { useRef, useEffect } from 'react';
-import { View, Text, StyleSheet, SafeAreaView, TouchableOpacity, Dimensions } from 'react-native';
-import MapView, { Marker, type Region } from 'react-native-maps';
+import React, { useRef, useEffect, useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  SafeAreaView,
+  TouchableOpacity,
+  Dimensions,
+  ActivityIndicator,
+} from 'react-native';
+import MapView, { Callout, Marker, type Region } from 'react-native-maps';
 import { Ionicons } from '@expo/vector-icons';
-import { router } from 'expo-router';
+import { router, useLocalSearchParams } from 'expo-router';
+import { placesProvider } from '@/api/places';
+import { FoursquareCategory } from '@/config/foursquare';
 import { useGeolocation } from '@/hooks/useGeolocation';
 import { useAppSelector, useAppDispatch } from '@/hooks/redux';
-import { selectBucketListItems, fetchBucketList } from '@/store/slices/bucketListSlice';
+import {
+  selectBucketListItems,
+  fetchBucketList,
+  addToBucketList,
+} from '@/store/slices/bucketListSlice';
+import { selectDefaultCategories } from '@/store/slices/uiSlice';
 import { type BucketListItem } from '@/models/bucket-list';
+import { type CanonicalVenue, type Venue } from '@/models/venue';
 import { LocationPermissionRequest } from '@/components/common/LocationPermissionRequest';
 import { LocationStatus } from '@/components/common/LocationStatus';
+import {
+  getRegionBounds,
+  getSearchArea,
+  hasRegionMoved,
+  isWithinBounds,
+  type RegionBounds,
+} from '@/utils/mapRegion';
+import { appendUniqueVenues } from '@/utils/venuePagination';
+import { normalizeVenue } from '@/utils/venueModel';
+
+// Results per page for "Search this area"; the most the Places API returns at once
+const AREA_PAGE_LIMIT = 50;
+
+// The area the listed results came from, repeated with the cursor to load more
+interface AreaSearch {
+  region: Region;
+  bounds: RegionBounds;
+  nextCursor?: string;
+}
+
+// Search results with coordinates inside the searched area, as canonical venues
+const toAreaVenues = (results: Venue[], bounds: RegionBounds): CanonicalVenue[] =>
+  results.flatMap(result => {
+    try {
+      const venue = normalizeVenue(result);
+      return venue.coordinates && isWithinBounds(venue.coordinates, bounds) ? [venue] : [];
+    } catch (error) {
+      console.warn('🗺️ ExploreScreen: Skipping invalid search result:', error);
+      return [];
+    }
+  });
 
 export const ExploreScreen: React.FC = () => {
   const { coordinates, permissionGranted, permissionChecked, requestLocation } = useGeolocation();
-  const bucketListItems = useAppSelector(selectBucketListItems) as BucketListItem[];
+  const allBucketListItems = useAppSelector(selectBucketListItems) as BucketListItem[];
+  const defaultCategories = useAppSelector(selectDefaultCategories);
   const dispatch = useAppDispatch();
 
+  // "Search this area": the visible region, the last area searched and its results
+  const [region, setRegion] = useState<Region | null>(null);
+  const [areaSearch, setAreaSearch] = useState<AreaSearch | null>(null);
+  const [areaVenues, setAreaVenues] = useState<CanonicalVenue[]>([]);
+  const [searchingArea, setSearchingArea] = useState(false);
+
+  // Grouped geofence alerts open the map showing only the venues they listed
+  const { itemIds } = useLocalSearchParams<{ itemIds?: string }>();
+  const filterIds = useMemo(() => (itemIds ? itemIds.split(',').filter(Boolean) : []), [itemIds]);
+  const bucketListItems = useMemo(
+    () =>
+      filterIds.length > 0
+        ? allBucketListItems.filter(item => filterIds.includes(item.id))
+        : allBucketListItems,
+    [allBucketListItems, filterIds]
+  );
+
   // Fetch bucket list on mount
   useEffect(() => {
     dispatch(fetchBucketList() as any);
@@ -45,6 +110,9 @@ export const ExploreScreen: React.FC = () => {
   const mapRef = useRef<MapView>(null);
 
   useEffect(() => {
+    if (filterIds.length > 0) {
+      return;
+    }
     if (coordinates && mapRef.current) {
       const region: Region = {
         latitude: coordinates.latitude,
@@ -54,55 +122,81 @@ export const ExploreScreen: React.FC = () => {
       };
       mapRef.current.animateToRegion(region, 1000);
     }
-  }, [coordinates]);
+  }, [coordinates, filterIds]);
 
-  // Helper function to get coordinates from bucket list item
-  const getItemCoordinates = (item: BucketListItem) => {
-    console.log(`🗺️ Getting coordinates for ${item.venue.name}:`, {
-      coordinates: item.venue.coordinates,
-      geocodes: item.venue.geocodes,
-      location: item.venue.location,
-    });
-
-    // Try coordinates first
-    if (
-      item.venue.coordinates &&
-      typeof item.venue.coordinates.latitude === 'number' &&
-      typeof item.venue.coordinates.longitude === 'number'
-    ) {
-      return item.venue.coordinates;
-    }
+  // Saved venues already have their own markers
+  const unsavedAreaVenues = useMemo(() => {
+    const savedIds = new Set(allBucketListItems.map(item => item.venue.id));
+    return areaVenues.filter(venue => !savedIds.has(venue.id));
+  }, [allBucketListItems, areaVenues]);
 
-    // Try geocodes
-    if (
-      item.venue.geocodes?.main?.latitude &&
-      item.venue.geocodes?.main?.longitude &&
-      typeof item.venue.geocodes.main.latitude === 'number' &&
-      typeof item.venue.geocodes.main.longitude === 'number'
-    ) {
-      return {
-        latitude: item.venue.geocodes.main.latitude,
-        longitude: item.venue.geocodes.main.longitude,
-      };
+  const canSearchArea =
+    !!region && (!areaSearch || hasRegionMoved(areaSearch.region, region)) && !searchingArea;
+  const canLoadMoreArea =
+    !!areaSearch?.nextCursor &&
+    !searchingArea &&
+    !!region &&
+    !hasRegionMoved(areaSearch.region, region);
+
+  const searchArea = async (cursor?: string) => {
+    const searchRegion = cursor && areaSearch ? areaSearch.region : region;
+    if (!searchRegion) {
+      return;
     }
+    const { center, radius } = getSearchArea(searchRegion);
+    const bounds = getRegionBounds(searchRegion);
 
-    // Try location lat/lng
-    if (
-      item.venue.location?.lat &&
-      item.venue.location?.lng &&
-      typeof item.venue.location.lat === 'number' &&
-      typeof item.venue.location.lng === 'number'
-    ) {
-      return {
-        latitude: item.venue.location.lat,
-        longitude: item.venue.location.lng,
-      };
+    setSearchingArea(true);
+    try {
+      const data = await placesProvider.search({
+        coordinates: center,
+        radius,
+        categories: defaultCategories.length > 0 ? defaultCategories : [FoursquareCategory.Food],
+        limit: AREA_PAGE_LIMIT,
+        cursor,
+      });
+      const venues = toAreaVenues(data.results, bounds);
+      setAreaVenues(current => (cursor ? appendUniqueVenues(current, venues) : venues));
+      setAreaSearch({ region: searchRegion, bounds, nextCursor: data.nextCursor });
+    } catch (error) {
+      console.error('🗺️ ExploreScreen: Error searching this area:', error);
+    } finally {
+      setSearchingArea(false);
     }
+  };
 
-    console.log(`❌ No valid coordinates found for ${item.venue.name}`);
-    return null;
+  const saveAreaVenue = (venue: CanonicalVenue) => {
+    dispatch(addToBucketList(venue) as any);
   };
 
+  // Helper function to get coordinates from bucket list item
+  const getItemCoordinates = (item: BucketListItem) => {
+    if (!item.venue.coordinates) {
+      console.log(`❌ No valid coordinates found for ${item.venue.name}`);
+      return null;
+    }
+    return item.venue.coordinates;
+  };
+
+  // Fit the map to the filtered venues and the user
+  useEffect(() => {
+    if (filterIds.length === 0 || !mapRef.current) {
+      return;
+    }
+    const points = bucketListItems
+      .map(getItemCoordinates)
+      .filter((point): point is { latitude: number; longitude: number } => point !== null);
+    if (coordinates) {
+      points.push(coordinates);
+    }
+    if (points.length > 0) {
+      mapRef.current.fitToCoordinates(points, {
+        edgePadding: { top: 60, right: 60, bottom: 60, left: 60 },
+        animated: true,
+      });
+    }
+  }, [bucketListItems, coordinates, filterIds]);
+
   // Show location permission request only if permission is not granted AND we've checked permissions
   if (!permissionGranted && permissionChecked) {
     return <LocationPermissionRequest onRequestLocation={requestLocation} />;
@@ -130,6 +224,7 @@ export const ExploreScreen: React.FC = () => {
             initialRegion={initialRegion}
             showsUserLocation={true}
             showsMyLocationButton={true}
+            onRegionChangeComplete={setRegion}
           >
             {/* User location marker (optional, since showsUserLocation is true) */}
             <Marker coordinate={coordinates} title="You are here" pinColor="blue" />
@@ -146,11 +241,29 @@ export const ExploreScreen: React.FC = () => {
                   key={item.id}
                   coordinate={itemCoordinates}
                   title={item.venue.name}
-                  description={item.venue.address || item.venue.location?.formattedAddress}
+                  description={item.venue.location.formattedAddress}
                   pinColor="red"
                 />
               ) : null;
             })}
+            {/* Unsaved venues from "Search this area" */}
+            {unsavedAreaVenues.map(venue => (
+              <Marker key={`area-${venue.id}`} coordinate={venue.coordinates!} pinColor="gold">
+                <Callout onPress={() => saveAreaVenue(venue)}>
+                  <View style={styles.callout}>
+                    <Text numberOfLines={1} style={styles.calloutTitle}>
+                      {venue.name}
+                    </Text>
+                    {venue.categories[0] && (
+                      <Text numberOfLines={1} style={styles.calloutSubtitle}>
+                        {venue.categories[0].name}
+                      </Text>
+                    )}
+                    <Text style={styles.calloutAction}>Tap to save to bucket list</Text>
+                  </View>
+                </Callout>
+              </Marker>
+            ))}
           </MapView>
         ) : (
           <View style={styles.mapPlaceholder}>
@@ -158,8 +271,37 @@ export const ExploreScreen: React.FC = () => {
             <Text style={styles.mapPlaceholderText}>Loading map...</Text>
           </View>
         )}
+        {coordinates &&
+          filterIds.length === 0 &&
+          (canSearchArea || canLoadMoreArea || searchingArea) && (
+            <TouchableOpacity
+              disabled={searchingArea}
+              style={styles.searchAreaButton}
+              onPress={() => searchArea(canSearchArea ? undefined : areaSearch?.nextCursor)}
+            >
+              {searchingArea ? (
+                <ActivityIndicator color="#FF4500" size="small" />
+              ) : (
+                <Text style={styles.searchAreaText}>
+                  {canSearchArea ? 'Search this area' : 'More results here'}
+                </Text>
+              )}
+            </TouchableOpacity>
+          )}
       </View>
 
+      {filterIds.length > 0 && (
+        <View style={styles.filterBanner}>
+          <Text style={styles.filterBannerText}>
+            Showing {bucketListItems.length} nearby bucket-list{' '}
+            {bucketListItems.length === 1 ? 'spot' : 'spots'}
+          </Text>
+          <TouchableOpacity onPress={() => router.setParams({ itemIds: '' })}>
+            <Text style={styles.filterBannerAction}>Show all</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
       <View style={styles.content}>
         <Ionicons color="#CCCCCC" name="map-outline" size={64} />
         <Text style={styles.title}>Explore Restaurants</Text>
@@ -194,6 +336,64 @@ const styles = StyleSheet.create({
     width: '100%',
     height: '100%',
   },
+  searchAreaButton: {
+    position: 'absolute',
+    top: 12,
+    alignSelf: 'center',
+    minWidth: 160,
+    alignItems: 'center',
+    backgroundColor: '#FFFFFF',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 20,
+    shadowColor: '#000000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.2,
+    shadowRadius: 3,
+    elevation: 3,
+  },
+  searchAreaText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#FF4500',
+  },
+  callout: {
+    maxWidth: 220,
+    padding: 4,
+  },
+  calloutTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#333333',
+  },
+  calloutSubtitle: {
+    fontSize: 13,
+    color: '#666666',
+    marginTop: 2,
+  },
+  calloutAction: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#FF4500',
+    marginTop: 6,
+  },
+  filterBanner: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    backgroundColor: '#FFF1EB',
+  },
+  filterBannerText: {
+    fontSize: 14,
+    color: '#333333',
+  },
+  filterBannerAction: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#FF4500',
+  },
   content: {
     flex: 1,
     justifyContent: 'center',
@@ -0,0 +1,202 @@
+import type React from 'react';
+import { useState } from 'react';
+
+import {
+  ActivityIndicator,
+  Alert,
+  SafeAreaView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+
+import { Ionicons } from '@expo/vector-icons';
+import { router } from 'expo-router';
+
+import { useAppDispatch, useAppSelector } from '@/store';
+import { markAsVisited } from '@/store/slices/bucketListSlice';
+
+// Color palette
+const COLORS = {
+  primary: '#FF4500',
+  star: '#FFB300',
+  background: '#FFFFFF',
+  text: '#333333',
+  textLight: '#666666',
+  border: '#DDDDDD',
+};
+
+const RATING_OPTIONS = [1, 2, 3, 4, 5];
+
+interface RateVisitScreenProps {
+  itemId: string;
+}
+
+/**
+ * Rating flow opened from the "Did you eat at X?" notification
+ * Marks the bucket list item visited with the user's rating and review
+ */
+export const RateVisitScreen: React.FC<RateVisitScreenProps> = ({ itemId }) => {
+  const dispatch = useAppDispatch();
+  const item = useAppSelector(state => state.bucketList.items.find(it => it.id === itemId));
+
+  const [rating, setRating] = useState<number>(item?.userRating ?? 0);
+  const [review, setReview] = useState<string>(item?.review ?? '');
+  const [saving, setSaving] = useState<boolean>(false);
+
+  const close = () => {
+    if (router.canGoBack()) {
+      router.back();
+    } else {
+      router.replace('/(tabs)/bucket-list');
+    }
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      await dispatch(
+        markAsVisited({
+          id: itemId,
+          rating: rating > 0 ? rating : undefined,
+          review: review.trim() || undefined,
+        }) as any
+      ).unwrap();
+      close();
+    } catch (error) {
+      console.error('[RateVisitScreen] Failed to mark as visited:', error);
+      Alert.alert('Error', 'Could not save your visit. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!item) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.content}>
+          <Text style={styles.subtitle}>This restaurant is no longer on your bucket list.</Text>
+          <TouchableOpacity style={styles.secondaryButton} onPress={close}>
+            <Text style={styles.secondaryButtonText}>Close</Text>
+          </TouchableOpacity>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.content}>
+        <Text style={styles.title}>Did you eat at {item.venue.name}?</Text>
+        <Text style={styles.subtitle}>Rate it to mark it visited on your bucket list.</Text>
+
+        <View style={styles.starRow}>
+          {RATING_OPTIONS.map(value => (
+            <TouchableOpacity key={value} onPress={() => setRating(value)}>
+              <Ionicons
+                color={value <= rating ? COLORS.star : COLORS.border}
+                name={value <= rating ? 'star' : 'star-outline'}
+                size={40}
+              />
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        <TextInput
+          multiline
+          numberOfLines={4}
+          placeholder="What did you think?"
+          style={styles.textInput}
+          value={review}
+          onChangeText={setReview}
+        />
+
+        <TouchableOpacity
+          disabled={saving}
+          style={[styles.primaryButton, saving && styles.disabledButton]}
+          onPress={handleSave}
+        >
+          {saving ? (
+            <ActivityIndicator color={COLORS.background} />
+          ) : (
+            <Text style={styles.primaryButtonText}>Mark Visited</Text>
+          )}
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.secondaryButton} onPress={close}>
+          <Text style={styles.secondaryButtonText}>Not this time</Text>
+        </TouchableOpacity>
+      </View>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.background,
+  },
+  content: {
+    flex: 1,
+    justifyContent: 'center',
+    padding: 24,
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: COLORS.text,
+    textAlign: 'center',
+    marginBottom: 8,
+  },
+  subtitle: {
+    fontSize: 14,
+    color: COLORS.textLight,
+    textAlign: 'center',
+    marginBottom: 24,
+  },
+  starRow: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    gap: 8,
+    marginBottom: 24,
+  },
+  textInput: {
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    fontSize: 14,
+    color: COLORS.text,
+    backgroundColor: '#F9F9F9',
+    minHeight: 96,
+    textAlignVertical: 'top',
+    marginBottom: 24,
+  },
+  primaryButton: {
+    backgroundColor: COLORS.primary,
+    paddingVertical: 14,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  disabledButton: {
+    opacity: 0.6,
+  },
+  primaryButtonText: {
+    color: COLORS.background,
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  secondaryButton: {
+    paddingVertical: 14,
+    alignItems: 'center',
+  },
+  secondaryButtonText: {
+    color: COLORS.textLight,
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
+
+export default RateVisitScreen;
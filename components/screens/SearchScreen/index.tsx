@@ -1,12 +1,16 @@
 import type React from 'react';
-import { useCallback, useEffect, useState } from 'react';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import {
   ActivityIndicator,
+  Alert,
   FlatList,
   Image,
+  Modal,
   Platform,
   SafeAreaView,
+  ScrollView,
   StyleSheet,
+  Switch,
   Text,
   TextInput,
   TouchableOpacity,
@@ -16,10 +20,46 @@ import {
 import { Ionicons } from '@expo/vector-icons';
 import { router } from 'expo-router';
 
-import { foursquareService } from '@/api/foursquare';
-import { type Coordinates, type Venue } from '@/models/venue';
+import { AutocompleteSession } from '@/api/autocompleteSession';
+import { placesProvider } from '@/api/places';
+import { type Coordinates, type SearchFilters, type Venue } from '@/models/venue';
 import { FoursquareCategory } from '@/config/foursquare';
 import { useGeolocation } from '@/hooks/useGeolocation';
+import { type BucketListItem } from '@/models/bucket-list';
+import { type FoursquareAutocompleteResult } from '@/models/foursquare';
+import { type SavedSearch, type SearchHistoryEntry } from '@/models/search';
+import { useAppDispatch, useAppSelector } from '@/store';
+import {
+  clearSearchHistory,
+  deleteSavedSearch,
+  saveSearch,
+  searchRecorded,
+  selectRecentVenues,
+  selectSavedSearches,
+  selectSearchHistory,
+} from '@/store/slices/searchHistorySlice';
+import { selectDefaultCategories } from '@/store/slices/uiSlice';
+import {
+  loadMoreSearchResults,
+  searchVenues,
+  selectSearchFilters,
+  selectVenueSearch,
+  setSearchFilters,
+  type SearchVenuesRequest,
+} from '@/store/slices/venuesSlice';
+import {
+  CUISINE_OPTIONS,
+  DEFAULT_SEARCH_FILTERS,
+  formatPriceTier,
+  getFilterChips,
+  hasActiveFilters,
+  MAX_DISTANCE_OPTIONS,
+  MIN_RATING_OPTIONS,
+  PRICE_TIERS,
+  removeFilterChip,
+} from '@/utils/searchFilters';
+import { isSameSearch } from '@/utils/searchHistory';
+import { buildSearchSuggestions, type SearchSuggestion } from '@/utils/searchSuggestions';
 
 // Austin coordinates (default location)
 const DEFAULT_COORDINATES: Coordinates = {
@@ -29,84 +69,462 @@ const DEFAULT_COORDINATES: Coordinates = {
 
 const DEFAULT_ICON = require('@/assets/images/default_88.png');
 
+// Search radius and page size for restaurant searches
+const SEARCH_RADIUS_METERS = 50000;
+const SEARCH_PAGE_LIMIT = 40;
+
+// Wait for a pause in typing before asking for suggestions
+const AUTOCOMPLETE_DEBOUNCE_MS = 250;
+const AUTOCOMPLETE_LIMIT = 8;
+
+const SUGGESTION_ICONS: Record<SearchSuggestion['kind'], keyof typeof Ionicons.glyphMap> = {
+  saved: 'bookmark',
+  place: 'location-outline',
+  search: 'search',
+};
+
+// Transform an API venue to match the structure expected by renderItem
+const toListVenue = (venue: Venue) => ({
+  id: venue.fsq_id || venue.id,
+  name: venue.name,
+  categories: venue.categories || [
+    {
+      name: 'Restaurant',
+      icon: {
+        prefix: 'https://ss3.4sqi.net/img/categories_v2/food/default_',
+        suffix: '.png',
+      },
+    },
+  ],
+  location: {
+    formattedAddress:
+      venue.location?.formatted_address ||
+      venue.location?.formattedAddress ||
+      [venue.location?.address, venue.location?.locality, venue.location?.region]
+        .filter(Boolean)
+        .join(', '),
+    lat: venue.geocodes?.main?.latitude || venue.location?.lat,
+    lng: venue.geocodes?.main?.longitude || venue.location?.lng,
+  },
+  referralId: venue.fsq_id || venue.id, // Required for keyExtractor
+});
+
+// Restaurant search request; the venues saga applies the filters
+const toSearchRequest = (
+  query: string,
+  coordinates: Coordinates,
+  filters: SearchFilters,
+  defaultCategories: string[]
+): SearchVenuesRequest => ({
+  query,
+  coordinates,
+  filters,
+  // Cuisines in the filters take over, otherwise the user's default categories or all food
+  categories: defaultCategories.length > 0 ? defaultCategories : [FoursquareCategory.Food],
+  radius: SEARCH_RADIUS_METERS,
+  limit: SEARCH_PAGE_LIMIT,
+});
+
+// Toggle a value in a multi-select filter
+const toggleValue = <T,>(values: T[], value: T) =>
+  values.includes(value) ? values.filter(item => item !== value) : [...values, value];
+
+/**
+ * Filter sheet: edits a draft of the filters and hands it back on apply
+ */
+interface FilterSheetProps {
+  visible: boolean;
+  filters: SearchFilters;
+  onClose: () => void;
+  onApply: (filters: SearchFilters) => void;
+}
+
+const FilterSheet: React.FC<FilterSheetProps> = ({ visible, filters, onClose, onApply }) => {
+  const [draft, setDraft] = useState<SearchFilters>(filters);
+
+  // Start from the applied filters each time the sheet opens
+  useEffect(() => {
+    if (visible) {
+      setDraft(filters);
+    }
+  }, [visible, filters]);
+
+  const renderOption = (key: string, label: string, selected: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={key}
+      style={[styles.filterOption, selected && styles.filterOptionSelected]}
+      onPress={onPress}
+    >
+      <Text style={[styles.filterOptionText, selected && styles.filterOptionTextSelected]}>
+        {label}
+      </Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <Modal transparent animationType="slide" visible={visible} onRequestClose={onClose}>
+      <View style={styles.sheetOverlay}>
+        <View style={styles.sheetContainer}>
+          <View style={styles.sheetHeader}>
+            <Text style={styles.sheetTitle}>Filters</Text>
+            <TouchableOpacity style={styles.closeButton} onPress={onClose}>
+              <Ionicons color="#333333" name="close" size={24} />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView>
+            <Text style={styles.filterLabel}>Price</Text>
+            <View style={styles.filterOptions}>
+              {PRICE_TIERS.map(tier =>
+                renderOption(
+                  `price-${tier}`,
+                  formatPriceTier(tier),
+                  draft.priceTiers.includes(tier),
+                  () => setDraft({ ...draft, priceTiers: toggleValue(draft.priceTiers, tier) })
+                )
+              )}
+            </View>
+
+            <View style={styles.filterSwitchRow}>
+              <Text style={styles.filterLabel}>Open now</Text>
+              <Switch
+                value={draft.openNow}
+                onValueChange={openNow => setDraft({ ...draft, openNow })}
+              />
+            </View>
+
+            <Text style={styles.filterLabel}>Minimum rating</Text>
+            <View style={styles.filterOptions}>
+              {renderOption('rating-any', 'Any', draft.minRating === null, () =>
+                setDraft({ ...draft, minRating: null })
+              )}
+              {MIN_RATING_OPTIONS.map(rating =>
+                renderOption(`rating-${rating}`, `${rating}+`, draft.minRating === rating, () =>
+                  setDraft({ ...draft, minRating: rating })
+                )
+              )}
+            </View>
+
+            <Text style={styles.filterLabel}>Distance</Text>
+            <View style={styles.filterOptions}>
+              {renderOption('distance-any', 'Any', draft.maxDistanceMeters === null, () =>
+                setDraft({ ...draft, maxDistanceMeters: null })
+              )}
+              {MAX_DISTANCE_OPTIONS.map(({ meters, label }) =>
+                renderOption(`distance-${meters}`, label, draft.maxDistanceMeters === meters, () =>
+                  setDraft({ ...draft, maxDistanceMeters: meters })
+                )
+              )}
+            </View>
+
+            <Text style={styles.filterLabel}>Cuisine</Text>
+            <View style={styles.filterOptions}>
+              {CUISINE_OPTIONS.map(({ id, name }) =>
+                renderOption(`cuisine-${id}`, name, draft.cuisines.includes(id), () =>
+                  setDraft({ ...draft, cuisines: toggleValue(draft.cuisines, id) })
+                )
+              )}
+            </View>
+          </ScrollView>
+
+          <View style={styles.sheetButtons}>
+            <TouchableOpacity
+              style={styles.resetButton}
+              onPress={() => setDraft(DEFAULT_SEARCH_FILTERS)}
+            >
+              <Text style={styles.resetButtonText}>Reset</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.applyButton} onPress={() => onApply(draft)}>
+              <Text style={styles.applyButtonText}>Show Results</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+// Filters of a past search, summarized for its list row
+const describeSearch = (search: { query: string; filters: SearchFilters }) =>
+  [search.query, ...getFilterChips(search.filters).map(chip => chip.label)].join(' · ');
+
+/**
+ * Save search sheet: names the current search and picks whether it syncs to the account
+ */
+interface SaveSearchSheetProps {
+  visible: boolean;
+  defaultName: string;
+  canSync: boolean;
+  onClose: () => void;
+  onSave: (name: string, synced: boolean) => void;
+}
+
+const SaveSearchSheet: React.FC<SaveSearchSheetProps> = ({
+  visible,
+  defaultName,
+  canSync,
+  onClose,
+  onSave,
+}) => {
+  const [name, setName] = useState(defaultName);
+  const [synced, setSynced] = useState(canSync);
+
+  // Start from the current search each time the sheet opens
+  useEffect(() => {
+    if (visible) {
+      setName(defaultName);
+      setSynced(canSync);
+    }
+  }, [visible, defaultName, canSync]);
+
+  return (
+    <Modal transparent animationType="slide" visible={visible} onRequestClose={onClose}>
+      <View style={styles.sheetOverlay}>
+        <View style={styles.sheetContainer}>
+          <View style={styles.sheetHeader}>
+            <Text style={styles.sheetTitle}>Save Search</Text>
+            <TouchableOpacity style={styles.closeButton} onPress={onClose}>
+              <Ionicons color="#333333" name="close" size={24} />
+            </TouchableOpacity>
+          </View>
+
+          <Text style={styles.filterLabel}>Name</Text>
+          <TextInput
+            placeholder="e.g. Cheap tacos downtown"
+            style={styles.searchInput}
+            value={name}
+            onChangeText={setName}
+          />
+
+          {canSync && (
+            <View style={styles.filterSwitchRow}>
+              <Text style={styles.filterLabel}>Keep with my account</Text>
+              <Switch value={synced} onValueChange={setSynced} />
+            </View>
+          )}
+
+          <View style={styles.sheetButtons}>
+            <TouchableOpacity style={styles.resetButton} onPress={onClose}>
+              <Text style={styles.resetButtonText}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              disabled={!name.trim()}
+              style={styles.applyButton}
+              onPress={() => onSave(name.trim(), canSync && synced)}
+            >
+              <Text style={styles.applyButtonText}>Save</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
 export const SearchScreen: React.FC = () => {
   const location = useGeolocation();
 
   const [searchQuery, setSearchQuery] = useState<string>('');
-  const [venues, setVenues] = useState<any[]>([]);
-  const [loaded, setLoaded] = useState<boolean>(false);
+  const search = useAppSelector(selectVenueSearch);
+  const venues = useMemo(() => search.venues.map(toListVenue), [search.venues]);
+  // The query to repeat when the filters or location change
+  // Searches re-run from history stay pinned to the location they were first run at
+  const lastSearch = useRef<{ query: string; pinnedCoordinates?: Coordinates } | null>(
+    search.request ? { query: search.request.query } : null
+  );
+  const savedItems = useAppSelector(state => state.bucketList.items) as BucketListItem[];
+  const dispatch = useAppDispatch();
+  const filters = useAppSelector(selectSearchFilters);
+  const defaultCategories = useAppSelector(selectDefaultCategories);
+  const [filterSheetVisible, setFilterSheetVisible] = useState(false);
+  const filterChips = getFilterChips(filters);
+  const [suggestions, setSuggestions] = useState<SearchSuggestion[]>([]);
+  const autocompleteSession = useRef(new AutocompleteSession());
+  const autocompleteTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // Query of the latest suggestions request; responses for any other query are dropped
+  const suggestionQuery = useRef<string | null>(null);
+  const searchHistory = useAppSelector(selectSearchHistory);
+  const recentVenues = useAppSelector(selectRecentVenues);
+  const savedSearches = useAppSelector(selectSavedSearches);
+  const signedIn = useAppSelector(state => !!state.auth.user);
+  const [inputFocused, setInputFocused] = useState(false);
+  const [saveSheetVisible, setSaveSheetVisible] = useState(false);
+
+  const currentLl = () =>
+    `${location.coordinates?.latitude || DEFAULT_COORDINATES.latitude},${
+      location.coordinates?.longitude || DEFAULT_COORDINATES.longitude
+    }`;
 
-  // Search venues function - similar to the API test screen
-  const searchVenues = useCallback(
-    async (query: string) => {
-      const currentCoordinates: Coordinates = {
+  // Search through the venues saga, which debounces, cancels stale searches and caches results
+  const runSearch = useCallback(
+    (query: string, pinnedCoordinates?: Coordinates) => {
+      const currentCoordinates: Coordinates = pinnedCoordinates ?? {
         latitude: location.coordinates?.latitude || DEFAULT_COORDINATES.latitude,
         longitude: location.coordinates?.longitude || DEFAULT_COORDINATES.longitude,
       };
-
-      setLoaded(false);
-
-      try {
-        const data = await foursquareService.searchNearbyVenues(
-          currentCoordinates,
-          query,
-          [FoursquareCategory.Food], // Use the category ID for food
-          50000,
-          40
-        );
-
-        // Transform the results to match the expected format
-        const transformedVenues = data.results.map((venue: Venue) => {
-          // Create a venue object that matches the structure expected by renderItem
-          return {
-            id: venue.fsq_id || venue.id,
-            name: venue.name,
-            categories: venue.categories || [
-              {
-                name: 'Restaurant',
-                icon: {
-                  prefix: 'https://ss3.4sqi.net/img/categories_v2/food/default_',
-                  suffix: '.png',
-                },
-              },
-            ],
-            location: {
-              formattedAddress:
-                venue.location?.formatted_address ||
-                venue.location?.formattedAddress ||
-                [venue.location?.address, venue.location?.locality, venue.location?.region]
-                  .filter(Boolean)
-                  .join(', '),
-              lat: venue.geocodes?.main?.latitude || venue.location?.lat,
-              lng: venue.geocodes?.main?.longitude || venue.location?.lng,
-            },
-            referralId: venue.fsq_id || venue.id, // Required for keyExtractor
-          };
-        });
-
-        setVenues(transformedVenues);
-        setLoaded(true);
-      } catch (err: any) {
-        console.error('Error fetching venues:', err);
-        setVenues([]);
-        setLoaded(true);
-      }
+      lastSearch.current = { query, pinnedCoordinates };
+      dispatch(
+        searchVenues(toSearchRequest(query, currentCoordinates, filters, defaultCategories))
+      );
     },
-    [location.coordinates]
+    [location.coordinates, filters, defaultCategories, dispatch]
   );
 
+  // Infinite scroll: fetch the next page when the list nears its end
+  const loadMoreVenues = () => {
+    if (!search.nextCursor || search.loading || search.loadingMore) return;
+    dispatch(loadMoreSearchResults());
+  };
+
+  // Fetch typeahead suggestions for the current input
+  const fetchSuggestions = async (query: string) => {
+    let results: FoursquareAutocompleteResult[] = [];
+    try {
+      // Providers without typeahead only suggest saved venues
+      const data = await placesProvider.autocomplete?.({
+        query,
+        ll: currentLl(),
+        types: ['place', 'search'],
+        limit: AUTOCOMPLETE_LIMIT,
+        sessionToken: autocompleteSession.current.getToken(),
+      });
+      results = data?.results ?? [];
+    } catch (err: any) {
+      // Saved venues can still be suggested without the API
+      console.error('Error fetching suggestions:', err);
+    }
+    // A newer keystroke or a search started while this request was in flight
+    if (suggestionQuery.current !== query) {
+      return;
+    }
+    setSuggestions(buildSearchSuggestions(query, savedItems, results));
+  };
+
+  // Stop showing suggestions, including those for requests still in flight
+  const clearSuggestions = () => {
+    if (autocompleteTimer.current) {
+      clearTimeout(autocompleteTimer.current);
+    }
+    suggestionQuery.current = null;
+    setSuggestions([]);
+  };
+
   // Search handler - called when search input changes
   const searchHandler = (value: string) => {
     setSearchQuery(value);
-    // Use debounced search with 300ms delay
-    setTimeout(() => searchVenues(value), 300);
+    if (!value.trim()) {
+      clearSuggestions();
+      return;
+    }
+    if (autocompleteTimer.current) {
+      clearTimeout(autocompleteTimer.current);
+    }
+    // Keep the current suggestions on screen, but not a response for an earlier query
+    suggestionQuery.current = value;
+    autocompleteTimer.current = setTimeout(() => fetchSuggestions(value), AUTOCOMPLETE_DEBOUNCE_MS);
+  };
+
+  // Run a full search for the typed query
+  const submitSearch = (query: string) => {
+    clearSuggestions();
+    // A full search ends the typeahead; the next keystroke starts a new session
+    autocompleteSession.current.end();
+    if (query.trim()) {
+      runSearch(query.trim());
+      dispatch(
+        searchRecorded({
+          query: query.trim(),
+          filters,
+          coordinates: {
+            latitude: location.coordinates?.latitude || DEFAULT_COORDINATES.latitude,
+            longitude: location.coordinates?.longitude || DEFAULT_COORDINATES.longitude,
+          },
+        })
+      );
+    }
+  };
+
+  // Run a search from the history or a saved search again, with its filters and location
+  const rerunSearch = (search: SearchHistoryEntry | SavedSearch) => {
+    setSearchQuery(search.query);
+    clearSuggestions();
+    setInputFocused(false);
+    dispatch(
+      searchRecorded({
+        query: search.query,
+        filters: search.filters,
+        coordinates: search.coordinates,
+      })
+    );
+    if (isSameSearch(search, { query: search.query, filters })) {
+      runSearch(search.query, search.coordinates);
+      return;
+    }
+    // Changing the filters runs the pinned search from the effect below
+    lastSearch.current = { query: search.query, pinnedCoordinates: search.coordinates };
+    dispatch(setSearchFilters(search.filters));
   };
 
-  // Initial search on component mount
+  const confirmDeleteSavedSearch = (search: SavedSearch) => {
+    Alert.alert('Delete Saved Search', `Delete "${search.name}"?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: () => dispatch(deleteSavedSearch(search.id)),
+      },
+    ]);
+  };
+
+  const handleSaveSearch = (name: string, synced: boolean) => {
+    const request = search.request;
+    setSaveSheetVisible(false);
+    if (!request) return;
+    dispatch(
+      saveSearch({
+        name,
+        query: request.query,
+        filters: request.filters ?? filters,
+        coordinates: request.coordinates,
+        synced,
+      })
+    );
+  };
+
+  const handleSuggestionPress = (suggestion: SearchSuggestion) => {
+    if (suggestion.kind === 'search') {
+      setSearchQuery(suggestion.query);
+      submitSearch(suggestion.query);
+      return;
+    }
+
+    // Opening a place ends the session; only a new Foursquare place needs the details call to close it
+    const sessionToken = autocompleteSession.current.end();
+    clearSuggestions();
+    router.push({
+      pathname: '/detail',
+      params: {
+        venueId: suggestion.venueId,
+        ...(suggestion.kind === 'place' && sessionToken ? { sessionToken } : {}),
+      },
+    });
+  };
+
+  useEffect(
+    () => () => {
+      if (autocompleteTimer.current) {
+        clearTimeout(autocompleteTimer.current);
+      }
+    },
+    []
+  );
+
+  // Initial search on component mount, repeated for the current query when the filters change
   useEffect(() => {
     // Perform a default search when the component mounts
-    searchVenues('restaurants'); // You can change 'restaurants' to any default query
-  }, [searchVenues]);
+    const last = lastSearch.current;
+    runSearch(last?.query ?? 'restaurants', last?.pinnedCoordinates); // You can change 'restaurants' to any default query
+  }, [runSearch]);
 
   // Key extractor for the FlatList
   const keyExtractor = (item: any, index: number) => {
@@ -157,41 +575,252 @@ export const SearchScreen: React.FC = () => {
 
   // Render the restaurant list based on state
   const renderRestaurantList = () => {
-    if (loaded) {
+    if (search.loading) {
       return (
-        <View style={styles.listContainer}>
-          <FlatList
-            contentContainerStyle={styles.flatListContent}
-            data={venues}
-            keyExtractor={keyExtractor}
-            renderItem={renderItem}
-          />
+        <View style={styles.centerContainer}>
+          <Text style={styles.statusText}>Loading Restaurants and Venues</Text>
+          <ActivityIndicator color="#FF4500" size="large" style={styles.loader} />
+        </View>
+      );
+    }
+
+    if (search.error && venues.length === 0) {
+      return (
+        <View style={styles.centerContainer}>
+          <Text style={styles.statusText}>{search.error}</Text>
+          <TouchableOpacity
+            style={styles.retryButton}
+            onPress={() => {
+              const last = lastSearch.current;
+              runSearch(last?.query ?? 'restaurants', last?.pinnedCoordinates);
+            }}
+          >
+            <Text style={styles.applyButtonText}>Try Again</Text>
+          </TouchableOpacity>
+        </View>
+      );
+    }
+
+    if (venues.length === 0) {
+      return (
+        <View style={styles.centerContainer}>
+          <Ionicons name="search-outline" size={48} color="#CCCCCC" />
+          <Text style={styles.statusText}>
+            {hasActiveFilters(filters)
+              ? 'No restaurants match these filters'
+              : 'No restaurants found'}
+          </Text>
         </View>
       );
     }
 
     return (
-      <View style={styles.centerContainer}>
-        <Text style={styles.statusText}>Loading Restaurants and Venues</Text>
-        <ActivityIndicator color="#FF4500" size="large" style={styles.loader} />
+      <View style={styles.listContainer}>
+        <FlatList
+          contentContainerStyle={styles.flatListContent}
+          data={venues}
+          keyExtractor={keyExtractor}
+          renderItem={renderItem}
+          onEndReached={loadMoreVenues}
+          onEndReachedThreshold={0.5}
+          ListFooterComponent={
+            search.loadingMore ? (
+              <ActivityIndicator color="#FF4500" style={styles.footerLoader} />
+            ) : null
+          }
+        />
       </View>
     );
   };
 
+  // Saved searches, past searches and recently viewed venues, offered before typing
+  const renderHistory = () => (
+    <ScrollView keyboardShouldPersistTaps="handled" style={styles.listContainer}>
+      {savedSearches.length > 0 && (
+        <>
+          <View style={styles.historyHeader}>
+            <Text style={styles.historyHeaderText}>Saved searches</Text>
+          </View>
+          {savedSearches.map(search => (
+            <TouchableOpacity
+              key={search.id}
+              style={styles.suggestionItem}
+              onPress={() => rerunSearch(search)}
+              onLongPress={() => confirmDeleteSavedSearch(search)}
+            >
+              <Ionicons name="bookmark" size={18} color="#FF4500" />
+              <View style={styles.itemContent}>
+                <Text style={styles.suggestionTitle}>{search.name}</Text>
+                <Text numberOfLines={1} style={styles.itemSubtitle}>
+                  {describeSearch(search)}
+                </Text>
+              </View>
+              {search.synced && <Ionicons name="cloud-done-outline" size={16} color="#999" />}
+            </TouchableOpacity>
+          ))}
+        </>
+      )}
+      {searchHistory.length > 0 && (
+        <>
+          <View style={styles.historyHeader}>
+            <Text style={styles.historyHeaderText}>Recent searches</Text>
+            <TouchableOpacity onPress={() => dispatch(clearSearchHistory())}>
+              <Text style={styles.historyClearText}>Clear</Text>
+            </TouchableOpacity>
+          </View>
+          {searchHistory.map(entry => (
+            <TouchableOpacity
+              key={entry.id}
+              style={styles.suggestionItem}
+              onPress={() => rerunSearch(entry)}
+            >
+              <Ionicons name="time-outline" size={18} color="#666666" />
+              <View style={styles.itemContent}>
+                <Text numberOfLines={1} style={styles.suggestionTitle}>
+                  {describeSearch(entry)}
+                </Text>
+              </View>
+            </TouchableOpacity>
+          ))}
+        </>
+      )}
+      {recentVenues.length > 0 && (
+        <>
+          <View style={styles.historyHeader}>
+            <Text style={styles.historyHeaderText}>Recently viewed</Text>
+          </View>
+          {recentVenues.map(venue => (
+            <TouchableOpacity
+              key={venue.id}
+              style={styles.suggestionItem}
+              onPress={() => router.push({ pathname: '/detail', params: { venueId: venue.id } })}
+            >
+              <Image
+                defaultSource={DEFAULT_ICON}
+                source={venue.iconUrl ? { uri: venue.iconUrl } : DEFAULT_ICON}
+                style={styles.historyIcon}
+              />
+              <View style={styles.itemContent}>
+                <Text style={styles.suggestionTitle}>{venue.name}</Text>
+                {venue.category && <Text style={styles.itemSubtitle}>{venue.category}</Text>}
+              </View>
+            </TouchableOpacity>
+          ))}
+        </>
+      )}
+    </ScrollView>
+  );
+
+  const hasHistory =
+    savedSearches.length > 0 || searchHistory.length > 0 || recentVenues.length > 0;
+  const showHistory = inputFocused && !searchQuery.trim() && hasHistory;
+
   return (
     <SafeAreaView style={styles.container}>
       <View style={styles.header}>
         <Text style={styles.title}>Restaurant Search</Text>
       </View>
       <View style={styles.listContainer}>
-        <TextInput
-          placeholder="Restaurants"
-          style={styles.searchInput}
-          value={searchQuery}
-          onChangeText={text => searchHandler(text)}
-        />
-        {renderRestaurantList()}
+        <View style={styles.searchRow}>
+          <TextInput
+            placeholder="Restaurants"
+            style={styles.searchInput}
+            value={searchQuery}
+            onChangeText={text => searchHandler(text)}
+            onSubmitEditing={() => submitSearch(searchQuery)}
+            onFocus={() => setInputFocused(true)}
+            onBlur={() => setInputFocused(false)}
+            returnKeyType="search"
+          />
+          <TouchableOpacity
+            disabled={!search.request}
+            style={styles.filterButton}
+            onPress={() => setSaveSheetVisible(true)}
+          >
+            <Ionicons name="bookmark-outline" size={22} color="#333333" />
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.filterButton} onPress={() => router.push('/categories')}>
+            <Ionicons name="grid-outline" size={22} color="#333333" />
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.filterButton} onPress={() => setFilterSheetVisible(true)}>
+            <Ionicons
+              name="options-outline"
+              size={22}
+              color={filterChips.length > 0 ? '#FF4500' : '#333333'}
+            />
+          </TouchableOpacity>
+        </View>
+        {filterChips.length > 0 && (
+          <ScrollView
+            horizontal
+            showsHorizontalScrollIndicator={false}
+            style={styles.chipRow}
+            contentContainerStyle={styles.chipRowContent}
+          >
+            {filterChips.map(chip => (
+              <TouchableOpacity
+                key={chip.key}
+                style={styles.chip}
+                onPress={() => dispatch(setSearchFilters(removeFilterChip(filters, chip)))}
+              >
+                <Text style={styles.chipText}>{chip.label}</Text>
+                <Ionicons name="close" size={14} color="#FF4500" />
+              </TouchableOpacity>
+            ))}
+          </ScrollView>
+        )}
+        {suggestions.length > 0 ? (
+          <FlatList
+            data={suggestions}
+            keyboardShouldPersistTaps="handled"
+            keyExtractor={suggestion => suggestion.key}
+            renderItem={({ item: suggestion }) => (
+              <TouchableOpacity
+                style={styles.suggestionItem}
+                onPress={() => handleSuggestionPress(suggestion)}
+              >
+                <Ionicons
+                  name={SUGGESTION_ICONS[suggestion.kind]}
+                  size={18}
+                  color={suggestion.kind === 'saved' ? '#FF4500' : '#666666'}
+                />
+                <View style={styles.itemContent}>
+                  <Text style={styles.suggestionTitle}>{suggestion.title}</Text>
+                  {suggestion.kind === 'saved' || suggestion.kind === 'place' ? (
+                    suggestion.subtitle ? (
+                      <Text style={styles.itemSubtitle}>{suggestion.subtitle}</Text>
+                    ) : null
+                  ) : (
+                    <Text style={styles.itemSubtitle}>
+                      {suggestion.category ? `Search ${suggestion.category.name}` : 'Search'}
+                    </Text>
+                  )}
+                </View>
+              </TouchableOpacity>
+            )}
+          />
+        ) : showHistory ? (
+          renderHistory()
+        ) : (
+          renderRestaurantList()
+        )}
       </View>
+      <FilterSheet
+        visible={filterSheetVisible}
+        filters={filters}
+        onClose={() => setFilterSheetVisible(false)}
+        onApply={applied => {
+          setFilterSheetVisible(false);
+          dispatch(setSearchFilters(applied));
+        }}
+      />
+      <SaveSearchSheet
+        visible={saveSheetVisible}
+        defaultName={search.request?.query ?? ''}
+        canSync={signedIn}
+        onClose={() => setSaveSheetVisible(false)}
+        onSave={handleSaveSearch}
+      />
     </SafeAreaView>
   );
 };
@@ -226,18 +855,155 @@ const styles = StyleSheet.create({
     flex: 1,
     padding: 4,
   },
+  searchRow: {
+    flexDirection: 'row',
+    marginBottom: 16,
+  },
   searchInput: {
+    flex: 1,
     height: 40,
     borderColor: 'gray',
     borderWidth: 1,
     paddingHorizontal: 10,
-    marginBottom: 16,
     borderRadius: 4,
     backgroundColor: '#FFFFFF',
   },
+  filterButton: {
+    width: 40,
+    height: 40,
+    marginLeft: 8,
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderColor: 'gray',
+    borderWidth: 1,
+    borderRadius: 4,
+    backgroundColor: '#FFFFFF',
+  },
+  chipRow: {
+    flexGrow: 0,
+    marginTop: -8,
+    marginBottom: 12,
+  },
+  chipRowContent: {
+    paddingHorizontal: 4,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    marginRight: 8,
+    borderWidth: 1,
+    borderColor: '#FF4500',
+    borderRadius: 16,
+    backgroundColor: '#FFF3EE',
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#FF4500',
+    marginRight: 4,
+  },
+  sheetOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  sheetContainer: {
+    maxHeight: '85%',
+    backgroundColor: '#FFFFFF',
+    borderTopLeftRadius: 12,
+    borderTopRightRadius: 12,
+    padding: 20,
+  },
+  sheetHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  sheetTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#333333',
+  },
+  closeButton: {
+    padding: 5,
+  },
+  filterLabel: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#333333',
+    marginTop: 12,
+    marginBottom: 8,
+  },
+  filterOptions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  filterOption: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    marginRight: 8,
+    marginBottom: 8,
+    borderWidth: 1,
+    borderColor: '#DDDDDD',
+    borderRadius: 16,
+  },
+  filterOptionSelected: {
+    borderColor: '#FF4500',
+    backgroundColor: '#FFF3EE',
+  },
+  filterOptionText: {
+    fontSize: 14,
+    color: '#333333',
+  },
+  filterOptionTextSelected: {
+    color: '#FF4500',
+  },
+  filterSwitchRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  sheetButtons: {
+    flexDirection: 'row',
+    marginTop: 16,
+  },
+  resetButton: {
+    flex: 1,
+    paddingVertical: 12,
+    marginRight: 8,
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: '#DDDDDD',
+    borderRadius: 8,
+  },
+  resetButtonText: {
+    color: '#333333',
+    fontWeight: 'bold',
+  },
+  applyButton: {
+    flex: 1,
+    paddingVertical: 12,
+    marginLeft: 8,
+    alignItems: 'center',
+    backgroundColor: '#FF4500',
+    borderRadius: 8,
+  },
+  applyButtonText: {
+    color: '#FFFFFF',
+    fontWeight: 'bold',
+  },
   flatListContent: {
     paddingBottom: 20,
   },
+  retryButton: {
+    marginTop: 16,
+    paddingHorizontal: 24,
+    paddingVertical: 12,
+    backgroundColor: '#FF4500',
+    borderRadius: 8,
+  },
   centerContainer: {
     flex: 1,
     justifyContent: 'center',
@@ -252,6 +1018,9 @@ const styles = StyleSheet.create({
   loader: {
     marginTop: 10,
   },
+  footerLoader: {
+    paddingVertical: 16,
+  },
   subtitleView: {
     flexDirection: 'row',
     paddingLeft: 2,
@@ -284,6 +1053,44 @@ const styles = StyleSheet.create({
     fontWeight: '500',
     color: '#333333',
   },
+  suggestionItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    backgroundColor: '#FFFFFF',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E0E0E0',
+  },
+  suggestionTitle: {
+    fontSize: 15,
+    color: '#333333',
+  },
+  historyHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingTop: 16,
+    paddingBottom: 6,
+  },
+  historyHeaderText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#666666',
+    textTransform: 'uppercase',
+  },
+  historyClearText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#FF4500',
+  },
+  historyIcon: {
+    width: 24,
+    height: 24,
+    borderRadius: 12,
+    backgroundColor: '#FF4500',
+  },
   itemSubtitle: {
     fontSize: 14,
     color: '#666666',
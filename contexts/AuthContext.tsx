@@ -2,7 +2,8 @@ import React, { createContext, useContext, useEffect, useState } from 'react';
 import { Platform } from 'react-native';
 import { useAppDispatch } from '@/store';
 import { loginSuccess, logoutSuccess } from '@/store/slices/authSlice';
-import { setBucketListItems } from '@/store/slices/bucketListSlice';
+import { setBucketListItems, setCollections } from '@/store/slices/bucketListSlice';
+import { resetSearchHistory } from '@/store/slices/searchHistorySlice';
 import { supabase } from '@/utils/supabase';
 import { makeRedirectUri } from 'expo-auth-session';
 import * as WebBrowser from 'expo-web-browser';
@@ -317,8 +318,12 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
  
       // Clear bucket list data on logout
       dispatch(setBucketListItems([]));
+      dispatch(setCollections([]));
       console.log('[AuthContext] Bucket list cleared successfully');
 
+      // Search history is persisted on the device, so the next user would see it
+      dispatch(resetSearchHistory());
+
  
       console.log('[AuthContext] Signout process complete');
     } catch (error) {
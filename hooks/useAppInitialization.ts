@@ -1,15 +1,24 @@
 import { useEffect, useState } from 'react';
+import * as Location from 'expo-location';
 import { useAppSelector, useAppDispatch } from '@/store';
 import GeofencingService from '@/services/GeofencingService';
 import { checkAndRequestLocationServices } from '@/utils/locationHelpers';
 import {
   selectMasterNotificationsEnabled,
   setMasterNotificationsEnabled,
-  selectDistanceMiles,
   setDistanceMiles,
+  setQuietHours,
+  setNotificationFrequency,
+  setPriorityScaledRadius,
+  setDefaultCategories,
 } from '@/store/slices/uiSlice';
-import { setBucketListItems } from '@/store/slices/bucketListSlice';
-import { BucketListItem } from '@/models/bucket-list';
+import {
+  fetchBucketList,
+  setBucketListItems,
+  setCollections,
+} from '@/store/slices/bucketListSlice';
+import { savedSearchesLoaded } from '@/store/slices/searchHistorySlice';
+import { reconcileGeofences } from '@/store/slices/geofencingSlice';
 
 import { useAuth } from '@/contexts/AuthContext';
 import { SupabaseDataService } from '@/services/supabaseDataService';
@@ -17,9 +26,7 @@ import { SupabaseDataService } from '@/services/supabaseDataService';
 export function useAppInitialization() {
   const { user, session } = useAuth();
   const dispatch = useAppDispatch();
-  const bucketListItems = useAppSelector(state => state.bucketList.items) as BucketListItem[];
   const masterEnabled = useAppSelector(selectMasterNotificationsEnabled);
-  const distanceMiles = useAppSelector(selectDistanceMiles);
   const [isInitializing, setIsInitializing] = useState(true);
   const [initializationError, setInitializationError] = useState<string | null>(null);
   const [initializationStep, setInitializationStep] = useState<string>('Starting...');
@@ -50,12 +57,28 @@ export function useAppInitialization() {
       if (bucketListItems.length > 0) {
         dispatch(setBucketListItems(bucketListItems));
         console.log(`[AppInit] Loaded ${bucketListItems.length} bucket list items from database`);
+        // Venues whose stored data could not be read are fetched again
+        if (bucketListItems.some(item => item.venueNeedsRefresh)) {
+          dispatch(fetchBucketList() as any);
+        }
       } else {
         // Clear any existing bucket list items if none found for this user
         dispatch(setBucketListItems([]));
         console.log('[AppInit] No bucket list items found in database, cleared local state');
       }
 
+      // Collections replace any from a previous session, like the items
+      const collections = await SupabaseDataService.loadCollections(userId);
+      dispatch(setCollections(collections));
+      console.log(`[AppInit] Loaded ${collections.length} collections from database`);
+
+      // Merge saved searches kept with the account into those on the device
+      const savedSearches = await SupabaseDataService.loadSavedSearches(userId);
+      if (savedSearches.length > 0) {
+        dispatch(savedSearchesLoaded(savedSearches));
+        console.log(`[AppInit] Loaded ${savedSearches.length} saved searches from database`);
+      }
+
       // Load user preferences from database
       const preferences = await SupabaseDataService.loadUserPreferences(userId);
       if (preferences) {
@@ -68,6 +91,18 @@ export function useAppInitialization() {
         if (preferences.distanceMiles !== undefined) {
           dispatch(setDistanceMiles(preferences.distanceMiles));
         }
+        if (preferences.priorityScaledRadius !== undefined) {
+          dispatch(setPriorityScaledRadius(preferences.priorityScaledRadius));
+        }
+        if (preferences.quietHours !== undefined) {
+          dispatch(setQuietHours(preferences.quietHours));
+        }
+        if (preferences.notificationFrequency !== undefined) {
+          dispatch(setNotificationFrequency(preferences.notificationFrequency));
+        }
+        if (preferences.defaultCategories !== undefined) {
+          dispatch(setDefaultCategories(preferences.defaultCategories));
+        }
       }
 
       return true;
@@ -108,9 +143,9 @@ export function useAppInitialization() {
         setInitializationStep('Checking location permissions...');
         const locationServicesEnabled = await checkAndRequestLocationServices();
         if (locationServicesEnabled) {
-          console.log('[AppInit] Location services enabled, rebuilding geofences...');
+          console.log('[AppInit] Location services enabled, reconciling geofences...');
           setInitializationStep('Setting up location alerts...');
-          await rebuildGeofencesFromState();
+          await reconcileGeofencesWithState();
         } else {
           console.log('[AppInit] Location services not available, skipping geofence setup');
         }
@@ -127,39 +162,15 @@ export function useAppInitialization() {
     }
   };
 
-  const rebuildGeofencesFromState = async () => {
-    console.log('[AppInit] Rebuilding geofences from state...');
-    console.log('[AppInit] Bucket list items:', bucketListItems.length);
-
-    // Clear existing geofences to avoid duplicates
-    await GeofencingService.clearAllGeofences();
-
-    // Add geofences for items with notifications enabled
-    let addedCount = 0;
-    for (const item of bucketListItems) {
-      if (
-        item.notificationsEnabled &&
-        item.venue?.geocodes?.main?.latitude &&
-        item.venue?.geocodes?.main?.longitude
-      ) {
-        await GeofencingService.addGeofence({
-          id: item.id,
-          name: item.venue.name,
-          latitude: item.venue.geocodes.main.latitude,
-          longitude: item.venue.geocodes.main.longitude,
-          radius: distanceMiles * 1609.34, // Convert miles to meters
-          venueId: item.venue.id,
-        });
-        addedCount++;
-        console.log(`[AppInit] Added geofence for: ${item.venue.name}`);
-      } else if (item.notificationsEnabled) {
-        console.log(
-          `[AppInit] Skipped geofence for ${item.venue?.name || item.id} - missing location data`
-        );
-      }
+  const reconcileGeofencesWithState = async () => {
+    // Seed the region budget so the nearest venues are armed first
+    const lastKnownPosition = await Location.getLastKnownPositionAsync();
+    if (lastKnownPosition) {
+      await GeofencingService.updateOrigin(lastKnownPosition.coords);
     }
 
-    console.log(`[AppInit] Geofences rebuilt: ${addedCount} active geofences`);
+    // The geofencing saga diffs the bucket list against the registered geofences
+    dispatch(reconcileGeofences());
   };
 
   return {
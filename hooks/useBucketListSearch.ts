@@ -0,0 +1,14 @@
+import { useMemo } from 'react';
+
+import { type BucketListItem } from '@/models/bucket-list';
+import { searchBucketList, type BucketListSearchResult } from '@/utils/bucketListSearch';
+
+/**
+ * Search the bucket list through the index the list filters share, which updates as items change
+ * Returns null when there is nothing to search for.
+ */
+export const useBucketListSearch = (
+  items: BucketListItem[],
+  query: string
+): BucketListSearchResult[] | null =>
+  useMemo(() => (query.trim() ? searchBucketList(items, query) : null), [items, query]);
@@ -8,7 +8,7 @@ import {
   setMasterNotificationsEnabled,
   setDistanceMiles,
 } from '@/store/slices/uiSlice';
-import { setBucketListItems } from '@/store/slices/bucketListSlice';
+import { fetchBucketList, setBucketListItems } from '@/store/slices/bucketListSlice';
 
 export const useSupabaseData = () => {
   const dispatch = useAppDispatch();
@@ -57,6 +57,10 @@ export const useSupabaseData = () => {
       if (bucketListItems.length > 0) {
         dispatch(setBucketListItems(bucketListItems));
         console.log('✅ Bucket list items loaded:', bucketListItems.length, 'items');
+        // Venues whose stored data could not be read are fetched again
+        if (bucketListItems.some(item => item.venueNeedsRefresh)) {
+          dispatch(fetchBucketList() as any);
+        }
       }
 
       console.log('✅ All user data loaded successfully');
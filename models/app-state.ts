@@ -26,6 +26,12 @@ export interface UIState {
   // User preferences
   masterNotificationsEnabled: boolean;
   distanceMiles: number;
+  // Scale the alert distance by bucket list priority (high > medium > low)
+  priorityScaledRadius: boolean;
+  quietHours: QuietHours;
+  notificationFrequency: NotificationFrequency;
+  // Foursquare category ids searched when no cuisine is picked; empty for all food
+  defaultCategories: string[];
 }
 
 /**
@@ -50,4 +56,29 @@ export interface UserPreferences {
   defaultCategories?: string[];
   emailNotifications?: boolean;
   pushNotifications?: boolean;
+  quietHours?: QuietHours;
+  notificationFrequency?: NotificationFrequency;
+}
+
+/**
+ * Daily window during which location alerts are held back
+ */
+export interface QuietHours {
+  enabled: boolean;
+  start: string; // "HH:mm", local time
+  end: string; // "HH:mm", local time; may be earlier than start for overnight windows
+}
+
+/**
+ * Limits on how often location alerts are sent
+ */
+export interface NotificationFrequency {
+  // Minimum time between alerts for the same venue, unless the venue sets its own
+  cooldownMinutes: number;
+  // Most alerts per day across all venues; null for no limit
+  dailyCap: number | null;
+  // Alert about the same venue at most once a week
+  oncePerWeekPerVenue: boolean;
+  // Double a venue's cooldown for each of its alerts the user ignored
+  backoffOnIgnore: boolean;
 }
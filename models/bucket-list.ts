@@ -1,59 +1,4 @@
-import { type Coordinates } from './venue';
-
-/**
- * Simplified venue model for bucket list items
- */
-export interface BucketListVenue {
-  id: string;
-  name: string;
-  // New schema fields
-  categories?: {
-    id: string;
-    name: string;
-    icon?: {
-      prefix?: string;
-      suffix?: string;
-    };
-  }[];
-  location?: {
-    address?: string;
-    city?: string;
-    state?: string;
-    country?: string;
-    postalCode?: string;
-    neighborhood?: string[];
-    formattedAddress?: string;
-    crossStreet?: string;
-    lat?: number;
-    lng?: number;
-    locality?: string;
-    region?: string;
-    formatted_address?: string;
-  };
-  // Foursquare API geocodes
-  geocodes?: {
-    main?: {
-      latitude?: number;
-      longitude?: number;
-    };
-    roof?: {
-      latitude?: number;
-      longitude?: number;
-    };
-    drop_off?: {
-      latitude?: number;
-      longitude?: number;
-    };
-  };
-  // Legacy/compat fields
-  category?: string;
-  iconUrl?: string;
-  address?: string;
-  coordinates?: Coordinates;
-  photo?: string;
-  heroImageUrl?: string;
-  rating?: number;
-}
+import { type CanonicalVenue } from './venue';
 
 /**
  * User-specific bucket list item with additional metadata
@@ -61,7 +6,7 @@ export interface BucketListVenue {
 export interface BucketListItem {
   id: string;
   fsq_id?: string;
-  venue: BucketListVenue;
+  venue: CanonicalVenue;
   venueId?: string; // Foursquare venue ID
   userId?: string; // User ID for ownership
   notes?: string;
@@ -73,6 +18,22 @@ export interface BucketListItem {
   userRating?: number;
   review?: string;
   notificationsEnabled?: boolean; // Whether notifications are enabled for this restaurant
+  alertRadiusMiles?: number; // Per-venue alert radius; overrides the global distance when set
+  alertCooldownHours?: number; // Per-venue alert cooldown; overrides the global cooldown when set
+  collectionIds?: string[]; // Ids of the collections the item belongs to
+  venueNeedsRefresh?: boolean; // The stored venue could not be read; fetched again with the list
+}
+
+/**
+ * A named list the user groups bucket list items into, such as "Date night"
+ */
+export interface BucketListCollection {
+  id: string;
+  name: string;
+  position: number; // Order in the list switcher
+  geofencingEnabled: boolean; // Whether venues in this list raise proximity alerts
+  createdAt: number;
+  updatedAt?: number;
 }
 
 /**
@@ -82,6 +43,10 @@ export interface BucketListFilter {
   tags?: string[];
   priority?: ('low' | 'medium' | 'high')[];
   visited?: boolean;
+  // Foursquare category ids; each also matches the categories beneath it
+  categories?: string[];
+  // Only items in this collection
+  collectionId?: string;
   searchTerm?: string;
   sortBy?: 'dateAdded' | 'name' | 'priority' | 'plannedDate';
   sortDirection?: 'asc' | 'desc';
@@ -94,6 +59,7 @@ export interface BucketListState {
   items: BucketListItem[];
   filteredItems: BucketListItem[];
   filters: BucketListFilter;
+  collections: BucketListCollection[];
   loading: boolean;
   error: string | null;
   masterNotificationsEnabled: boolean;
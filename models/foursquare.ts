@@ -0,0 +1,84 @@
+import { type Venue, type VenueCategory } from './venue';
+
+/**
+ * Options for place photo and tip requests
+ */
+export interface FoursquareListParams {
+  limit?: number;
+  sort?: 'POPULAR' | 'NEWEST';
+}
+
+/**
+ * A user tip about a place
+ */
+export interface FoursquareTip {
+  id: string;
+  created_at: string;
+  text: string;
+  lang?: string;
+  agree_count?: number;
+  disagree_count?: number;
+}
+
+/**
+ * Parameters for the autocomplete API
+ */
+export interface FoursquareAutocompleteParams {
+  query: string;
+  // "latitude,longitude" to bias results toward
+  ll?: string;
+  radius?: number;
+  types?: ('place' | 'address' | 'search' | 'geo')[];
+  limit?: number;
+  // Groups autocomplete calls with the details call that follows them for billing
+  sessionToken?: string;
+}
+
+/**
+ * A single autocomplete suggestion
+ */
+export interface FoursquareAutocompleteResult {
+  type: 'place' | 'address' | 'search' | 'geo';
+  text: {
+    primary: string;
+    secondary?: string;
+    highlight?: { start: number; length: number }[];
+  };
+  // Present for "place" suggestions
+  place?: Venue;
+  // Present for "search" suggestions, e.g. a cuisine or dish
+  search?: {
+    query: string;
+    category?: VenueCategory;
+  };
+  link?: string;
+}
+
+/**
+ * Response from the autocomplete API
+ */
+export interface FoursquareAutocompleteResponse {
+  results: FoursquareAutocompleteResult[];
+}
+
+/**
+ * A category in the bundled Foursquare category tree
+ */
+export interface FoursquareCategoryNode {
+  id: string;
+  name: string;
+  icon: {
+    prefix: string;
+    suffix: string;
+  };
+  children?: FoursquareCategoryNode[];
+}
+
+/**
+ * The bundled Foursquare category tree; the version is bumped whenever the tree is regenerated
+ */
+export interface FoursquareCategoryTaxonomy {
+  version: number;
+  source: string;
+  categories: FoursquareCategoryNode[];
+}
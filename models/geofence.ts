@@ -0,0 +1,74 @@
+import { type Coordinates, type VenueHours } from './venue';
+
+/**
+ * A circular region monitored for a bucket list venue
+ */
+export interface Geofence {
+  id: string;
+  name: string;
+  latitude: number;
+  longitude: number;
+  radius: number;
+  // Optional Foursquare venue id for direct navigation
+  venueId?: string;
+  // Opening hours used by the notification policy
+  hours?: VenueHours;
+  // Per-venue alert cooldown, overriding the global one
+  cooldownHours?: number;
+}
+
+/**
+ * Which geofences are registered with the OS and which are waiting for the user to move closer
+ */
+export interface GeofenceBudgetReport {
+  armed: Geofence[];
+  dormant: Geofence[];
+  // Position the current selection was computed from
+  origin: Coordinates | null;
+  // Exit fence around the armed set; leaving it triggers a re-selection
+  superRegion: {
+    latitude: number;
+    longitude: number;
+    radius: number;
+  } | null;
+  updatedAt: number;
+}
+
+export type GeofenceEventType =
+  | 'enter'
+  | 'exit'
+  | 'notified'
+  | 'suppressed_cooldown'
+  | 'suppressed_policy'
+  | 'arrived'
+  | 'visit_prompted';
+
+/**
+ * A single entry in the persisted geofence event history
+ */
+export interface GeofenceEvent {
+  id: string;
+  type: GeofenceEventType;
+  geofenceId: string;
+  name: string;
+  venueId?: string;
+  // Why a notification was held back, for suppressed events
+  reason?: string;
+  timestamp: number;
+}
+
+/**
+ * Differences between the geofences the bucket list calls for and the ones registered
+ */
+export interface GeofenceDriftReport {
+  // Desired but not registered
+  missing: Geofence[];
+  // Registered but no longer desired
+  stale: string[];
+  // Registered with an outdated position, radius, name, hours or cooldown
+  changed: Geofence[];
+  unchanged: number;
+  // Geofences are desired but the OS is not monitoring any (e.g. permission was just granted)
+  monitoringStopped: boolean;
+  checkedAt: number;
+}
@@ -1,3 +1,5 @@
 export * from './app-state';
 export * from './bucket-list';
+export * from './geofence';
+export * from './search';
 export * from './venue';
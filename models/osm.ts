@@ -0,0 +1,28 @@
+/**
+ * OpenStreetMap data in the Overpass API JSON format
+ */
+export interface OsmElement {
+  type: 'node' | 'way' | 'relation';
+  id: number;
+  // Nodes carry coordinates directly; ways and relations need `out center`
+  lat?: number;
+  lon?: number;
+  center?: {
+    lat: number;
+    lon: number;
+  };
+  tags?: Record<string, string>;
+}
+
+/**
+ * An Overpass extract, e.g. the result of a query for amenities in a city
+ */
+export interface OsmExtract {
+  version?: number;
+  generator?: string;
+  osm3s?: {
+    timestamp_osm_base?: string;
+    copyright?: string;
+  };
+  elements: OsmElement[];
+}
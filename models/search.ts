@@ -0,0 +1,46 @@
+import { type Coordinates, type SearchFilters } from './venue';
+
+/**
+ * A search the user ran, with the filters and location it used
+ */
+export interface SearchHistoryEntry {
+  id: string;
+  query: string;
+  filters: SearchFilters;
+  coordinates: Coordinates;
+  searchedAt: number;
+}
+
+/**
+ * A venue the user opened, enough of it to list without fetching
+ */
+export interface RecentVenue {
+  id: string;
+  name: string;
+  category?: string;
+  iconUrl?: string;
+  viewedAt: number;
+}
+
+/**
+ * A search the user named to run again later
+ */
+export interface SavedSearch {
+  id: string;
+  name: string;
+  query: string;
+  filters: SearchFilters;
+  coordinates: Coordinates;
+  createdAt: number;
+  // Whether the search is stored with the user's account as well as on the device
+  synced: boolean;
+}
+
+/**
+ * Search history state in the redux store
+ */
+export interface SearchHistoryState {
+  history: SearchHistoryEntry[];
+  recentVenues: RecentVenue[];
+  savedSearches: SavedSearch[];
+}
@@ -19,7 +19,27 @@ export interface VenueSearchParams {
   radius?: number;
   limit?: number;
   sort?: 'DISTANCE' | 'POPULARITY' | 'RATING';
+  // Price tiers from 1 (cheapest) to 4
+  min_price?: number;
+  max_price?: number;
+  open_now?: boolean;
   fields?: string[];
+  // Cursor of the page to fetch, from a previous response's nextCursor
+  cursor?: string;
+}
+
+/**
+ * Filters the user applies to venue searches
+ */
+export interface SearchFilters {
+  // Selected price tiers, 1 ($) to 4 ($$$$); empty for any price
+  priceTiers: number[];
+  openNow: boolean;
+  // Minimum rating on Foursquare's 0-10 scale
+  minRating: number | null;
+  maxDistanceMeters: number | null;
+  // Cuisine category ids
+  cuisines: string[];
 }
 
 /**
@@ -127,9 +147,9 @@ export interface VenueMenu {
 
 /**
  * A venue/place from Foursquare API
+ * Raw provider payload; convert it with normalizeVenue before storing it
  */
 export interface Venue {
-  [x: string]: BucketListVenue;
   id?: string;
   fsq_id?: string; // FSQ v3 API uses fsq_id
   name: string;
@@ -138,7 +158,8 @@ export interface Venue {
   photos?: VenuePhoto[];
   rating?: number;
   ratingColor?: string;
-  price?: VenuePrice;
+  // FSQ v3 API returns the tier alone
+  price?: VenuePrice | number;
   hours?: VenueHours;
   contact?: VenueContact;
   description?: string;
@@ -207,9 +228,71 @@ export interface VenueSearchResponse {
     };
   };
   totalResults?: number;
+  // Present when more results are available
+  nextCursor?: string;
 }
 
 /**
  * Response from venue details API
  */
 export type VenueDetailsResponse = Venue;
+
+/**
+ * Version of the CanonicalVenue shape
+ * Bump it and add a migration in utils/venueModel.ts when the shape changes, so stored venues
+ * (bucket list storage, Supabase venue_data) are migrated forward when they are read.
+ */
+export const VENUE_SCHEMA_VERSION = 1;
+
+/**
+ * The app's one venue shape, whatever provider or legacy record it came from
+ */
+export interface CanonicalVenue {
+  schemaVersion: number;
+  id: string;
+  name: string;
+  categories: {
+    id: string;
+    name: string;
+    icon?: {
+      prefix?: string;
+      suffix?: string;
+    };
+  }[];
+  location: {
+    address?: string;
+    crossStreet?: string;
+    city?: string;
+    region?: string;
+    postalCode?: string;
+    country?: string;
+    neighborhood?: string[];
+    formattedAddress?: string;
+  };
+  coordinates?: Coordinates;
+  photos: VenuePhoto[];
+  // Full size URL of the first photo, or an image picked for the venue
+  heroImageUrl?: string;
+  // URL of the primary category icon
+  iconUrl?: string;
+  rating?: number;
+  price?: VenuePrice;
+  hours?: VenueHours;
+  contact: {
+    phone?: string;
+    website?: string;
+    email?: string;
+    twitter?: string;
+    instagram?: string;
+    facebook?: string;
+  };
+  description?: string;
+  verified?: boolean;
+  stats?: {
+    tipCount?: number;
+    usersCount?: number;
+    checkinsCount?: number;
+  };
+  distance?: number;
+  timezone?: string;
+}
@@ -0,0 +1,114 @@
+#!/usr/bin/env node
+
+// Regenerates assets/data/foursquare-categories.json from the Foursquare category taxonomy
+// download (CSV with "Category ID" and "Category Label" columns, labels joined by " > ").
+// Usage, from the project root: npm run update:categories -- <taxonomy.csv>
+
+const fs = require('fs');
+const path = require('path');
+
+const ROOT_LABEL = 'Dining and Drinking';
+const OUTPUT = path.resolve('assets/data/foursquare-categories.json');
+
+const parseCsvLine = line => {
+  const fields = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      fields.push(field);
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  fields.push(field);
+  return fields.map(value => value.trim());
+};
+
+const input = process.argv[2];
+if (!input) {
+  console.error('Usage: npm run update:categories -- <taxonomy.csv>');
+  process.exit(1);
+}
+
+const [header, ...rows] = fs.readFileSync(input, 'utf8').split(/\r?\n/).filter(Boolean);
+const columns = parseCsvLine(header);
+const idColumn = columns.indexOf('Category ID');
+const labelColumn = columns.indexOf('Category Label');
+if (idColumn < 0 || labelColumn < 0) {
+  console.error('Expected "Category ID" and "Category Label" columns');
+  process.exit(1);
+}
+
+// Icons are not part of the download, so known categories keep theirs and new ones use their parent's
+const current = JSON.parse(fs.readFileSync(OUTPUT, 'utf8'));
+const icons = new Map();
+const collectIcons = node => {
+  icons.set(node.id, node.icon);
+  (node.children || []).forEach(collectIcons);
+};
+current.categories.forEach(collectIcons);
+
+const entries = rows
+  .map(parseCsvLine)
+  .map(fields => ({ id: fields[idColumn], labels: fields[labelColumn].split(' > ') }))
+  .filter(entry => entry.labels[0] === ROOT_LABEL)
+  .sort((a, b) => a.labels.length - b.labels.length);
+
+const nodesByLabel = new Map();
+const roots = [];
+for (const { id, labels } of entries) {
+  const parent = nodesByLabel.get(labels.slice(0, -1).join(' > '));
+  if (labels.length > 1 && !parent) {
+    console.warn(`Skipping ${id} (${labels.join(' > ')}): its parent is missing`);
+    continue;
+  }
+  const node = {
+    id,
+    name: labels[labels.length - 1],
+    icon: icons.get(id) || (parent ? parent.icon : icons.get('13000')),
+  };
+  if (parent) {
+    parent.children = parent.children || [];
+    parent.children.push(node);
+  } else {
+    roots.push(node);
+  }
+  nodesByLabel.set(labels.join(' > '), node);
+}
+
+const sortChildren = node => {
+  if (node.children) {
+    node.children.sort((a, b) => a.name.localeCompare(b.name));
+    node.children.forEach(sortChildren);
+  }
+};
+roots.forEach(sortChildren);
+
+const missing = [...icons.keys()].filter(id => !entries.some(entry => entry.id === id));
+if (missing.length > 0) {
+  console.warn(`No longer in the taxonomy: ${missing.join(', ')}`);
+}
+
+fs.writeFileSync(
+  OUTPUT,
+  `${JSON.stringify(
+    { version: current.version + 1, source: current.source, categories: roots },
+    null,
+    2
+  )}\n`
+);
+console.log(`Wrote ${entries.length} categories to ${path.relative(process.cwd(), OUTPUT)}`);
@@ -0,0 +1,77 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import { type GeofenceEvent } from '@/models/geofence';
+
+const STORAGE_KEY = 'dinnafind_geofence_events';
+// Oldest events are dropped once the log is full
+export const MAX_GEOFENCE_EVENTS = 500;
+
+type GeofenceEventListener = (event: GeofenceEvent) => void;
+
+/**
+ * Append an event to a bounded history, dropping the oldest entries past capacity
+ */
+export const appendToRingBuffer = <T>(buffer: T[], item: T, capacity: number): T[] => {
+  const next = [...buffer, item];
+  return next.length > capacity ? next.slice(next.length - capacity) : next;
+};
+
+/**
+ * Durable history of geofence activity
+ * Written from the background geofence task and read by the geofencing slice
+ */
+class GeofenceEventLog {
+  private listeners: GeofenceEventListener[] = [];
+  // Serializes read-modify-write cycles so concurrent events are not lost
+  private pending: Promise<void> = Promise.resolve();
+
+  async record(event: Omit<GeofenceEvent, 'id' | 'timestamp'> & { timestamp?: number }) {
+    const suffix = Math.random().toString(36).slice(2, 8);
+    const entry: GeofenceEvent = {
+      ...event,
+      id: `${event.geofenceId}_${event.type}_${Date.now()}_${suffix}`,
+      timestamp: event.timestamp ?? Date.now(),
+    };
+
+    this.pending = this.pending.then(async () => {
+      try {
+        const events = await this.getEvents();
+        await AsyncStorage.setItem(
+          STORAGE_KEY,
+          JSON.stringify(appendToRingBuffer(events, entry, MAX_GEOFENCE_EVENTS))
+        );
+      } catch (error) {
+        console.error('[GeofenceEventLog] Failed to record event:', error);
+      }
+    });
+    await this.pending;
+
+    this.listeners.forEach(listener => listener(entry));
+    return entry;
+  }
+
+  async getEvents(): Promise<GeofenceEvent[]> {
+    try {
+      const stored = await AsyncStorage.getItem(STORAGE_KEY);
+      return stored ? JSON.parse(stored) : [];
+    } catch (error) {
+      console.error('[GeofenceEventLog] Failed to load events:', error);
+      return [];
+    }
+  }
+
+  async clear(): Promise<void> {
+    await AsyncStorage.removeItem(STORAGE_KEY);
+  }
+
+  // Subscribe to events recorded while the app is running
+  subscribe(listener: GeofenceEventListener): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+}
+
+const geofenceEventLogInstance = new GeofenceEventLog();
+export default geofenceEventLogInstance;
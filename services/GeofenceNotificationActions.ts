@@ -0,0 +1,193 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Notifications from 'expo-notifications';
+import * as TaskManager from 'expo-task-manager';
+import { Linking, Platform } from 'react-native';
+
+import GeofencingService from './GeofencingService';
+import { GEOFENCE_NOTIFICATION_CATEGORY } from './geofenceEventProcessor';
+import {
+  GEOFENCE_ACTION_DIRECTIONS,
+  GEOFENCE_ACTION_MARK_VISITED,
+  GEOFENCE_ACTION_MUTE,
+  GEOFENCE_ACTION_SNOOZE_WEEK,
+  claimNotificationResponse,
+  processGeofenceAction,
+  type GeofenceActionDeps,
+  type GeofenceNotificationData,
+} from './geofenceActionProcessor';
+import { SupabaseDataService } from './supabaseDataService';
+import { markAsVisited, setNotificationEnabled } from '@/store/slices/bucketListSlice';
+import { supabase } from '@/utils/supabase';
+
+export {
+  GEOFENCE_ACTION_DIRECTIONS,
+  GEOFENCE_ACTION_MARK_VISITED,
+  GEOFENCE_ACTION_MUTE,
+  GEOFENCE_ACTION_SNOOZE_WEEK,
+  type GeofenceNotificationData,
+};
+
+// Runs the action buttons while the app is not running
+const GEOFENCE_ACTION_TASK_NAME = 'GEOFENCE_NOTIFICATION_ACTION_TASK';
+
+/**
+ * Register the action buttons shown on geofence notifications
+ */
+export async function registerGeofenceNotificationCategory(): Promise<void> {
+  try {
+    await Notifications.setNotificationCategoryAsync(GEOFENCE_NOTIFICATION_CATEGORY, [
+      {
+        identifier: GEOFENCE_ACTION_DIRECTIONS,
+        buttonTitle: 'Directions',
+        options: { opensAppToForeground: true },
+      },
+      {
+        identifier: GEOFENCE_ACTION_SNOOZE_WEEK,
+        buttonTitle: 'Snooze 1 week',
+        options: { opensAppToForeground: false },
+      },
+      {
+        identifier: GEOFENCE_ACTION_MARK_VISITED,
+        buttonTitle: 'Mark visited',
+        options: { opensAppToForeground: false },
+      },
+      {
+        identifier: GEOFENCE_ACTION_MUTE,
+        buttonTitle: 'Mute this place',
+        options: { opensAppToForeground: false, isDestructive: true },
+      },
+    ]);
+    console.log('[GeofenceNotificationActions] Notification category registered');
+  } catch (error) {
+    console.error('[GeofenceNotificationActions] Failed to register category:', error);
+  }
+}
+
+/**
+ * Open turn-by-turn directions to a venue in the platform maps app
+ */
+async function openDirections(data: GeofenceNotificationData): Promise<void> {
+  if (data.latitude === undefined || data.longitude === undefined) {
+    console.warn('[GeofenceNotificationActions] No coordinates for directions:', data.geofenceId);
+    return;
+  }
+  const destination = `${data.latitude},${data.longitude}`;
+  const label = encodeURIComponent(data.restaurantName ?? '');
+  const url =
+    Platform.OS === 'ios'
+      ? `maps:?daddr=${destination}&q=${label}`
+      : `google.navigation:q=${destination}`;
+  await Linking.openURL(url);
+}
+
+// Device side of the actions, shared by the app and the background task
+const deviceActionDeps = {
+  storage: AsyncStorage,
+  openDirections,
+  snoozeGeofence: (geofenceId: string, until: number) =>
+    GeofencingService.snoozeGeofence(geofenceId, until),
+  dismissNotification: (identifier: string) => Notifications.dismissNotificationAsync(identifier),
+  now: () => Date.now(),
+};
+
+// The bucket list is not loaded without the app, so the background task writes to Supabase
+const getSignedInUserId = async (): Promise<string> => {
+  const {
+    data: { session },
+  } = await supabase.auth.getSession();
+  if (!session?.user) {
+    throw new Error('No signed-in user');
+  }
+  return session.user.id;
+};
+
+// Geofence ids are the store's item ids, which are not always the row id, so rows are found by venue
+const requireVenueId = (venueId: string | undefined): string => {
+  if (!venueId) {
+    throw new Error('No venue id on the notification');
+  }
+  return venueId;
+};
+
+const headlessActionDeps: GeofenceActionDeps = {
+  ...deviceActionDeps,
+  markVisited: async (_geofenceId, venueId) => {
+    const userId = await getSignedInUserId();
+    if (!(await SupabaseDataService.markItemVisited(userId, requireVenueId(venueId)))) {
+      throw new Error('Failed to mark item visited');
+    }
+  },
+  muteGeofence: async (geofenceId, venueId) => {
+    await GeofencingService.removeGeofence(geofenceId);
+    const userId = await getSignedInUserId();
+    if (
+      !(await SupabaseDataService.setItemNotificationsEnabled(
+        userId,
+        requireVenueId(venueId),
+        false
+      ))
+    ) {
+      throw new Error('Failed to mute item');
+    }
+  },
+};
+
+TaskManager.defineTask<Notifications.NotificationTaskPayload>(
+  GEOFENCE_ACTION_TASK_NAME,
+  async ({ data, error }) => {
+    if (error) {
+      console.error('[GeofenceNotificationActions] Background action error:', error);
+      return;
+    }
+    // Remote notifications arrive here too; only responses to our buttons are handled
+    if (!data || !('actionIdentifier' in data)) {
+      return;
+    }
+    if (await claimNotificationResponse(data, AsyncStorage)) {
+      await processGeofenceAction(data, headlessActionDeps);
+    }
+  }
+);
+
+/**
+ * Register the background task that handles action buttons while the app is not running
+ */
+export async function registerGeofenceActionTask(): Promise<void> {
+  try {
+    await Notifications.registerTaskAsync(GEOFENCE_ACTION_TASK_NAME);
+  } catch (error) {
+    console.error('[GeofenceNotificationActions] Failed to register action task:', error);
+  }
+}
+
+/**
+ * Record a notification response as handled
+ * @returns false if the listener, the cold start replay or the background task already handled it
+ */
+export const claimGeofenceNotificationResponse = (response: Notifications.NotificationResponse) =>
+  claimNotificationResponse(response, AsyncStorage);
+
+/**
+ * Handle a tap on one of the geofence notification buttons while the app is running
+ * @returns true if the response was a geofence action and has been handled
+ */
+export async function handleGeofenceNotificationAction(
+  response: Notifications.NotificationResponse,
+  dispatch: (action: any) => any
+): Promise<boolean> {
+  return processGeofenceAction(response, {
+    ...deviceActionDeps,
+    markVisited: async (geofenceId, venueId) => {
+      try {
+        await dispatch(markAsVisited({ id: geofenceId })).unwrap();
+      } catch {
+        // The bucket list is still loading on a cold start; it loads the visit from Supabase
+        await headlessActionDeps.markVisited(geofenceId, venueId);
+      }
+    },
+    muteGeofence: async geofenceId => {
+      dispatch(setNotificationEnabled({ id: geofenceId, enabled: false }));
+      await GeofencingService.removeGeofence(geofenceId);
+    },
+  });
+}
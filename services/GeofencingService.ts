@@ -2,20 +2,45 @@ import * as Location from 'expo-location';
 import * as TaskManager from 'expo-task-manager';
 import * as Notifications from 'expo-notifications';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Platform } from 'react-native';
+
+import { type NotificationFrequency, type QuietHours } from '@/models/app-state';
+import { type Coordinates } from '@/models/venue';
+import {
+  type Geofence,
+  type GeofenceBudgetReport,
+  type GeofenceDriftReport,
+} from '@/models/geofence';
+import {
+  ANDROID_MAX_MONITORED_REGIONS,
+  IOS_MAX_MONITORED_REGIONS,
+  SUPER_REGION_ID,
+  selectGeofenceBudget,
+  shouldReselectBudget,
+} from '@/utils/geofenceBudget';
+import { diffGeofences, hasGeofenceDrift } from '@/utils/geofenceReconciliation';
+import {
+  ARRIVAL_RADIUS_METERS,
+  MAX_ARRIVAL_FENCES,
+  toArrivalRegionId,
+} from '@/utils/arrivalDetection';
+import GeofenceEventLog from './GeofenceEventLog';
+import {
+  GEOFENCES_STORAGE_KEY,
+  NOTIFICATION_FREQUENCY_STORAGE_KEY,
+  QUIET_HOURS_STORAGE_KEY,
+  processGeofenceEvent,
+  pruneInsideGeofences,
+  type GeofenceProcessorDeps,
+} from './geofenceEventProcessor';
+import { parseGpsTrack, simulateGeofenceTrack } from './geofenceSimulator';
 
 const GEOFENCE_TASK_NAME = 'MINIMAL_GEOFENCE_TASK';
-const NOTIFICATION_COOLDOWN = 5 * 60 * 1000; // 5 minutes in milliseconds
-const STORAGE_KEY = 'dinnafind_geofences';
-
-type Geofence = {
-  id: string;
-  name: string;
-  latitude: number;
-  longitude: number;
-  radius: number;
-  // Optional Foursquare venue id for direct navigation
-  venueId?: string;
-};
+const STORAGE_KEY = GEOFENCES_STORAGE_KEY;
+const ORIGIN_STORAGE_KEY = 'dinnafind_geofence_origin';
+const ARRIVAL_STORAGE_KEY = 'dinnafind_arrival_candidates';
+const MAX_MONITORED_REGIONS =
+  Platform.OS === 'ios' ? IOS_MAX_MONITORED_REGIONS : ANDROID_MAX_MONITORED_REGIONS;
 
 // Initialize notification permissions
 Notifications.setNotificationHandler({
@@ -28,6 +53,30 @@ Notifications.setNotificationHandler({
   }),
 });
 
+// Wire the event processor to the device
+const taskProcessorDeps: GeofenceProcessorDeps = {
+  storage: AsyncStorage,
+  scheduleNotification: ({ identifier, deliverAt, ...content }) =>
+    Notifications.scheduleNotificationAsync({
+      identifier,
+      content: { ...content, sound: true },
+      trigger: deliverAt
+        ? { type: Notifications.SchedulableTriggerInputTypes.DATE, date: deliverAt }
+        : null, // Send immediately
+    }),
+  cancelNotification: identifier => Notifications.cancelScheduledNotificationAsync(identifier),
+  recordEvent: event => GeofenceEventLog.record(event),
+  now: () => Date.now(),
+  onSuperRegionExit: async () => {
+    const position = await Location.getLastKnownPositionAsync();
+    if (position) {
+      await geofencingServiceInstance.updateOrigin(position.coords, true);
+    }
+  },
+  setArrivalFenceArmed: (geofenceId, armed) =>
+    geofencingServiceInstance.setArrivalFenceArmed(geofenceId, armed),
+};
+
 TaskManager.defineTask(
   GEOFENCE_TASK_NAME,
   async ({ data, error }: TaskManager.TaskManagerTaskBody<any>) => {
@@ -37,73 +86,35 @@ TaskManager.defineTask(
     }
     if (data && data.eventType && data.region) {
       const { eventType, region } = data;
-      const eventTypeStr =
-        eventType === Location.GeofencingEventType.Enter
-          ? 'ENTER'
-          : eventType === Location.GeofencingEventType.Exit
-          ? 'EXIT'
-          : eventType;
-      console.log(
-        `[GeofencingService] Geofence event: ${eventTypeStr} | Region:`,
-        JSON.stringify(region)
-      );
-      if (eventType === Location.GeofencingEventType.Enter) {
-        console.log('[GeofencingService] ENTER event triggered for region:', region.identifier);
-
-        // Get restaurant name and venueId from stored geofences
-        const storedData = await AsyncStorage.getItem(STORAGE_KEY);
-        let restaurantName = region.identifier;
-        let venueId: string | undefined = undefined;
-        if (storedData) {
-          const geofences: Geofence[] = JSON.parse(storedData);
-          const geofence = geofences.find(g => g.id === region.identifier);
-          if (geofence) {
-            restaurantName = geofence.name;
-            venueId = geofence.venueId;
-          }
-        }
-
-        // Check cooldown
-        const now = Date.now();
-        const lastNotificationTime = await AsyncStorage.getItem(
-          `last_notification_${region.identifier}`
-        );
-        const lastTime = lastNotificationTime ? parseInt(lastNotificationTime, 10) : 0;
-
-        if (now - lastTime > NOTIFICATION_COOLDOWN) {
-          // Send actual notification
-          await Notifications.scheduleNotificationAsync({
-            content: {
-              title: 'DinnaFind!',
-              body: `You're near ${restaurantName}. Time to check it out!`,
-              data: { geofenceId: region.identifier, restaurantName, venueId },
-              sound: true,
-            },
-            trigger: null, // Send immediately
-          });
-
-          // Store notification time
-          await AsyncStorage.setItem(`last_notification_${region.identifier}`, now.toString());
-          console.log('[GeofencingService] Notification sent for ENTER event:', restaurantName);
-        } else {
-          console.log(
-            '[GeofencingService] Cooldown active, skipping notification for:',
-            restaurantName
-          );
-        }
-      }
-      if (eventType === Location.GeofencingEventType.Exit) {
-        // Don't send notifications for EXIT events
-        console.log('[GeofencingService] EXIT event (no notification sent):', region.identifier);
+      if (
+        eventType !== Location.GeofencingEventType.Enter &&
+        eventType !== Location.GeofencingEventType.Exit
+      ) {
+        return;
       }
+      await processGeofenceEvent(
+        {
+          eventType: eventType === Location.GeofencingEventType.Enter ? 'enter' : 'exit',
+          region,
+        },
+        taskProcessorDeps
+      );
     }
   }
 );
 
 class GeofencingService {
   geofences: Geofence[] = [];
+  // Position the armed set was selected from
+  origin: Coordinates | null = null;
+  budget: GeofenceBudgetReport | null = null;
+  // Geofences the user is currently inside, each with an arrival fence at its center
+  arrivalCandidates: string[] = [];
+  lastDriftReport: GeofenceDriftReport | null = null;
 
   async addGeofence(geofence: Geofence): Promise<void> {
+    // Replace any existing fence for the same venue (e.g. when its radius changes)
+    this.geofences = this.geofences.filter(g => g.id !== geofence.id);
     this.geofences.push(geofence);
     console.log('[GeofencingService] Geofence added:', geofence);
     console.log('[GeofencingService] All geofences:', JSON.stringify(this.geofences));
@@ -112,7 +123,12 @@ class GeofencingService {
   }
 
   async removeGeofence(id: string): Promise<void> {
+    // Muting from a notification can run before initialize() in a fresh JS context
+    if (this.geofences.length === 0) {
+      await this._loadGeofences();
+    }
     this.geofences = this.geofences.filter(g => g.id !== id);
+    this.arrivalCandidates = this.arrivalCandidates.filter(c => c !== id);
     console.log('[GeofencingService] Geofence removed:', id);
     console.log('[GeofencingService] All geofences:', JSON.stringify(this.geofences));
     await this._saveGeofences();
@@ -122,6 +138,7 @@ class GeofencingService {
   private async _saveGeofences(): Promise<void> {
     try {
       await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(this.geofences));
+      await AsyncStorage.setItem(ARRIVAL_STORAGE_KEY, JSON.stringify(this.arrivalCandidates));
     } catch (error) {
       console.error('[GeofencingService] Failed to save geofences:', error);
     }
@@ -133,11 +150,135 @@ class GeofencingService {
       if (stored) {
         this.geofences = JSON.parse(stored);
       }
+      const storedOrigin = await AsyncStorage.getItem(ORIGIN_STORAGE_KEY);
+      if (storedOrigin) {
+        this.origin = JSON.parse(storedOrigin);
+      }
+      const storedArrivals = await AsyncStorage.getItem(ARRIVAL_STORAGE_KEY);
+      if (storedArrivals) {
+        this.arrivalCandidates = JSON.parse(storedArrivals);
+      }
     } catch (error) {
       console.error('[GeofencingService] Failed to load geofences:', error);
     }
   }
 
+  /**
+   * Record the user's position and re-select the armed venues if they moved far enough
+   * @param coords Latest user position
+   * @param force Re-select even if the user is still near the last origin
+   */
+  async updateOrigin(
+    coords: Pick<Coordinates, 'latitude' | 'longitude'>,
+    force = false
+  ): Promise<void> {
+    const position = { latitude: coords.latitude, longitude: coords.longitude };
+
+    // The background task can run before initialize() in a fresh JS context
+    if (this.geofences.length === 0) {
+      await this._loadGeofences();
+    }
+
+    const needsReselect = force || !this.origin || shouldReselectBudget(this.budget, position);
+    if (!needsReselect) {
+      return;
+    }
+
+    this.origin = position;
+    try {
+      await AsyncStorage.setItem(ORIGIN_STORAGE_KEY, JSON.stringify(position));
+    } catch (error) {
+      console.error('[GeofencingService] Failed to save geofence origin:', error);
+    }
+
+    if (this.geofences.length > MAX_MONITORED_REGIONS || force) {
+      await this._updateGeofences();
+    }
+  }
+
+  /**
+   * Bring the registered geofences in line with the desired set, applying only the differences
+   * @param desired Geofences the bucket list and preferences call for
+   * @returns What differed before reconciling
+   */
+  async reconcile(desired: Geofence[]): Promise<GeofenceDriftReport> {
+    if (this.geofences.length === 0) {
+      await this._loadGeofences();
+    }
+
+    let isMonitoring = false;
+    try {
+      isMonitoring = await Location.hasStartedGeofencingAsync(GEOFENCE_TASK_NAME);
+    } catch {
+      // The task has never been registered
+    }
+
+    const report = diffGeofences(desired, this.geofences, isMonitoring);
+    this.lastDriftReport = report;
+    if (!hasGeofenceDrift(report)) {
+      console.log(`[GeofencingService] Geofences in sync (${report.unchanged})`);
+      return report;
+    }
+
+    const replacedIds = new Set([...report.stale, ...report.changed.map(g => g.id)]);
+    this.geofences = [
+      ...this.geofences.filter(g => !replacedIds.has(g.id)),
+      ...report.changed,
+      ...report.missing,
+    ];
+    this.arrivalCandidates = this.arrivalCandidates.filter(id => this.hasGeofence(id));
+    console.log(
+      `[GeofencingService] Reconciled geofences: +${report.missing.length} -${report.stale.length} ~${report.changed.length}`
+    );
+
+    await this._saveGeofences();
+    await this._updateGeofences();
+    return report;
+  }
+
+  // Get the drift found by the last reconciliation
+  getLastDriftReport(): GeofenceDriftReport | null {
+    return this.lastDriftReport;
+  }
+
+  /**
+   * Arm or disarm the arrival fence of a geofence the user entered or left
+   * @param id Geofence id
+   * @param armed Whether the user is inside the geofence
+   */
+  async setArrivalFenceArmed(id: string, armed: boolean): Promise<void> {
+    // The background task can run before initialize() in a fresh JS context
+    if (this.geofences.length === 0) {
+      await this._loadGeofences();
+    }
+
+    if (armed === this.arrivalCandidates.includes(id)) {
+      return;
+    }
+    const previousFences = this._getArrivalFences();
+    this.arrivalCandidates = armed
+      ? [...this.arrivalCandidates, id]
+      : this.arrivalCandidates.filter(c => c !== id);
+    await this._saveGeofences();
+
+    // Registering regions again repeats ENTER for those the user is in, so only do it when
+    // the candidate gets or loses a fence
+    const fences = this._getArrivalFences();
+    if (
+      fences.length !== previousFences.length ||
+      fences.some((fence, index) => fence.id !== previousFences[index].id)
+    ) {
+      await this._updateGeofences();
+    }
+  }
+
+  // Geofences with an arrival fence: the first candidates, up to the limit
+  private _getArrivalFences(): Geofence[] {
+    return this.geofences
+      .filter(g => this.arrivalCandidates.includes(g.id))
+      .slice(0, MAX_ARRIVAL_FENCES);
+  }
+
   private async _updateGeofences(): Promise<void> {
     try {
       // First check if we have location permissions
@@ -161,20 +302,58 @@ class GeofencingService {
         console.log('[GeofencingService] No existing geofencing task to stop');
       }
 
+      // Arrival fences take their slots out of the region budget
+      const arrivalFences = this._getArrivalFences();
+      this.budget = selectGeofenceBudget(
+        this.geofences,
+        this.origin,
+        MAX_MONITORED_REGIONS - arrivalFences.length
+      );
+
       if (this.geofences.length === 0) {
         console.log('[GeofencingService] No geofences to monitor');
         return;
       }
 
-      const regions = this.geofences.map(geofence => ({
+      const regions: Location.LocationRegion[] = this.budget.armed.map(geofence => ({
         identifier: geofence.id,
         latitude: geofence.latitude,
         longitude: geofence.longitude,
         radius: Math.max(geofence.radius, 100), // Minimum 100m radius for iOS
-        notifyOnEnter: true, // Only notify on ENTER
-        notifyOnExit: false, // Don't notify on EXIT
+        notifyOnEnter: true,
+        notifyOnExit: true, // EXIT disarms the venue's arrival fence
       }));
 
+      for (const geofence of arrivalFences) {
+        regions.push({
+          identifier: toArrivalRegionId(geofence.id),
+          latitude: geofence.latitude,
+          longitude: geofence.longitude,
+          radius: ARRIVAL_RADIUS_METERS,
+          notifyOnEnter: true,
+          notifyOnExit: true,
+        });
+      }
+
+      if (this.budget.superRegion) {
+        regions.push({
+          identifier: SUPER_REGION_ID,
+          latitude: this.budget.superRegion.latitude,
+          longitude: this.budget.superRegion.longitude,
+          radius: this.budget.superRegion.radius,
+          notifyOnEnter: false,
+          notifyOnExit: true,
+        });
+        console.log(
+          `[GeofencingService] Region budget: ${this.budget.armed.length} armed, ${this.budget.dormant.length} dormant`
+        );
+      }
+
+      await pruneInsideGeofences(
+        AsyncStorage,
+        this.budget.armed.map(geofence => geofence.id)
+      );
+
       console.log('[GeofencingService] Starting geofencing with regions:', regions);
       await Location.startGeofencingAsync(GEOFENCE_TASK_NAME, regions);
       console.log('[GeofencingService] Geofencing started successfully');
@@ -184,6 +363,49 @@ class GeofencingService {
     }
   }
 
+  // Mirror quiet hours to storage so the background task can read them
+  async setQuietHours(quietHours: QuietHours): Promise<void> {
+    try {
+      await AsyncStorage.setItem(QUIET_HOURS_STORAGE_KEY, JSON.stringify(quietHours));
+    } catch (error) {
+      console.error('[GeofencingService] Failed to save quiet hours:', error);
+    }
+  }
+
+  // Mirror alert frequency caps to storage so the background task can read them
+  async setNotificationFrequency(frequency: NotificationFrequency): Promise<void> {
+    try {
+      await AsyncStorage.setItem(NOTIFICATION_FREQUENCY_STORAGE_KEY, JSON.stringify(frequency));
+    } catch (error) {
+      console.error('[GeofencingService] Failed to save notification frequency:', error);
+    }
+  }
+
+  // The user opened or acted on alerts for these geofences, so they were not ignored
+  async acknowledgeAlerts(ids: string[]): Promise<void> {
+    try {
+      await AsyncStorage.multiRemove(ids.map(id => `ignored_alerts_${id}`));
+    } catch (error) {
+      console.error('[GeofencingService] Failed to acknowledge alerts:', error);
+    }
+  }
+
+  // Mute alerts for a geofence until the given time without removing it
+  async snoozeGeofence(id: string, until: number): Promise<void> {
+    try {
+      await AsyncStorage.setItem(`snoozed_until_${id}`, until.toString());
+      console.log('[GeofencingService] Snoozed geofence until', new Date(until).toISOString(), id);
+    } catch (error) {
+      console.error('[GeofencingService] Failed to snooze geofence:', error);
+    }
+  }
+
+  // Get the last notification policy decision recorded for a geofence
+  async getLastPolicyDecision(id: string) {
+    const stored = await AsyncStorage.getItem(`last_policy_decision_${id}`);
+    return stored ? JSON.parse(stored) : null;
+  }
+
   // Debug method to log all geofences
   logAllGeofences() {
     console.log('[GeofencingService] Current geofences:', JSON.stringify(this.geofences));
@@ -235,10 +457,17 @@ class GeofencingService {
     return [...this.geofences];
   }
 
+  // Get which geofences are registered with the OS and which are dormant
+  getBudgetReport(): GeofenceBudgetReport {
+    return this.budget ?? selectGeofenceBudget(this.geofences, this.origin, MAX_MONITORED_REGIONS);
+  }
+
   // Clear all geofences
   async clearAllGeofences(): Promise<void> {
     console.log('[GeofencingService] Clearing all geofences...');
     this.geofences = [];
+    this.budget = null;
+    this.arrivalCandidates = [];
     await this._saveGeofences();
     try {
       await Location.stopGeofencingAsync(GEOFENCE_TASK_NAME);
@@ -264,4 +493,14 @@ if (__DEV__) {
   (globalThis as any).restartGeofencing = async () => {
     await geofencingServiceInstance.restartGeofencing();
   };
+  // Replay a GPX or JSON lines track against the current geofences
+  (globalThis as any).replayGeofenceTrack = async (track: string) => {
+    const result = await simulateGeofenceTrack(
+      parseGpsTrack(track),
+      geofencingServiceInstance.getActiveGeofences()
+    );
+    console.log('[GeofencingService] Replay events:', JSON.stringify(result.events));
+    console.log('[GeofencingService] Replay notifications:', JSON.stringify(result.notifications));
+    return result;
+  };
 }
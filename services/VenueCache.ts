@@ -0,0 +1,247 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import { FoursquareError } from '@/api/foursquareClient';
+import { type Venue } from '@/models/venue';
+
+const ENTRY_KEY_PREFIX = 'dinnafind_venue_cache_';
+// Maps fsq_id to the last time the entry was read or written, for eviction
+const INDEX_KEY = 'dinnafind_venue_cache_index';
+
+// Least recently used venues are dropped past this many entries
+export const MAX_CACHED_VENUES = 200;
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+/**
+ * Venue fields that go stale at the same rate
+ */
+export type VenueFieldGroup = 'hours' | 'details' | 'identity';
+
+export const VENUE_FIELD_TTLS_MS: Record<VenueFieldGroup, number> = {
+  // Opening hours and open-now flags change often (holidays, temporary closures)
+  hours: 6 * HOUR_MS,
+  // Ratings, prices and photos drift slowly
+  details: 3 * DAY_MS,
+  // Name, location, categories and contact details rarely change
+  identity: 30 * DAY_MS,
+};
+
+const FIELD_GROUPS: Record<string, VenueFieldGroup> = {
+  hours: 'hours',
+  rating: 'details',
+  ratingColor: 'details',
+  price: 'details',
+  photos: 'details',
+  stats: 'details',
+  popularity: 'details',
+};
+
+const fieldGroup = (field: string): VenueFieldGroup => FIELD_GROUPS[field] ?? 'identity';
+
+/**
+ * A cached venue and when each group of its fields was last fetched
+ */
+export interface VenueCacheEntry {
+  venue: Venue;
+  fetchedAt: Partial<Record<VenueFieldGroup, number>>;
+}
+
+export interface VenueCacheResult {
+  venue: Venue;
+  // network: just fetched; cache: fresh cache hit; stale: cached data past its TTL
+  source: 'network' | 'cache' | 'stale';
+}
+
+export interface VenueCacheStorage {
+  getItem: (key: string) => Promise<string | null>;
+  setItem: (key: string, value: string) => Promise<void>;
+  removeItem: (key: string) => Promise<void>;
+}
+
+export interface VenueCacheOptions {
+  storage?: VenueCacheStorage;
+  maxEntries?: number;
+  now?: () => number;
+}
+
+/**
+ * Merge freshly fetched fields into a cache entry
+ * Only the field groups present in the response are marked as refreshed
+ */
+export const mergeVenueEntry = (
+  entry: VenueCacheEntry | null,
+  venue: Venue,
+  now: number
+): VenueCacheEntry => {
+  const fetchedAt = { ...entry?.fetchedAt };
+  for (const [field, value] of Object.entries(venue)) {
+    if (value !== undefined) {
+      fetchedAt[fieldGroup(field)] = now;
+    }
+  }
+  return { venue: { ...entry?.venue, ...venue }, fetchedAt };
+};
+
+/**
+ * Field groups of an entry older than their TTL
+ * Groups that were never fetched are not stale, so partial fetches do not revalidate forever
+ */
+export const getStaleFieldGroups = (entry: VenueCacheEntry, now: number): VenueFieldGroup[] =>
+  (Object.keys(entry.fetchedAt) as VenueFieldGroup[]).filter(
+    group => now - (entry.fetchedAt[group] ?? 0) > VENUE_FIELD_TTLS_MS[group]
+  );
+
+/**
+ * Ids to evict so the index fits, least recently used first
+ */
+export const selectEvictions = (index: Record<string, number>, maxEntries: number): string[] => {
+  const ids = Object.keys(index).sort((a, b) => index[a] - index[b]);
+  return ids.slice(0, Math.max(0, ids.length - maxEntries));
+};
+
+const normalizeVenueId = (venueId: string): string => venueId.split('?')[0];
+
+/**
+ * Persistent cache of Foursquare venue details keyed by fsq_id
+ * Serves cached venues immediately and refreshes stale ones in the background
+ */
+export class VenueCache {
+  private readonly storage: VenueCacheStorage;
+  private readonly maxEntries: number;
+  private readonly now: () => number;
+  private index: Record<string, number> | null = null;
+  // Serializes index and entry read-modify-write cycles
+  private pending: Promise<void> = Promise.resolve();
+  // Background refreshes in flight, so one venue is not revalidated twice at once
+  private revalidating = new Map<string, Promise<Venue>>();
+
+  constructor(options: VenueCacheOptions = {}) {
+    this.storage = options.storage ?? AsyncStorage;
+    this.maxEntries = options.maxEntries ?? MAX_CACHED_VENUES;
+    this.now = options.now ?? Date.now;
+  }
+
+  private async loadIndex(): Promise<Record<string, number>> {
+    if (!this.index) {
+      try {
+        const stored = await this.storage.getItem(INDEX_KEY);
+        this.index = stored ? JSON.parse(stored) : {};
+      } catch (error) {
+        console.error('[VenueCache] Failed to load index:', error);
+        this.index = {};
+      }
+    }
+    return this.index!;
+  }
+
+  // Mark an entry as used and evict the least recently used past capacity
+  private touch(id: string): Promise<void> {
+    this.pending = this.pending.then(async () => {
+      try {
+        const index = await this.loadIndex();
+        index[id] = this.now();
+        const evicted = selectEvictions(index, this.maxEntries);
+        for (const evictedId of evicted) {
+          delete index[evictedId];
+          await this.storage.removeItem(ENTRY_KEY_PREFIX + evictedId);
+        }
+        await this.storage.setItem(INDEX_KEY, JSON.stringify(index));
+      } catch (error) {
+        console.error('[VenueCache] Failed to update index:', error);
+      }
+    });
+    return this.pending;
+  }
+
+  async getEntry(venueId: string): Promise<VenueCacheEntry | null> {
+    try {
+      const stored = await this.storage.getItem(ENTRY_KEY_PREFIX + normalizeVenueId(venueId));
+      return stored ? JSON.parse(stored) : null;
+    } catch (error) {
+      console.error('[VenueCache] Failed to read entry:', error);
+      return null;
+    }
+  }
+
+  async put(venueId: string, venue: Venue): Promise<VenueCacheEntry> {
+    const id = normalizeVenueId(venueId);
+    // Queued, so a background refresh cannot merge into an older entry and overwrite a newer put
+    const write = this.pending.then(async () => {
+      const entry = mergeVenueEntry(await this.getEntry(id), venue, this.now());
+      try {
+        await this.storage.setItem(ENTRY_KEY_PREFIX + id, JSON.stringify(entry));
+      } catch (error) {
+        console.error('[VenueCache] Failed to write entry:', error);
+      }
+      return entry;
+    });
+    this.pending = write.then(
+      () => undefined,
+      () => undefined
+    );
+    const entry = await write;
+    await this.touch(id);
+    return entry;
+  }
+
+  private revalidate(id: string, fetcher: (venueId: string) => Promise<Venue>): Promise<Venue> {
+    const inFlight = this.revalidating.get(id);
+    if (inFlight) {
+      return inFlight;
+    }
+    const request = fetcher(id)
+      .then(async venue => (await this.put(id, venue)).venue)
+      .finally(() => {
+        this.revalidating.delete(id);
+      });
+    this.revalidating.set(id, request);
+    return request;
+  }
+
+  /**
+   * Get a venue, from the cache when possible
+   * @param fetcher Loads the venue from the network on a miss or to refresh stale fields
+   * @param options.offline Serve cached data without attempting a refresh
+   */
+  async getVenue(
+    venueId: string,
+    fetcher: (venueId: string) => Promise<Venue>,
+    { offline = false }: { offline?: boolean } = {}
+  ): Promise<VenueCacheResult> {
+    const id = normalizeVenueId(venueId);
+    const entry = await this.getEntry(id);
+
+    if (!entry) {
+      if (offline) {
+        throw new FoursquareError('network', 'Venue is not available offline');
+      }
+      return { venue: await this.revalidate(id, fetcher), source: 'network' };
+    }
+
+    await this.touch(id);
+    if (getStaleFieldGroups(entry, this.now()).length === 0) {
+      return { venue: entry.venue, source: 'cache' };
+    }
+
+    // Stale while revalidate: answer now and refresh for next time
+    if (!offline) {
+      this.revalidate(id, fetcher).catch(error => {
+        console.warn('[VenueCache] Background refresh failed for', id, error?.message);
+      });
+    }
+    return { venue: entry.venue, source: 'stale' };
+  }
+
+  async clear(): Promise<void> {
+    const index = await this.loadIndex();
+    for (const id of Object.keys(index)) {
+      await this.storage.removeItem(ENTRY_KEY_PREFIX + id);
+    }
+    this.index = {};
+    await this.storage.removeItem(INDEX_KEY);
+  }
+}
+
+const venueCacheInstance = new VenueCache();
+export default venueCacheInstance;
@@ -0,0 +1,180 @@
+import {
+  GEOFENCE_ACTION_DIRECTIONS,
+  GEOFENCE_ACTION_MARK_VISITED,
+  GEOFENCE_ACTION_MUTE,
+  GEOFENCE_ACTION_SNOOZE_WEEK,
+  HANDLED_RESPONSES_STORAGE_KEY,
+  MAX_HANDLED_RESPONSES,
+  ONE_WEEK_MS,
+  claimNotificationResponse,
+  processGeofenceAction,
+} from '@/services/geofenceActionProcessor';
+import { type BucketListItem } from '@/models/bucket-list';
+import { buildDesiredGeofences } from '@/utils/geofenceReconciliation';
+import { normalizeVenue } from '@/utils/venueModel';
+
+const NOW = new Date(2025, 0, 6, 12, 0).getTime();
+
+const data = {
+  geofenceId: 'item-1',
+  restaurantName: 'Franklin Barbecue',
+  venueId: 'fsq-1',
+  latitude: 30.2701,
+  longitude: -97.7313,
+};
+
+let notificationCount = 0;
+
+const makeResponse = (actionIdentifier: string, responseData: unknown = data) => ({
+  actionIdentifier,
+  notification: {
+    request: {
+      identifier: `notification-${++notificationCount}`,
+      content: { data: responseData },
+    },
+  },
+});
+
+const makeStorage = () => {
+  const values = new Map<string, string>();
+  return {
+    values,
+    getItem: async (key: string) => values.get(key) ?? null,
+    setItem: async (key: string, value: string) => {
+      values.set(key, value);
+    },
+  };
+};
+
+const makeDeps = () => ({
+  storage: makeStorage(),
+  openDirections: jest.fn(async () => {}),
+  snoozeGeofence: jest.fn(async () => {}),
+  markVisited: jest.fn(async () => {}),
+  muteGeofence: jest.fn(async () => {}),
+  dismissNotification: jest.fn(async () => {}),
+  now: () => NOW,
+});
+
+describe('geofenceActionProcessor', () => {
+  describe('processGeofenceAction', () => {
+    it('should open directions to the venue', async () => {
+      const deps = makeDeps();
+
+      await expect(
+        processGeofenceAction(makeResponse(GEOFENCE_ACTION_DIRECTIONS), deps)
+      ).resolves.toBe(true);
+      expect(deps.openDirections).toHaveBeenCalledWith(data);
+    });
+
+    it('should snooze the geofence for a week', async () => {
+      const deps = makeDeps();
+
+      await processGeofenceAction(makeResponse(GEOFENCE_ACTION_SNOOZE_WEEK), deps);
+      expect(deps.snoozeGeofence).toHaveBeenCalledWith('item-1', NOW + ONE_WEEK_MS);
+    });
+
+    it('should mark the item visited', async () => {
+      const deps = makeDeps();
+
+      await processGeofenceAction(makeResponse(GEOFENCE_ACTION_MARK_VISITED), deps);
+      expect(deps.markVisited).toHaveBeenCalledWith('item-1', 'fsq-1');
+      expect(deps.muteGeofence).not.toHaveBeenCalled();
+    });
+
+    it('should mute the geofence', async () => {
+      const deps = makeDeps();
+
+      await processGeofenceAction(makeResponse(GEOFENCE_ACTION_MUTE), deps);
+      expect(deps.muteGeofence).toHaveBeenCalledWith('item-1', 'fsq-1');
+      expect(deps.markVisited).not.toHaveBeenCalled();
+    });
+
+    it('should keep a muted venue out of the geofences reconciliation registers', async () => {
+      let items = [
+        {
+          id: 'item-1',
+          venue: normalizeVenue({
+            id: 'fsq-1',
+            name: 'Franklin Barbecue',
+            geocodes: { main: { latitude: data.latitude, longitude: data.longitude } },
+          }),
+          notificationsEnabled: true,
+          addedAt: 0,
+        } as BucketListItem,
+      ];
+      const reconcile = () =>
+        buildDesiredGeofences(items, {
+          masterEnabled: true,
+          distanceMiles: 1,
+          priorityScaledRadius: false,
+        }).map(geofence => geofence.id);
+      const deps = makeDeps();
+      // As setNotificationEnabled does in the store
+      deps.muteGeofence = jest.fn(async (geofenceId: string) => {
+        items = items.map(item =>
+          item.id === geofenceId ? { ...item, notificationsEnabled: false } : item
+        );
+      });
+
+      expect(reconcile()).toEqual(['item-1']);
+      await processGeofenceAction(makeResponse(GEOFENCE_ACTION_MUTE), deps);
+      expect(reconcile()).toEqual([]);
+    });
+
+    it('should dismiss the notification after an action, even one that failed', async () => {
+      const deps = makeDeps();
+      deps.markVisited = jest.fn(async () => {
+        throw new Error('offline');
+      });
+      const response = makeResponse(GEOFENCE_ACTION_MARK_VISITED);
+
+      await expect(processGeofenceAction(response, deps)).resolves.toBe(true);
+      expect(deps.dismissNotification).toHaveBeenCalledWith(
+        response.notification.request.identifier
+      );
+    });
+
+    it('should leave taps and other notifications alone', async () => {
+      const deps = makeDeps();
+
+      await expect(
+        processGeofenceAction(makeResponse('expo.modules.notifications.actions.DEFAULT'), deps)
+      ).resolves.toBe(false);
+      await expect(
+        processGeofenceAction(makeResponse(GEOFENCE_ACTION_MUTE, { kind: 'other' }), deps)
+      ).resolves.toBe(false);
+      expect(deps.muteGeofence).not.toHaveBeenCalled();
+      expect(deps.dismissNotification).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('claimNotificationResponse', () => {
+    it('should claim a response once', async () => {
+      const storage = makeStorage();
+      const response = makeResponse(GEOFENCE_ACTION_MARK_VISITED);
+
+      await expect(claimNotificationResponse(response, storage)).resolves.toBe(true);
+      await expect(claimNotificationResponse(response, storage)).resolves.toBe(false);
+    });
+
+    it('should skip responses handled in an earlier launch', async () => {
+      const storage = makeStorage();
+      const response = makeResponse(GEOFENCE_ACTION_SNOOZE_WEEK);
+      const key = `${response.notification.request.identifier}:${GEOFENCE_ACTION_SNOOZE_WEEK}`;
+      storage.values.set(HANDLED_RESPONSES_STORAGE_KEY, JSON.stringify([key]));
+
+      await expect(claimNotificationResponse(response, storage)).resolves.toBe(false);
+    });
+
+    it('should keep only the most recent handled responses', async () => {
+      const storage = makeStorage();
+      for (let i = 0; i <= MAX_HANDLED_RESPONSES; i++) {
+        await claimNotificationResponse(makeResponse(GEOFENCE_ACTION_MUTE), storage);
+      }
+
+      const handled = JSON.parse(storage.values.get(HANDLED_RESPONSES_STORAGE_KEY)!);
+      expect(handled).toHaveLength(MAX_HANDLED_RESPONSES);
+    });
+  });
+});
@@ -0,0 +1,83 @@
+import {
+  GEOFENCES_STORAGE_KEY,
+  processGeofenceEvent,
+  type GeofenceNotificationRequest,
+  type GeofenceProcessorDeps,
+} from '@/services/geofenceEventProcessor';
+import { type Geofence } from '@/models/geofence';
+import { ALERT_BATCH_NOTIFICATION_KIND } from '@/utils/notificationBatching';
+
+// Monday 6 January 2025, 12:00 local time
+const NOW = new Date(2025, 0, 6, 12, 0).getTime();
+
+const makeGeofence = (id: string, name: string, longitudeOffset: number): Geofence => ({
+  id,
+  name,
+  latitude: 30.2701,
+  longitude: -97.7313 + longitudeOffset,
+  radius: 200,
+  venueId: `fsq-${id}`,
+});
+
+const franklin = makeGeofence('item-1', 'Franklin Barbecue', 0);
+const micklethwait = makeGeofence('item-2', 'Micklethwait', 0.001);
+
+// Storage that yields between calls, as AsyncStorage does, so unserialized writes interleave
+const makeDeps = (geofences: Geofence[]) => {
+  const values = new Map<string, string>([[GEOFENCES_STORAGE_KEY, JSON.stringify(geofences)]]);
+  const tick = () => new Promise(resolve => setTimeout(resolve, 0));
+  const notifications: GeofenceNotificationRequest[] = [];
+  const deps: GeofenceProcessorDeps = {
+    storage: {
+      getItem: async key => {
+        await tick();
+        return values.get(key) ?? null;
+      },
+      setItem: async (key, value) => {
+        await tick();
+        values.set(key, value);
+      },
+      removeItem: async key => {
+        await tick();
+        values.delete(key);
+      },
+    },
+    scheduleNotification: async request => {
+      notifications.push(request);
+    },
+    cancelNotification: async () => {},
+    recordEvent: async () => {},
+    now: () => NOW,
+    onSuperRegionExit: async () => {},
+    setArrivalFenceArmed: async () => {},
+  };
+  return { deps, values, notifications };
+};
+
+const enter = (geofence: Geofence) => ({
+  eventType: 'enter' as const,
+  region: {
+    identifier: geofence.id,
+    latitude: geofence.latitude,
+    longitude: geofence.longitude,
+  },
+});
+
+describe('geofenceEventProcessor', () => {
+  it('should group venues entered at the same moment into one notification', async () => {
+    const { deps, values, notifications } = makeDeps([franklin, micklethwait]);
+
+    await Promise.all([
+      processGeofenceEvent(enter(franklin), deps),
+      processGeofenceEvent(enter(micklethwait), deps),
+    ]);
+
+    const last = notifications[notifications.length - 1];
+    expect(last.data).toEqual({
+      kind: ALERT_BATCH_NOTIFICATION_KIND,
+      geofenceIds: ['item-1', 'item-2'],
+    });
+    expect(JSON.parse(values.get('dinnafind_inside_geofences')!)).toEqual(['item-1', 'item-2']);
+    expect(JSON.parse(values.get('dinnafind_recent_alerts')!)).toEqual([NOW, NOW]);
+  });
+});
@@ -0,0 +1,179 @@
+import { parseGpsTrack, simulateGeofenceTrack } from '@/services/geofenceSimulator';
+import { type Geofence } from '@/models/geofence';
+import { type VenueHours } from '@/models/venue';
+
+const MINUTE = 60 * 1000;
+
+// Monday 6 January 2025, 12:00 local time
+const START = new Date(2025, 0, 6, 12, 0).getTime();
+
+const venue: Geofence = {
+  id: 'item-1',
+  name: 'Franklin Barbecue',
+  latitude: 30.2701,
+  longitude: -97.7313,
+  radius: 200,
+  venueId: 'fsq-1',
+};
+
+const away = { latitude: 30.2801, longitude: -97.7313 };
+// Inside the alert fence but outside the 75m arrival fence
+const passingBy = { latitude: venue.latitude + 0.00135, longitude: venue.longitude };
+const atVenue = { latitude: venue.latitude, longitude: venue.longitude };
+
+const track = (...points: [typeof away, number][]) =>
+  points.map(([position, minutes]) => ({ ...position, timestamp: START + minutes * MINUTE }));
+
+describe('geofenceSimulator', () => {
+  describe('parseGpsTrack', () => {
+    it('should parse JSON lines in time order', () => {
+      const points = parseGpsTrack(
+        [
+          '{"latitude": 30.28, "longitude": -97.73, "timestamp": "2025-01-06T18:05:00Z"}',
+          '',
+          '{"latitude": 30.27, "longitude": -97.73, "timestamp": 1736186400000}',
+        ].join('\n')
+      );
+
+      expect(points).toHaveLength(2);
+      expect(points[0].timestamp).toBe(1736186400000);
+      expect(points[1].latitude).toBe(30.28);
+    });
+
+    it('should parse GPX track points', () => {
+      const points = parseGpsTrack(`<?xml version="1.0"?>
+        <gpx><trk><trkseg>
+          <trkpt lat="30.2701" lon="-97.7313"><time>2025-01-06T18:00:00Z</time></trkpt>
+          <trkpt lat="30.2801" lon="-97.7313"><ele>150</ele><time>2025-01-06T18:01:00Z</time></trkpt>
+        </trkseg></trk></gpx>`);
+
+      expect(points).toHaveLength(2);
+      expect(points[0]).toEqual({
+        latitude: 30.2701,
+        longitude: -97.7313,
+        timestamp: Date.parse('2025-01-06T18:00:00Z'),
+      });
+    });
+  });
+
+  describe('simulateGeofenceTrack', () => {
+    it('should notify on enter and record the exit', async () => {
+      const result = await simulateGeofenceTrack(track([away, 0], [passingBy, 1], [away, 2]), [
+        venue,
+      ]);
+
+      expect(result.events.map(event => event.type)).toEqual(['enter', 'notified', 'exit']);
+      expect(result.notifications).toHaveLength(1);
+      expect(result.notifications[0].body).toContain('Franklin Barbecue');
+      expect(result.notifications[0].deliverAt).toBeUndefined();
+    });
+
+    it('should not count the ENTER repeated when arrival fences are registered', async () => {
+      const result = await simulateGeofenceTrack(
+        track([away, 0], [passingBy, 1], [atVenue, 2], [passingBy, 5], [away, 6]),
+        [venue]
+      );
+
+      expect(result.events.filter(event => event.type === 'enter')).toHaveLength(1);
+      expect(result.events.filter(event => event.type === 'arrived')).toHaveLength(1);
+      expect(result.storage.dinnafind_inside_geofences).toBe('[]');
+    });
+
+    it('should suppress a second alert within the cooldown', async () => {
+      const result = await simulateGeofenceTrack(
+        track([passingBy, 0], [away, 1], [passingBy, 3], [away, 4], [passingBy, 10]),
+        [venue]
+      );
+
+      expect(result.events.filter(event => event.type !== 'exit').map(event => event.type)).toEqual(
+        ['enter', 'notified', 'enter', 'suppressed_cooldown', 'enter', 'notified']
+      );
+    });
+
+    it('should apply the configured frequency caps', async () => {
+      const twoDaysLater = 2 * 24 * 60;
+      const result = await simulateGeofenceTrack(
+        track([passingBy, 0], [away, 1], [passingBy, twoDaysLater]),
+        [venue],
+        {
+          frequency: {
+            cooldownMinutes: 5,
+            dailyCap: null,
+            oncePerWeekPerVenue: true,
+            backoffOnIgnore: false,
+          },
+        }
+      );
+
+      const suppressed = result.events.find(event => event.type === 'suppressed_cooldown');
+      expect(result.notifications).toHaveLength(1);
+      expect(suppressed?.reason).toBe('once_per_week');
+    });
+
+    it('should suppress alerts for a closed venue', async () => {
+      const breakfastHours: VenueHours = {
+        regular: [1, 2, 3, 4, 5, 6, 7].map(day => ({ day, open: '0600', close: '1100' })),
+      };
+
+      const result = await simulateGeofenceTrack(track([away, 0], [passingBy, 1]), [
+        { ...venue, hours: breakfastHours },
+      ]);
+
+      expect(result.events.map(event => event.type)).toEqual(['enter', 'suppressed_policy']);
+      expect(result.events[1].reason).toBe('venue_closed');
+      expect(result.notifications).toHaveLength(0);
+    });
+
+    it('should defer alerts during quiet hours', async () => {
+      const result = await simulateGeofenceTrack(track([away, 0], [passingBy, 1]), [venue], {
+        quietHours: { enabled: true, start: '11:00', end: '13:00' },
+      });
+
+      expect(result.events[1].type).toBe('notified');
+      expect(result.events[1].reason).toBe('quiet_hours');
+      expect(result.notifications[0].deliverAt).toBe(new Date(2025, 0, 6, 13, 0).getTime());
+    });
+
+    it('should group venues entered within the batch window into one notification', async () => {
+      const neighbour: Geofence = {
+        ...venue,
+        id: 'item-2',
+        name: 'Micklethwait',
+        longitude: venue.longitude + 0.003,
+        venueId: 'fsq-2',
+      };
+      // A minute later, inside the neighbour's alert fence
+      const nextDoor = { latitude: passingBy.latitude, longitude: venue.longitude + 0.002 };
+
+      const result = await simulateGeofenceTrack(track([away, 0], [passingBy, 1], [nextDoor, 2]), [
+        venue,
+        neighbour,
+      ]);
+
+      expect(result.notifications).toHaveLength(1);
+      expect(result.notifications[0].body).toMatch(/^2 bucket-list spots within \d+ ft: /);
+      expect(result.notifications[0].data).toEqual({
+        kind: 'alert_batch',
+        geofenceIds: ['item-1', 'item-2'],
+      });
+      expect(result.events.filter(event => event.type === 'notified')[1].reason).toBe('batched');
+    });
+
+    it('should keep the visit prompt after a long stay and cancel it after a short one', async () => {
+      const longStay = await simulateGeofenceTrack(
+        track([away, 0], [atVenue, 1], [atVenue, 30], [away, 45]),
+        [venue]
+      );
+      const shortStay = await simulateGeofenceTrack(
+        track([away, 0], [atVenue, 1], [atVenue, 10], [away, 12]),
+        [venue]
+      );
+
+      const longPrompt = longStay.notifications.find(n => n.identifier === 'visit_prompt_item-1');
+      const shortPrompt = shortStay.notifications.find(n => n.identifier === 'visit_prompt_item-1');
+      expect(longPrompt?.cancelled).toBe(false);
+      expect(longStay.events.map(event => event.type)).toContain('visit_prompted');
+      expect(shortPrompt?.cancelled).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,159 @@
+import { FoursquareError } from '@/api/foursquareClient';
+import { createMockVenue } from '@/__mocks__';
+import {
+  VENUE_FIELD_TTLS_MS,
+  VenueCache,
+  getStaleFieldGroups,
+  mergeVenueEntry,
+  selectEvictions,
+  type VenueCacheStorage,
+} from '@/services/VenueCache';
+
+const HOUR = 60 * 60 * 1000;
+
+const createMemoryStorage = (): VenueCacheStorage & { data: Map<string, string> } => {
+  const data = new Map<string, string>();
+  return {
+    data,
+    getItem: async key => data.get(key) ?? null,
+    setItem: async (key, value) => {
+      data.set(key, value);
+    },
+    removeItem: async key => {
+      data.delete(key);
+    },
+  };
+};
+
+const setup = (maxEntries?: number) => {
+  let now = 1_000_000;
+  let name = 'Original';
+  const storage = createMemoryStorage();
+  const cache = new VenueCache({ storage, maxEntries, now: () => now });
+  const fetcher = jest.fn(async (id: string) => createMockVenue({ fsq_id: id, name }));
+  return {
+    cache,
+    storage,
+    fetcher,
+    advance: (ms: number) => {
+      now += ms;
+    },
+    rename: (newName: string) => {
+      name = newName;
+    },
+  };
+};
+
+// Let background revalidation settle
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('VenueCache', () => {
+  it('should fetch on a miss and serve the next request from the cache', async () => {
+    const { cache, fetcher } = setup();
+
+    const first = await cache.getVenue('venue-1', fetcher);
+    const second = await cache.getVenue('venue-1?ref=share', fetcher);
+
+    expect(first.source).toBe('network');
+    expect(second).toEqual({ venue: first.venue, source: 'cache' });
+    expect(fetcher).toHaveBeenCalledTimes(1);
+  });
+
+  it('should serve stale data immediately and refresh it in the background', async () => {
+    const { cache, fetcher, advance, rename } = setup();
+    await cache.getVenue('venue-1', fetcher);
+    advance(VENUE_FIELD_TTLS_MS.details + HOUR);
+    rename('Renamed');
+
+    const stale = await cache.getVenue('venue-1', fetcher);
+    await flush();
+    const refreshed = await cache.getVenue('venue-1', fetcher);
+
+    expect(stale.source).toBe('stale');
+    expect(stale.venue.name).toBe('Original');
+    expect(refreshed).toMatchObject({ source: 'cache', venue: { name: 'Renamed' } });
+    expect(fetcher).toHaveBeenCalledTimes(2);
+  });
+
+  it('should serve cached data offline without refreshing', async () => {
+    const { cache, fetcher, advance } = setup();
+    await cache.getVenue('venue-1', fetcher);
+    advance(VENUE_FIELD_TTLS_MS.identity + HOUR);
+
+    const result = await cache.getVenue('venue-1', fetcher, { offline: true });
+
+    expect(result.source).toBe('stale');
+    expect(fetcher).toHaveBeenCalledTimes(1);
+  });
+
+  it('should fail with a network error for an uncached venue offline', async () => {
+    const { cache, fetcher } = setup();
+
+    const error = await cache.getVenue('venue-1', fetcher, { offline: true }).catch(e => e);
+
+    expect(error).toBeInstanceOf(FoursquareError);
+    expect(error.kind).toBe('network');
+    expect(fetcher).not.toHaveBeenCalled();
+  });
+
+  it('should keep the fields of concurrent writes to one venue', async () => {
+    const { cache, storage } = setup();
+    // Storage that yields between calls, as AsyncStorage does
+    const { getItem, setItem } = storage;
+    storage.getItem = async key => {
+      await flush();
+      return getItem(key);
+    };
+    storage.setItem = async (key, value) => {
+      await flush();
+      return setItem(key, value);
+    };
+
+    await Promise.all([
+      cache.put('venue-1', createMockVenue({ rating: 8 })),
+      cache.put('venue-1', { id: 'mock-venue-id', name: 'Renamed' }),
+    ]);
+    const entry = await cache.getEntry('venue-1');
+
+    expect(entry?.venue.rating).toBe(8);
+    expect(entry?.venue.name).toBe('Renamed');
+  });
+
+  it('should evict the least recently used venue past capacity', async () => {
+    const { cache, storage, fetcher, advance } = setup(2);
+    await cache.getVenue('venue-1', fetcher);
+    advance(1000);
+    await cache.getVenue('venue-2', fetcher);
+    advance(1000);
+    await cache.getVenue('venue-1', fetcher);
+    advance(1000);
+    await cache.getVenue('venue-3', fetcher);
+
+    expect(await cache.getEntry('venue-1')).not.toBeNull();
+    expect(await cache.getEntry('venue-2')).toBeNull();
+    expect(storage.data.has('dinnafind_venue_cache_venue-3')).toBe(true);
+  });
+});
+
+describe('venue cache entries', () => {
+  it('should only mark the fetched field groups as refreshed', () => {
+    const entry = mergeVenueEntry(null, createMockVenue({ hours: undefined, rating: 8 }), 0);
+
+    expect(entry.fetchedAt).toEqual({ identity: 0, details: 0 });
+    expect(getStaleFieldGroups(entry, VENUE_FIELD_TTLS_MS.details + 1)).toEqual(['details']);
+    expect(getStaleFieldGroups(entry, VENUE_FIELD_TTLS_MS.details)).toEqual([]);
+  });
+
+  it('should keep fields from earlier fetches when merging', () => {
+    const first = mergeVenueEntry(null, createMockVenue({ rating: 8 }), 0);
+    const merged = mergeVenueEntry(first, { id: 'mock-venue-id', name: 'Mock Venue' }, 10);
+
+    expect(merged.venue.rating).toBe(8);
+    expect(merged.fetchedAt.identity).toBe(10);
+  });
+
+  it('should pick the oldest ids for eviction', () => {
+    expect(selectEvictions({ a: 3, b: 1, c: 2 }, 1)).toEqual(['b', 'c']);
+    expect(selectEvictions({ a: 3 }, 2)).toEqual([]);
+  });
+});
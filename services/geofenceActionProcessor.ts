@@ -0,0 +1,138 @@
+/**
+ * Geofence notification action processor
+ *
+ * Handles the buttons on geofence notifications with storage, the geofencing service, the
+ * bucket list and the clock passed in. The app wires it to the Redux store while it is running;
+ * the background notification task wires it to Supabase when the app is not.
+ */
+
+export const GEOFENCE_ACTION_DIRECTIONS = 'geofence_directions';
+export const GEOFENCE_ACTION_SNOOZE_WEEK = 'geofence_snooze_week';
+export const GEOFENCE_ACTION_MARK_VISITED = 'geofence_mark_visited';
+export const GEOFENCE_ACTION_MUTE = 'geofence_mute';
+
+const GEOFENCE_ACTIONS = [
+  GEOFENCE_ACTION_DIRECTIONS,
+  GEOFENCE_ACTION_SNOOZE_WEEK,
+  GEOFENCE_ACTION_MARK_VISITED,
+  GEOFENCE_ACTION_MUTE,
+];
+
+// Keys of the notification responses already handled, newest last
+export const HANDLED_RESPONSES_STORAGE_KEY = 'dinnafind_handled_notification_responses';
+export const MAX_HANDLED_RESPONSES = 50;
+
+export const ONE_WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Payload attached to geofence notifications by the geofence task
+ */
+export interface GeofenceNotificationData {
+  geofenceId?: string;
+  restaurantName?: string;
+  venueId?: string;
+  latitude?: number;
+  longitude?: number;
+}
+
+/**
+ * The parts of an expo-notifications response the processor reads
+ */
+export interface GeofenceActionResponse {
+  actionIdentifier: string;
+  notification: {
+    request: {
+      identifier: string;
+      content: { data: unknown };
+    };
+  };
+}
+
+export interface GeofenceActionDeps {
+  storage: {
+    getItem: (key: string) => Promise<string | null>;
+    setItem: (key: string, value: string) => Promise<void>;
+  };
+  openDirections: (data: GeofenceNotificationData) => Promise<void>;
+  snoozeGeofence: (geofenceId: string, until: number) => Promise<void>;
+  // Mark the bucket list item visited, keeping its rating and review
+  markVisited: (geofenceId: string, venueId?: string) => Promise<void>;
+  // Turn off alerts for the bucket list item and stop monitoring it
+  muteGeofence: (geofenceId: string, venueId?: string) => Promise<void>;
+  dismissNotification: (identifier: string) => Promise<void>;
+  now: () => number;
+}
+
+// Responses claimed in this JS context, so the listener and the task do not race on storage
+const claimedResponses = new Set<string>();
+
+export const getNotificationResponseKey = (response: GeofenceActionResponse): string =>
+  `${response.notification.request.identifier}:${response.actionIdentifier}`;
+
+/**
+ * Record a notification response as handled
+ * The same response can arrive from the listener, the cold start replay and the background task.
+ * @returns false if it was handled before and should be skipped
+ */
+export async function claimNotificationResponse(
+  response: GeofenceActionResponse,
+  storage: GeofenceActionDeps['storage']
+): Promise<boolean> {
+  const key = getNotificationResponseKey(response);
+  if (claimedResponses.has(key)) {
+    return false;
+  }
+  claimedResponses.add(key);
+
+  const stored = await storage.getItem(HANDLED_RESPONSES_STORAGE_KEY);
+  const handled: string[] = stored ? JSON.parse(stored) : [];
+  if (handled.includes(key)) {
+    return false;
+  }
+  await storage.setItem(
+    HANDLED_RESPONSES_STORAGE_KEY,
+    JSON.stringify([...handled, key].slice(-MAX_HANDLED_RESPONSES))
+  );
+  return true;
+}
+
+/**
+ * Handle a tap on one of the geofence notification buttons
+ * @returns true if the response was a geofence action and has been handled
+ */
+export async function processGeofenceAction(
+  response: GeofenceActionResponse,
+  deps: GeofenceActionDeps
+): Promise<boolean> {
+  const data = response.notification.request.content.data as GeofenceNotificationData | null;
+  const geofenceId = data?.geofenceId;
+  if (!data || !geofenceId || !GEOFENCE_ACTIONS.includes(response.actionIdentifier)) {
+    return false;
+  }
+
+  try {
+    switch (response.actionIdentifier) {
+      case GEOFENCE_ACTION_DIRECTIONS:
+        await deps.openDirections(data);
+        break;
+
+      case GEOFENCE_ACTION_SNOOZE_WEEK:
+        await deps.snoozeGeofence(geofenceId, deps.now() + ONE_WEEK_MS);
+        break;
+
+      case GEOFENCE_ACTION_MARK_VISITED:
+        await deps.markVisited(geofenceId, data.venueId);
+        break;
+
+      case GEOFENCE_ACTION_MUTE:
+        await deps.muteGeofence(geofenceId, data.venueId);
+        break;
+    }
+  } catch (error) {
+    console.error('[GeofenceActionProcessor] Failed to handle action:', error);
+  } finally {
+    // Action buttons do not dismiss the notification on every platform
+    await deps.dismissNotification(response.notification.request.identifier);
+  }
+  return true;
+}
@@ -0,0 +1,411 @@
+/**
+ * Geofence event processor
+ *
+ * The body of the background geofence task, with storage, notifications, the event log and the
+ * clock passed in. The task wires it to AsyncStorage and expo-notifications; tests and the
+ * track simulator wire it to in-memory fakes.
+ */
+import { type NotificationFrequency, type QuietHours } from '@/models/app-state';
+import { type Geofence, type GeofenceEvent } from '@/models/geofence';
+import { type VenueHours } from '@/models/venue';
+import {
+  DWELL_THRESHOLD_MS,
+  VISIT_PROMPT_COOLDOWN_MS,
+  VISIT_PROMPT_NOTIFICATION_KIND,
+  fromArrivalRegionId,
+  hasDwelled,
+  visitPromptNotificationId,
+} from '@/utils/arrivalDetection';
+import { SUPER_REGION_ID } from '@/utils/geofenceBudget';
+import {
+  DEFAULT_NOTIFICATION_FREQUENCY,
+  evaluateFrequencyCaps,
+  pruneRecentAlerts,
+} from '@/utils/notificationFrequency';
+import { evaluateNotificationPolicy } from '@/utils/notificationPolicy';
+import {
+  ALERT_BATCH_NOTIFICATION_KIND,
+  addToAlertBatch,
+  describeAlertBatch,
+} from '@/utils/notificationBatching';
+
+export const GEOFENCES_STORAGE_KEY = 'dinnafind_geofences';
+export const QUIET_HOURS_STORAGE_KEY = 'dinnafind_quiet_hours';
+export const NOTIFICATION_FREQUENCY_STORAGE_KEY = 'dinnafind_notification_frequency';
+const ALERT_BATCH_STORAGE_KEY = 'dinnafind_alert_batch';
+// Times of alerts sent in the last day, for the daily cap
+const RECENT_ALERTS_STORAGE_KEY = 'dinnafind_recent_alerts';
+// Venues whose alert fence the user is inside, so repeated ENTERs are not counted as visits
+export const INSIDE_GEOFENCES_STORAGE_KEY = 'dinnafind_inside_geofences';
+export const GEOFENCE_NOTIFICATION_CATEGORY = 'dinnafind_geofence_alert';
+
+/**
+ * A region transition reported by the OS
+ */
+export interface GeofenceRegionEvent {
+  eventType: 'enter' | 'exit';
+  region: {
+    identifier: string;
+    latitude: number;
+    longitude: number;
+  };
+}
+
+/**
+ * A notification the processor wants delivered, now or at deliverAt
+ */
+export interface GeofenceNotificationRequest {
+  identifier?: string;
+  title: string;
+  body: string;
+  data: Record<string, unknown>;
+  categoryIdentifier?: string;
+  // Epoch ms; delivered immediately when omitted
+  deliverAt?: number;
+}
+
+export interface GeofenceProcessorDeps {
+  storage: {
+    getItem: (key: string) => Promise<string | null>;
+    setItem: (key: string, value: string) => Promise<void>;
+    removeItem: (key: string) => Promise<void>;
+  };
+  scheduleNotification: (request: GeofenceNotificationRequest) => Promise<unknown>;
+  cancelNotification: (identifier: string) => Promise<void>;
+  recordEvent: (
+    event: Omit<GeofenceEvent, 'id' | 'timestamp'> & { timestamp?: number }
+  ) => Promise<unknown>;
+  now: () => number;
+  // The user left the super-region around the armed venues
+  onSuperRegionExit: () => Promise<void>;
+  setArrivalFenceArmed: (geofenceId: string, armed: boolean) => Promise<void>;
+}
+
+type EventDetails = Pick<GeofenceEvent, 'geofenceId' | 'name' | 'venueId'>;
+
+const findStoredGeofence = async (
+  deps: GeofenceProcessorDeps,
+  id: string
+): Promise<Geofence | undefined> => {
+  const storedData = await deps.storage.getItem(GEOFENCES_STORAGE_KEY);
+  const geofences: Geofence[] = storedData ? JSON.parse(storedData) : [];
+  return geofences.find(g => g.id === id);
+};
+
+/**
+ * Record whether the user is inside a venue's alert fence
+ * @returns false if nothing changed, as when re-registering regions repeats ENTER
+ */
+async function setInsideGeofence(
+  deps: GeofenceProcessorDeps,
+  geofenceId: string,
+  inside: boolean
+): Promise<boolean> {
+  const stored = await deps.storage.getItem(INSIDE_GEOFENCES_STORAGE_KEY);
+  const ids: string[] = stored ? JSON.parse(stored) : [];
+  if (ids.includes(geofenceId) === inside) {
+    return false;
+  }
+  await deps.storage.setItem(
+    INSIDE_GEOFENCES_STORAGE_KEY,
+    JSON.stringify(inside ? [...ids, geofenceId] : ids.filter(id => id !== geofenceId))
+  );
+  return true;
+}
+
+/**
+ * Forget being inside venues that are no longer monitored, since they will not report EXIT
+ */
+export async function pruneInsideGeofences(
+  storage: GeofenceProcessorDeps['storage'],
+  monitoredIds: string[]
+): Promise<void> {
+  const stored = await storage.getItem(INSIDE_GEOFENCES_STORAGE_KEY);
+  const ids: string[] = stored ? JSON.parse(stored) : [];
+  const monitored = ids.filter(id => monitoredIds.includes(id));
+  if (monitored.length !== ids.length) {
+    await storage.setItem(INSIDE_GEOFENCES_STORAGE_KEY, JSON.stringify(monitored));
+  }
+}
+
+/**
+ * End a stay at a venue, cancelling the visit prompt if the user left before it fired
+ */
+async function endArrival(deps: GeofenceProcessorDeps, eventDetails: EventDetails): Promise<void> {
+  const { geofenceId } = eventDetails;
+  const arrivedAt = await deps.storage.getItem(`arrived_at_${geofenceId}`);
+  if (!arrivedAt) {
+    return;
+  }
+  await deps.storage.removeItem(`arrived_at_${geofenceId}`);
+
+  if (hasDwelled(parseInt(arrivedAt, 10), deps.now())) {
+    // The prompt was delivered while the user was still there
+    await deps.recordEvent({ ...eventDetails, type: 'visit_prompted', timestamp: deps.now() });
+    return;
+  }
+
+  await deps.cancelNotification(visitPromptNotificationId(geofenceId));
+  await deps.storage.removeItem(`last_visit_prompt_${geofenceId}`);
+  console.log(
+    '[GeofenceEventProcessor] Left before dwell threshold, prompt cancelled:',
+    geofenceId
+  );
+}
+
+/**
+ * Track a stay inside a venue's arrival fence
+ */
+async function handleArrivalEvent(
+  deps: GeofenceProcessorDeps,
+  eventType: GeofenceRegionEvent['eventType'],
+  geofenceId: string
+): Promise<void> {
+  const geofence = await findStoredGeofence(deps, geofenceId);
+  const name = geofence?.name ?? geofenceId;
+  const eventDetails = { geofenceId, name, venueId: geofence?.venueId };
+
+  if (eventType === 'exit') {
+    await endArrival(deps, eventDetails);
+    return;
+  }
+
+  // Re-registering regions repeats ENTER while the user is still inside
+  if (await deps.storage.getItem(`arrived_at_${geofenceId}`)) {
+    return;
+  }
+  const now = deps.now();
+  await deps.storage.setItem(`arrived_at_${geofenceId}`, now.toString());
+  await deps.recordEvent({ ...eventDetails, type: 'arrived', timestamp: now });
+
+  const lastPrompt = await deps.storage.getItem(`last_visit_prompt_${geofenceId}`);
+  if (lastPrompt && now - parseInt(lastPrompt, 10) < VISIT_PROMPT_COOLDOWN_MS) {
+    console.log('[GeofenceEventProcessor] Visit prompt cooldown active for:', name);
+    return;
+  }
+
+  // Fires once the user has stayed for the dwell threshold; leaving early cancels it
+  await deps.scheduleNotification({
+    identifier: visitPromptNotificationId(geofenceId),
+    title: 'DinnaFind!',
+    body: `Did you eat at ${name}? Rate it`,
+    data: {
+      kind: VISIT_PROMPT_NOTIFICATION_KIND,
+      geofenceId,
+      restaurantName: name,
+      venueId: geofence?.venueId,
+    },
+    deliverAt: now + DWELL_THRESHOLD_MS,
+  });
+  await deps.storage.setItem(`last_visit_prompt_${geofenceId}`, now.toString());
+  console.log('[GeofenceEventProcessor] Arrived at venue, visit prompt scheduled:', name);
+}
+
+/**
+ * Handle ENTER on a venue's alert fence: apply the frequency caps and notification policy
+ */
+async function handleVenueEnter(
+  deps: GeofenceProcessorDeps,
+  eventDetails: EventDetails,
+  venue: { hours?: VenueHours; latitude: number; longitude: number; cooldownHours?: number }
+): Promise<void> {
+  const { geofenceId, name: restaurantName, venueId } = eventDetails;
+  const now = deps.now();
+
+  // Check cooldown, weekly limit, ignored-alert back-off and daily cap
+  const storedFrequency = await deps.storage.getItem(NOTIFICATION_FREQUENCY_STORAGE_KEY);
+  const frequency: NotificationFrequency = storedFrequency
+    ? { ...DEFAULT_NOTIFICATION_FREQUENCY, ...JSON.parse(storedFrequency) }
+    : DEFAULT_NOTIFICATION_FREQUENCY;
+  const lastNotificationTime = await deps.storage.getItem(`last_notification_${geofenceId}`);
+  const ignoredAlerts = await deps.storage.getItem(`ignored_alerts_${geofenceId}`);
+  const storedRecentAlerts = await deps.storage.getItem(RECENT_ALERTS_STORAGE_KEY);
+  const recentAlerts = pruneRecentAlerts(
+    storedRecentAlerts ? JSON.parse(storedRecentAlerts) : [],
+    now
+  );
+
+  const caps = evaluateFrequencyCaps({
+    now,
+    frequency,
+    lastNotifiedAt: lastNotificationTime ? parseInt(lastNotificationTime, 10) : undefined,
+    venueCooldownHours: venue.cooldownHours,
+    ignoredCount: ignoredAlerts ? parseInt(ignoredAlerts, 10) : 0,
+    recentAlerts,
+  });
+  if (!caps.allowed) {
+    await deps.recordEvent({
+      ...eventDetails,
+      type: 'suppressed_cooldown',
+      reason: caps.reason,
+      timestamp: now,
+    });
+    console.log(
+      `[GeofenceEventProcessor] Frequency cap (${caps.reason}), skipping notification for:`,
+      restaurantName
+    );
+    return;
+  }
+
+  // Check opening hours and quiet hours before alerting
+  const storedQuietHours = await deps.storage.getItem(QUIET_HOURS_STORAGE_KEY);
+  const quietHours: QuietHours | undefined = storedQuietHours
+    ? JSON.parse(storedQuietHours)
+    : undefined;
+  const snoozedUntil = await deps.storage.getItem(`snoozed_until_${geofenceId}`);
+  const decision = evaluateNotificationPolicy({
+    now: new Date(now),
+    hours: venue.hours,
+    quietHours,
+    snoozedUntil: snoozedUntil ? parseInt(snoozedUntil, 10) : undefined,
+  });
+
+  // Keep the latest decision around for debugging
+  await deps.storage.setItem(`last_policy_decision_${geofenceId}`, JSON.stringify(decision));
+  console.log(
+    `[GeofenceEventProcessor] Policy decision for ${restaurantName}: ${decision.action} (${decision.reason})`
+  );
+
+  if (decision.action === 'suppress') {
+    await deps.recordEvent({
+      ...eventDetails,
+      type: 'suppressed_policy',
+      reason: decision.reason,
+      timestamp: now,
+    });
+    return;
+  }
+
+  const singleVenueData = {
+    geofenceId,
+    restaurantName,
+    venueId,
+    latitude: venue.latitude,
+    longitude: venue.longitude,
+  };
+  let reason: string | undefined;
+
+  if (decision.action === 'defer') {
+    // Schedule the notification for when the policy allows
+    reason = decision.reason;
+    await deps.scheduleNotification({
+      title: 'DinnaFind!',
+      body:
+        decision.reason === 'venue_opening_soon'
+          ? `${restaurantName} is opening now. Time to check it out!`
+          : `You're near ${restaurantName}. Time to check it out!`,
+      data: singleVenueData,
+      // Adds the Directions / Snooze / Mark visited / Mute buttons
+      categoryIdentifier: GEOFENCE_NOTIFICATION_CATEGORY,
+      deliverAt: decision.deferUntil,
+    });
+  } else {
+    // Venues entered moments apart share one notification
+    const storedBatch = await deps.storage.getItem(ALERT_BATCH_STORAGE_KEY);
+    const batch = addToAlertBatch(
+      storedBatch ? JSON.parse(storedBatch) : null,
+      { ...singleVenueData, name: restaurantName },
+      now
+    );
+    await deps.storage.setItem(ALERT_BATCH_STORAGE_KEY, JSON.stringify(batch));
+
+    // Reusing the batch identifier replaces the notification already shown
+    const grouped = batch.venues.length > 1;
+    await deps.scheduleNotification({
+      identifier: batch.notificationId,
+      ...describeAlertBatch(batch),
+      data: grouped
+        ? {
+            kind: ALERT_BATCH_NOTIFICATION_KIND,
+            geofenceIds: batch.venues.map(v => v.geofenceId),
+          }
+        : singleVenueData,
+      categoryIdentifier: grouped ? undefined : GEOFENCE_NOTIFICATION_CATEGORY,
+    });
+    reason = grouped ? 'batched' : undefined;
+  }
+
+  // Store notification time; the count resets when the user responds to the alert
+  await deps.storage.setItem(`last_notification_${geofenceId}`, now.toString());
+  await deps.storage.setItem(
+    `ignored_alerts_${geofenceId}`,
+    ((ignoredAlerts ? parseInt(ignoredAlerts, 10) : 0) + 1).toString()
+  );
+  await deps.storage.setItem(RECENT_ALERTS_STORAGE_KEY, JSON.stringify([...recentAlerts, now]));
+  await deps.recordEvent({ ...eventDetails, type: 'notified', reason, timestamp: now });
+  console.log('[GeofenceEventProcessor] Notification sent for ENTER event:', restaurantName);
+}
+
+// Events handled so far in this process; each waits for the one before it
+let pendingEvents: Promise<void> = Promise.resolve();
+
+/**
+ * Process a single region transition from the geofence task
+ * Venues entered moments apart arrive as concurrent task runs, and each reads and rewrites the
+ * alert batch, the inside set and the recent alerts in storage, so events are handled one at a time.
+ */
+export function processGeofenceEvent(
+  event: GeofenceRegionEvent,
+  deps: GeofenceProcessorDeps
+): Promise<void> {
+  const run = pendingEvents.then(() => handleGeofenceEvent(event, deps));
+  pendingEvents = run.catch(() => undefined);
+  return run;
+}
+
+async function handleGeofenceEvent(
+  { eventType, region }: GeofenceRegionEvent,
+  deps: GeofenceProcessorDeps
+): Promise<void> {
+  // Leaving the super-region means the nearest set of venues is stale
+  if (region.identifier === SUPER_REGION_ID) {
+    if (eventType === 'exit') {
+      console.log('[GeofenceEventProcessor] Left super-region, re-selecting nearest venues');
+      await deps.onSuperRegionExit();
+    }
+    return;
+  }
+
+  // Arrival fences track how long the user stays at a venue
+  const arrivalGeofenceId = fromArrivalRegionId(region.identifier);
+  if (arrivalGeofenceId) {
+    await handleArrivalEvent(deps, eventType, arrivalGeofenceId);
+    return;
+  }
+
+  console.log(
+    `[GeofenceEventProcessor] Geofence event: ${eventType.toUpperCase()} | Region:`,
+    JSON.stringify(region)
+  );
+
+  // Get restaurant name and venueId from stored geofences
+  const geofence = await findStoredGeofence(deps, region.identifier);
+  const eventDetails = {
+    geofenceId: region.identifier,
+    name: geofence?.name ?? region.identifier,
+    venueId: geofence?.venueId,
+  };
+
+  if (eventType === 'enter') {
+    if (!(await setInsideGeofence(deps, region.identifier, true))) {
+      console.log('[GeofenceEventProcessor] Already inside, ENTER ignored:', region.identifier);
+      return;
+    }
+    await deps.recordEvent({ ...eventDetails, type: 'enter', timestamp: deps.now() });
+    await deps.setArrivalFenceArmed(region.identifier, true);
+    await handleVenueEnter(deps, eventDetails, {
+      hours: geofence?.hours,
+      latitude: geofence?.latitude ?? region.latitude,
+      longitude: geofence?.longitude ?? region.longitude,
+      cooldownHours: geofence?.cooldownHours,
+    });
+    return;
+  }
+
+  // Don't send notifications for EXIT events
+  await setInsideGeofence(deps, region.identifier, false);
+  await deps.recordEvent({ ...eventDetails, type: 'exit', timestamp: deps.now() });
+  await endArrival(deps, eventDetails);
+  await deps.setArrivalFenceArmed(region.identifier, false);
+  console.log('[GeofenceEventProcessor] EXIT event (no notification sent):', region.identifier);
+}
@@ -0,0 +1,240 @@
+/**
+ * Geofence track simulator
+ *
+ * Replays a recorded GPS track against a set of geofences, feeding region transitions through
+ * the same event processor the background task uses. Storage, notifications and the clock are
+ * simulated in memory, so cooldown, policy and dwell behavior can be tested without moving.
+ */
+import { type NotificationFrequency, type QuietHours } from '@/models/app-state';
+import { type Geofence, type GeofenceEvent } from '@/models/geofence';
+import { type Coordinates } from '@/models/venue';
+import {
+  ARRIVAL_RADIUS_METERS,
+  fromArrivalRegionId,
+  toArrivalRegionId,
+} from '@/utils/arrivalDetection';
+import { distanceToGeofence } from '@/utils/geofenceBudget';
+import {
+  GEOFENCES_STORAGE_KEY,
+  NOTIFICATION_FREQUENCY_STORAGE_KEY,
+  QUIET_HOURS_STORAGE_KEY,
+  processGeofenceEvent,
+  type GeofenceNotificationRequest,
+  type GeofenceProcessorDeps,
+} from './geofenceEventProcessor';
+
+/**
+ * A recorded position
+ */
+export interface GpsTrackPoint extends Coordinates {
+  // Epoch ms
+  timestamp: number;
+}
+
+export interface SimulatedNotification extends GeofenceNotificationRequest {
+  scheduledAt: number;
+  // Cancelled before it was delivered
+  cancelled: boolean;
+}
+
+export interface GeofenceSimulationOptions {
+  quietHours?: QuietHours;
+  frequency?: NotificationFrequency;
+  // Storage entries present before the replay starts, e.g. earlier notification times
+  storage?: Record<string, string>;
+}
+
+export interface GeofenceSimulationResult {
+  // Decisions recorded by the processor, in order
+  events: GeofenceEvent[];
+  notifications: SimulatedNotification[];
+  storage: Record<string, string>;
+}
+
+const parseTimestamp = (value: unknown): number => {
+  const timestamp = typeof value === 'number' ? value : Date.parse(String(value));
+  if (Number.isNaN(timestamp)) {
+    throw new Error(`Invalid track timestamp: ${value}`);
+  }
+  return timestamp;
+};
+
+const parseGpx = (input: string): GpsTrackPoint[] =>
+  [...input.matchAll(/<trkpt\b([^>]*)>([\s\S]*?)<\/trkpt>/g)].map(([, attributes, body]) => {
+    const latitude = /lat="([^"]+)"/.exec(attributes)?.[1];
+    const longitude = /lon="([^"]+)"/.exec(attributes)?.[1];
+    const time = /<time>([^<]+)<\/time>/.exec(body)?.[1];
+    if (!latitude || !longitude || !time) {
+      throw new Error('GPX track points need lat, lon and <time>');
+    }
+    return {
+      latitude: parseFloat(latitude),
+      longitude: parseFloat(longitude),
+      timestamp: parseTimestamp(time),
+    };
+  });
+
+const parseJsonLines = (input: string): GpsTrackPoint[] =>
+  input
+    .split('\n')
+    .map(line => line.trim())
+    .filter(line => line.length > 0)
+    .map(line => {
+      const point = JSON.parse(line);
+      return {
+        latitude: Number(point.latitude),
+        longitude: Number(point.longitude),
+        timestamp: parseTimestamp(point.timestamp),
+      };
+    });
+
+/**
+ * Parse a GPS track from GPX or JSON lines of { latitude, longitude, timestamp }
+ * @returns Track points in time order
+ */
+export const parseGpsTrack = (input: string): GpsTrackPoint[] => {
+  const trimmed = input.trim();
+  const points = trimmed.startsWith('<') ? parseGpx(trimmed) : parseJsonLines(trimmed);
+  return points.sort((a, b) => a.timestamp - b.timestamp);
+};
+
+/**
+ * Replay a GPS track against geofences
+ * @param track Positions in time order
+ * @param geofences Geofences to monitor, as stored by the geofencing service
+ */
+export async function simulateGeofenceTrack(
+  track: GpsTrackPoint[],
+  geofences: Geofence[],
+  options: GeofenceSimulationOptions = {}
+): Promise<GeofenceSimulationResult> {
+  const storage = new Map<string, string>(Object.entries(options.storage ?? {}));
+  storage.set(GEOFENCES_STORAGE_KEY, JSON.stringify(geofences));
+  if (options.quietHours) {
+    storage.set(QUIET_HOURS_STORAGE_KEY, JSON.stringify(options.quietHours));
+  }
+  if (options.frequency) {
+    storage.set(NOTIFICATION_FREQUENCY_STORAGE_KEY, JSON.stringify(options.frequency));
+  }
+
+  let clock = track[0]?.timestamp ?? 0;
+  const events: GeofenceEvent[] = [];
+  const notifications: SimulatedNotification[] = [];
+  const armedArrivals = new Set<string>();
+  // Region identifiers the simulated user is inside
+  const inside = new Set<string>();
+  // Set when arming or disarming an arrival fence registers the regions again
+  let reregistered = false;
+
+  const deps: GeofenceProcessorDeps = {
+    storage: {
+      getItem: async key => storage.get(key) ?? null,
+      setItem: async (key, value) => {
+        storage.set(key, value);
+      },
+      removeItem: async key => {
+        storage.delete(key);
+      },
+    },
+    scheduleNotification: async request => {
+      const notification = { ...request, scheduledAt: clock, cancelled: false };
+      // Scheduling with an existing identifier replaces that notification
+      const index = notifications.findIndex(
+        n => !n.cancelled && n.identifier !== undefined && n.identifier === request.identifier
+      );
+      if (index === -1) {
+        notifications.push(notification);
+      } else {
+        notifications[index] = notification;
+      }
+    },
+    cancelNotification: async identifier => {
+      for (const notification of notifications) {
+        const deliverAt = notification.deliverAt ?? notification.scheduledAt;
+        if (notification.identifier === identifier && deliverAt > clock) {
+          notification.cancelled = true;
+        }
+      }
+    },
+    recordEvent: async event => {
+      events.push({
+        ...event,
+        id: `${event.geofenceId}_${event.type}_${events.length}`,
+        timestamp: event.timestamp ?? clock,
+      });
+    },
+    now: () => clock,
+    // Every geofence is monitored, so there is no super-region to leave
+    onSuperRegionExit: async () => {},
+    setArrivalFenceArmed: async (geofenceId, armed) => {
+      if (armed === armedArrivals.has(geofenceId)) {
+        return;
+      }
+      reregistered = true;
+      if (armed) {
+        armedArrivals.add(geofenceId);
+      } else {
+        armedArrivals.delete(geofenceId);
+        inside.delete(toArrivalRegionId(geofenceId));
+      }
+    },
+  };
+
+  const updateRegion = async (
+    identifier: string,
+    geofence: Geofence,
+    radius: number,
+    point: GpsTrackPoint
+  ) => {
+    const isInside = distanceToGeofence(point, geofence) <= radius;
+    if (isInside === inside.has(identifier)) {
+      return;
+    }
+    if (isInside) {
+      inside.add(identifier);
+    } else {
+      inside.delete(identifier);
+    }
+    await processGeofenceEvent(
+      {
+        eventType: isInside ? 'enter' : 'exit',
+        region: { identifier, latitude: geofence.latitude, longitude: geofence.longitude },
+      },
+      deps
+    );
+
+    // As on device, registered regions report ENTER again for every region the user is in
+    while (reregistered) {
+      reregistered = false;
+      for (const insideId of [...inside]) {
+        const insideGeofence = geofences.find(
+          g => g.id === (fromArrivalRegionId(insideId) ?? insideId)
+        )!;
+        await processGeofenceEvent(
+          {
+            eventType: 'enter',
+            region: {
+              identifier: insideId,
+              latitude: insideGeofence.latitude,
+              longitude: insideGeofence.longitude,
+            },
+          },
+          deps
+        );
+      }
+    }
+  };
+
+  for (const point of track) {
+    clock = point.timestamp;
+    for (const geofence of geofences) {
+      await updateRegion(geofence.id, geofence, geofence.radius, point);
+    }
+    // Arrival fences armed by an ENTER above report immediately, as on device
+    for (const geofence of geofences.filter(g => armedArrivals.has(g.id))) {
+      await updateRegion(toArrivalRegionId(geofence.id), geofence, ARRIVAL_RADIUS_METERS, point);
+    }
+  }
+
+  return { events, notifications, storage: Object.fromEntries(storage) };
+}
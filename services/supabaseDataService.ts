@@ -1,6 +1,9 @@
 import { supabase } from '@/utils/supabase';
-import { type BucketListItem } from '@/models/bucket-list';
+import { type BucketListCollection, type BucketListItem } from '@/models/bucket-list';
 import { type UserProfile } from '@/models/app-state';
+import { type SavedSearch } from '@/models/search';
+import { type SearchFilters } from '@/models/venue';
+import { migrateStoredVenue, salvageStoredVenue } from '@/utils/venueModel';
 
 export interface SupabaseUserProfile {
   id: string;
@@ -17,7 +20,8 @@ export interface SupabaseBucketListItem {
   id: string;
   user_id: string;
   venue_id: string;
-  venue_data: any;
+  // A CanonicalVenue, or an older shape that migrateStoredVenue brings forward
+  venue_data: unknown;
   notes?: string;
   tags?: string[];
   priority?: 'low' | 'medium' | 'high';
@@ -27,6 +31,38 @@ export interface SupabaseBucketListItem {
   user_rating?: number;
   review?: string;
   notifications_enabled: boolean;
+  alert_radius_miles?: number | null;
+  alert_cooldown_hours?: number | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface SupabaseBucketListCollection {
+  id: string;
+  user_id: string;
+  name: string;
+  position: number;
+  geofencing_enabled: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+// A bucket list item's membership of a collection
+export interface SupabaseCollectionItem {
+  collection_id: string;
+  user_id: string;
+  venue_id: string;
+  added_at: string;
+}
+
+export interface SupabaseSavedSearch {
+  id: string;
+  user_id: string;
+  name: string;
+  query: string;
+  filters: SearchFilters;
+  latitude: number;
+  longitude: number;
   created_at: string;
   updated_at: string;
 }
@@ -94,25 +130,16 @@ export class SupabaseDataService {
         return [];
       }
 
-      const bucketListItems = data.map(
-        (item: SupabaseBucketListItem): BucketListItem => ({
+      const collectionIds = await this.loadCollectionMemberships(userId);
+      const bucketListItems = data.map((item: SupabaseBucketListItem): BucketListItem => {
+        // Items whose venue_data cannot be read are kept and their venue fetched again
+        const venue = migrateStoredVenue(item.venue_data, item.venue_id);
+        return {
           id: item.id,
           venueId: item.venue_id,
           userId: item.user_id,
-          venue: {
-            id: item.venue_id,
-            name: item.venue_data.name || '',
-            categories: item.venue_data.categories || [],
-            location: item.venue_data.location || {},
-            geocodes: item.venue_data.geocodes || {},
-            category: item.venue_data.category || '',
-            iconUrl: item.venue_data.iconUrl || '',
-            address: item.venue_data.address || '',
-            coordinates: item.venue_data.coordinates || {},
-            photo: item.venue_data.photo || '',
-            heroImageUrl: item.venue_data.heroImageUrl || '',
-            rating: item.venue_data.rating || 0,
-          },
+          venue: venue ?? salvageStoredVenue(item.venue_data, item.venue_id),
+          venueNeedsRefresh: venue ? undefined : true,
           notes: item.notes || '',
           tags: item.tags || [],
           priority: item.priority || 'medium',
@@ -124,8 +151,11 @@ export class SupabaseDataService {
           userRating: item.user_rating || undefined,
           review: item.review || '',
           notificationsEnabled: item.notifications_enabled ?? true,
-        })
-      );
+          alertRadiusMiles: item.alert_radius_miles ?? undefined,
+          alertCooldownHours: item.alert_cooldown_hours ?? undefined,
+          collectionIds: collectionIds[item.venue_id] ?? [],
+        };
+      });
 
       console.log('[SupabaseDataService] Loaded', bucketListItems.length, 'bucket list items');
       return bucketListItems;
@@ -135,6 +165,350 @@ export class SupabaseDataService {
     }
   }
 
+  /**
+   * Mark a bucket list venue visited, keeping its rating and review
+   */
+  static async markItemVisited(userId: string, venueId: string): Promise<boolean> {
+    try {
+      const now = new Date().toISOString();
+      const { error } = await supabase
+        .from('bucket_list_items')
+        .update({ visited_at: now, updated_at: now })
+        .eq('user_id', userId)
+        .eq('venue_id', venueId);
+
+      if (error) {
+        console.error('[SupabaseDataService] Error marking item visited:', error);
+        return false;
+      }
+      return true;
+    } catch (error) {
+      console.error('[SupabaseDataService] Failed to mark item visited:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Turn proximity alerts for a bucket list venue on or off
+   */
+  static async setItemNotificationsEnabled(
+    userId: string,
+    venueId: string,
+    enabled: boolean
+  ): Promise<boolean> {
+    try {
+      const { error } = await supabase
+        .from('bucket_list_items')
+        .update({ notifications_enabled: enabled, updated_at: new Date().toISOString() })
+        .eq('user_id', userId)
+        .eq('venue_id', venueId);
+
+      if (error) {
+        console.error('[SupabaseDataService] Error updating item notifications:', error);
+        return false;
+      }
+      return true;
+    } catch (error) {
+      console.error('[SupabaseDataService] Failed to update item notifications:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Load the ids of the collections each venue belongs to, keyed by venue id
+   */
+  private static async loadCollectionMemberships(
+    userId: string
+  ): Promise<Record<string, string[]>> {
+    const { data, error } = await supabase
+      .from('bucket_list_collection_items')
+      .select('collection_id, venue_id')
+      .eq('user_id', userId)
+      .order('added_at', { ascending: true });
+
+    if (error) {
+      console.error('[SupabaseDataService] Error loading collection memberships:', error);
+      return {};
+    }
+
+    const memberships: Record<string, string[]> = {};
+    (data ?? []).forEach((row: Pick<SupabaseCollectionItem, 'collection_id' | 'venue_id'>) => {
+      memberships[row.venue_id] = [...(memberships[row.venue_id] ?? []), row.collection_id];
+    });
+    return memberships;
+  }
+
+  /**
+   * Load the user's bucket list collections in list switcher order
+   */
+  static async loadCollections(userId: string): Promise<BucketListCollection[]> {
+    console.log('[SupabaseDataService] Loading collections for user ID:', userId);
+    try {
+      const { data, error } = await supabase
+        .from('bucket_list_collections')
+        .select('*')
+        .eq('user_id', userId)
+        .order('position', { ascending: true });
+
+      if (error) {
+        console.error('[SupabaseDataService] Error loading collections:', error);
+        return [];
+      }
+
+      const collections = (data ?? []).map(
+        (collection: SupabaseBucketListCollection): BucketListCollection => ({
+          id: collection.id,
+          name: collection.name,
+          position: collection.position,
+          geofencingEnabled: collection.geofencing_enabled,
+          createdAt: new Date(collection.created_at).getTime(),
+          updatedAt: new Date(collection.updated_at).getTime(),
+        })
+      );
+
+      console.log('[SupabaseDataService] Loaded', collections.length, 'collections');
+      return collections;
+    } catch (error) {
+      console.error('[SupabaseDataService] Failed to load collections:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Create or update a collection
+   */
+  static async upsertCollection(
+    userId: string,
+    collection: BucketListCollection
+  ): Promise<boolean> {
+    try {
+      const { error } = await supabase.from('bucket_list_collections').upsert(
+        {
+          id: collection.id,
+          user_id: userId,
+          name: collection.name,
+          position: collection.position,
+          geofencing_enabled: collection.geofencingEnabled,
+          created_at: new Date(collection.createdAt).toISOString(),
+          updated_at: new Date().toISOString(),
+        },
+        {
+          onConflict: 'id',
+        }
+      );
+
+      if (error) {
+        console.error('[SupabaseDataService] Error upserting collection:', error);
+        return false;
+      }
+      return true;
+    } catch (error) {
+      console.error('[SupabaseDataService] Failed to upsert collection:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Store the order of the user's collections
+   */
+  static async updateCollectionPositions(
+    userId: string,
+    collections: BucketListCollection[]
+  ): Promise<boolean> {
+    try {
+      const updatedAt = new Date().toISOString();
+      const results = await Promise.all(
+        collections.map(collection =>
+          supabase
+            .from('bucket_list_collections')
+            .update({ position: collection.position, updated_at: updatedAt })
+            .eq('user_id', userId)
+            .eq('id', collection.id)
+        )
+      );
+
+      const failed = results.find(({ error }) => error);
+      if (failed) {
+        console.error('[SupabaseDataService] Error updating collection positions:', failed.error);
+        return false;
+      }
+      return true;
+    } catch (error) {
+      console.error('[SupabaseDataService] Failed to update collection positions:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Delete a collection; its items stay in the bucket list
+   */
+  static async deleteCollection(userId: string, collectionId: string): Promise<boolean> {
+    try {
+      // Memberships are removed with the collection by the foreign key
+      const { error } = await supabase
+        .from('bucket_list_collections')
+        .delete()
+        .eq('user_id', userId)
+        .eq('id', collectionId);
+
+      if (error) {
+        console.error('[SupabaseDataService] Error deleting collection:', error);
+        return false;
+      }
+      return true;
+    } catch (error) {
+      console.error('[SupabaseDataService] Failed to delete collection:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Add a bucket list venue to a collection
+   */
+  static async addItemToCollection(
+    userId: string,
+    collectionId: string,
+    venueId: string
+  ): Promise<boolean> {
+    try {
+      const { error } = await supabase.from('bucket_list_collection_items').upsert(
+        {
+          collection_id: collectionId,
+          user_id: userId,
+          venue_id: venueId,
+          added_at: new Date().toISOString(),
+        },
+        {
+          onConflict: 'collection_id,venue_id',
+        }
+      );
+
+      if (error) {
+        console.error('[SupabaseDataService] Error adding item to collection:', error);
+        return false;
+      }
+      return true;
+    } catch (error) {
+      console.error('[SupabaseDataService] Failed to add item to collection:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Remove a bucket list venue from a collection
+   */
+  static async removeItemFromCollection(
+    userId: string,
+    collectionId: string,
+    venueId: string
+  ): Promise<boolean> {
+    try {
+      const { error } = await supabase
+        .from('bucket_list_collection_items')
+        .delete()
+        .eq('user_id', userId)
+        .eq('collection_id', collectionId)
+        .eq('venue_id', venueId);
+
+      if (error) {
+        console.error('[SupabaseDataService] Error removing item from collection:', error);
+        return false;
+      }
+      return true;
+    } catch (error) {
+      console.error('[SupabaseDataService] Failed to remove item from collection:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Load the saved searches the user chose to sync
+   */
+  static async loadSavedSearches(userId: string): Promise<SavedSearch[]> {
+    console.log('[SupabaseDataService] Loading saved searches for user ID:', userId);
+    try {
+      const { data, error } = await supabase
+        .from('saved_searches')
+        .select('*')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        console.error('[SupabaseDataService] Error loading saved searches:', error);
+        return [];
+      }
+
+      const savedSearches = (data ?? []).map(
+        (search: SupabaseSavedSearch): SavedSearch => ({
+          id: search.id,
+          name: search.name,
+          query: search.query,
+          filters: search.filters,
+          coordinates: { latitude: search.latitude, longitude: search.longitude },
+          createdAt: new Date(search.created_at).getTime(),
+          synced: true,
+        })
+      );
+
+      console.log('[SupabaseDataService] Loaded', savedSearches.length, 'saved searches');
+      return savedSearches;
+    } catch (error) {
+      console.error('[SupabaseDataService] Failed to load saved searches:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Save a search to the user's account
+   */
+  static async insertSavedSearch(userId: string, search: SavedSearch): Promise<boolean> {
+    try {
+      const { error } = await supabase.from('saved_searches').insert({
+        id: search.id,
+        user_id: userId,
+        name: search.name,
+        query: search.query,
+        filters: search.filters,
+        latitude: search.coordinates.latitude,
+        longitude: search.coordinates.longitude,
+        created_at: new Date(search.createdAt).toISOString(),
+        updated_at: new Date().toISOString(),
+      });
+
+      if (error) {
+        console.error('[SupabaseDataService] Error saving search:', error);
+        return false;
+      }
+      return true;
+    } catch (error) {
+      console.error('[SupabaseDataService] Failed to save search:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Delete a saved search from the user's account
+   */
+  static async deleteSavedSearch(userId: string, searchId: string): Promise<boolean> {
+    try {
+      // Searches that were never synced simply match no row
+      const { error } = await supabase
+        .from('saved_searches')
+        .delete()
+        .eq('user_id', userId)
+        .eq('id', searchId);
+
+      if (error) {
+        console.error('[SupabaseDataService] Error deleting saved search:', error);
+        return false;
+      }
+      return true;
+    } catch (error) {
+      console.error('[SupabaseDataService] Failed to delete saved search:', error);
+      return false;
+    }
+  }
+
   /**
    * Load user preferences from Supabase
    */
@@ -240,6 +614,8 @@ export class SupabaseDataService {
               user_rating: item.userRating || null,
               review: item.review || '',
               notifications_enabled: item.notificationsEnabled ?? true,
+              alert_radius_miles: item.alertRadiusMiles ?? null,
+              alert_cooldown_hours: item.alertCooldownHours ?? null,
             },
             {
               onConflict: 'user_id,venue_id',
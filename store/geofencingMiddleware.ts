@@ -1,10 +1,18 @@
 import GeofencingService from '@/services/GeofencingService';
+import { locationUpdated } from './slices/locationSlice';
+import { setNotificationFrequency, setQuietHours } from './slices/uiSlice';
+import { getAlertRadiusMeters } from '@/utils/alertRadius';
 
 export const geofencingMiddleware = (store: any) => (next: any) => (action: any) => {
   if (action.type === 'ADD_GEOFENCE') {
     const state = store.getState();
-    const distanceMiles = state.bucketList?.distanceMiles ?? 3;
-    const radius = distanceMiles * 1609.34;
+    const distanceMiles = state.ui?.distanceMiles ?? state.bucketList?.distanceMiles ?? 3;
+    const item = state.bucketList?.items?.find((it: any) => it.id === action.payload.id);
+    const radius = getAlertRadiusMeters(
+      item ?? {},
+      distanceMiles,
+      !!state.ui?.priorityScaledRadius
+    );
     GeofencingService.addGeofence({
       ...action.payload,
       radius,
@@ -13,5 +21,22 @@ export const geofencingMiddleware = (store: any) => (next: any) => (action: any)
   if (action.type === 'REMOVE_GEOFENCE') {
     GeofencingService.removeGeofence(action.payload.id);
   }
+  if (locationUpdated.match(action)) {
+    // Re-select the nearest venues when the region budget is exceeded
+    GeofencingService.updateOrigin(action.payload.coords);
+  }
+  if (setQuietHours.match(action)) {
+    GeofencingService.setQuietHours(action.payload);
+  }
+  if (action.type === 'persist/REHYDRATE' && action.payload?.ui?.quietHours) {
+    // Persisted quiet hours may be newer than the copy the background task reads
+    GeofencingService.setQuietHours(action.payload.ui.quietHours);
+  }
+  if (setNotificationFrequency.match(action)) {
+    GeofencingService.setNotificationFrequency(action.payload);
+  }
+  if (action.type === 'persist/REHYDRATE' && action.payload?.ui?.notificationFrequency) {
+    GeofencingService.setNotificationFrequency(action.payload.ui.notificationFrequency);
+  }
   return next(action);
 };
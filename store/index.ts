@@ -13,27 +13,39 @@ import authReducer from './slices/authSlice';
 import bucketListReducer from './slices/bucketListSlice';
 import uiReducer from './slices/uiSlice';
 import venuesReducer from './slices/venuesSlice';
+import searchHistoryReducer from './slices/searchHistorySlice';
 import locationReducer from './slices/locationSlice';
+import geofencingReducer, { geofenceEventRecorded } from './slices/geofencingSlice';
+import GeofenceEventLog from '@/services/GeofenceEventLog';
 const createSagaMiddleware = require('redux-saga').default;
 
+// Only the user's search filters survive a restart; venue results are always refetched
+const venuesPersistConfig = {
+  key: 'venues',
+  storage: AsyncStorage,
+  whitelist: ['filters'],
+};
+
 // Combine all reducers
 const rootReducer = {
   auth: authReducer,
-  venues: venuesReducer,
+  venues: persistReducer(venuesPersistConfig, venuesReducer),
   bucketList: bucketListReducer,
   ui: uiReducer,
   location: locationReducer,
+  geofencing: geofencingReducer,
+  searchHistory: searchHistoryReducer,
 };
 
 // Create root reducer
 const combinedReducer = combineReducers(rootReducer);
 
-// Configure persistence - only persist UI and auth state
+// Configure persistence - only persist UI, auth and search history state
 const persistConfig = {
   key: 'root',
   storage: AsyncStorage,
-  whitelist: ['ui', 'auth'], // Only persist UI and auth state
-  blacklist: ['bucketList', 'venues', 'location'], // Don't persist data that comes from DB
+  whitelist: ['ui', 'auth', 'searchHistory'], // Search history is kept on the device
+  blacklist: ['bucketList', 'venues', 'location', 'geofencing'], // Don't persist data that comes from DB
   transforms: [
     // Custom transforms for complex data if needed
   ],
@@ -84,6 +96,9 @@ export const persistor = persistStore(store);
 // Run saga middleware
 sagaMiddleware.run(rootSaga);
 
+// Mirror geofence events recorded while the app is running into the store
+GeofenceEventLog.subscribe(event => store.dispatch(geofenceEventRecorded(event)));
+
 // Export types
 export type RootState = ReturnType<typeof store.getState>;
 export type AppDispatch = typeof store.dispatch;
@@ -1,7 +1,9 @@
 import { createAsyncThunk } from '@reduxjs/toolkit';
-import { foursquareService } from '@/api/foursquare';
+import { placesProvider } from '@/api/places';
 import { type BucketListFilter, type BucketListItem } from '@/models/bucket-list';
 import { type RootState } from '@/store';
+import { venueMatchesCategories } from '@/utils/categoryTaxonomy';
+import { migrateStoredVenue, normalizeVenue } from '@/utils/venueModel';
 
 // Default mock user ID for development
 const MOCK_USER_ID = 'mock-user-1';
@@ -35,6 +37,11 @@ const applyFilters = (items: BucketListItem[], filters: BucketListFilter): Bucke
     result = result.filter(item => (filters.visited ? !!item.visitedAt : !item.visitedAt));
   }
 
+  // Filter by category
+  if (filters.categories && filters.categories.length > 0) {
+    result = result.filter(item => venueMatchesCategories(item.venue, filters.categories!));
+  }
+
   // Filter by search term
   if (filters.searchTerm) {
     const term = filters.searchTerm.toLowerCase();
@@ -87,15 +94,17 @@ const enhanceBucketListWithVenueDetails = async (
   const enhancedItems: BucketListItem[] = [];
 
   for (const item of items) {
+    // Venues saved by older versions are migrated to the current schema
+    const storedVenue = migrateStoredVenue(item.venue, item.venueId);
     // If venue is missing or incomplete, fetch venue details
-    if (!item.venue || Object.keys(item.venue).length === 0) {
+    if (!storedVenue) {
       try {
         const venueId = item.venueId || item.venue?.id || item.fsq_id;
         if (venueId) {
-          const response = await foursquareService.getVenueDetails(venueId);
+          const response = await placesProvider.getDetails(venueId);
           enhancedItems.push({
             ...item,
-            venue: response.venue,
+            venue: normalizeVenue(response, venueId),
           });
         } else {
           // Include item without venue details if no ID available
@@ -107,7 +116,7 @@ const enhanceBucketListWithVenueDetails = async (
         enhancedItems.push(item);
       }
     } else {
-      enhancedItems.push(item);
+      enhancedItems.push({ ...item, venue: storedVenue });
     }
   }
 
@@ -146,36 +155,7 @@ export const addToBucketList = createAsyncThunk(
       id: venueId, // Use the venue ID directly
       venueId: venueId,
       userId,
-      venue: {
-        iconUrl: venue.iconUrl,
-        id: venueId,
-        name: venue.name,
-        category:
-          venue.categories && venue.categories.length > 0 ? venue.categories[0].name : 'Restaurant',
-        address: venue.location
-          ? venue.location.formatted_address ??
-            venue.location.formattedAddress ??
-            [venue.location.address, venue.location.locality, venue.location.region]
-              .filter(Boolean)
-              .join(', ')
-          : venue.address ?? '',
-        coordinates: venue.geocodes?.main
-          ? {
-              latitude: venue.geocodes.main.latitude,
-              longitude: venue.geocodes.main.longitude,
-            }
-          : venue.location?.lat && venue.location?.lng
-          ? {
-              latitude: venue.location.lat,
-              longitude: venue.location.lng,
-            }
-          : venue.coordinates ?? undefined,
-        photo:
-          venue.photos && venue.photos.length > 0
-            ? `${venue.photos[0].prefix}original${venue.photos[0].suffix}`
-            : venue.photo ?? undefined,
-        rating: venue.rating,
-      },
+      venue: normalizeVenue(venue, venueId),
       addedAt: Date.now(),
       notes: '',
       tags: [],
@@ -3,6 +3,7 @@ import { all, fork } from 'redux-saga/effects';
 import { watchAuth } from './sagas/authSaga';
 import { watchVenues } from './sagas/venuesSaga';
 import locationSaga from './sagas/locationSaga';
+import geofencingSaga from './sagas/geofencingSaga';
 
 // Root saga
 export function* rootSaga() {
@@ -10,5 +11,6 @@ export function* rootSaga() {
     fork(watchAuth),
     fork(watchVenues),
     fork(locationSaga), // <-- Add locationSaga
+    fork(geofencingSaga),
   ]);
 }
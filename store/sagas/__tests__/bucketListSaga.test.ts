@@ -1,4 +1,8 @@
-import { watchBucketList } from '@/bucketListSaga';
+import { placesFixtures } from '@/__mocks__/placesFixtures';
+import { placesProvider } from '@/api/places';
+import { type BucketListItem } from '@/models/bucket-list';
+import venueCache from '@/services/VenueCache';
+import { watchBucketList } from '@/store/sagas/bucketListSaga';
 import {
   fetchBucketList,
   fetchBucketListSuccess,
@@ -8,15 +12,25 @@ import {
   markAsVisited,
 } from '@/store/slices/bucketListSlice';
 
-// Mock foursquare service
-jest.mock('@/api/foursquare', () => ({
-  foursquareService: {
-    getVenueDetails: jest.fn(),
+const franklinId = '4df44456d1add5a8baa15599';
+
+// Mock places provider
+jest.mock('@/api/places', () => ({
+  placesProvider: {
+    getDetails: jest.fn(),
   },
 }));
 
-// Import after mocking
-import { foursquareService } from '@/api/foursquare';
+// Mock the venue cache, passing lookups through to the fetcher
+jest.mock('@/services/VenueCache', () => ({
+  __esModule: true,
+  default: {
+    getVenue: jest.fn(async (id: string, fetcher: (venueId: string) => Promise<unknown>) => ({
+      venue: await fetcher(id),
+      source: 'network',
+    })),
+  },
+}));
 
 describe('bucketListSaga', () => {
   beforeEach(() => {
@@ -137,10 +151,32 @@ describe('bucketListSaga', () => {
     });
   });
 
+  describe('venue details', () => {
+    it('should load missing venue details through the venue cache', async () => {
+      (placesProvider.getDetails as jest.Mock).mockResolvedValue(
+        placesFixtures[`/places/${franklinId}`].body
+      );
+      const state = {
+        auth: { user: { id: 'user-1' } },
+        ui: { networkStatus: 'online' },
+        // A venue saved without its details
+        bucketList: { items: [{ id: 'item1', venueId: franklinId, addedAt: 0 }] },
+      };
+
+      const action = await fetchBucketList()(jest.fn(), () => state, undefined);
+
+      expect(venueCache.getVenue).toHaveBeenCalledWith(franklinId, expect.any(Function), {
+        offline: false,
+      });
+      expect(placesProvider.getDetails).toHaveBeenCalledWith(franklinId);
+      expect((action.payload as BucketListItem[])[0].venue.name).toBe('Franklin Barbecue');
+    });
+  });
+
   describe('mock service integration', () => {
-    it('should have mocked foursquare service', () => {
-      expect(foursquareService.getVenueDetails).toBeDefined();
-      expect(jest.isMockFunction(foursquareService.getVenueDetails)).toBe(true);
+    it('should have mocked places provider', () => {
+      expect(placesProvider.getDetails).toBeDefined();
+      expect(jest.isMockFunction(placesProvider.getDetails)).toBe(true);
     });
   });
 });
@@ -1,8 +1,9 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { type PayloadAction } from '@reduxjs/toolkit';
-import { call, put, takeLatest, select, delay, take, all, fork } from 'redux-saga/effects';
+import { call, put, takeLatest, select, all, fork } from 'redux-saga/effects';
 
-import { foursquareService } from '@/api/foursquare';
+import { placesProvider } from '@/api/places';
+import venueCache, { type VenueCacheResult } from '@/services/VenueCache';
 import { type BucketListItem } from '@/models/bucket-list';
 import { type RootState } from '@/store';
 import {
@@ -18,13 +19,11 @@ import {
   removeFromBucketListFailure,
   markAsVisited,
   markAsVisitedFailure,
-  setNotificationEnabled,
-  setAllNotificationsEnabled,
-  setDistanceMiles,
 } from '@/store/slices/bucketListSlice';
 import { selectVenue } from '@/store/slices/venuesSlice';
 import { selectUser } from '@/store/slices/authSlice';
-import GeofencingService from '@/services/GeofencingService';
+import { selectNetworkStatus } from '@/store/slices/uiSlice';
+import { migrateStoredVenue, normalizeVenue } from '@/utils/venueModel';
 
 /**
  * BucketList Saga
@@ -97,21 +96,27 @@ function* enhanceBucketListWithVenueDetails(
 ): Generator<any, BucketListItem[], any> {
   // For each item, ensure we have complete venue details
   const enhancedItems: BucketListItem[] = [];
+  const networkStatus = yield select(selectNetworkStatus);
 
   for (const item of items) {
+    // Venues saved by older versions are migrated to the current schema
+    const storedVenue = migrateStoredVenue(item.venue, item.venueId);
     // If venue is missing or incomplete, fetch venue details
-    if (!item.venue || Object.keys(item.venue).length === 0) {
+    if (!storedVenue) {
       try {
-        const venueId = item.venueId || item.venue.id || item.fsq_id;
+        const venueId = item.venueId || item.venue?.id || item.fsq_id;
         if (venueId) {
-          const response: any = yield call(
-            [foursquareService, foursquareService.getVenueDetails],
-            venueId
+          // Served from the venue cache; only misses and stale entries hit the network
+          const { venue }: VenueCacheResult = yield call(
+            [venueCache, venueCache.getVenue],
+            venueId,
+            (id: string) => placesProvider.getDetails(id),
+            { offline: networkStatus === 'offline' }
           );
 
           enhancedItems.push({
             ...item,
-            venue: response.venue,
+            venue: normalizeVenue(venue, venueId),
           });
         } else {
           // Include item without venue details if no ID available
@@ -123,7 +128,7 @@ function* enhanceBucketListWithVenueDetails(
         enhancedItems.push(item);
       }
     } else {
-      enhancedItems.push(item);
+      enhancedItems.push({ ...item, venue: storedVenue });
     }
   }
 
@@ -149,35 +154,7 @@ function* handleAddToBucketList(action: PayloadAction<any>): Generator<any, void
       id: venueId, // Use the venue ID directly
       venueId: venueId,
       userId,
-      venue: {
-        id: venueId,
-        name: venue.name,
-        category:
-          venue.categories && venue.categories.length > 0 ? venue.categories[0].name : 'Restaurant',
-        address: venue.location
-          ? venue.location.formatted_address ??
-            venue.location.formattedAddress ??
-            [venue.location.address, venue.location.locality, venue.location.region]
-              .filter(Boolean)
-              .join(', ')
-          : venue.address ?? '',
-        coordinates: venue.geocodes?.main
-          ? {
-              latitude: venue.geocodes.main.latitude,
-              longitude: venue.geocodes.main.longitude,
-            }
-          : venue.location?.lat && venue.location?.lng
-          ? {
-              latitude: venue.location.lat,
-              longitude: venue.location.lng,
-            }
-          : venue.coordinates ?? undefined,
-        photo:
-          venue.photos && venue.photos.length > 0
-            ? `${venue.photos[0].prefix}original${venue.photos[0].suffix}`
-            : venue.photo ?? undefined,
-        rating: venue.rating,
-      },
+      venue: normalizeVenue(venue, venueId),
       addedAt: Date.now(),
       notes: '',
       tags: [],
@@ -422,52 +399,7 @@ export function* watchBucketList() {
   yield takeLatest(markAsVisited.type, handleMarkAsVisited);
 }
 
-function* syncGeofencesWithBucketList() {
-  // Debounce: wait for 500ms after the last change
-  yield delay(500);
-  // Get the latest bucket list from state
-  const state: RootState = yield select();
-  const items = state.bucketList.items;
-  // Only include items with notificationsEnabled and coordinates
-  const geofences = items
-    .filter(item => item.notificationsEnabled && item.venue?.coordinates)
-    .map(item => ({
-      id: item.id,
-      name: item.venue.name,
-      latitude: item.venue.coordinates.latitude,
-      longitude: item.venue.coordinates.longitude,
-    }));
-  // Restart geofencing with the new set
-  yield call([GeofencingService, GeofencingService.removeAllGeofences]);
-  if (geofences.length > 0) {
-    for (const geofence of geofences) {
-      yield call([GeofencingService, GeofencingService.addGeofence], geofence);
-    }
-  }
-  // Save a last update timestamp for notification suppression
-  yield call([AsyncStorage, AsyncStorage.setItem], 'geofence_last_update', Date.now().toString());
-  console.log(
-    '[Geofencing] Synced geofences with bucket list:',
-    geofences.map(g => g.name)
-  );
-}
-
-function* watchBucketListGeofenceSync() {
-  // Listen for all relevant bucket list changes
-  while (true) {
-    yield take([
-      addToBucketList.fulfilled.type,
-      removeFromBucketList.fulfilled.type,
-      updateBucketListItem.fulfilled.type,
-      setNotificationEnabled.type,
-      setAllNotificationsEnabled.type,
-      setDistanceMiles.type,
-    ]);
-    yield* syncGeofencesWithBucketList();
-  }
-}
-
 // At the end of your saga file, fork this watcher
 export function* bucketListRootSaga() {
-  yield all([fork(watchBucketList), fork(watchBucketListGeofenceSync)]);
+  yield all([fork(watchBucketList)]);
 }
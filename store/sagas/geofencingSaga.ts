@@ -1,4 +1,97 @@
-// This file is now a placeholder. All legacy geofencing saga logic has been removed.
-// If you need to add minimal geofencing saga logic, do so here.
+import { AppState, type AppStateStatus } from 'react-native';
+import { eventChannel, type EventChannel } from 'redux-saga';
+import { call, delay, fork, put, select, take, takeLatest } from 'redux-saga/effects';
 
-export {};
+import GeofencingService from '@/services/GeofencingService';
+import { type RootState } from '@/store';
+import {
+  addItemToCollection,
+  addToBucketList,
+  deleteCollection,
+  removeFromBucketList,
+  removeItemFromCollection,
+  setAllNotificationsEnabled,
+  setBucketListItems,
+  setCollectionGeofencingEnabled,
+  setCollections,
+  setNotificationEnabled,
+  updateBucketListItem,
+} from '@/store/slices/bucketListSlice';
+import { geofencesReconciled, reconcileGeofences } from '@/store/slices/geofencingSlice';
+import {
+  setDistanceMiles,
+  setMasterNotificationsEnabled,
+  setPriorityScaledRadius,
+} from '@/store/slices/uiSlice';
+import { buildDesiredGeofences } from '@/utils/geofenceReconciliation';
+
+/**
+ * Geofencing Saga
+ * Keeps the OS-registered geofences in line with the bucket list and alert preferences
+ */
+
+// Actions that can change which geofences should be registered
+const RECONCILE_TRIGGERS = [
+  reconcileGeofences.type,
+  // Loaded on login and cleared on logout
+  setBucketListItems.type,
+  addToBucketList.fulfilled.type,
+  removeFromBucketList.fulfilled.type,
+  updateBucketListItem.fulfilled.type,
+  setNotificationEnabled.type,
+  setAllNotificationsEnabled.type,
+  // Collections can turn alerts off for their venues
+  setCollections.type,
+  setCollectionGeofencingEnabled.type,
+  deleteCollection.type,
+  addItemToCollection.type,
+  removeItemFromCollection.type,
+  setMasterNotificationsEnabled.type,
+  setDistanceMiles.type,
+  setPriorityScaledRadius.type,
+];
+
+function createAppStateChannel(): EventChannel<AppStateStatus> {
+  return eventChannel(emitter => {
+    const subscription = AppState.addEventListener('change', emitter);
+    return () => subscription.remove();
+  });
+}
+
+export function* reconcileGeofencesSaga(): Generator<any, void, any> {
+  // Debounce: wait for 500ms after the last change
+  yield delay(500);
+  const state: RootState = yield select();
+  const desired = buildDesiredGeofences(state.bucketList.items, {
+    masterEnabled: state.ui.masterNotificationsEnabled,
+    distanceMiles: state.ui.distanceMiles,
+    priorityScaledRadius: !!state.ui.priorityScaledRadius,
+    collections: state.bucketList.collections,
+  });
+  try {
+    const report = yield call([GeofencingService, GeofencingService.reconcile], desired);
+    yield put(geofencesReconciled(report));
+  } catch (error) {
+    console.error('[GeofencingSaga] Failed to reconcile geofences:', error);
+  }
+}
+
+// Permissions and location services may have changed while the app was in the background
+function* watchAppForeground(): Generator<any, void, any> {
+  const channel: EventChannel<AppStateStatus> = yield call(createAppStateChannel);
+  try {
+    while (true) {
+      const status: AppStateStatus = yield take(channel);
+      if (status === 'active') {
+        yield put(reconcileGeofences());
+      }
+    }
+  } finally {
+    channel.close();
+  }
+}
+
+export default function* geofencingSaga(): Generator<any, void, any> {
+  yield fork(watchAppForeground);
+  yield takeLatest(RECONCILE_TRIGGERS, reconcileGeofencesSaga);
+}
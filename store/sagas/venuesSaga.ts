@@ -1,7 +1,9 @@
 import { type PayloadAction } from '@reduxjs/toolkit';
-import { call, put, select, takeLatest } from 'redux-saga/effects';
+import { call, cancelled, delay, put, select, takeLatest, takeLeading } from 'redux-saga/effects';
 
-import { foursquareService } from '@/api/foursquare';
+import { describeFoursquareError, FILTERABLE_SEARCH_FIELDS } from '@/api/foursquareClient';
+import { placesProvider } from '@/api/places';
+import { type PlacesRequestOptions } from '@/api/placesProvider';
 import { type Coordinates, type Venue, type VenueSearchResponse } from '@/models/venue';
 import { type RootState } from '@/store';
 import {
@@ -11,12 +13,41 @@ import {
   fetchRecommendedVenues,
   fetchRecommendedVenuesFailure,
   fetchRecommendedVenuesSuccess,
+  loadMoreSearchResults,
+  loadMoreSearchResultsFailure,
+  loadMoreSearchResultsSuccess,
   searchVenues,
   searchVenuesFailure,
   searchVenuesSuccess,
   selectVenue,
   setSelectedVenue,
+  type SearchVenuesRequest,
 } from '@/store/slices/venuesSlice';
+import {
+  applySearchFilters,
+  DEFAULT_SEARCH_FILTERS,
+  hasActiveFilters,
+  toSearchParams,
+} from '@/utils/searchFilters';
+import { getSearchCacheKey, isFreshCacheEntry, type SearchCacheEntry } from '@/utils/searchCache';
+import { SEARCH_PAGE_SIZE } from '@/utils/venuePagination';
+
+// Wait for filter, location and query changes to settle before searching
+export const SEARCH_DEBOUNCE_MS = 300;
+
+// Call the places provider, aborting the request if takeLatest cancels the saga for a newer action
+function* callPlaces<T>(request: (options: PlacesRequestOptions) => Promise<T>) {
+  const controller = new AbortController();
+  try {
+    const result: T = yield call(request, { signal: controller.signal });
+    return result;
+  } finally {
+    const wasCancelled: boolean = yield cancelled();
+    if (wasCancelled) {
+      controller.abort();
+    }
+  }
+}
 
 // Handle fetch nearby venues
 function* handleFetchNearbyVenues(
@@ -30,12 +61,9 @@ function* handleFetchNearbyVenues(
     const { coordinates, radius = 4828, categories } = action.payload;
 
     // Call API
-    const response: VenueSearchResponse = yield call(
-      foursquareService.searchNearbyVenues.bind(foursquareService),
-      coordinates,
-      undefined, // No query for nearby venues
-      categories,
-      radius
+    // No query for nearby venues
+    const response: VenueSearchResponse = yield* callPlaces(options =>
+      placesProvider.search({ coordinates, categories, radius }, options)
     );
 
     // Handle success
@@ -43,7 +71,11 @@ function* handleFetchNearbyVenues(
   } catch (error: any) {
     console.error('Failed to fetch nearby venues:', error);
 
-    yield put(fetchNearbyVenuesFailure(error.message || 'Failed to fetch nearby venues'));
+    yield put(
+      fetchNearbyVenuesFailure(
+        describeFoursquareError(error, error.message || 'Failed to fetch nearby venues')
+      )
+    );
   }
 }
 
@@ -58,46 +90,119 @@ export function* handleFetchRecommendedVenues(
     const { coordinates, limit = 10 } = action.payload;
 
     // Call API
-    const response: VenueSearchResponse = yield call(
-      foursquareService.getRecommendedVenues.bind(foursquareService),
-      coordinates,
-      limit
+    const response: VenueSearchResponse = yield* callPlaces(options =>
+      placesProvider.search({ coordinates, limit, sort: 'RATING' }, options)
     );
 
     // Handle success
     yield put(fetchRecommendedVenuesSuccess(response.results));
   } catch (error: any) {
     console.error('Failed to fetch recommended venues:', error);
-    yield put(fetchRecommendedVenuesFailure(error.message || 'Failed to fetch recommended venues'));
+    yield put(
+      fetchRecommendedVenuesFailure(
+        describeFoursquareError(error, error.message || 'Failed to fetch recommended venues')
+      )
+    );
   }
 }
 
+// Search for one page of results, with the filters the provider cannot apply applied here
+function* searchPage(request: SearchVenuesRequest, cursor?: string) {
+  const filters = request.filters ?? DEFAULT_SEARCH_FILTERS;
+  const filterParams = toSearchParams(filters);
+  const response: VenueSearchResponse = yield* callPlaces(options =>
+    placesProvider.search(
+      {
+        coordinates: request.coordinates,
+        query: request.query,
+        categories: filterParams.categories ?? request.categories,
+        radius: filterParams.radius ?? request.radius ?? 4828,
+        limit: request.limit ?? SEARCH_PAGE_SIZE,
+        minPrice: filterParams.minPrice,
+        maxPrice: filterParams.maxPrice,
+        openNow: filterParams.openNow,
+        fields: hasActiveFilters(filters) ? FILTERABLE_SEARCH_FIELDS : undefined,
+        cursor,
+      },
+      options
+    )
+  );
+  return { ...response, results: applySearchFilters(response.results, filters) };
+}
+
 // Handle search venues
-function* handleSearchVenues(
-  action: PayloadAction<{
-    coordinates: Coordinates;
-    query: string;
-    categories?: string[];
-    radius?: number;
-  }>
-) {
-  try {
-    const { coordinates, query, categories, radius = 4828 } = action.payload;
+// takeLatest cancels this while it waits out the debounce or the request for a newer search
+function* handleSearchVenues(action: PayloadAction<SearchVenuesRequest>) {
+  const cached: SearchCacheEntry | undefined = yield select(
+    (state: RootState) => state.venues.search.cache[getSearchCacheKey(action.payload)]
+  );
+  if (cached && isFreshCacheEntry(cached, Date.now())) {
+    yield put(
+      searchVenuesSuccess({
+        venues: cached.venues,
+        nextCursor: cached.nextCursor ?? undefined,
+        fetchedAt: cached.cachedAt,
+      })
+    );
+    return;
+  }
 
+  yield delay(SEARCH_DEBOUNCE_MS);
+  try {
     // Call API
-    const response: VenueSearchResponse = yield call(
-      foursquareService.searchNearbyVenues.bind(foursquareService),
-      coordinates,
-      query,
-      categories,
-      radius
-    );
+    const response: VenueSearchResponse = yield* searchPage(action.payload);
 
     // Handle success
-    yield put(searchVenuesSuccess(response.results));
+    yield put(
+      searchVenuesSuccess({
+        venues: response.results,
+        nextCursor: response.nextCursor,
+        fetchedAt: Date.now(),
+      })
+    );
   } catch (error: any) {
     console.error('Failed to search venues:', error);
-    yield put(searchVenuesFailure(error.message || 'Failed to search venues'));
+    yield put(
+      searchVenuesFailure(
+        describeFoursquareError(error, error.message || 'Failed to search venues')
+      )
+    );
+  }
+}
+
+// Handle loading the next page of the current search
+function* handleLoadMoreSearchResults() {
+  const { request, nextCursor }: RootState['venues']['search'] = yield select(
+    (state: RootState) => state.venues.search
+  );
+  if (!request || !nextCursor) {
+    return;
+  }
+
+  try {
+    const response: VenueSearchResponse = yield* searchPage(request, nextCursor);
+
+    // Drop the page if a new search replaced the results meanwhile
+    const current: SearchVenuesRequest | null = yield select(
+      (state: RootState) => state.venues.search.request
+    );
+    if (current !== request) {
+      return;
+    }
+    yield put(
+      loadMoreSearchResultsSuccess({
+        venues: response.results,
+        nextCursor: response.nextCursor,
+        fetchedAt: Date.now(),
+      })
+    );
+  } catch (error: any) {
+    console.error('Failed to load more search results:', error);
+    yield put(
+      loadMoreSearchResultsFailure(
+        describeFoursquareError(error, error.message || 'Failed to load more results')
+      )
+    );
   }
 }
 
@@ -123,9 +228,8 @@ function* handleSelectVenue(action: PayloadAction<string>) {
       yield put(setSelectedVenue(venue));
     } else {
       // Otherwise fetch from API
-      const venueDetails: Venue = yield call(
-        foursquareService.getVenueDetails.bind(foursquareService),
-        venueId
+      const venueDetails: Venue = yield* callPlaces(options =>
+        placesProvider.getDetails(venueId, options)
       );
 
       // Handle success
@@ -143,5 +247,7 @@ export function* watchVenues() {
   yield takeLatest(fetchNearbyVenues.type, handleFetchNearbyVenues);
   yield takeLatest(fetchRecommendedVenues.type, handleFetchRecommendedVenues);
   yield takeLatest(searchVenues.type, handleSearchVenues);
+  // Ignore repeated end-of-list events while a page is loading
+  yield takeLeading(loadMoreSearchResults.type, handleLoadMoreSearchResults);
   yield takeLatest(selectVenue.type, handleSelectVenue);
 }
@@ -1,7 +1,23 @@
-import { createSlice, createAsyncThunk, type PayloadAction } from '@reduxjs/toolkit';
-import { foursquareService } from '@/api/foursquare';
-import { type BucketListItem, type BucketListFilter } from '@/models/bucket-list';
+import {
+  createSlice,
+  createAsyncThunk,
+  current,
+  isDraft,
+  type PayloadAction,
+} from '@reduxjs/toolkit';
+import * as Crypto from 'expo-crypto';
+import { placesProvider } from '@/api/places';
+import {
+  type BucketListCollection,
+  type BucketListItem,
+  type BucketListFilter,
+} from '@/models/bucket-list';
+import venueCache from '@/services/VenueCache';
 import { RootState } from '@/store';
+import { filterBySearchTerm } from '@/utils/bucketListSearch';
+import { venueMatchesCategories } from '@/utils/categoryTaxonomy';
+import { applyCollectionOrder, isInCollection, sortCollections } from '@/utils/collections';
+import { migrateStoredVenue, normalizeVenue } from '@/utils/venueModel';
 
 // Helper function to get user ID from state
 const getUserId = (state: RootState): string => {
@@ -15,7 +31,11 @@ const getUserId = (state: RootState): string => {
 
 // Helper function to apply filters to bucket list items
 const applyFilters = (items: BucketListItem[], filters: BucketListFilter): BucketListItem[] => {
-  let result = [...items];
+  // Search the whole list first, so the shared search index only reindexes changed items.
+  // It keeps the items between calls, so give it plain ones: drafts are revoked after the reducer.
+  let result = filters.searchTerm
+    ? filterBySearchTerm(isDraft(items) ? current(items) : items, filters.searchTerm)
+    : [...items];
 
   // Filter by tags
   if (filters.tags && filters.tags.length > 0) {
@@ -32,14 +52,14 @@ const applyFilters = (items: BucketListItem[], filters: BucketListFilter): Bucke
     result = result.filter(item => (filters.visited ? !!item.visitedAt : !item.visitedAt));
   }
 
-  // Filter by search term
-  if (filters.searchTerm) {
-    const term = filters.searchTerm.toLowerCase();
-    result = result.filter(
-      item =>
-        item.venue.name.toLowerCase().includes(term) ||
-        (item.notes && item.notes.toLowerCase().includes(term))
-    );
+  // Filter by category
+  if (filters.categories && filters.categories.length > 0) {
+    result = result.filter(item => venueMatchesCategories(item.venue, filters.categories!));
+  }
+
+  // Filter by collection
+  if (filters.collectionId) {
+    result = result.filter(item => isInCollection(item, filters.collectionId!));
   }
 
   // Sort results
@@ -79,20 +99,30 @@ const applyFilters = (items: BucketListItem[], filters: BucketListFilter): Bucke
 
 // Async thunk to enhance bucket list items with venue details
 const enhanceBucketListWithVenueDetails = async (
-  items: BucketListItem[]
+  items: BucketListItem[],
+  offline: boolean
 ): Promise<BucketListItem[]> => {
   const enhancedItems: BucketListItem[] = [];
 
   for (const item of items) {
+    // Venues saved by older versions are migrated to the current schema
+    const storedVenue = item.venueNeedsRefresh
+      ? null
+      : migrateStoredVenue(item.venue, item.venueId);
     // If venue is missing or incomplete, fetch venue details
-    if (!item.venue || Object.keys(item.venue).length === 0) {
+    if (!storedVenue) {
       try {
         const venueId = item.venueId || item.venue?.id || item.fsq_id;
         if (venueId) {
-          const response = await foursquareService.getVenueDetails(venueId);
+          const { venue } = await venueCache.getVenue(
+            venueId,
+            id => placesProvider.getDetails(id),
+            { offline }
+          );
           enhancedItems.push({
             ...item,
-            venue: response.venue,
+            venue: normalizeVenue(venue, venueId),
+            venueNeedsRefresh: undefined,
           });
         } else {
           // Include item without venue details if no ID available
@@ -104,7 +134,7 @@ const enhanceBucketListWithVenueDetails = async (
         enhancedItems.push(item);
       }
     } else {
-      enhancedItems.push(item);
+      enhancedItems.push({ ...item, venue: storedVenue });
     }
   }
 
@@ -124,7 +154,10 @@ export const fetchBucketList = createAsyncThunk('bucketList/fetch', async (_, {
   console.log('Current items in state:', JSON.stringify(items));
 
   // Enhance items with venue details if needed
-  const enhancedItems = await enhanceBucketListWithVenueDetails(items);
+  const enhancedItems = await enhanceBucketListWithVenueDetails(
+    items,
+    state.ui.networkStatus === 'offline'
+  );
   console.log('Enhanced items with venue details:', JSON.stringify(enhancedItems));
 
   return enhancedItems;
@@ -145,10 +178,7 @@ export const addToBucketList = createAsyncThunk(
       id: venueId, // Use the venue ID directly
       venueId: venueId,
       userId,
-      venue: {
-        ...venue, // <-- preserves iconUrl and all other fields
-        id: venueId, // (optional: to ensure id is always present/normalized)
-      },
+      venue: normalizeVenue(venue, venueId),
       addedAt: Date.now(),
       notes: '',
       tags: [],
@@ -256,12 +286,12 @@ export const markAsVisited = createAsyncThunk(
       throw new Error('Cannot update an item that belongs to another user');
     }
 
-    // Create updated item
+    // Create updated item, keeping the rating and review unless new ones were given
     const updatedItem: BucketListItem = {
       ...currentItem,
       visitedAt: Date.now(),
-      userRating: rating,
-      review,
+      userRating: rating ?? currentItem.userRating,
+      review: review ?? currentItem.review,
     };
 
     return updatedItem;
@@ -279,6 +309,7 @@ const bucketListSlice = createSlice({
     items: [] as BucketListItem[],
     filteredItems: [] as BucketListItem[],
     filters: {} as BucketListFilter,
+    collections: [] as BucketListCollection[],
     loading: false,
     error: null as string | null,
   },
@@ -329,6 +360,96 @@ const bucketListSlice = createSlice({
       state.items = action.payload;
       state.filteredItems = applyFilters(action.payload, state.filters);
     },
+
+    // Collections
+    createCollection: {
+      reducer: (state, action: PayloadAction<Omit<BucketListCollection, 'position'>>) => {
+        state.collections.push({ ...action.payload, position: state.collections.length });
+      },
+      prepare: (name: string) => ({
+        payload: {
+          id: Crypto.randomUUID(),
+          name: name.trim(),
+          geofencingEnabled: true,
+          createdAt: Date.now(),
+        },
+      }),
+    },
+    renameCollection: (state, action: PayloadAction<{ id: string; name: string }>) => {
+      const collection = state.collections.find(({ id }) => id === action.payload.id);
+      if (collection) {
+        collection.name = action.payload.name.trim();
+      }
+    },
+    // Collection ids in their new order
+    reorderCollections: (state, action: PayloadAction<string[]>) => {
+      state.collections = applyCollectionOrder(state.collections, action.payload);
+    },
+    // The collection's items stay in the bucket list
+    deleteCollection: (state, action: PayloadAction<string>) => {
+      const collectionId = action.payload;
+      state.collections = applyCollectionOrder(
+        state.collections.filter(({ id }) => id !== collectionId),
+        []
+      );
+      state.items = state.items.map(item =>
+        isInCollection(item, collectionId)
+          ? { ...item, collectionIds: item.collectionIds!.filter(id => id !== collectionId) }
+          : item
+      );
+      if (state.filters.collectionId === collectionId) {
+        state.filters = { ...state.filters, collectionId: undefined };
+      }
+      state.filteredItems = applyFilters(state.items, state.filters);
+    },
+    setCollectionGeofencingEnabled: (
+      state,
+      action: PayloadAction<{ id: string; enabled: boolean }>
+    ) => {
+      const collection = state.collections.find(({ id }) => id === action.payload.id);
+      if (collection) {
+        collection.geofencingEnabled = action.payload.enabled;
+      }
+    },
+    addItemToCollection: (
+      state,
+      action: PayloadAction<{ itemId: string; collectionId: string }>
+    ) => {
+      const { itemId, collectionId } = action.payload;
+      const index = state.items.findIndex(item => item.id === itemId);
+      if (index !== -1 && !isInCollection(state.items[index], collectionId)) {
+        state.items[index] = {
+          ...state.items[index],
+          collectionIds: [...(state.items[index].collectionIds ?? []), collectionId],
+        };
+        state.filteredItems = applyFilters(state.items, state.filters);
+      }
+    },
+    removeItemFromCollection: (
+      state,
+      action: PayloadAction<{ itemId: string; collectionId: string }>
+    ) => {
+      const { itemId, collectionId } = action.payload;
+      const index = state.items.findIndex(item => item.id === itemId);
+      if (index !== -1 && isInCollection(state.items[index], collectionId)) {
+        state.items[index] = {
+          ...state.items[index],
+          collectionIds: state.items[index].collectionIds!.filter(id => id !== collectionId),
+        };
+        state.filteredItems = applyFilters(state.items, state.filters);
+      }
+    },
+    // Set collections from Supabase (for data loading)
+    setCollections: (state, action: PayloadAction<BucketListCollection[]>) => {
+      state.collections = sortCollections(action.payload);
+      if (
+        state.filters.collectionId &&
+        !action.payload.some(({ id }) => id === state.filters.collectionId)
+      ) {
+        state.filters = { ...state.filters, collectionId: undefined };
+        state.filteredItems = applyFilters(state.items, state.filters);
+      }
+    },
   },
   extraReducers: builder => {
     // Fetch bucket list
@@ -427,6 +548,14 @@ export const {
   enableAllNotifications,
   setNotificationEnabled,
   setBucketListItems,
+  createCollection,
+  renameCollection,
+  reorderCollections,
+  deleteCollection,
+  setCollectionGeofencingEnabled,
+  addItemToCollection,
+  removeItemFromCollection,
+  setCollections,
 } = bucketListSlice.actions;
 
 // Export reducer
@@ -438,6 +567,7 @@ export const selectFilteredBucketListItems = (state: RootState) => state.bucketL
 export const selectBucketListLoading = (state: RootState) => state.bucketList.loading;
 export const selectBucketListError = (state: RootState) => state.bucketList.error;
 export const selectBucketListFilters = (state: RootState) => state.bucketList.filters;
+export const selectCollections = (state: RootState) => state.bucketList.collections;
 export const selectMasterNotificationsEnabled = (state: RootState) => state.ui.masterNotificationsEnabled;
 export const selectDistanceMiles = (state: RootState) => state.ui.distanceMiles;
 export const selectIsVenueInBucketList = (venueId: string) => (state: RootState) =>
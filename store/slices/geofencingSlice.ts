@@ -1,4 +1,132 @@
-// This file is now a placeholder. All legacy geofencing logic has been removed.
-// If you need to track a minimal list of geofences in Redux, add it here.
+import { createAsyncThunk, createSlice, type PayloadAction } from '@reduxjs/toolkit';
 
-export {};
+import { type GeofenceDriftReport, type GeofenceEvent } from '@/models/geofence';
+import GeofenceEventLog, {
+  appendToRingBuffer,
+  MAX_GEOFENCE_EVENTS,
+} from '@/services/GeofenceEventLog';
+import { type RootState } from '@/store';
+
+export interface GeofencingState {
+  events: GeofenceEvent[];
+  loading: boolean;
+  error: string | null;
+  // Result of the last reconciliation against the bucket list
+  driftReport: GeofenceDriftReport | null;
+}
+
+/**
+ * How often the user passed a venue within a time window
+ */
+export interface GeofenceVisitSummary {
+  geofenceId: string;
+  venueId?: string;
+  name: string;
+  count: number;
+  lastPassedAt: number;
+}
+
+const initialState: GeofencingState = {
+  events: [],
+  loading: false,
+  error: null,
+  driftReport: null,
+};
+
+// Async thunk for loading the persisted event history
+export const loadGeofenceEvents = createAsyncThunk('geofencing/loadEvents', async () => {
+  return GeofenceEventLog.getEvents();
+});
+
+// Async thunk for clearing the persisted event history
+export const clearGeofenceEvents = createAsyncThunk('geofencing/clearEvents', async () => {
+  await GeofenceEventLog.clear();
+});
+
+/**
+ * Geofencing Slice
+ * Mirrors the persisted geofence event log for the Alerts timeline and tracks reconciliation
+ */
+const geofencingSlice = createSlice({
+  name: 'geofencing',
+  initialState,
+  reducers: {
+    // Append an event recorded while the app is running
+    geofenceEventRecorded: (state, action: PayloadAction<GeofenceEvent>) => {
+      if (state.events.some(event => event.id === action.payload.id)) {
+        return;
+      }
+      state.events = appendToRingBuffer(state.events, action.payload, MAX_GEOFENCE_EVENTS);
+    },
+    // Ask the geofencing saga to reconcile registered geofences with the bucket list
+    reconcileGeofences: () => {},
+    geofencesReconciled: (state, action: PayloadAction<GeofenceDriftReport>) => {
+      state.driftReport = action.payload;
+    },
+  },
+  extraReducers: builder => {
+    builder
+      .addCase(loadGeofenceEvents.pending, state => {
+        state.loading = true;
+        state.error = null;
+      })
+      .addCase(loadGeofenceEvents.fulfilled, (state, action) => {
+        state.events = action.payload;
+        state.loading = false;
+      })
+      .addCase(loadGeofenceEvents.rejected, (state, action) => {
+        state.loading = false;
+        state.error = action.error.message || 'Failed to load geofence events';
+      });
+
+    builder.addCase(clearGeofenceEvents.fulfilled, state => {
+      state.events = [];
+    });
+  },
+});
+
+// Export actions
+export const { geofenceEventRecorded, reconcileGeofences, geofencesReconciled } =
+  geofencingSlice.actions;
+
+// Export reducer
+export default geofencingSlice.reducer;
+
+/**
+ * Count ENTER events per venue since a point in time, most frequently passed first
+ */
+export const summarizeGeofenceVisits = (
+  events: GeofenceEvent[],
+  since: number
+): GeofenceVisitSummary[] => {
+  const summaries = new Map<string, GeofenceVisitSummary>();
+
+  for (const event of events) {
+    if (event.type !== 'enter' || event.timestamp < since) {
+      continue;
+    }
+    const existing = summaries.get(event.geofenceId);
+    if (existing) {
+      existing.count += 1;
+      existing.lastPassedAt = Math.max(existing.lastPassedAt, event.timestamp);
+      existing.name = event.name;
+    } else {
+      summaries.set(event.geofenceId, {
+        geofenceId: event.geofenceId,
+        venueId: event.venueId,
+        name: event.name,
+        count: 1,
+        lastPassedAt: event.timestamp,
+      });
+    }
+  }
+
+  return [...summaries.values()].sort(
+    (a, b) => b.count - a.count || b.lastPassedAt - a.lastPassedAt
+  );
+};
+
+// Selectors
+export const selectGeofenceEvents = (state: RootState) => state.geofencing.events;
+export const selectGeofenceEventsLoading = (state: RootState) => state.geofencing.loading;
+export const selectGeofenceDriftReport = (state: RootState) => state.geofencing.driftReport;
@@ -0,0 +1,94 @@
+import { createSlice, type PayloadAction } from '@reduxjs/toolkit';
+import * as Crypto from 'expo-crypto';
+
+import {
+  type RecentVenue,
+  type SavedSearch,
+  type SearchHistoryEntry,
+  type SearchHistoryState,
+} from '@/models/search';
+import { type RootState } from '@/store';
+import { addRecentVenue, addToSearchHistory, mergeSavedSearches } from '@/utils/searchHistory';
+
+const initialState: SearchHistoryState = {
+  history: [],
+  recentVenues: [],
+  savedSearches: [],
+};
+
+/**
+ * Search History Slice
+ * Searches the user ran, venues they opened and searches they saved; persisted on the device
+ */
+const searchHistorySlice = createSlice({
+  name: 'searchHistory',
+  initialState,
+  reducers: {
+    searchRecorded: {
+      reducer: (state, action: PayloadAction<SearchHistoryEntry>) => {
+        state.history = addToSearchHistory(state.history, action.payload);
+      },
+      prepare: (search: Omit<SearchHistoryEntry, 'id' | 'searchedAt'>) => ({
+        payload: { ...search, id: Crypto.randomUUID(), searchedAt: Date.now() },
+      }),
+    },
+    removeSearchFromHistory: (state, action: PayloadAction<string>) => {
+      state.history = state.history.filter(entry => entry.id !== action.payload);
+    },
+    clearSearchHistory: state => {
+      state.history = [];
+    },
+
+    venueViewed: (state, action: PayloadAction<RecentVenue>) => {
+      state.recentVenues = addRecentVenue(state.recentVenues, action.payload);
+    },
+    clearRecentVenues: state => {
+      state.recentVenues = [];
+    },
+
+    saveSearch: {
+      reducer: (state, action: PayloadAction<SavedSearch>) => {
+        state.savedSearches = [action.payload, ...state.savedSearches];
+      },
+      prepare: (search: Omit<SavedSearch, 'id' | 'createdAt'>) => ({
+        payload: { ...search, id: Crypto.randomUUID(), createdAt: Date.now() },
+      }),
+    },
+    deleteSavedSearch: (state, action: PayloadAction<string>) => {
+      state.savedSearches = state.savedSearches.filter(search => search.id !== action.payload);
+    },
+    // The account copy could not be written, so the search is only kept on this device
+    savedSearchSyncFailed: (state, action: PayloadAction<string>) => {
+      const search = state.savedSearches.find(saved => saved.id === action.payload);
+      if (search) {
+        search.synced = false;
+      }
+    },
+    // Saved searches loaded from the user's account
+    savedSearchesLoaded: (state, action: PayloadAction<SavedSearch[]>) => {
+      state.savedSearches = mergeSavedSearches(state.savedSearches, action.payload);
+    },
+    // Forget everything on sign-out, so the next user on the device starts fresh
+    resetSearchHistory: () => initialState,
+  },
+});
+
+export const {
+  searchRecorded,
+  removeSearchFromHistory,
+  clearSearchHistory,
+  venueViewed,
+  clearRecentVenues,
+  saveSearch,
+  deleteSavedSearch,
+  savedSearchSyncFailed,
+  savedSearchesLoaded,
+  resetSearchHistory,
+} = searchHistorySlice.actions;
+
+// Selectors
+export const selectSearchHistory = (state: RootState) => state.searchHistory.history;
+export const selectRecentVenues = (state: RootState) => state.searchHistory.recentVenues;
+export const selectSavedSearches = (state: RootState) => state.searchHistory.savedSearches;
+
+export default searchHistorySlice.reducer;
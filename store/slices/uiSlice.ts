@@ -1,6 +1,7 @@
 import { createSlice, type PayloadAction } from '@reduxjs/toolkit';
 
-import { type UIState } from '@/models/app-state';
+import { type NotificationFrequency, type QuietHours, type UIState } from '@/models/app-state';
+import { DEFAULT_NOTIFICATION_FREQUENCY } from '@/utils/notificationFrequency';
 
 const initialState: UIState = {
   theme: 'light',
@@ -8,6 +9,14 @@ const initialState: UIState = {
   hasCompletedOnboarding: false,
   masterNotificationsEnabled: true,
   distanceMiles: 1.25,
+  priorityScaledRadius: false,
+  quietHours: {
+    enabled: false,
+    start: '22:00',
+    end: '08:00',
+  },
+  notificationFrequency: DEFAULT_NOTIFICATION_FREQUENCY,
+  defaultCategories: [],
 };
 
 const uiSlice = createSlice({
@@ -42,6 +51,18 @@ const uiSlice = createSlice({
     setDistanceMiles: (state, action: PayloadAction<number>) => {
       state.distanceMiles = action.payload;
     },
+    setPriorityScaledRadius: (state, action: PayloadAction<boolean>) => {
+      state.priorityScaledRadius = action.payload;
+    },
+    setQuietHours: (state, action: PayloadAction<QuietHours>) => {
+      state.quietHours = action.payload;
+    },
+    setNotificationFrequency: (state, action: PayloadAction<NotificationFrequency>) => {
+      state.notificationFrequency = action.payload;
+    },
+    setDefaultCategories: (state, action: PayloadAction<string[]>) => {
+      state.defaultCategories = action.payload;
+    },
   },
 });
 
@@ -53,10 +74,23 @@ export const {
   resetOnboarding,
   setMasterNotificationsEnabled,
   setDistanceMiles,
+  setPriorityScaledRadius,
+  setQuietHours,
+  setNotificationFrequency,
+  setDefaultCategories,
 } = uiSlice.actions;
 
 // Selectors
 export const selectMasterNotificationsEnabled = (state: { ui: UIState }) => state.ui.masterNotificationsEnabled;
+export const selectNetworkStatus = (state: { ui: UIState }) => state.ui.networkStatus;
 export const selectDistanceMiles = (state: { ui: UIState }) => state.ui.distanceMiles;
+export const selectPriorityScaledRadius = (state: { ui: UIState }) =>
+  state.ui.priorityScaledRadius ?? initialState.priorityScaledRadius;
+export const selectQuietHours = (state: { ui: UIState }) =>
+  state.ui.quietHours ?? initialState.quietHours;
+export const selectNotificationFrequency = (state: { ui: UIState }) =>
+  state.ui.notificationFrequency ?? initialState.notificationFrequency;
+export const selectDefaultCategories = (state: { ui: UIState }) =>
+  state.ui.defaultCategories ?? initialState.defaultCategories;
 
 export default uiSlice.reducer;
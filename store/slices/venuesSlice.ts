@@ -1,6 +1,9 @@
 import { createSlice, type PayloadAction } from '@reduxjs/toolkit';
 
-import { type Coordinates, type Venue } from '@/models/venue';
+import { type Coordinates, type SearchFilters, type Venue } from '@/models/venue';
+import { addToSearchCache, getSearchCacheKey, type SearchCacheEntry } from '@/utils/searchCache';
+import { DEFAULT_SEARCH_FILTERS } from '@/utils/searchFilters';
+import { appendUniqueVenues } from '@/utils/venuePagination';
 
 export interface NearbyVenuesState {
   venues: Venue[];
@@ -14,10 +17,32 @@ export interface RecommendedVenuesState {
   error: string | null;
 }
 
+export interface SearchVenuesRequest {
+  coordinates: Coordinates;
+  query: string;
+  categories?: string[];
+  radius?: number;
+  limit?: number;
+  filters?: SearchFilters;
+}
+
+export interface SearchVenuesPage {
+  venues: Venue[];
+  nextCursor?: string;
+  // When the results were fetched; cached results keep their original time
+  fetchedAt?: number;
+}
+
 export interface SearchVenuesState {
   venues: Venue[];
   loading: boolean;
   error: string | null;
+  // The search the current results belong to, repeated with nextCursor to load more
+  request: SearchVenuesRequest | null;
+  nextCursor: string | null;
+  loadingMore: boolean;
+  // Results of recent searches by getSearchCacheKey, including the pages loaded so far
+  cache: Record<string, SearchCacheEntry>;
 }
 
 export interface FoursquareDataState {
@@ -34,6 +59,8 @@ export interface VenuesState {
   search: SearchVenuesState;
   selectedVenue: Venue | null;
   foursquareData: FoursquareDataState;
+  // Active search filters; the only venues state that is persisted
+  filters: SearchFilters;
 }
 
 const initialState: VenuesState = {
@@ -53,6 +80,10 @@ const initialState: VenuesState = {
     venues: [],
     loading: false,
     error: null,
+    request: null,
+    nextCursor: null,
+    loadingMore: false,
+    cache: {},
   },
   selectedVenue: null,
   foursquareData: {
@@ -60,6 +91,19 @@ const initialState: VenuesState = {
     loading: false,
     error: null,
   },
+  filters: DEFAULT_SEARCH_FILTERS,
+};
+
+// Keep the current results, with every page loaded so far, under the current search's key
+const cacheSearchResults = (search: SearchVenuesState, fetchedAt?: number) => {
+  if (!search.request || fetchedAt === undefined) {
+    return;
+  }
+  search.cache = addToSearchCache(search.cache, getSearchCacheKey(search.request), {
+    venues: search.venues,
+    nextCursor: search.nextCursor,
+    cachedAt: fetchedAt,
+  });
 };
 
 const venuesSlice = createSlice({
@@ -135,27 +179,45 @@ const venuesSlice = createSlice({
       );
     },
     // Add missing actions for search and venue selection
-    searchVenues(
-      state,
-      _action: PayloadAction<{
-        coordinates: Coordinates;
-        query: string;
-        categories?: string[];
-        radius?: number;
-      }>
-    ) {
+    searchVenues(state, action: PayloadAction<SearchVenuesRequest>) {
       state.search.loading = true;
       state.search.error = null;
+      state.search.request = action.payload;
+      state.search.nextCursor = null;
+      state.search.loadingMore = false;
     },
-    searchVenuesSuccess(state, action: PayloadAction<Venue[]>) {
-      state.search.venues = action.payload;
+    searchVenuesSuccess(state, action: PayloadAction<SearchVenuesPage>) {
+      state.search.venues = action.payload.venues;
+      state.search.nextCursor = action.payload.nextCursor ?? null;
       state.search.loading = false;
       state.search.error = null;
+      cacheSearchResults(state.search, action.payload.fetchedAt);
     },
     searchVenuesFailure(state, action: PayloadAction<string>) {
       state.search.loading = false;
       state.search.error = action.payload;
     },
+    loadMoreSearchResults(state) {
+      if (state.search.nextCursor && !state.search.loading) {
+        state.search.loadingMore = true;
+      }
+    },
+    loadMoreSearchResultsSuccess(state, action: PayloadAction<SearchVenuesPage>) {
+      state.search.venues = appendUniqueVenues(state.search.venues, action.payload.venues);
+      state.search.nextCursor = action.payload.nextCursor ?? null;
+      state.search.loadingMore = false;
+      cacheSearchResults(state.search, action.payload.fetchedAt);
+    },
+    loadMoreSearchResultsFailure(state, action: PayloadAction<string>) {
+      state.search.loadingMore = false;
+      state.search.error = action.payload;
+    },
+    setSearchFilters(state, action: PayloadAction<SearchFilters>) {
+      state.filters = action.payload;
+    },
+    resetSearchFilters(state) {
+      state.filters = DEFAULT_SEARCH_FILTERS;
+    },
     selectVenue(state, _action: PayloadAction<string>) {
       // This action is used to select a venue by its ID
       // The actual selection logic is handled in the setSelectedVenue reducer
@@ -207,6 +269,11 @@ export const {
   searchVenues,
   searchVenuesSuccess,
   searchVenuesFailure,
+  loadMoreSearchResults,
+  loadMoreSearchResultsSuccess,
+  loadMoreSearchResultsFailure,
+  setSearchFilters,
+  resetSearchFilters,
   selectVenue,
   setSelectedVenue,
   fetchFoursquareData,
@@ -214,4 +281,7 @@ export const {
   fetchFoursquareDataFailure,
 } = venuesSlice.actions;
 
+export const selectSearchFilters = (state: { venues: VenuesState }) => state.venues.filters;
+export const selectVenueSearch = (state: { venues: VenuesState }) => state.venues.search;
+
 export default venuesSlice.reducer;
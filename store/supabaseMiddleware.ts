@@ -1,15 +1,24 @@
-import { Middleware } from '@reduxjs/toolkit';
+import { Dispatch, Middleware } from '@reduxjs/toolkit';
 import { supabase } from '@/utils/supabase';
+import { type SavedSearch } from '@/models/search';
+import { SupabaseDataService } from '@/services/supabaseDataService';
 import { RootState } from '@/store';
+import { savedSearchSyncFailed } from '@/store/slices/searchHistorySlice';
 
 interface SupabaseMiddlewareConfig {
   syncAuth?: boolean;
   syncBucketList?: boolean;
   syncUI?: boolean;
+  syncSavedSearches?: boolean;
 }
 
 export const createSupabaseMiddleware = (config: SupabaseMiddlewareConfig = {}): Middleware => {
-  const { syncAuth = true, syncBucketList = true, syncUI = true } = config;
+  const {
+    syncAuth = true,
+    syncBucketList = true,
+    syncUI = true,
+    syncSavedSearches = true,
+  } = config;
 
   return store => next => action => {
     // Execute the action first
@@ -40,6 +49,11 @@ export const createSupabaseMiddleware = (config: SupabaseMiddlewareConfig = {}):
       handleUISync(action as any, state, userId);
     }
 
+    // Sync saved searches the user chose to keep with their account
+    if (syncSavedSearches && actionType.startsWith('searchHistory/')) {
+      handleSavedSearchSync(action as any, userId, store.dispatch);
+    }
+
     return result;
   };
 };
@@ -69,25 +83,49 @@ async function handleAuthSync(action: any, state: RootState, userId: string) {
   }
 }
 
+// Inserts of new bucket list items still in flight, by user and venue
+// Collection rows reference the item, so adding an item to a collection waits for its insert.
+const pendingItemInserts = new Map<string, Promise<unknown>>();
+
 // Handle bucket list synchronization
 async function handleBucketListSync(action: any, state: RootState, userId: string) {
   try {
     const { bucketList } = state;
 
     switch (action.type) {
-      case 'bucketList/add/fulfilled':
+      case 'bucketList/add/fulfilled': {
         // Add new bucket list item
-        await supabase.from('bucket_list_items').insert({
-          user_id: userId,
-          venue_id: action.payload.venueId || action.payload.venue.id,
-          venue_data: action.payload.venue,
-          notes: action.payload.notes || '',
-          tags: action.payload.tags || [],
-          priority: action.payload.priority || 'medium',
-          added_at: new Date(action.payload.addedAt).toISOString(),
-          notifications_enabled: action.payload.notificationsEnabled ?? true,
-        });
+        const addedVenueId = action.payload.venueId || action.payload.venue.id;
+        const insertKey = `${userId}:${addedVenueId}`;
+        const insert = Promise.resolve(
+          supabase.from('bucket_list_items').upsert(
+            {
+              user_id: userId,
+              venue_id: addedVenueId,
+              venue_data: action.payload.venue,
+              notes: action.payload.notes || '',
+              tags: action.payload.tags || [],
+              priority: action.payload.priority || 'medium',
+              added_at: new Date(action.payload.addedAt).toISOString(),
+              notifications_enabled: action.payload.notificationsEnabled ?? true,
+              alert_radius_miles: action.payload.alertRadiusMiles ?? null,
+              alert_cooldown_hours: action.payload.alertCooldownHours ?? null,
+            },
+            {
+              onConflict: 'user_id,venue_id',
+            }
+          )
+        );
+        pendingItemInserts.set(insertKey, insert);
+        try {
+          await insert;
+        } finally {
+          if (pendingItemInserts.get(insertKey) === insert) {
+            pendingItemInserts.delete(insertKey);
+          }
+        }
         break;
+      }
 
       case 'bucketList/update/fulfilled':
         // Update existing bucket list item
@@ -102,6 +140,8 @@ async function handleBucketListSync(action: any, state: RootState, userId: strin
               ? new Date(updatedItem.plannedVisitDate).toISOString()
               : null,
             notifications_enabled: updatedItem.notificationsEnabled ?? true,
+            alert_radius_miles: updatedItem.alertRadiusMiles ?? null,
+            alert_cooldown_hours: updatedItem.alertCooldownHours ?? null,
             updated_at: new Date().toISOString(),
           })
           .eq('user_id', userId)
@@ -162,6 +202,46 @@ async function handleBucketListSync(action: any, state: RootState, userId: strin
           .eq('user_id', userId)
           .eq('venue_id', visitedItem.venueId || visitedItem.venue.id);
         break;
+
+      case 'bucketList/createCollection':
+      case 'bucketList/renameCollection':
+      case 'bucketList/setCollectionGeofencingEnabled': {
+        const collection = bucketList.collections.find(({ id }) => id === action.payload.id);
+        if (collection) {
+          await SupabaseDataService.upsertCollection(userId, collection);
+        }
+        break;
+      }
+
+      case 'bucketList/reorderCollections':
+        await SupabaseDataService.updateCollectionPositions(userId, bucketList.collections);
+        break;
+
+      case 'bucketList/deleteCollection':
+        await SupabaseDataService.deleteCollection(userId, action.payload);
+        // Positions of the collections after it moved up
+        await SupabaseDataService.updateCollectionPositions(userId, bucketList.collections);
+        break;
+
+      case 'bucketList/addItemToCollection':
+      case 'bucketList/removeItemFromCollection': {
+        const { itemId, collectionId } = action.payload;
+        const collectionItem = bucketList.items.find(item => item.id === itemId);
+        const collectionVenueId = collectionItem?.venueId || collectionItem?.venue?.id;
+        if (!collectionVenueId) {
+          console.error('[SupabaseMiddleware] Could not find venue_id for item:', itemId);
+        } else if (action.type === 'bucketList/addItemToCollection') {
+          await pendingItemInserts.get(`${userId}:${collectionVenueId}`)?.catch(() => undefined);
+          await SupabaseDataService.addItemToCollection(userId, collectionId, collectionVenueId);
+        } else {
+          await SupabaseDataService.removeItemFromCollection(
+            userId,
+            collectionId,
+            collectionVenueId
+          );
+        }
+        break;
+      }
     }
   } catch (error) {
     console.error('Failed to sync bucket list to Supabase:', error);
@@ -183,6 +263,10 @@ async function handleUISync(action: any, state: RootState, userId: string) {
             networkStatus: ui.networkStatus,
             masterNotificationsEnabled: ui.masterNotificationsEnabled,
             distanceMiles: ui.distanceMiles,
+            priorityScaledRadius: ui.priorityScaledRadius,
+            quietHours: ui.quietHours,
+            notificationFrequency: ui.notificationFrequency,
+            defaultCategories: ui.defaultCategories,
           },
           updated_at: new Date().toISOString(),
         })
@@ -193,5 +277,23 @@ async function handleUISync(action: any, state: RootState, userId: string) {
   }
 }
 
+// Handle saved search synchronization
+async function handleSavedSearchSync(action: any, userId: string, dispatch: Dispatch) {
+  switch (action.type) {
+    case 'searchHistory/saveSearch': {
+      const search: SavedSearch = action.payload;
+      if (search.synced && !(await SupabaseDataService.insertSavedSearch(userId, search))) {
+        // Keep the search on the device rather than showing it as saved to the account
+        dispatch(savedSearchSyncFailed(search.id));
+      }
+      break;
+    }
+
+    case 'searchHistory/deleteSavedSearch':
+      await SupabaseDataService.deleteSavedSearch(userId, action.payload);
+      break;
+  }
+}
+
 // Export the default middleware configuration
 export const supabaseMiddleware = createSupabaseMiddleware();
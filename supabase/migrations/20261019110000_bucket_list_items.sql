@@ -0,0 +1,53 @@
+-- The venues on each user's bucket list.
+-- Items are keyed by venue: the app upserts on (user_id, venue_id) and collections reference it.
+-- The table predates these migrations in existing projects, so each step only adds what is missing.
+
+create table if not exists public.bucket_list_items (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  venue_id text not null,
+  -- CanonicalVenue, or an older shape the app brings forward when it loads
+  venue_data jsonb not null default '{}'::jsonb,
+  notes text default '',
+  tags text[] default '{}',
+  priority text default 'medium' check (priority in ('low', 'medium', 'high')),
+  added_at timestamptz not null default now(),
+  planned_visit_date timestamptz,
+  visited_at timestamptz,
+  user_rating numeric check (user_rating is null or user_rating between 1 and 5),
+  review text default '',
+  notifications_enabled boolean not null default true,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+do $$
+begin
+  if not exists (
+    select 1
+    from pg_constraint
+    where conrelid = 'public.bucket_list_items'::regclass
+      and conname = 'bucket_list_items_user_venue_key'
+  ) then
+    -- Older app versions could insert a venue twice; keep the most recently updated row of each
+    delete from public.bucket_list_items as duplicate
+    using public.bucket_list_items as kept
+    where duplicate.user_id = kept.user_id
+      and duplicate.venue_id = kept.venue_id
+      and (duplicate.updated_at, duplicate.id) < (kept.updated_at, kept.id);
+
+    alter table public.bucket_list_items
+      add constraint bucket_list_items_user_venue_key unique (user_id, venue_id);
+  end if;
+end
+$$;
+
+alter table public.bucket_list_items enable row level security;
+
+drop policy if exists "Users manage their own bucket list items" on public.bucket_list_items;
+
+create policy "Users manage their own bucket list items"
+  on public.bucket_list_items
+  for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
@@ -0,0 +1,53 @@
+-- Named bucket lists ("collections") and the bucket list items in each.
+-- An item can be in any number of collections; deleting a collection keeps its items.
+
+create table if not exists public.bucket_list_collections (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  name text not null check (char_length(name) between 1 and 40),
+  -- Order in the list switcher
+  position integer not null default 0,
+  -- Whether venues in this collection raise proximity alerts
+  geofencing_enabled boolean not null default true,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists bucket_list_collections_user_position_idx
+  on public.bucket_list_collections (user_id, position);
+
+-- Items are keyed by venue, as bucket_list_items is
+create table if not exists public.bucket_list_collection_items (
+  collection_id uuid not null references public.bucket_list_collections (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  venue_id text not null,
+  added_at timestamptz not null default now(),
+  primary key (collection_id, venue_id),
+  foreign key (user_id, venue_id)
+    references public.bucket_list_items (user_id, venue_id) on delete cascade
+);
+
+create index if not exists bucket_list_collection_items_user_idx
+  on public.bucket_list_collection_items (user_id);
+
+alter table public.bucket_list_collections enable row level security;
+alter table public.bucket_list_collection_items enable row level security;
+
+create policy "Users manage their own collections"
+  on public.bucket_list_collections
+  for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+create policy "Users manage their own collection items"
+  on public.bucket_list_collection_items
+  for all
+  using (auth.uid() = user_id)
+  with check (
+    auth.uid() = user_id
+    and exists (
+      select 1
+      from public.bucket_list_collections c
+      where c.id = collection_id and c.user_id = auth.uid()
+    )
+  );
@@ -0,0 +1,6 @@
+-- Per-venue alert radius, overriding the global alert distance when set.
+-- Null means the venue uses the global distance.
+
+alter table public.bucket_list_items
+  add column if not exists alert_radius_miles numeric
+    check (alert_radius_miles is null or alert_radius_miles between 0.1 and 10);
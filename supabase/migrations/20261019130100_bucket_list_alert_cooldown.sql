@@ -0,0 +1,6 @@
+-- Per-venue alert cooldown in hours, overriding the global cooldown when set.
+-- Null means the venue uses the global cooldown.
+
+alter table public.bucket_list_items
+  add column if not exists alert_cooldown_hours integer
+    check (alert_cooldown_hours is null or alert_cooldown_hours > 0);
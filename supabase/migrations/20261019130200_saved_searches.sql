@@ -0,0 +1,26 @@
+-- Searches the user saved and chose to keep with their account.
+-- Ids are generated on the device, so the row keeps the id the app gave it.
+
+create table if not exists public.saved_searches (
+  id uuid primary key,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  name text not null check (char_length(name) > 0),
+  query text not null,
+  -- SearchFilters: price tiers, open now, minimum rating, distance and cuisines
+  filters jsonb not null default '{}'::jsonb,
+  latitude double precision not null,
+  longitude double precision not null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists saved_searches_user_created_idx
+  on public.saved_searches (user_id, created_at desc);
+
+alter table public.saved_searches enable row level security;
+
+create policy "Users manage their own saved searches"
+  on public.saved_searches
+  for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
@@ -0,0 +1,44 @@
+import {
+  MAX_ALERT_RADIUS_MILES,
+  MIN_ALERT_RADIUS_MILES,
+  clampAlertRadiusMiles,
+  getAlertRadiusMeters,
+  getAlertRadiusMiles,
+} from '@/utils/alertRadius';
+import { METERS_PER_MILE } from '@/utils/distanceConstants';
+
+describe('alertRadius', () => {
+  describe('getAlertRadiusMiles', () => {
+    it('should default to the global alert distance', () => {
+      expect(getAlertRadiusMiles({}, 0.5, false)).toBe(0.5);
+      expect(getAlertRadiusMiles({ priority: 'high' }, 0.5, false)).toBe(0.5);
+    });
+
+    it('should scale the global distance by priority when enabled', () => {
+      expect(getAlertRadiusMiles({ priority: 'high' }, 1, true)).toBe(1.5);
+      expect(getAlertRadiusMiles({ priority: 'low' }, 1, true)).toBe(0.6);
+      // Items without a priority count as medium
+      expect(getAlertRadiusMiles({}, 1, true)).toBe(1);
+    });
+
+    it('should prefer the venue override over the global distance and priority', () => {
+      expect(getAlertRadiusMiles({ alertRadiusMiles: 2, priority: 'high' }, 0.5, true)).toBe(2);
+    });
+  });
+
+  describe('getAlertRadiusMeters', () => {
+    it('should convert the radius to meters', () => {
+      expect(getAlertRadiusMeters({}, 1, false)).toBe(METERS_PER_MILE);
+      expect(getAlertRadiusMeters({ alertRadiusMiles: 0.25 }, 1, false)).toBeCloseTo(402.335);
+      expect(getAlertRadiusMeters({ priority: 'low' }, 0.5, true)).toBeCloseTo(482.802);
+    });
+  });
+
+  describe('clampAlertRadiusMiles', () => {
+    it('should keep radii inside the supported range', () => {
+      expect(clampAlertRadiusMiles(0.01)).toBe(MIN_ALERT_RADIUS_MILES);
+      expect(clampAlertRadiusMiles(25)).toBe(MAX_ALERT_RADIUS_MILES);
+      expect(clampAlertRadiusMiles(1.5)).toBe(1.5);
+    });
+  });
+});
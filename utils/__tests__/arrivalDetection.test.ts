@@ -0,0 +1,41 @@
+import {
+  DWELL_THRESHOLD_MS,
+  fromArrivalRegionId,
+  hasDwelled,
+  toArrivalRegionId,
+  visitPromptNotificationId,
+} from '@/utils/arrivalDetection';
+
+const MINUTE = 60 * 1000;
+
+// Monday 6 January 2025, 12:00 local time
+const ARRIVED_AT = new Date(2025, 0, 6, 12, 0).getTime();
+
+describe('arrivalDetection', () => {
+  describe('hasDwelled', () => {
+    it('should not count a short stay as a visit', () => {
+      expect(hasDwelled(ARRIVED_AT, ARRIVED_AT)).toBe(false);
+      expect(hasDwelled(ARRIVED_AT, ARRIVED_AT + 19 * MINUTE)).toBe(false);
+    });
+
+    it('should count a stay of the dwell threshold or longer as a visit', () => {
+      expect(hasDwelled(ARRIVED_AT, ARRIVED_AT + DWELL_THRESHOLD_MS)).toBe(true);
+      expect(hasDwelled(ARRIVED_AT, ARRIVED_AT + 90 * MINUTE)).toBe(true);
+    });
+  });
+
+  describe('arrival region ids', () => {
+    it('should round-trip a geofence id through its arrival region id', () => {
+      expect(fromArrivalRegionId(toArrivalRegionId('item-1'))).toBe('item-1');
+    });
+
+    it('should not treat alert fences and the super-region as arrival fences', () => {
+      expect(fromArrivalRegionId('item-1')).toBeNull();
+      expect(fromArrivalRegionId('dinnafind_super_region')).toBeNull();
+    });
+
+    it('should give each geofence its own visit prompt', () => {
+      expect(visitPromptNotificationId('item-1')).not.toBe(visitPromptNotificationId('item-2'));
+    });
+  });
+});
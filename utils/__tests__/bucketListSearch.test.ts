@@ -0,0 +1,126 @@
+import { type BucketListItem } from '@/models/bucket-list';
+import { VENUE_SCHEMA_VERSION } from '@/models/venue';
+import {
+  BucketListSearchIndex,
+  filterBySearchTerm,
+  getHighlightSegments,
+  scoreWordMatch,
+  searchBucketList,
+  tokenize,
+} from '@/utils/bucketListSearch';
+
+const makeItem = (
+  id: string,
+  name: string,
+  extras: Partial<BucketListItem> = {},
+  category = 'Restaurant'
+): BucketListItem => ({
+  id,
+  venue: {
+    schemaVersion: VENUE_SCHEMA_VERSION,
+    id: `venue-${id}`,
+    name,
+    categories: [{ id: '13065', name: category }],
+    location: { formattedAddress: '1100 E 6th St, Austin, TX', neighborhood: ['East Austin'] },
+    photos: [],
+    contact: {},
+  },
+  addedAt: 0,
+  ...extras,
+});
+
+const ramen = makeItem('1', 'Ramen Tatsu-Ya', { tags: ['late night'] }, 'Ramen Restaurant');
+const cafe = makeItem('2', 'Café No Sé', { notes: 'Try the pastries' }, 'Café');
+const tacos = makeItem('3', 'Veracruz All Natural', { review: 'Migas tacos were perfect' });
+
+describe('bucketListSearch', () => {
+  it('should split text into lowercase words without accents', () => {
+    expect(tokenize('Café No Sé, Austin!')).toEqual(['cafe', 'no', 'se', 'austin']);
+  });
+
+  it('should score exact, prefix and misspelt words', () => {
+    expect(scoreWordMatch('ramen', 'ramen')).toBe(1);
+    expect(scoreWordMatch('ram', 'ramen')).toBe(0.8);
+    expect(scoreWordMatch('raman', 'ramen')).toBe(0.5);
+    expect(scoreWordMatch('pasteries', 'pastries')).toBe(0.5);
+    // Short words have to be spelled right
+    expect(scoreWordMatch('tca', 'taco')).toBe(0);
+    expect(scoreWordMatch('sushi', 'ramen')).toBe(0);
+  });
+
+  it('should search every indexed field', () => {
+    const index = new BucketListSearchIndex().sync([ramen, cafe, tacos]);
+
+    expect(index.search('late night').map(result => result.item.id)).toEqual(['1']);
+    expect(index.search('pastries').map(result => result.item.id)).toEqual(['2']);
+    expect(index.search('migas').map(result => result.item.id)).toEqual(['3']);
+    expect(index.search('east austin')).toHaveLength(3);
+  });
+
+  it('should require every word of the query to match', () => {
+    const index = new BucketListSearchIndex().sync([ramen, cafe, tacos]);
+
+    expect(index.search('cafe pastries').map(result => result.item.id)).toEqual(['2']);
+    expect(index.search('cafe migas')).toEqual([]);
+  });
+
+  it('should rank name matches above matches elsewhere and report the matched fields', () => {
+    const taco = makeItem('4', 'Taco Joint');
+    const [first, second] = new BucketListSearchIndex().sync([tacos, taco]).search('tacos');
+
+    expect(first.item.id).toBe('4');
+    expect(first.matches).toEqual({ name: ['taco'] });
+    expect(second.matches).toEqual({ review: ['tacos'] });
+  });
+
+  it('should only reindex items that were added, changed or removed', () => {
+    const index = new BucketListSearchIndex().sync([ramen, cafe]);
+    const updatedCafe = { ...cafe, notes: 'Brunch on weekends' };
+
+    index.sync([ramen, updatedCafe, tacos]);
+    expect(index.size).toBe(3);
+    expect(index.search('pastries')).toEqual([]);
+    expect(index.search('brunch')[0].item).toBe(updatedCafe);
+
+    index.sync([tacos]);
+    expect(index.size).toBe(1);
+    expect(index.search('ramen')).toEqual([]);
+  });
+
+  it('should filter a list by a search term, keeping its order', () => {
+    const items = [tacos, ramen, cafe];
+
+    expect(filterBySearchTerm(items, 'tatsuya')).toEqual([]);
+    expect(filterBySearchTerm(items, 'east austin')).toEqual(items);
+    expect(filterBySearchTerm([cafe, tacos], 'tatsu')).toEqual([]);
+    expect(filterBySearchTerm(items, '  ')).toEqual(items);
+  });
+
+  it('should rank and filter the same list through one shared index', () => {
+    const items = [tacos, ramen, cafe];
+
+    expect(searchBucketList(items, 'ramen').map(result => result.item)).toEqual([ramen]);
+    expect(filterBySearchTerm(items, 'ramen')).toEqual([ramen]);
+    expect(searchBucketList([cafe], 'ramen')).toEqual([]);
+  });
+
+  it('should search words in any script', () => {
+    const sushi = makeItem('5', 'すし 銀座', { notes: 'Лучшие роллы' });
+    const index = new BucketListSearchIndex().sync([sushi, ramen]);
+
+    expect(tokenize('Ramen ラーメン, 東京')).toEqual(['ramen', 'ラーメン', '東京']);
+    expect(index.search('銀座').map(result => result.item.id)).toEqual(['5']);
+    expect(index.search('лучшие').map(result => result.item.id)).toEqual(['5']);
+  });
+
+  it('should split text into highlighted and plain runs', () => {
+    expect(getHighlightSegments('Café No Sé', ['cafe', 'se'])).toEqual([
+      { text: 'Café', highlighted: true },
+      { text: ' No ', highlighted: false },
+      { text: 'Sé', highlighted: true },
+    ]);
+    expect(getHighlightSegments('Ramen Tatsu-Ya')).toEqual([
+      { text: 'Ramen Tatsu-Ya', highlighted: false },
+    ]);
+  });
+});
@@ -0,0 +1,81 @@
+import {
+  CATEGORY_TAXONOMY,
+  findCategory,
+  getCategoryIconUrl,
+  getCategoryPath,
+  getDescendantIds,
+  getVenueCategories,
+  venueMatchesCategories,
+} from '@/utils/categoryTaxonomy';
+import { CUISINE_OPTIONS } from '@/utils/searchFilters';
+
+describe('categoryTaxonomy', () => {
+  it('should give every category a unique id and an icon', () => {
+    const ids: string[] = [];
+    const visit = (nodes: typeof CATEGORY_TAXONOMY.categories) =>
+      nodes.forEach(node => {
+        ids.push(node.id);
+        expect(node.icon.prefix).toMatch(/^https:\/\/ss3\.4sqi\.net\/img\/categories_v2\//);
+        expect(node.icon.suffix).toBe('.png');
+        visit(node.children ?? []);
+      });
+    visit(CATEGORY_TAXONOMY.categories);
+
+    expect(typeof CATEGORY_TAXONOMY.version).toBe('number');
+    expect(new Set(ids).size).toBe(ids.length);
+  });
+
+  it('should include every cuisine the filter sheet offers', () => {
+    CUISINE_OPTIONS.forEach(({ id }) => expect(findCategory(id)).toBeDefined());
+  });
+
+  it('should build the path from the top of the tree', () => {
+    expect(getCategoryPath('13272').map(node => node.name)).toEqual([
+      'Dining and Drinking',
+      'Restaurant',
+      'Asian Restaurant',
+      'Japanese Restaurant',
+      'Ramen Restaurant',
+    ]);
+    expect(getCategoryPath('unknown')).toEqual([]);
+  });
+
+  it('should list a category with everything beneath it', () => {
+    expect(getDescendantIds('13303')).toEqual(['13303', '13304', '13306', '13305']);
+    expect(getDescendantIds('unknown')).toEqual(['unknown']);
+  });
+
+  it('should build icon urls from the prefix and suffix', () => {
+    expect(getCategoryIconUrl(findCategory('13276')!, 64)).toBe(
+      'https://ss3.4sqi.net/img/categories_v2/food/sushi_64.png'
+    );
+  });
+
+  describe('venueMatchesCategories', () => {
+    const ramenShop = { categories: [{ id: '13272', name: 'Ramen Restaurant' }] };
+
+    it('should match venues under a selected parent category', () => {
+      expect(venueMatchesCategories(ramenShop, ['13072'])).toBe(true);
+      expect(venueMatchesCategories(ramenShop, ['13303'])).toBe(false);
+    });
+
+    it('should match everything when nothing is selected', () => {
+      expect(venueMatchesCategories({ categories: [] }, [])).toBe(true);
+    });
+
+    it('should match legacy venues by category name', () => {
+      const legacy = { categories: [{ id: '', name: 'Sushi Restaurant' }] };
+      expect(venueMatchesCategories(legacy, ['13263'])).toBe(true);
+    });
+  });
+
+  it('should list the known categories of venues once, by name', () => {
+    expect(
+      getVenueCategories([
+        { categories: [{ id: '13306' }] },
+        { categories: [{ id: 13026 }, { id: '13306' }] },
+        { categories: [{ id: 'not-a-category' }] },
+      ]).map(node => node.name)
+    ).toEqual(['BBQ Joint', 'Taco Restaurant']);
+  });
+});
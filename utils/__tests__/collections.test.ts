@@ -0,0 +1,74 @@
+import { type BucketListCollection, type BucketListItem } from '@/models/bucket-list';
+import {
+  applyCollectionOrder,
+  isGeofencingEnabledForItem,
+  moveCollection,
+  sortCollections,
+} from '@/utils/collections';
+
+const createCollection = (
+  id: string,
+  position: number,
+  overrides: Partial<BucketListCollection> = {}
+): BucketListCollection => ({
+  id,
+  name: `List ${id}`,
+  position,
+  geofencingEnabled: true,
+  createdAt: 0,
+  ...overrides,
+});
+
+const createItem = (collectionIds?: string[]): BucketListItem =>
+  ({ id: 'item', addedAt: 0, collectionIds } as BucketListItem);
+
+const dateNight = createCollection('date-night', 0);
+const workLunches = createCollection('work-lunches', 1);
+const tokyoTrip = createCollection('tokyo-trip', 2, { geofencingEnabled: false });
+
+describe('collections', () => {
+  it('should sort collections by position', () => {
+    expect(sortCollections([tokyoTrip, dateNight, workLunches]).map(c => c.id)).toEqual([
+      'date-night',
+      'work-lunches',
+      'tokyo-trip',
+    ]);
+  });
+
+  it('should renumber positions in the given order, keeping unlisted collections last', () => {
+    const reordered = applyCollectionOrder([dateNight, workLunches, tokyoTrip], ['tokyo-trip']);
+
+    expect(reordered.map(c => [c.id, c.position])).toEqual([
+      ['tokyo-trip', 0],
+      ['date-night', 1],
+      ['work-lunches', 2],
+    ]);
+  });
+
+  it('should move a collection up or down without going past the ends', () => {
+    const collections = [dateNight, workLunches, tokyoTrip];
+
+    expect(moveCollection(collections, 'work-lunches', -1)).toEqual([
+      'work-lunches',
+      'date-night',
+      'tokyo-trip',
+    ]);
+    expect(moveCollection(collections, 'tokyo-trip', 1)).toEqual([
+      'date-night',
+      'work-lunches',
+      'tokyo-trip',
+    ]);
+  });
+
+  it('should let items alert unless all their collections have alerts off', () => {
+    const collections = [dateNight, tokyoTrip];
+
+    expect(isGeofencingEnabledForItem(createItem(), collections)).toBe(true);
+    expect(isGeofencingEnabledForItem(createItem(['tokyo-trip']), collections)).toBe(false);
+    expect(isGeofencingEnabledForItem(createItem(['tokyo-trip', 'date-night']), collections)).toBe(
+      true
+    );
+    // Collections that no longer exist do not count
+    expect(isGeofencingEnabledForItem(createItem(['deleted']), collections)).toBe(true);
+  });
+});
@@ -0,0 +1,78 @@
+import {
+  MIN_SUPER_REGION_RADIUS,
+  selectGeofenceBudget,
+  shouldReselectBudget,
+} from '@/utils/geofenceBudget';
+import { type Geofence } from '@/models/geofence';
+
+// Venues spaced roughly 1.1km apart heading north from downtown Austin
+const createGeofences = (count: number): Geofence[] =>
+  Array.from({ length: count }, (_, index) => ({
+    id: `venue-${index}`,
+    name: `Venue ${index}`,
+    latitude: 30.2672 + index * 0.01,
+    longitude: -97.7431,
+    radius: 200,
+  }));
+
+const origin = { latitude: 30.2672, longitude: -97.7431 };
+
+describe('geofenceBudget', () => {
+  describe('selectGeofenceBudget', () => {
+    it('should arm every geofence when under the region limit', () => {
+      const report = selectGeofenceBudget(createGeofences(5), origin, 20);
+
+      expect(report.armed).toHaveLength(5);
+      expect(report.dormant).toHaveLength(0);
+      expect(report.superRegion).toBeNull();
+    });
+
+    it('should arm the nearest geofences and reserve a slot for the super-region', () => {
+      const geofences = createGeofences(60).reverse();
+      const report = selectGeofenceBudget(geofences, origin, 20);
+
+      expect(report.armed).toHaveLength(19);
+      expect(report.dormant).toHaveLength(41);
+      expect(report.armed[0].id).toBe('venue-0');
+      expect(report.armed.map(g => g.id)).not.toContain('venue-19');
+      expect(report.superRegion).not.toBeNull();
+    });
+
+    it('should size the super-region to stop short of the nearest dormant fence', () => {
+      const report = selectGeofenceBudget(createGeofences(30), origin, 20);
+
+      // venue-19 is ~21km away with a 200m radius
+      expect(report.superRegion!.radius).toBeGreaterThan(20000);
+      expect(report.superRegion!.radius).toBeLessThan(21000);
+    });
+
+    it('should keep insertion order when the position is unknown', () => {
+      const report = selectGeofenceBudget(createGeofences(30), null, 20);
+
+      expect(report.armed[0].id).toBe('venue-0');
+      expect(report.superRegion).toBeNull();
+    });
+  });
+
+  describe('shouldReselectBudget', () => {
+    it('should not re-select when every geofence is armed', () => {
+      const report = selectGeofenceBudget(createGeofences(5), origin, 20);
+
+      expect(shouldReselectBudget(report, { latitude: 40.7128, longitude: -74.006 })).toBe(false);
+    });
+
+    it('should re-select after moving half the super-region radius', () => {
+      const report = selectGeofenceBudget(createGeofences(30), origin, 20);
+
+      expect(shouldReselectBudget(report, { latitude: 30.268, longitude: -97.7431 })).toBe(false);
+      expect(shouldReselectBudget(report, { latitude: 30.4, longitude: -97.7431 })).toBe(true);
+    });
+
+    it('should never shrink the super-region below the minimum radius', () => {
+      const geofences = createGeofences(3).map(g => ({ ...g, latitude: origin.latitude }));
+      const report = selectGeofenceBudget(geofences, origin, 2);
+
+      expect(report.superRegion!.radius).toBe(MIN_SUPER_REGION_RADIUS);
+    });
+  });
+});
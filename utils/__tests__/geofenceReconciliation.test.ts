@@ -0,0 +1,110 @@
+import {
+  buildDesiredGeofences,
+  diffGeofences,
+  hasGeofenceDrift,
+} from '@/utils/geofenceReconciliation';
+import { type BucketListItem } from '@/models/bucket-list';
+import { type Geofence } from '@/models/geofence';
+import { normalizeVenue } from '@/utils/venueModel';
+
+const createItem = (id: string, overrides: Partial<BucketListItem> = {}): BucketListItem =>
+  ({
+    id,
+    venue: normalizeVenue({
+      id: `fsq-${id}`,
+      name: `Venue ${id}`,
+      geocodes: { main: { latitude: 30.2672, longitude: -97.7431 } },
+    }),
+    notificationsEnabled: true,
+    addedAt: 0,
+    ...overrides,
+  } as BucketListItem);
+
+const options = { masterEnabled: true, distanceMiles: 1, priorityScaledRadius: false };
+
+const createGeofence = (id: string, overrides: Partial<Geofence> = {}): Geofence => ({
+  id,
+  name: `Venue ${id}`,
+  latitude: 30.2672,
+  longitude: -97.7431,
+  radius: 1609.34,
+  venueId: `fsq-${id}`,
+  ...overrides,
+});
+
+describe('geofenceReconciliation', () => {
+  describe('buildDesiredGeofences', () => {
+    it('should only include items with alerts enabled and coordinates', () => {
+      const items = [
+        createItem('a'),
+        createItem('b', { notificationsEnabled: false }),
+        createItem('c', { venue: normalizeVenue({ id: 'fsq-c', name: 'No coordinates' }) }),
+      ];
+
+      expect(buildDesiredGeofences(items, options).map(g => g.id)).toEqual(['a']);
+    });
+
+    it('should include nothing when the master switch is off', () => {
+      const items = [createItem('a'), createItem('b', { notificationsEnabled: false })];
+      const desired = buildDesiredGeofences(items, { ...options, masterEnabled: false });
+
+      expect(desired).toEqual([]);
+    });
+
+    it('should leave out items whose collections all have alerts turned off', () => {
+      const items = [
+        createItem('a', { collectionIds: ['trip'] }),
+        createItem('b', { collectionIds: ['trip', 'date-night'] }),
+        createItem('c'),
+      ];
+      const collections = [
+        { id: 'trip', name: 'Trip', position: 0, geofencingEnabled: false, createdAt: 0 },
+        {
+          id: 'date-night',
+          name: 'Date night',
+          position: 1,
+          geofencingEnabled: true,
+          createdAt: 0,
+        },
+      ];
+      const desired = buildDesiredGeofences(items, {
+        ...options,
+        collections,
+      });
+
+      expect(desired.map(g => g.id)).toEqual(['b', 'c']);
+    });
+  });
+
+  describe('diffGeofences', () => {
+    it('should report missing, stale and changed geofences', () => {
+      const desired = [createGeofence('a'), createGeofence('b', { radius: 800 })];
+      const registered = [createGeofence('b'), createGeofence('c')];
+
+      const report = diffGeofences(desired, registered, true, 1000);
+
+      expect(report.missing.map(g => g.id)).toEqual(['a']);
+      expect(report.stale).toEqual(['c']);
+      expect(report.changed.map(g => g.id)).toEqual(['b']);
+      expect(report.unchanged).toBe(0);
+      expect(report.checkedAt).toBe(1000);
+      expect(hasGeofenceDrift(report)).toBe(true);
+    });
+
+    it('should report no drift when registered geofences match', () => {
+      const geofences = [createGeofence('a'), createGeofence('b')];
+
+      const report = diffGeofences(geofences, [...geofences], true);
+
+      expect(report.unchanged).toBe(2);
+      expect(hasGeofenceDrift(report)).toBe(false);
+    });
+
+    it('should flag stopped monitoring when geofences are desired', () => {
+      const geofences = [createGeofence('a')];
+
+      expect(diffGeofences(geofences, geofences, false).monitoringStopped).toBe(true);
+      expect(diffGeofences([], [], false).monitoringStopped).toBe(false);
+    });
+  });
+});
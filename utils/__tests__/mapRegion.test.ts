@@ -0,0 +1,56 @@
+import {
+  getRegionBounds,
+  getSearchArea,
+  hasRegionMoved,
+  isWithinBounds,
+  MAX_AREA_RADIUS_METERS,
+  type MapRegion,
+} from '@/utils/mapRegion';
+
+const downtownAustin: MapRegion = {
+  latitude: 30.2672,
+  longitude: -97.7431,
+  latitudeDelta: 0.05,
+  longitudeDelta: 0.05,
+};
+
+describe('mapRegion', () => {
+  it('should derive the bounds from the region span', () => {
+    const bounds = getRegionBounds(downtownAustin);
+
+    expect(bounds.northEast.latitude).toBeCloseTo(30.2922);
+    expect(bounds.northEast.longitude).toBeCloseTo(-97.7181);
+    expect(bounds.southWest.latitude).toBeCloseTo(30.2422);
+    expect(bounds.southWest.longitude).toBeCloseTo(-97.7681);
+  });
+
+  it('should search a circle that reaches the corners of the region', () => {
+    const { center, radius } = getSearchArea(downtownAustin);
+
+    expect(center).toEqual({ latitude: 30.2672, longitude: -97.7431 });
+    // Half the diagonal of a 0.05° square at Austin's latitude
+    expect(radius).toBeGreaterThan(3600);
+    expect(radius).toBeLessThan(3750);
+  });
+
+  it('should cap the radius for zoomed out regions', () => {
+    const { radius } = getSearchArea({ ...downtownAustin, latitudeDelta: 10, longitudeDelta: 10 });
+
+    expect(radius).toBe(MAX_AREA_RADIUS_METERS);
+  });
+
+  it('should check points against the bounds', () => {
+    const bounds = getRegionBounds(downtownAustin);
+
+    expect(isWithinBounds({ latitude: 30.27, longitude: -97.74 }, bounds)).toBe(true);
+    expect(isWithinBounds({ latitude: 30.35, longitude: -97.74 }, bounds)).toBe(false);
+  });
+
+  it('should only count noticeable pans and zooms as moving', () => {
+    expect(hasRegionMoved(downtownAustin, { ...downtownAustin, latitude: 30.268 })).toBe(false);
+    expect(hasRegionMoved(downtownAustin, { ...downtownAustin, longitude: -97.73 })).toBe(true);
+    expect(
+      hasRegionMoved(downtownAustin, { ...downtownAustin, latitudeDelta: 0.1, longitudeDelta: 0.1 })
+    ).toBe(true);
+  });
+});
@@ -0,0 +1,103 @@
+import {
+  ALERT_BATCH_WINDOW_MS,
+  addToAlertBatch,
+  describeAlertBatch,
+  getAlertBatchSpreadFeet,
+  type AlertBatchVenue,
+} from '@/utils/notificationBatching';
+
+// Monday 6 January 2025, 12:00 local time
+const NOW = new Date(2025, 0, 6, 12, 0).getTime();
+
+const makeVenue = (id: string, name: string, longitudeOffset = 0): AlertBatchVenue => ({
+  geofenceId: id,
+  name,
+  venueId: `fsq-${id}`,
+  latitude: 30.2701,
+  longitude: -97.7313 + longitudeOffset,
+});
+
+const franklin = makeVenue('item-1', 'Franklin Barbecue');
+const micklethwait = makeVenue('item-2', 'Micklethwait', 0.001);
+const terryBlacks = makeVenue('item-3', "Terry Black's", 0.002);
+const laBarbecue = makeVenue('item-4', 'LA Barbecue', 0.003);
+const veracruz = makeVenue('item-5', 'Veracruz All Natural', 0.004);
+
+describe('notificationBatching', () => {
+  describe('addToAlertBatch', () => {
+    it('should start a batch for the first venue', () => {
+      expect(addToAlertBatch(null, franklin, NOW)).toEqual({
+        notificationId: `alert_batch_${NOW}`,
+        startedAt: NOW,
+        venues: [franklin],
+      });
+    });
+
+    it('should add venues entered within the window to the open batch', () => {
+      const batch = addToAlertBatch(null, franklin, NOW);
+      const grouped = addToAlertBatch(batch, micklethwait, NOW + ALERT_BATCH_WINDOW_MS);
+
+      expect(grouped.notificationId).toBe(batch.notificationId);
+      expect(grouped.venues).toEqual([franklin, micklethwait]);
+    });
+
+    it('should list a venue entered twice once', () => {
+      const batch = addToAlertBatch(addToAlertBatch(null, franklin, NOW), micklethwait, NOW + 10);
+
+      expect(addToAlertBatch(batch, franklin, NOW + 20).venues).toEqual([micklethwait, franklin]);
+    });
+
+    it('should flush the batch once the window has passed', () => {
+      const batch = addToAlertBatch(addToAlertBatch(null, franklin, NOW), micklethwait, NOW + 10);
+      const later = NOW + ALERT_BATCH_WINDOW_MS + 1;
+      const next = addToAlertBatch(batch, terryBlacks, later);
+
+      expect(next).toEqual({
+        notificationId: `alert_batch_${later}`,
+        startedAt: later,
+        venues: [terryBlacks],
+      });
+    });
+  });
+
+  describe('getAlertBatchSpreadFeet', () => {
+    it('should round the spread up to 100 ft, with 100 ft at least', () => {
+      expect(getAlertBatchSpreadFeet([franklin])).toBe(100);
+      // About 315 ft apart
+      expect(getAlertBatchSpreadFeet([franklin, micklethwait])).toBe(400);
+    });
+  });
+
+  describe('describeAlertBatch', () => {
+    it('should describe a single venue as a regular alert', () => {
+      const batch = addToAlertBatch(null, franklin, NOW);
+
+      expect(describeAlertBatch(batch)).toEqual({
+        title: 'DinnaFind!',
+        body: "You're near Franklin Barbecue. Time to check it out!",
+      });
+    });
+
+    it('should summarize grouped venues with their spread', () => {
+      const batch = [micklethwait, terryBlacks].reduce(
+        (current, venue) => addToAlertBatch(current, venue, NOW),
+        addToAlertBatch(null, franklin, NOW)
+      );
+
+      expect(describeAlertBatch(batch).body).toBe(
+        "3 bucket-list spots within 700 ft: Franklin Barbecue, Micklethwait, Terry Black's"
+      );
+    });
+
+    it('should list the first three names and count the rest', () => {
+      const batch = [micklethwait, terryBlacks, laBarbecue, veracruz].reduce(
+        (current, venue) => addToAlertBatch(current, venue, NOW),
+        addToAlertBatch(null, franklin, NOW)
+      );
+
+      expect(describeAlertBatch(batch).body).toMatch(
+        /^5 bucket-list spots within \d+ ft: Franklin Barbecue, Micklethwait, Terry Black's and 2 more$/
+      );
+    });
+  });
+});
@@ -0,0 +1,103 @@
+import {
+  DEFAULT_NOTIFICATION_FREQUENCY,
+  countAlertsToday,
+  evaluateFrequencyCaps,
+  formatCooldown,
+  getBackoffMultiplier,
+} from '@/utils/notificationFrequency';
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+
+// Monday 6 January 2025, 12:00 local time
+const NOW = new Date(2025, 0, 6, 12, 0).getTime();
+
+const input = {
+  now: NOW,
+  frequency: DEFAULT_NOTIFICATION_FREQUENCY,
+  ignoredCount: 0,
+  recentAlerts: [],
+};
+
+describe('notificationFrequency', () => {
+  describe('evaluateFrequencyCaps', () => {
+    it('should allow the first alert for a venue', () => {
+      expect(evaluateFrequencyCaps(input)).toEqual({ allowed: true });
+    });
+
+    it('should apply the global cooldown unless the venue sets its own', () => {
+      const lastNotifiedAt = NOW - 10 * MINUTE;
+
+      expect(evaluateFrequencyCaps({ ...input, lastNotifiedAt }).allowed).toBe(true);
+      expect(evaluateFrequencyCaps({ ...input, lastNotifiedAt, venueCooldownHours: 24 })).toEqual({
+        allowed: false,
+        reason: 'cooldown',
+      });
+    });
+
+    it('should limit a venue to once a week when enabled', () => {
+      const frequency = { ...DEFAULT_NOTIFICATION_FREQUENCY, oncePerWeekPerVenue: true };
+
+      expect(
+        evaluateFrequencyCaps({ ...input, frequency, lastNotifiedAt: NOW - 3 * DAY }).reason
+      ).toBe('once_per_week');
+      expect(
+        evaluateFrequencyCaps({ ...input, frequency, lastNotifiedAt: NOW - 8 * DAY }).allowed
+      ).toBe(true);
+    });
+
+    it('should stretch the cooldown for ignored alerts', () => {
+      const frequency = { ...DEFAULT_NOTIFICATION_FREQUENCY, backoffOnIgnore: true };
+      const lastNotifiedAt = NOW - 15 * MINUTE;
+
+      expect(
+        evaluateFrequencyCaps({ ...input, frequency, lastNotifiedAt, ignoredCount: 2 }).reason
+      ).toBe('ignored_backoff');
+      expect(
+        evaluateFrequencyCaps({ ...input, frequency, lastNotifiedAt, ignoredCount: 1 }).allowed
+      ).toBe(true);
+    });
+
+    it('should stop alerting once the daily cap is reached', () => {
+      const frequency = { ...DEFAULT_NOTIFICATION_FREQUENCY, dailyCap: 2 };
+      const yesterday = NOW - 13 * 60 * MINUTE;
+
+      expect(
+        evaluateFrequencyCaps({
+          ...input,
+          frequency,
+          recentAlerts: [NOW - MINUTE, NOW - 2 * MINUTE],
+        })
+      ).toEqual({ allowed: false, reason: 'daily_cap' });
+      expect(
+        evaluateFrequencyCaps({ ...input, frequency, recentAlerts: [yesterday, NOW - MINUTE] })
+          .allowed
+      ).toBe(true);
+    });
+  });
+
+  describe('countAlertsToday', () => {
+    it('should only count alerts since local midnight', () => {
+      const midnight = new Date(2025, 0, 6).getTime();
+
+      expect(countAlertsToday([midnight - MINUTE, midnight, NOW], NOW)).toBe(2);
+    });
+  });
+
+  describe('getBackoffMultiplier', () => {
+    it('should double per ignored alert up to the maximum', () => {
+      expect(getBackoffMultiplier(0)).toBe(1);
+      expect(getBackoffMultiplier(3)).toBe(8);
+      expect(getBackoffMultiplier(10)).toBe(16);
+    });
+  });
+
+  describe('formatCooldown', () => {
+    it('should format minutes, hours, days and weeks', () => {
+      expect(formatCooldown(5)).toBe('5 min');
+      expect(formatCooldown(240)).toBe('4 hr');
+      expect(formatCooldown(3 * 24 * 60)).toBe('3 days');
+      expect(formatCooldown(7 * 24 * 60)).toBe('1 week');
+    });
+  });
+});
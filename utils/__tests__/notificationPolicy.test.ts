@@ -0,0 +1,135 @@
+import {
+  evaluateNotificationPolicy,
+  getVenueOpenState,
+  minutesUntilQuietHoursEnd,
+  parseTimeOfDay,
+  QUIET_HOURS_TIME_OPTIONS,
+  toTimeOfDay,
+} from '@/utils/notificationPolicy';
+import { type VenueHours } from '@/models/venue';
+
+// Monday 6 January 2025, local time
+const at = (hours: number, minutes = 0, dayOffset = 0) =>
+  new Date(2025, 0, 6 + dayOffset, hours, minutes);
+
+// Open 11:00-22:00 every day
+const dinnerHours: VenueHours = {
+  regular: [1, 2, 3, 4, 5, 6, 7].map(day => ({ day, open: '1100', close: '2200' })),
+};
+
+const quietHours = { enabled: true, start: '22:00', end: '08:00' };
+
+describe('notificationPolicy', () => {
+  describe('parseTimeOfDay', () => {
+    it('should parse Foursquare and preference formats', () => {
+      expect(parseTimeOfDay('1130')).toBe(690);
+      expect(parseTimeOfDay('07:45')).toBe(465);
+      expect(parseTimeOfDay('+0200')).toBe(120);
+      expect(parseTimeOfDay('late')).toBeNull();
+    });
+  });
+
+  describe('toTimeOfDay', () => {
+    it('should format minutes after midnight, wrapping past the end of the day', () => {
+      expect(toTimeOfDay(465)).toBe('07:45');
+      expect(toTimeOfDay(22 * 60)).toBe('22:00');
+      expect(toTimeOfDay(24 * 60 + 30)).toBe('00:30');
+      expect(toTimeOfDay(-30)).toBe('23:30');
+    });
+
+    it('should offer every half hour for quiet hours', () => {
+      expect(QUIET_HOURS_TIME_OPTIONS).toHaveLength(48);
+      expect(QUIET_HOURS_TIME_OPTIONS[0]).toBe('00:00');
+      expect(QUIET_HOURS_TIME_OPTIONS).toContain('22:00');
+      expect(QUIET_HOURS_TIME_OPTIONS).toContain('08:00');
+    });
+  });
+
+  describe('getVenueOpenState', () => {
+    it('should report open during regular hours', () => {
+      expect(getVenueOpenState(at(12), dinnerHours).open).toBe(true);
+    });
+
+    it('should report closed with minutes until the next opening', () => {
+      const state = getVenueOpenState(at(3), dinnerHours);
+
+      expect(state.open).toBe(false);
+      expect(state.minutesUntilOpen).toBe(8 * 60);
+    });
+
+    it('should handle hours that run past midnight', () => {
+      const lateNight: VenueHours = { regular: [{ day: 7, open: '1800', close: '0200' }] };
+
+      // Sunday 23:00 and the following Monday 01:00 are both inside Sunday's period
+      expect(getVenueOpenState(at(23, 0, -1), lateNight).open).toBe(true);
+      expect(getVenueOpenState(at(1), lateNight).open).toBe(true);
+      expect(getVenueOpenState(at(3), lateNight).open).toBe(false);
+    });
+
+    it('should treat missing hours as unknown', () => {
+      expect(getVenueOpenState(at(3)).known).toBe(false);
+    });
+  });
+
+  describe('minutesUntilQuietHoursEnd', () => {
+    it('should handle overnight quiet hours', () => {
+      expect(minutesUntilQuietHoursEnd(at(23), quietHours)).toBe(9 * 60);
+      expect(minutesUntilQuietHoursEnd(at(7, 30), quietHours)).toBe(30);
+      expect(minutesUntilQuietHoursEnd(at(12), quietHours)).toBeNull();
+    });
+
+    it('should ignore disabled quiet hours', () => {
+      expect(minutesUntilQuietHoursEnd(at(23), { ...quietHours, enabled: false })).toBeNull();
+    });
+  });
+
+  describe('evaluateNotificationPolicy', () => {
+    it('should notify when the venue is open', () => {
+      const decision = evaluateNotificationPolicy({ now: at(13), hours: dinnerHours, quietHours });
+
+      expect(decision.action).toBe('notify');
+      expect(decision.reason).toBe('open');
+    });
+
+    it('should suppress alerts for a closed venue', () => {
+      const decision = evaluateNotificationPolicy({ now: at(3), hours: dinnerHours });
+
+      expect(decision.action).toBe('suppress');
+      expect(decision.reason).toBe('venue_closed');
+    });
+
+    it('should defer alerts for a venue opening soon', () => {
+      const decision = evaluateNotificationPolicy({ now: at(10, 30), hours: dinnerHours });
+
+      expect(decision.action).toBe('defer');
+      expect(decision.reason).toBe('venue_opening_soon');
+      expect(decision.deferUntil).toBe(at(11).getTime());
+    });
+
+    it('should defer alerts during quiet hours until they end', () => {
+      const decision = evaluateNotificationPolicy({ now: at(23), quietHours });
+
+      expect(decision.action).toBe('defer');
+      expect(decision.reason).toBe('quiet_hours');
+      expect(decision.deferUntil).toBe(at(8, 0, 1).getTime());
+    });
+
+    it('should suppress alerts while the venue is snoozed', () => {
+      const decision = evaluateNotificationPolicy({
+        now: at(13),
+        hours: dinnerHours,
+        snoozedUntil: at(13, 0, 7).getTime(),
+      });
+
+      expect(decision.action).toBe('suppress');
+      expect(decision.reason).toBe('snoozed');
+    });
+
+    it('should notify with no hours data outside quiet hours', () => {
+      const decision = evaluateNotificationPolicy({ now: at(15), quietHours });
+
+      expect(decision.action).toBe('notify');
+      expect(decision.reason).toBe('no_hours_data');
+    });
+  });
+});
@@ -0,0 +1,60 @@
+import { type SearchVenuesRequest } from '@/store/slices/venuesSlice';
+import {
+  addToSearchCache,
+  getSearchCacheKey,
+  isFreshCacheEntry,
+  MAX_CACHED_SEARCHES,
+  SEARCH_CACHE_TTL_MS,
+  type SearchCacheEntry,
+} from '@/utils/searchCache';
+import { DEFAULT_SEARCH_FILTERS } from '@/utils/searchFilters';
+
+const request = (overrides: Partial<SearchVenuesRequest> = {}): SearchVenuesRequest => ({
+  coordinates: { latitude: 30.2672, longitude: -97.7431 },
+  query: 'tacos',
+  categories: ['13065'],
+  filters: { ...DEFAULT_SEARCH_FILTERS, priceTiers: [1, 2] },
+  ...overrides,
+});
+
+const entry = (cachedAt: number): SearchCacheEntry => ({ venues: [], nextCursor: null, cachedAt });
+
+describe('searchCache', () => {
+  it('should give the same key to searches that only differ in noise', () => {
+    expect(
+      getSearchCacheKey(
+        request({
+          query: ' Tacos',
+          coordinates: { latitude: 30.26721, longitude: -97.74309 },
+          filters: { ...DEFAULT_SEARCH_FILTERS, priceTiers: [2, 1] },
+        })
+      )
+    ).toBe(getSearchCacheKey(request()));
+  });
+
+  it('should give different keys to different searches', () => {
+    const key = getSearchCacheKey(request());
+
+    expect(getSearchCacheKey(request({ query: 'ramen' }))).not.toBe(key);
+    expect(
+      getSearchCacheKey(request({ coordinates: { latitude: 30.3, longitude: -97.7431 } }))
+    ).not.toBe(key);
+    expect(getSearchCacheKey(request({ filters: DEFAULT_SEARCH_FILTERS }))).not.toBe(key);
+  });
+
+  it('should only serve entries within the time to live', () => {
+    expect(isFreshCacheEntry(entry(1000), 1000 + SEARCH_CACHE_TTL_MS - 1)).toBe(true);
+    expect(isFreshCacheEntry(entry(1000), 1000 + SEARCH_CACHE_TTL_MS)).toBe(false);
+  });
+
+  it('should drop the oldest searches beyond the cache size', () => {
+    let cache: Record<string, SearchCacheEntry> = {};
+    for (let i = 0; i <= MAX_CACHED_SEARCHES; i++) {
+      cache = addToSearchCache(cache, `search-${i}`, entry(i));
+    }
+
+    expect(Object.keys(cache)).toHaveLength(MAX_CACHED_SEARCHES);
+    expect(cache['search-0']).toBeUndefined();
+    expect(cache[`search-${MAX_CACHED_SEARCHES}`]).toEqual(entry(MAX_CACHED_SEARCHES));
+  });
+});
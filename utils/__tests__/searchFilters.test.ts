@@ -0,0 +1,129 @@
+import { createMockVenue } from '@/__mocks__';
+import { type SearchFilters, type Venue } from '@/models/venue';
+import {
+  applySearchFilters,
+  DEFAULT_SEARCH_FILTERS,
+  getFilterChips,
+  removeFilterChip,
+  toSearchParams,
+} from '@/utils/searchFilters';
+
+const withFilters = (overrides: Partial<SearchFilters>): SearchFilters => ({
+  ...DEFAULT_SEARCH_FILTERS,
+  ...overrides,
+});
+
+const venue = (overrides: Partial<Venue>) => createMockVenue(overrides) as Venue;
+
+describe('searchFilters', () => {
+  describe('toSearchParams', () => {
+    it('should map filters to Places search parameters', () => {
+      expect(
+        toSearchParams(
+          withFilters({
+            priceTiers: [3, 1],
+            openNow: true,
+            minRating: 8,
+            maxDistanceMeters: 1609,
+            cuisines: ['13236'],
+          })
+        )
+      ).toEqual({
+        minPrice: 1,
+        maxPrice: 3,
+        openNow: true,
+        radius: 1609,
+        categories: ['13236'],
+      });
+    });
+
+    it('should leave parameters unset without filters', () => {
+      expect(toSearchParams(DEFAULT_SEARCH_FILTERS)).toEqual({
+        minPrice: undefined,
+        maxPrice: undefined,
+        openNow: undefined,
+        radius: undefined,
+        categories: undefined,
+      });
+    });
+  });
+
+  describe('applySearchFilters', () => {
+    it('should keep only the selected price tiers', () => {
+      const venues = [
+        venue({ fsq_id: 'cheap', price: 1 }),
+        venue({ fsq_id: 'mid', price: 2 }),
+        venue({ fsq_id: 'fancy', price: { tier: 3, message: '$$$' } }),
+      ];
+
+      const result = applySearchFilters(venues, withFilters({ priceTiers: [1, 3] }));
+
+      expect(result.map(v => v.fsq_id)).toEqual(['cheap', 'fancy']);
+    });
+
+    it('should check rating, opening hours and distance', () => {
+      const venues = [
+        venue({ fsq_id: 'match', rating: 8.5, distance: 500, hours: { open_now: true } }),
+        venue({ fsq_id: 'low-rated', rating: 6, distance: 500, hours: { open_now: true } }),
+        venue({ fsq_id: 'closed', rating: 9, distance: 500, hours: { open_now: false } }),
+        venue({ fsq_id: 'far', rating: 9, distance: 5000, hours: { open_now: true } }),
+        venue({ fsq_id: 'no-hours', rating: 9, distance: 500 }),
+      ];
+
+      const result = applySearchFilters(
+        venues,
+        withFilters({ minRating: 8, openNow: true, maxDistanceMeters: 1609 })
+      );
+
+      expect(result.map(v => v.fsq_id)).toEqual(['match']);
+    });
+
+    it('should match cuisines against Foursquare and local categories', () => {
+      const venues = [
+        venue({ fsq_id: 'fsq-tacos', categories: [{ id: '13306', name: 'Taco Restaurant' }] }),
+        venue({
+          fsq_id: 'osm-mexican',
+          categories: [
+            { id: 'osm:cuisine=mexican', name: 'Mexican Restaurant' },
+            { id: 'osm:amenity=restaurant', name: 'Restaurant' },
+          ],
+        }),
+        venue({ fsq_id: 'osm-thai', categories: [{ id: 'osm:cuisine=thai', name: 'Thai' }] }),
+      ];
+
+      const result = applySearchFilters(venues, withFilters({ cuisines: ['13303'] }));
+
+      expect(result.map(v => v.fsq_id)).toEqual(['fsq-tacos', 'osm-mexican']);
+    });
+
+    it('should keep every venue without filters', () => {
+      const venues = [venue({ fsq_id: 'a' }), venue({ fsq_id: 'b', rating: undefined })];
+
+      expect(applySearchFilters(venues, DEFAULT_SEARCH_FILTERS)).toEqual(venues);
+    });
+  });
+
+  describe('chips', () => {
+    it('should list a chip per active filter value', () => {
+      const chips = getFilterChips(
+        withFilters({
+          priceTiers: [2],
+          openNow: true,
+          maxDistanceMeters: 4828,
+          cuisines: ['13303'],
+        })
+      );
+
+      expect(chips.map(chip => chip.label)).toEqual(['$$', 'Open now', 'Within 3 mi', 'Mexican']);
+    });
+
+    it('should remove only the chip that was dismissed', () => {
+      const filters = withFilters({ priceTiers: [1, 2], minRating: 9, cuisines: ['13303'] });
+      const [cheapest] = getFilterChips(filters);
+
+      expect(removeFilterChip(filters, cheapest)).toEqual({ ...filters, priceTiers: [2] });
+      const rating = getFilterChips(filters).find(chip => chip.filter === 'minRating')!;
+      expect(removeFilterChip(filters, rating).minRating).toBe(null);
+    });
+  });
+});
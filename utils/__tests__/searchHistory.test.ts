@@ -0,0 +1,98 @@
+import { type SavedSearch, type SearchHistoryEntry } from '@/models/search';
+import { normalizeVenue } from '@/utils/venueModel';
+import { DEFAULT_SEARCH_FILTERS } from '@/utils/searchFilters';
+import {
+  addRecentVenue,
+  addToSearchHistory,
+  isSameSearch,
+  MAX_RECENT_VENUES,
+  MAX_SEARCH_HISTORY,
+  mergeSavedSearches,
+  toRecentVenue,
+} from '@/utils/searchHistory';
+
+const AUSTIN = { latitude: 30.2672, longitude: -97.7431 };
+
+const entry = (id: string, query: string, cuisines: string[] = []): SearchHistoryEntry => ({
+  id,
+  query,
+  filters: { ...DEFAULT_SEARCH_FILTERS, cuisines },
+  coordinates: AUSTIN,
+  searchedAt: Number(id),
+});
+
+const savedSearch = (id: string, createdAt: number, name: string = id): SavedSearch => ({
+  id,
+  name,
+  query: 'tacos',
+  filters: DEFAULT_SEARCH_FILTERS,
+  coordinates: AUSTIN,
+  createdAt,
+  synced: true,
+});
+
+describe('searchHistory', () => {
+  it('should treat searches differing only in case or filter order as the same', () => {
+    expect(
+      isSameSearch(
+        entry('1', 'Tacos ', ['13306', '13303']),
+        entry('2', 'tacos', ['13303', '13306'])
+      )
+    ).toBe(true);
+    expect(isSameSearch(entry('1', 'tacos'), entry('2', 'tacos', ['13306']))).toBe(false);
+  });
+
+  it('should move a repeated search to the top instead of listing it twice', () => {
+    const history = [entry('2', 'ramen'), entry('1', 'tacos')];
+
+    expect(addToSearchHistory(history, entry('3', 'Tacos')).map(({ id }) => id)).toEqual([
+      '3',
+      '2',
+    ]);
+  });
+
+  it('should keep only the latest searches', () => {
+    let history: SearchHistoryEntry[] = [];
+    for (let i = 0; i < MAX_SEARCH_HISTORY + 5; i++) {
+      history = addToSearchHistory(history, entry(String(i), `query ${i}`));
+    }
+
+    expect(history).toHaveLength(MAX_SEARCH_HISTORY);
+    expect(history[0].query).toBe(`query ${MAX_SEARCH_HISTORY + 4}`);
+  });
+
+  it('should list each recently viewed venue once, latest first', () => {
+    const venue = normalizeVenue({
+      fsq_id: 'franklin',
+      name: 'Franklin Barbecue',
+      categories: [{ id: '13026', name: 'BBQ Joint' }],
+      location: {},
+    });
+    let recent = [toRecentVenue(venue, 1), toRecentVenue({ ...venue, id: 'other' }, 2)];
+    recent = addRecentVenue(recent, toRecentVenue(venue, 3));
+
+    expect(recent.map(({ id, viewedAt }) => [id, viewedAt])).toEqual([
+      ['franklin', 3],
+      ['other', 2],
+    ]);
+    expect(recent[0].category).toBe('BBQ Joint');
+
+    for (let i = 0; i < MAX_RECENT_VENUES + 1; i++) {
+      recent = addRecentVenue(recent, toRecentVenue({ ...venue, id: `venue-${i}` }, i));
+    }
+    expect(recent).toHaveLength(MAX_RECENT_VENUES);
+  });
+
+  it('should prefer the account copy of saved searches and keep device-only ones', () => {
+    const merged = mergeSavedSearches(
+      [savedSearch('a', 1, 'old name'), { ...savedSearch('b', 3), synced: false }],
+      [savedSearch('a', 1, 'new name'), savedSearch('c', 2)]
+    );
+
+    expect(merged.map(({ id, name }) => [id, name])).toEqual([
+      ['b', 'b'],
+      ['c', 'c'],
+      ['a', 'new name'],
+    ]);
+  });
+});
@@ -0,0 +1,49 @@
+import { createMockVenue } from '@/__mocks__';
+import { type BucketListItem } from '@/models/bucket-list';
+import { type FoursquareAutocompleteResult } from '@/models/foursquare';
+import { buildSearchSuggestions } from '@/utils/searchSuggestions';
+import { normalizeVenue } from '@/utils/venueModel';
+
+const savedItem = (id: string, name: string): BucketListItem => ({
+  id,
+  venueId: id,
+  venue: normalizeVenue({ id, name }),
+  addedAt: 0,
+});
+
+const placeResult = (id: string, name: string): FoursquareAutocompleteResult => ({
+  type: 'place',
+  text: { primary: name, secondary: 'Austin, TX' },
+  place: { ...createMockVenue({ fsq_id: id, name }), id },
+});
+
+describe('buildSearchSuggestions', () => {
+  it('should list matching saved venues before API suggestions', () => {
+    const suggestions = buildSearchSuggestions(
+      'pizza',
+      [savedItem('saved-1', 'Home Slice Pizza'), savedItem('saved-2', 'Franklin Barbecue')],
+      [
+        placeResult('place-1', 'Via 313 Pizza'),
+        { type: 'search', text: { primary: 'Pizza Place' }, search: { query: 'pizza place' } },
+      ]
+    );
+
+    expect(suggestions.map(suggestion => suggestion.kind)).toEqual(['saved', 'place', 'search']);
+    expect(suggestions[0].title).toBe('Home Slice Pizza');
+  });
+
+  it('should not repeat a saved venue returned by the API', () => {
+    const suggestions = buildSearchSuggestions(
+      'home',
+      [savedItem('saved-1', 'Home Slice Pizza')],
+      [placeResult('saved-1', 'Home Slice Pizza')]
+    );
+
+    expect(suggestions).toHaveLength(1);
+    expect(suggestions[0].kind).toBe('saved');
+  });
+
+  it('should suggest nothing for an empty query', () => {
+    expect(buildSearchSuggestions('  ', [savedItem('saved-1', 'Home Slice')], [])).toEqual([]);
+  });
+});
@@ -0,0 +1,126 @@
+import franklin from '@/__mocks__/fixtures/venue_details_franklin.json';
+import { VENUE_SCHEMA_VERSION } from '@/models/venue';
+import {
+  getVenueIssues,
+  migrateStoredVenue,
+  migrateVenueData,
+  normalizeVenue,
+  salvageStoredVenue,
+  VenueValidationError,
+} from '@/utils/venueModel';
+
+// A bucket list venue as saved before the canonical model
+const legacyBucketListVenue = {
+  id: 'fsq-legacy',
+  name: 'Legacy Tacos',
+  category: 'Taco Place',
+  address: '1 Congress Ave, Austin, TX',
+  coordinates: { latitude: 30.2672, longitude: -97.7431 },
+  photo: 'https://fastly.4sqi.net/img/general/original/tacos.jpg',
+  rating: 0,
+};
+
+describe('normalizeVenue', () => {
+  it('should normalize a Foursquare v3 place', () => {
+    const venue = normalizeVenue(franklin);
+
+    expect(venue).toMatchObject({
+      schemaVersion: VENUE_SCHEMA_VERSION,
+      id: '4df44456d1add5a8baa15599',
+      name: 'Franklin Barbecue',
+      coordinates: {
+        latitude: franklin.geocodes.main.latitude,
+        longitude: franklin.geocodes.main.longitude,
+      },
+      location: { formattedAddress: franklin.location.formatted_address },
+      contact: { phone: franklin.tel, website: franklin.website },
+    });
+    expect(venue.categories[0].name).toBe(franklin.categories[0].name);
+    expect(getVenueIssues(venue)).toEqual([]);
+  });
+
+  it('should normalize the older v2-style fields', () => {
+    const venue = normalizeVenue({
+      id: 'v2-venue',
+      name: 'Old Style Cafe',
+      location: { lat: 30.25, lng: -97.75, formattedAddress: '2 Main St', city: 'Austin' },
+      contact: { phone: '+1 512 555 0100' },
+      url: 'https://example.com',
+    });
+
+    expect(venue.coordinates).toEqual({ latitude: 30.25, longitude: -97.75 });
+    expect(venue.location).toMatchObject({ formattedAddress: '2 Main St', city: 'Austin' });
+    expect(venue.contact).toMatchObject({
+      phone: '+1 512 555 0100',
+      website: 'https://example.com',
+    });
+  });
+
+  it('should normalize a legacy bucket list venue', () => {
+    const venue = normalizeVenue(legacyBucketListVenue);
+
+    expect(venue.categories).toEqual([{ id: '', name: 'Taco Place' }]);
+    expect(venue.location.formattedAddress).toBe('1 Congress Ave, Austin, TX');
+    expect(venue.coordinates).toEqual(legacyBucketListVenue.coordinates);
+    expect(venue.heroImageUrl).toBe(legacyBucketListVenue.photo);
+    expect(venue.rating).toBe(undefined);
+  });
+
+  it('should leave a canonical venue unchanged', () => {
+    const venue = normalizeVenue(franklin);
+
+    expect(normalizeVenue(venue)).toEqual(venue);
+  });
+
+  it('should reject payloads without an id or name', () => {
+    expect(() => normalizeVenue({ name: 'Nameless id' })).toThrow(VenueValidationError);
+    expect(() => normalizeVenue({ id: 'no-name' })).toThrow(VenueValidationError);
+    expect(normalizeVenue({ name: 'Fetched by id' }, 'fsq-1').id).toBe('fsq-1');
+  });
+
+  it('should drop placeholder coordinates', () => {
+    const venue = normalizeVenue({ ...legacyBucketListVenue, coordinates: {} });
+
+    expect(venue.coordinates).toBe(undefined);
+  });
+});
+
+describe('migrateVenueData', () => {
+  it('should migrate unversioned Supabase venue_data', () => {
+    const venue = migrateVenueData(legacyBucketListVenue);
+
+    expect(venue.schemaVersion).toBe(VENUE_SCHEMA_VERSION);
+    expect(venue.categories[0].name).toBe('Taco Place');
+  });
+
+  it('should use the row id when venue_data has none', () => {
+    expect(migrateVenueData({ name: 'Row only' }, 'fsq-row').id).toBe('fsq-row');
+  });
+
+  it('should reject current-version data that fails validation', () => {
+    expect(() => migrateVenueData({ schemaVersion: VENUE_SCHEMA_VERSION, id: 'x' })).toThrow(
+      VenueValidationError
+    );
+  });
+});
+
+describe('migrateStoredVenue', () => {
+  it('should return null for missing or invalid venues', () => {
+    expect(migrateStoredVenue(undefined)).toBe(null);
+    expect(migrateStoredVenue({})).toBe(null);
+    expect(migrateStoredVenue({ id: 'no-name' })).toBe(null);
+  });
+});
+
+describe('salvageStoredVenue', () => {
+  it('should keep the readable fields of an invalid venue under its row id', () => {
+    const venue = salvageStoredVenue(
+      { schemaVersion: VENUE_SCHEMA_VERSION, name: 'Legacy Tacos', address: '1 Congress Ave' },
+      'fsq-legacy'
+    );
+
+    expect(venue).toMatchObject({ id: 'fsq-legacy', name: 'Legacy Tacos', photos: [] });
+    expect(venue.location.formattedAddress).toBe('1 Congress Ave');
+    expect(salvageStoredVenue(null, 'fsq-legacy').name).toBe('');
+  });
+});
@@ -0,0 +1,29 @@
+import { appendUniqueVenues } from '@/utils/venuePagination';
+
+describe('venuePagination', () => {
+  describe('appendUniqueVenues', () => {
+    it('should append only venues not already listed', () => {
+      const firstPage = [
+        { id: 'a', name: 'A' },
+        { id: 'b', fsq_id: 'b', name: 'B' },
+      ];
+      const secondPage = [
+        { id: 'x', fsq_id: 'b', name: 'B again' },
+        { id: 'c', name: 'C' },
+        { id: 'c', name: 'C twice' },
+      ];
+
+      expect(appendUniqueVenues(firstPage, secondPage).map(venue => venue.name)).toEqual([
+        'A',
+        'B',
+        'C',
+      ]);
+    });
+
+    it('should keep the same list when a page adds nothing new', () => {
+      const venues = [{ id: 'a', name: 'A' }];
+
+      expect(appendUniqueVenues(venues, [{ id: 'a', name: 'A' }])).toBe(venues);
+    });
+  });
+});
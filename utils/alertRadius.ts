@@ -0,0 +1,51 @@
+/**
+ * Alert radius helpers for bucket list geofences
+ */
+import { type BucketListItem } from '@/models/bucket-list';
+import { METERS_PER_MILE } from '@/utils/distanceConstants';
+
+// Radius multipliers applied when priority scaling is enabled
+export const PRIORITY_RADIUS_SCALE: Record<NonNullable<BucketListItem['priority']>, number> = {
+  high: 1.5,
+  medium: 1,
+  low: 0.6,
+};
+
+// Bounds for per-venue radius overrides, matching the Alerts distance slider
+export const MIN_ALERT_RADIUS_MILES = 0.1;
+export const MAX_ALERT_RADIUS_MILES = 10;
+
+/**
+ * Alert radius for a bucket list item in miles
+ * @param item Bucket list item (its own override wins over everything else)
+ * @param distanceMiles Global alert distance from the Alerts screen
+ * @param priorityScaled Whether to scale the global distance by item priority
+ */
+export const getAlertRadiusMiles = (
+  item: Pick<BucketListItem, 'alertRadiusMiles' | 'priority'>,
+  distanceMiles: number,
+  priorityScaled: boolean
+): number => {
+  if (item.alertRadiusMiles !== undefined && item.alertRadiusMiles !== null) {
+    return item.alertRadiusMiles;
+  }
+  if (!priorityScaled) {
+    return distanceMiles;
+  }
+  return distanceMiles * PRIORITY_RADIUS_SCALE[item.priority ?? 'medium'];
+};
+
+/**
+ * Alert radius for a bucket list item in meters, as passed to the geofencing service
+ */
+export const getAlertRadiusMeters = (
+  item: Pick<BucketListItem, 'alertRadiusMiles' | 'priority'>,
+  distanceMiles: number,
+  priorityScaled: boolean
+): number => getAlertRadiusMiles(item, distanceMiles, priorityScaled) * METERS_PER_MILE;
+
+/**
+ * Clamp a per-venue radius override to the supported range
+ */
+export const clampAlertRadiusMiles = (miles: number): number =>
+  Math.min(Math.max(miles, MIN_ALERT_RADIUS_MILES), MAX_ALERT_RADIUS_MILES);
@@ -0,0 +1,51 @@
+/**
+ * Arrival detection for bucket list venues
+ *
+ * Entering a venue's alert fence arms a small "arrival" fence at its center. Staying inside
+ * the arrival fence for the dwell threshold means the user probably ate there, so we prompt
+ * them to mark the venue visited and rate it.
+ */
+
+// Radius of the inner fence that counts as being at the venue
+export const ARRIVAL_RADIUS_METERS = 75;
+
+// How long the user must stay inside the arrival fence before we prompt
+export const DWELL_THRESHOLD_MS = 20 * 60 * 1000;
+
+// Most arrival fences registered at once, taken from the region budget
+export const MAX_ARRIVAL_FENCES = 3;
+
+// Don't prompt for the same venue again within this window
+export const VISIT_PROMPT_COOLDOWN_MS = 12 * 60 * 60 * 1000;
+
+// Marks the payload of "Did you eat at X?" notifications
+export const VISIT_PROMPT_NOTIFICATION_KIND = 'visit_prompt';
+
+const ARRIVAL_REGION_PREFIX = 'dinnafind_arrival_';
+
+/**
+ * Region identifier of a geofence's arrival fence
+ */
+export const toArrivalRegionId = (geofenceId: string): string =>
+  `${ARRIVAL_REGION_PREFIX}${geofenceId}`;
+
+/**
+ * Geofence id for an arrival region identifier
+ * @returns The geofence id, or null if the identifier is not an arrival fence
+ */
+export const fromArrivalRegionId = (identifier: string): string | null =>
+  identifier.startsWith(ARRIVAL_REGION_PREFIX)
+    ? identifier.slice(ARRIVAL_REGION_PREFIX.length)
+    : null;
+
+/**
+ * Identifier of the scheduled visit prompt for a geofence, so it can be cancelled on exit
+ */
+export const visitPromptNotificationId = (geofenceId: string): string =>
+  `visit_prompt_${geofenceId}`;
+
+/**
+ * Whether a stay that started at arrivedAt is long enough to count as a visit
+ */
+export const hasDwelled = (arrivedAt: number, now: number): boolean =>
+  now - arrivedAt >= DWELL_THRESHOLD_MS;
@@ -0,0 +1,310 @@
+/**
+ * Full-text search over the bucket list
+ *
+ * Each item is indexed by its venue's name, categories, address and neighborhood and by the
+ * user's notes, tags and review. Every word of the query has to match a word in the item, either
+ * exactly, as the start of a word, or with a typo or two for longer words.
+ */
+import { type BucketListItem } from '@/models/bucket-list';
+
+export type BucketListSearchField =
+  | 'name'
+  | 'categories'
+  | 'address'
+  | 'neighborhood'
+  | 'notes'
+  | 'tags'
+  | 'review';
+
+// How much a match in each field counts towards an item's rank
+const FIELD_WEIGHTS: Record<BucketListSearchField, number> = {
+  name: 3,
+  categories: 2,
+  tags: 2,
+  neighborhood: 1.5,
+  address: 1,
+  notes: 1,
+  review: 1,
+};
+
+const EXACT_MATCH_SCORE = 1;
+const PREFIX_MATCH_SCORE = 0.8;
+const TYPO_MATCH_SCORE = 0.5;
+
+export interface BucketListSearchResult {
+  item: BucketListItem;
+  score: number;
+  // The item's words that matched, by field, for highlighting
+  matches: Partial<Record<BucketListSearchField, string[]>>;
+}
+
+export interface HighlightSegment {
+  text: string;
+  highlighted: boolean;
+}
+
+interface IndexedItem {
+  item: BucketListItem;
+  // Fields each of the item's words appears in
+  words: Map<string, Set<BucketListSearchField>>;
+}
+
+// Lowercase without accents, so "cafe" finds "Café"; other scripts keep their marks
+const normalizeText = (text: string) =>
+  text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .normalize('NFC')
+    .toLowerCase();
+
+export const tokenize = (text: string): string[] =>
+  normalizeText(text)
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean);
+
+export const getSearchableFields = (
+  item: BucketListItem
+): Record<BucketListSearchField, string> => {
+  const { venue } = item;
+  return {
+    name: venue.name,
+    categories: venue.categories.map(category => category.name).join(' '),
+    address:
+      venue.location.formattedAddress ??
+      [venue.location.address, venue.location.city].filter(Boolean).join(', '),
+    neighborhood: (venue.location.neighborhood ?? []).join(', '),
+    notes: item.notes ?? '',
+    tags: (item.tags ?? []).join(', '),
+    review: item.review ?? '',
+  };
+};
+
+// Typos allowed for a query word; short words have to be spelled right
+const getMaxTypos = (word: string) => (word.length >= 8 ? 2 : word.length >= 4 ? 1 : 0);
+
+// Levenshtein distance, giving up once it is over the limit
+const isWithinEditDistance = (a: string, b: string, limit: number): boolean => {
+  if (Math.abs(a.length - b.length) > limit) {
+    return false;
+  }
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMinimum = i;
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+      rowMinimum = Math.min(rowMinimum, current[j]);
+    }
+    if (rowMinimum > limit) {
+      return false;
+    }
+    previous = current;
+  }
+  return previous[b.length] <= limit;
+};
+
+/**
+ * How well an indexed word matches a query word; 0 when it does not
+ */
+export const scoreWordMatch = (queryWord: string, word: string): number => {
+  if (word === queryWord) {
+    return EXACT_MATCH_SCORE;
+  }
+  if (word.startsWith(queryWord)) {
+    return PREFIX_MATCH_SCORE;
+  }
+  const maxTypos = getMaxTypos(queryWord);
+  if (maxTypos === 0) {
+    return 0;
+  }
+  // Compare against the start of longer words too, so typos work while typing
+  const wordStart = word.slice(0, queryWord.length);
+  return isWithinEditDistance(queryWord, word, maxTypos) ||
+    (word.length > queryWord.length && isWithinEditDistance(queryWord, wordStart, maxTypos))
+    ? TYPO_MATCH_SCORE
+    : 0;
+};
+
+/**
+ * In-memory index of the bucket list, updated item by item as the list changes
+ */
+export class BucketListSearchIndex {
+  private items = new Map<string, IndexedItem>();
+  // Ids of the items each word appears in
+  private postings = new Map<string, Set<string>>();
+
+  get size() {
+    return this.items.size;
+  }
+
+  upsert(item: BucketListItem) {
+    this.remove(item.id);
+
+    const words = new Map<string, Set<BucketListSearchField>>();
+    const fields = getSearchableFields(item);
+    for (const field of Object.keys(fields) as BucketListSearchField[]) {
+      for (const word of tokenize(fields[field])) {
+        const wordFields = words.get(word) ?? new Set();
+        wordFields.add(field);
+        words.set(word, wordFields);
+      }
+    }
+
+    this.items.set(item.id, { item, words });
+    for (const word of words.keys()) {
+      const ids = this.postings.get(word) ?? new Set();
+      ids.add(item.id);
+      this.postings.set(word, ids);
+    }
+  }
+
+  remove(id: string) {
+    const indexed = this.items.get(id);
+    if (!indexed) {
+      return;
+    }
+    for (const word of indexed.words.keys()) {
+      const ids = this.postings.get(word);
+      ids?.delete(id);
+      if (ids?.size === 0) {
+        this.postings.delete(word);
+      }
+    }
+    this.items.delete(id);
+  }
+
+  /**
+   * Bring the index in line with the list, reindexing only items that were added or changed
+   * Store updates replace changed items, so an unchanged object means an unchanged item.
+   */
+  sync(items: BucketListItem[]) {
+    const ids = new Set<string>();
+    for (const item of items) {
+      ids.add(item.id);
+      if (this.items.get(item.id)?.item !== item) {
+        this.upsert(item);
+      }
+    }
+    for (const id of [...this.items.keys()]) {
+      if (!ids.has(id)) {
+        this.remove(id);
+      }
+    }
+    return this;
+  }
+
+  /**
+   * Items matching every word of the query, best matches first
+   */
+  search(query: string): BucketListSearchResult[] {
+    const queryWords = tokenize(query);
+    if (queryWords.length === 0) {
+      return [];
+    }
+
+    let results: Map<string, BucketListSearchResult> | null = null;
+    for (const queryWord of queryWords) {
+      const wordResults = new Map<string, BucketListSearchResult>();
+      for (const [word, ids] of this.postings) {
+        const wordScore = scoreWordMatch(queryWord, word);
+        if (wordScore === 0) {
+          continue;
+        }
+        for (const id of ids) {
+          const indexed = this.items.get(id)!;
+          const fields = [...indexed.words.get(word)!];
+          const score = wordScore * Math.max(...fields.map(field => FIELD_WEIGHTS[field]));
+          const result = wordResults.get(id) ?? { item: indexed.item, score: 0, matches: {} };
+          result.score = Math.max(result.score, score);
+          for (const field of fields) {
+            result.matches[field] = [...(result.matches[field] ?? []), word];
+          }
+          wordResults.set(id, result);
+        }
+      }
+
+      // Every query word has to match
+      const previous: Map<string, BucketListSearchResult> | null = results;
+      results = new Map();
+      for (const [id, result] of wordResults) {
+        const earlier = previous ? previous.get(id) : undefined;
+        if (previous && !earlier) {
+          continue;
+        }
+        results.set(id, earlier ? mergeResults(earlier, result) : result);
+      }
+    }
+
+    return [...(results?.values() ?? [])].sort(
+      (a, b) => b.score - a.score || a.item.venue.name.localeCompare(b.item.venue.name)
+    );
+  }
+}
+
+const mergeResults = (
+  a: BucketListSearchResult,
+  b: BucketListSearchResult
+): BucketListSearchResult => {
+  const matches = { ...a.matches };
+  for (const field of Object.keys(b.matches) as BucketListSearchField[]) {
+    matches[field] = [...(matches[field] ?? []), ...b.matches[field]!];
+  }
+  return { item: a.item, score: a.score + b.score, matches };
+};
+
+// Index behind searchBucketList and filterBySearchTerm, kept between calls so unchanged items
+// are not reindexed. Both are given the whole bucket list, so the list is only indexed once.
+const sharedIndex = new BucketListSearchIndex();
+
+/**
+ * Ranked results for a query over the whole bucket list
+ */
+export const searchBucketList = (
+  items: BucketListItem[],
+  query: string
+): BucketListSearchResult[] => sharedIndex.sync(items).search(query);
+
+/**
+ * Items matching a search term, in their original order; all of them when there is no term
+ * Pass the whole list each time: items missing from it are dropped from the shared index.
+ */
+export const filterBySearchTerm = (items: BucketListItem[], term: string): BucketListItem[] => {
+  if (tokenize(term).length === 0) {
+    return [...items];
+  }
+  const matched = new Set(searchBucketList(items, term).map(result => result.item.id));
+  return items.filter(item => matched.has(item.id));
+};
+
+/**
+ * Split text into runs, marking the words that matched
+ */
+export const getHighlightSegments = (text: string, words: string[] = []): HighlightSegment[] => {
+  const matched = new Set(words);
+  const segments: HighlightSegment[] = [];
+  const push = (segment: string, highlighted: boolean) => {
+    const last = segments[segments.length - 1];
+    if (last && last.highlighted === highlighted) {
+      last.text += segment;
+    } else if (segment) {
+      segments.push({ text: segment, highlighted });
+    }
+  };
+
+  let position = 0;
+  for (const match of text.matchAll(/[\p{L}\p{N}]+/gu)) {
+    const start = match.index ?? 0;
+    push(text.slice(position, start), false);
+    push(
+      match[0],
+      tokenize(match[0]).some(word => matched.has(word))
+    );
+    position = start + match[0].length;
+  }
+  push(text.slice(position), false);
+  return segments;
+};
@@ -0,0 +1,106 @@
+/**
+ * The bundled Foursquare category tree: lookups, paths and matching venues against a selection
+ * Selecting a category also selects everything beneath it, so "Asian Restaurant" matches ramen.
+ */
+import categoryTree from '@/assets/data/foursquare-categories.json';
+import { type FoursquareCategoryNode, type FoursquareCategoryTaxonomy } from '@/models/foursquare';
+import { type VenueCategory } from '@/models/venue';
+
+export const CATEGORY_TAXONOMY = categoryTree as FoursquareCategoryTaxonomy;
+
+interface IndexedCategory {
+  node: FoursquareCategoryNode;
+  parentId?: string;
+}
+
+const indexTaxonomy = (taxonomy: FoursquareCategoryTaxonomy) => {
+  const index = new Map<string, IndexedCategory>();
+  const visit = (node: FoursquareCategoryNode, parentId?: string) => {
+    index.set(node.id, { node, parentId });
+    node.children?.forEach(child => visit(child, node.id));
+  };
+  taxonomy.categories.forEach(node => visit(node));
+  return index;
+};
+
+const CATEGORY_INDEX = indexTaxonomy(CATEGORY_TAXONOMY);
+
+const normalizeName = (name: string) => name.trim().toLowerCase();
+
+export const findCategory = (id: string): FoursquareCategoryNode | undefined =>
+  CATEGORY_INDEX.get(id)?.node;
+
+/**
+ * The categories from the top of the tree down to the given one; empty when it is unknown
+ */
+export const getCategoryPath = (id: string): FoursquareCategoryNode[] => {
+  const path: FoursquareCategoryNode[] = [];
+  let entry = CATEGORY_INDEX.get(id);
+  while (entry) {
+    path.unshift(entry.node);
+    entry = entry.parentId ? CATEGORY_INDEX.get(entry.parentId) : undefined;
+  }
+  return path;
+};
+
+/**
+ * Ids of the category and everything beneath it
+ */
+export const getDescendantIds = (id: string): string[] => {
+  const node = findCategory(id);
+  if (!node) {
+    return [id];
+  }
+  const ids: string[] = [];
+  const visit = (current: FoursquareCategoryNode) => {
+    ids.push(current.id);
+    current.children?.forEach(visit);
+  };
+  visit(node);
+  return ids;
+};
+
+export const getCategoryIconUrl = (node: FoursquareCategoryNode, size: number = 88) =>
+  `${node.icon.prefix}${size}${node.icon.suffix}`;
+
+/**
+ * Whether any of a venue's categories falls under one of the selected categories
+ * Legacy venues only kept their category name, so those are matched by name instead.
+ */
+export const venueMatchesCategories = (
+  venue: { categories?: Pick<VenueCategory, 'id' | 'name'>[] },
+  selectedIds: string[]
+): boolean => {
+  if (selectedIds.length === 0) {
+    return true;
+  }
+  const selected = selectedIds.flatMap(getDescendantIds);
+  const selectedNames = selected
+    .map(id => findCategory(id)?.name)
+    .filter((name): name is string => !!name)
+    .map(normalizeName);
+
+  return (venue.categories ?? []).some(category =>
+    category.id
+      ? selected.includes(String(category.id))
+      : selectedNames.includes(normalizeName(category.name))
+  );
+};
+
+/**
+ * Known categories among the venues' categories, by name, for offering as filters
+ */
+export const getVenueCategories = (
+  venues: { categories?: Pick<VenueCategory, 'id'>[] }[]
+): FoursquareCategoryNode[] => {
+  const found = new Map<string, FoursquareCategoryNode>();
+  for (const venue of venues) {
+    for (const category of venue.categories ?? []) {
+      const node = findCategory(String(category.id));
+      if (node) {
+        found.set(node.id, node);
+      }
+    }
+  }
+  return [...found.values()].sort((a, b) => a.name.localeCompare(b.name));
+};
@@ -0,0 +1,61 @@
+/**
+ * Bucket list collections: ordering the lists and deciding which of their venues alert
+ */
+import { type BucketListCollection, type BucketListItem } from '@/models/bucket-list';
+
+export const MAX_COLLECTION_NAME_LENGTH = 40;
+
+export const sortCollections = (collections: BucketListCollection[]): BucketListCollection[] =>
+  [...collections].sort((a, b) => a.position - b.position || a.createdAt - b.createdAt);
+
+/**
+ * Give the collections the order of the ids, keeping any not listed after them
+ */
+export const applyCollectionOrder = (
+  collections: BucketListCollection[],
+  orderedIds: string[]
+): BucketListCollection[] => {
+  const byId = new Map(collections.map(collection => [collection.id, collection]));
+  const ordered = orderedIds.flatMap(id => byId.get(id) ?? []);
+  const rest = sortCollections(collections).filter(
+    collection => !orderedIds.includes(collection.id)
+  );
+  return [...ordered, ...rest].map((collection, position) =>
+    collection.position === position ? collection : { ...collection, position }
+  );
+};
+
+/**
+ * Ids of the collections in order, with one moved up (-1) or down (1)
+ */
+export const moveCollection = (
+  collections: BucketListCollection[],
+  id: string,
+  offset: -1 | 1
+): string[] => {
+  const ids = sortCollections(collections).map(collection => collection.id);
+  const from = ids.indexOf(id);
+  const to = from + offset;
+  if (from === -1 || to < 0 || to >= ids.length) {
+    return ids;
+  }
+  [ids[from], ids[to]] = [ids[to], ids[from]];
+  return ids;
+};
+
+export const isInCollection = (item: BucketListItem, collectionId: string): boolean =>
+  !!item.collectionIds?.includes(collectionId);
+
+/**
+ * Whether an item's collections let it alert
+ * Items in no collection alert as before; otherwise one of their collections has to allow it.
+ */
+export const isGeofencingEnabledForItem = (
+  item: BucketListItem,
+  collections: BucketListCollection[]
+): boolean => {
+  const itemCollections = collections.filter(collection => isInCollection(item, collection.id));
+  return (
+    itemCollections.length === 0 || itemCollections.some(collection => collection.geofencingEnabled)
+  );
+};
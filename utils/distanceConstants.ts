@@ -0,0 +1,7 @@
+/**
+ * Unit conversions shared by distance calculations
+ */
+
+export const METERS_PER_MILE = 1609.34;
+
+export const FEET_PER_MILE = 5280;
@@ -1,6 +1,7 @@
 /**
  * Utility functions for calculating and formatting distances
  */
+import { FEET_PER_MILE, METERS_PER_MILE } from './distanceConstants';
 
 /**
  * Convert degrees to radians
@@ -52,7 +53,7 @@ export const getDistanceString = (
   // Format distance in miles
   if (distance < 0.1) {
     // For very short distances, show in feet
-    const feet = Math.round(distance * 5280);
+    const feet = Math.round(distance * FEET_PER_MILE);
     return `${feet} ft`;
   }
   return `${distance.toFixed(1)} mi`;
@@ -101,5 +102,5 @@ export const isWithinRadius = (
   radius: number
 ): boolean => {
   const distance = getDistance(lat1, lon1, lat2, lon2);
-  return distance * 1609.34 <= radius; // Convert miles to meters
+  return distance * METERS_PER_MILE <= radius; // Convert miles to meters
 };
@@ -69,12 +69,18 @@ export const FOURSQUARE_CLIENT_SECRET = getEnvVar(
 );
 export const FOURSQUARE_API_KEY = getEnvVar('EXPO_PUBLIC_FOURSQUARE_API_KEY', 'dev-api-key');
 export const FOURSQUARE_API_URL = 'https://api.foursquare.com/v3';
+// 'foursquare' or 'local'; when unset, local is used unless a Foursquare API key is configured
+export const PLACES_PROVIDER = getEnvVar('EXPO_PUBLIC_PLACES_PROVIDER', '');
+// 'replay' serves recorded Foursquare responses from __mocks__/fixtures instead of calling the API
+export const FOURSQUARE_FIXTURES = getEnvVar('EXPO_PUBLIC_FOURSQUARE_FIXTURES', 'off');
 
 // Log the loaded values
 console.log('📊 Loaded environment variables:');
 console.log('  FOURSQUARE_CLIENT_ID:', FOURSQUARE_CLIENT_ID);
 console.log('  FOURSQUARE_CLIENT_SECRET:', FOURSQUARE_CLIENT_SECRET);
 console.log('  FOURSQUARE_API_KEY:', FOURSQUARE_API_KEY);
+console.log('  PLACES_PROVIDER:', PLACES_PROVIDER || '(auto)');
+console.log('  FOURSQUARE_FIXTURES:', FOURSQUARE_FIXTURES);
 
 export const validateFoursquareConfig = () => {
   const hasApiKey = FOURSQUARE_API_KEY && FOURSQUARE_API_KEY !== 'dev-api-key';
@@ -97,5 +103,7 @@ export default {
   FOURSQUARE_CLIENT_SECRET,
   FOURSQUARE_API_KEY,
   FOURSQUARE_API_URL,
+  PLACES_PROVIDER,
+  FOURSQUARE_FIXTURES,
   validateFoursquareConfig,
 };
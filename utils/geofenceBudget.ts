@@ -0,0 +1,111 @@
+/**
+ * Region budgeting for geofences
+ *
+ * The OS only monitors a fixed number of regions per app (20 on iOS), so when the bucket list
+ * is larger than that we arm the venues nearest to the user and keep one slot for a
+ * "super-region" exit fence. Leaving the super-region means the user has moved far enough
+ * that the nearest set should be recomputed.
+ */
+import { type Coordinates } from '@/models/venue';
+import { type Geofence, type GeofenceBudgetReport } from '@/models/geofence';
+import { METERS_PER_MILE } from './distanceConstants';
+import { getDistance } from './distanceUtils';
+
+// Per-app region limits enforced by the OS
+export const IOS_MAX_MONITORED_REGIONS = 20;
+export const ANDROID_MAX_MONITORED_REGIONS = 100;
+
+// Identifier of the exit fence wrapped around the armed set
+export const SUPER_REGION_ID = 'dinnafind_super_region';
+
+// Smallest super-region we register, to avoid re-selecting on GPS jitter
+export const MIN_SUPER_REGION_RADIUS = 500;
+
+/**
+ * Distance in meters between a position and a geofence center
+ */
+export const distanceToGeofence = (origin: Coordinates, geofence: Geofence): number =>
+  getDistance(origin.latitude, origin.longitude, geofence.latitude, geofence.longitude) *
+  METERS_PER_MILE;
+
+/**
+ * Pick which geofences to register with the OS
+ * @param geofences All candidate geofences
+ * @param origin Last known user position, or null if unknown
+ * @param maxRegions Number of regions the OS will monitor for the app
+ * @returns Armed and dormant geofences plus the super-region to register alongside them
+ */
+export const selectGeofenceBudget = (
+  geofences: Geofence[],
+  origin: Coordinates | null,
+  maxRegions: number
+): GeofenceBudgetReport => {
+  const updatedAt = Date.now();
+
+  if (geofences.length <= maxRegions) {
+    return { armed: [...geofences], dormant: [], origin, superRegion: null, updatedAt };
+  }
+
+  // One slot is reserved for the super-region
+  const slots = Math.max(maxRegions - 1, 0);
+
+  if (!origin) {
+    // Without a position there is no "nearest"; keep insertion order and wait for a fix
+    return {
+      armed: geofences.slice(0, slots),
+      dormant: geofences.slice(slots),
+      origin,
+      superRegion: null,
+      updatedAt,
+    };
+  }
+
+  const sorted = geofences
+    .map(geofence => ({ geofence, distance: distanceToGeofence(origin, geofence) }))
+    .sort((a, b) => a.distance - b.distance);
+
+  const armed = sorted.slice(0, slots);
+  const dormant = sorted.slice(slots);
+
+  // Re-select before the user can reach the edge of the closest dormant fence
+  const nearestDormantEdge = Math.min(
+    ...dormant.map(({ geofence, distance }) => distance - geofence.radius)
+  );
+
+  return {
+    armed: armed.map(entry => entry.geofence),
+    dormant: dormant.map(entry => entry.geofence),
+    origin,
+    superRegion: {
+      latitude: origin.latitude,
+      longitude: origin.longitude,
+      radius: Math.max(nearestDormantEdge, MIN_SUPER_REGION_RADIUS),
+    },
+    updatedAt,
+  };
+};
+
+/**
+ * Whether the user has moved far enough from the last selection origin to re-select
+ * @param report Current budget report
+ * @param position Latest user position
+ */
+export const shouldReselectBudget = (
+  report: GeofenceBudgetReport | null,
+  position: Coordinates
+): boolean => {
+  if (!report || report.dormant.length === 0) {
+    return false;
+  }
+  if (!report.origin || !report.superRegion) {
+    return true;
+  }
+  const moved =
+    getDistance(
+      report.origin.latitude,
+      report.origin.longitude,
+      position.latitude,
+      position.longitude
+    ) * METERS_PER_MILE;
+  return moved >= report.superRegion.radius / 2;
+};
@@ -0,0 +1,110 @@
+/**
+ * Geofence reconciliation
+ *
+ * The bucket list and UI preferences decide which geofences should exist. These helpers build
+ * that desired set and diff it against what is registered, so only the differences are applied.
+ */
+import { type BucketListCollection, type BucketListItem } from '@/models/bucket-list';
+import { type Geofence, type GeofenceDriftReport } from '@/models/geofence';
+import { getAlertRadiusMeters } from './alertRadius';
+import { isGeofencingEnabledForItem } from './collections';
+
+export interface DesiredGeofenceOptions {
+  // With the master switch off nothing alerts; with it on, items with alerts enabled do
+  masterEnabled: boolean;
+  distanceMiles: number;
+  priorityScaledRadius: boolean;
+  // Venues only in collections with alerts turned off are left out, even with the master switch on
+  collections?: BucketListCollection[];
+}
+
+/**
+ * Geofences the current bucket list and preferences call for
+ */
+export const buildDesiredGeofences = (
+  items: BucketListItem[],
+  { masterEnabled, distanceMiles, priorityScaledRadius, collections = [] }: DesiredGeofenceOptions
+): Geofence[] =>
+  items.flatMap(item => {
+    const latitude = item.venue?.coordinates?.latitude;
+    const longitude = item.venue?.coordinates?.longitude;
+    if (
+      !latitude ||
+      !longitude ||
+      !masterEnabled ||
+      !item.notificationsEnabled ||
+      !isGeofencingEnabledForItem(item, collections)
+    ) {
+      return [];
+    }
+    return [
+      {
+        id: item.id,
+        name: item.venue.name,
+        latitude,
+        longitude,
+        radius: getAlertRadiusMeters(item, distanceMiles, priorityScaledRadius),
+        venueId: item.venue.id,
+        hours: item.venue.hours,
+        cooldownHours: item.alertCooldownHours,
+      },
+    ];
+  });
+
+const geofenceChanged = (desired: Geofence, registered: Geofence): boolean =>
+  desired.latitude !== registered.latitude ||
+  desired.longitude !== registered.longitude ||
+  desired.radius !== registered.radius ||
+  desired.name !== registered.name ||
+  desired.venueId !== registered.venueId ||
+  desired.cooldownHours !== registered.cooldownHours ||
+  JSON.stringify(desired.hours ?? null) !== JSON.stringify(registered.hours ?? null);
+
+/**
+ * Compare the desired geofences with the registered ones
+ * @param desired Geofences the bucket list calls for
+ * @param registered Geofences currently registered with the service
+ * @param isMonitoring Whether the OS geofencing task is running
+ */
+export const diffGeofences = (
+  desired: Geofence[],
+  registered: Geofence[],
+  isMonitoring: boolean,
+  now = Date.now()
+): GeofenceDriftReport => {
+  const registeredById = new Map(registered.map(geofence => [geofence.id, geofence]));
+  const desiredIds = new Set(desired.map(geofence => geofence.id));
+
+  const missing: Geofence[] = [];
+  const changed: Geofence[] = [];
+  let unchanged = 0;
+
+  for (const geofence of desired) {
+    const current = registeredById.get(geofence.id);
+    if (!current) {
+      missing.push(geofence);
+    } else if (geofenceChanged(geofence, current)) {
+      changed.push(geofence);
+    } else {
+      unchanged += 1;
+    }
+  }
+
+  return {
+    missing,
+    stale: registered.filter(geofence => !desiredIds.has(geofence.id)).map(geofence => geofence.id),
+    changed,
+    unchanged,
+    monitoringStopped: desired.length > 0 && !isMonitoring,
+    checkedAt: now,
+  };
+};
+
+/**
+ * Whether a drift report requires any changes
+ */
+export const hasGeofenceDrift = (report: GeofenceDriftReport): boolean =>
+  report.missing.length > 0 ||
+  report.stale.length > 0 ||
+  report.changed.length > 0 ||
+  report.monitoringStopped;
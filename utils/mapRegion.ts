@@ -0,0 +1,77 @@
+/**
+ * Map regions as search areas, for searching the part of the map the user is looking at
+ */
+import { type Coordinates } from '@/models/venue';
+import { METERS_PER_MILE } from '@/utils/distanceConstants';
+import { getDistance } from '@/utils/distanceUtils';
+
+// The Places API rejects a search radius over 100 km
+export const MAX_AREA_RADIUS_METERS = 100000;
+
+// Share of the visible span the map has to move before the area counts as new
+const REGION_MOVE_THRESHOLD = 0.2;
+
+/**
+ * The visible part of the map, as react-native-maps reports it
+ */
+export interface MapRegion {
+  latitude: number;
+  longitude: number;
+  latitudeDelta: number;
+  longitudeDelta: number;
+}
+
+export interface RegionBounds {
+  northEast: Coordinates;
+  southWest: Coordinates;
+}
+
+export const getRegionBounds = (region: MapRegion): RegionBounds => ({
+  northEast: {
+    latitude: Math.min(region.latitude + region.latitudeDelta / 2, 90),
+    longitude: region.longitude + region.longitudeDelta / 2,
+  },
+  southWest: {
+    latitude: Math.max(region.latitude - region.latitudeDelta / 2, -90),
+    longitude: region.longitude - region.longitudeDelta / 2,
+  },
+});
+
+/**
+ * Center and radius of the smallest circle around the region
+ * The API searches circles, so results outside the visible rectangle are dropped afterwards.
+ */
+export const getSearchArea = (region: MapRegion): { center: Coordinates; radius: number } => {
+  const center = { latitude: region.latitude, longitude: region.longitude };
+  const { northEast } = getRegionBounds(region);
+  const cornerMiles = getDistance(
+    center.latitude,
+    center.longitude,
+    northEast.latitude,
+    northEast.longitude
+  );
+  return {
+    center,
+    radius: Math.min(Math.ceil(cornerMiles * METERS_PER_MILE), MAX_AREA_RADIUS_METERS),
+  };
+};
+
+export const isWithinBounds = (point: Coordinates, bounds: RegionBounds): boolean =>
+  point.latitude <= bounds.northEast.latitude &&
+  point.latitude >= bounds.southWest.latitude &&
+  point.longitude <= bounds.northEast.longitude &&
+  point.longitude >= bounds.southWest.longitude;
+
+/**
+ * Whether the map has been panned or zoomed enough since the last search to search again
+ */
+export const hasRegionMoved = (from: MapRegion, to: MapRegion): boolean => {
+  const latitudeShift = Math.abs(to.latitude - from.latitude) / from.latitudeDelta;
+  const longitudeShift = Math.abs(to.longitude - from.longitude) / from.longitudeDelta;
+  const zoom = Math.abs(to.latitudeDelta - from.latitudeDelta) / from.latitudeDelta;
+  return (
+    latitudeShift > REGION_MOVE_THRESHOLD ||
+    longitudeShift > REGION_MOVE_THRESHOLD ||
+    zoom > REGION_MOVE_THRESHOLD
+  );
+};
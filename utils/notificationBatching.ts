@@ -0,0 +1,89 @@
+/**
+ * Batching of geofence alerts
+ *
+ * Walking into a food hall enters several geofences within seconds. ENTER events that arrive
+ * within a short window of the first one are collected into one batch, and the batch's single
+ * notification is rewritten to list every venue instead of alerting once per venue.
+ */
+import { FEET_PER_MILE } from './distanceConstants';
+import { getDistance } from './distanceUtils';
+
+// ENTER events within this window of the first one share a notification
+export const ALERT_BATCH_WINDOW_MS = 90 * 1000;
+
+// Marks the payload of grouped "N bucket-list spots nearby" notifications
+export const ALERT_BATCH_NOTIFICATION_KIND = 'alert_batch';
+
+// Venue names listed in a grouped notification before "and N more"
+const MAX_LISTED_NAMES = 3;
+
+export interface AlertBatchVenue {
+  geofenceId: string;
+  name: string;
+  venueId?: string;
+  latitude: number;
+  longitude: number;
+}
+
+/**
+ * ENTER events collected into one notification
+ */
+export interface AlertBatch {
+  // Notification identifier rewritten as venues are added
+  notificationId: string;
+  startedAt: number;
+  venues: AlertBatchVenue[];
+}
+
+/**
+ * Add a venue to the open batch, or start a new batch if the window has passed
+ */
+export const addToAlertBatch = (
+  batch: AlertBatch | null,
+  venue: AlertBatchVenue,
+  now: number
+): AlertBatch => {
+  if (!batch || now - batch.startedAt > ALERT_BATCH_WINDOW_MS) {
+    return { notificationId: `alert_batch_${now}`, startedAt: now, venues: [venue] };
+  }
+  return {
+    ...batch,
+    venues: [...batch.venues.filter(v => v.geofenceId !== venue.geofenceId), venue],
+  };
+};
+
+/**
+ * Largest distance between two venues in the batch, rounded up to 100 ft
+ */
+export const getAlertBatchSpreadFeet = (venues: AlertBatchVenue[]): number => {
+  let spreadMiles = 0;
+  for (const a of venues) {
+    for (const b of venues) {
+      spreadMiles = Math.max(
+        spreadMiles,
+        getDistance(a.latitude, a.longitude, b.latitude, b.longitude)
+      );
+    }
+  }
+  return Math.max(100, Math.ceil((spreadMiles * FEET_PER_MILE) / 100) * 100);
+};
+
+/**
+ * Notification text for a batch
+ */
+export const describeAlertBatch = (batch: AlertBatch): { title: string; body: string } => {
+  const names = batch.venues.map(venue => venue.name);
+  if (names.length === 1) {
+    return { title: 'DinnaFind!', body: `You're near ${names[0]}. Time to check it out!` };
+  }
+
+  const listed = names.slice(0, MAX_LISTED_NAMES).join(', ');
+  const more =
+    names.length > MAX_LISTED_NAMES ? ` and ${names.length - MAX_LISTED_NAMES} more` : '';
+  return {
+    title: 'DinnaFind!',
+    body: `${names.length} bucket-list spots within ${getAlertBatchSpreadFeet(
+      batch.venues
+    )} ft: ${listed}${more}`,
+  };
+};
@@ -0,0 +1,138 @@
+/**
+ * Frequency caps for geofence alerts
+ *
+ * Limits how often the same venue can alert (a cooldown, optionally at most once a week and
+ * stretched when its alerts go unanswered) and how many alerts are sent per day overall.
+ */
+import { type NotificationFrequency } from '@/models/app-state';
+
+export const MINUTES_PER_HOUR = 60;
+export const MINUTES_PER_DAY = 24 * MINUTES_PER_HOUR;
+export const MINUTES_PER_WEEK = 7 * MINUTES_PER_DAY;
+
+export const DEFAULT_NOTIFICATION_FREQUENCY: NotificationFrequency = {
+  cooldownMinutes: 5,
+  dailyCap: null,
+  oncePerWeekPerVenue: false,
+  backoffOnIgnore: false,
+};
+
+// Cooldown choices offered on the Alerts screen
+export const COOLDOWN_OPTIONS_MINUTES = [5, 60, 4 * 60, MINUTES_PER_DAY, 3 * MINUTES_PER_DAY];
+
+// Daily cap choices offered on the Alerts screen; null means no cap
+export const DAILY_CAP_OPTIONS = [null, 1, 3, 5, 10];
+
+// Per-venue cooldown choices in hours; undefined uses the global cooldown
+export const VENUE_COOLDOWN_OPTIONS_HOURS = [undefined, 24, 7 * 24, 30 * 24];
+
+// Each ignored alert doubles the venue's cooldown, up to this multiple
+export const MAX_BACKOFF_MULTIPLIER = 16;
+
+const MS_PER_MINUTE = 60 * 1000;
+
+export type FrequencyCapReason = 'cooldown' | 'once_per_week' | 'ignored_backoff' | 'daily_cap';
+
+export interface FrequencyCapInput {
+  now: number;
+  frequency: NotificationFrequency;
+  // Last alert for this venue (epoch ms)
+  lastNotifiedAt?: number;
+  // Per-venue cooldown override
+  venueCooldownHours?: number;
+  // Alerts for this venue the user did not open or act on
+  ignoredCount: number;
+  // Times of alerts sent recently across all venues (epoch ms)
+  recentAlerts: number[];
+}
+
+export interface FrequencyCapDecision {
+  allowed: boolean;
+  reason?: FrequencyCapReason;
+}
+
+/**
+ * Cooldown for a venue before any weekly limit or back-off
+ */
+export const getBaseCooldownMinutes = (
+  frequency: NotificationFrequency,
+  venueCooldownHours?: number
+): number =>
+  venueCooldownHours !== undefined && venueCooldownHours !== null
+    ? venueCooldownHours * MINUTES_PER_HOUR
+    : frequency.cooldownMinutes;
+
+/**
+ * Multiplier applied to a venue's cooldown after its alerts were ignored
+ */
+export const getBackoffMultiplier = (ignoredCount: number): number =>
+  Math.min(2 ** Math.max(0, ignoredCount), MAX_BACKOFF_MULTIPLIER);
+
+/**
+ * Alerts sent since local midnight
+ */
+export const countAlertsToday = (recentAlerts: number[], now: number): number => {
+  const midnight = new Date(now);
+  midnight.setHours(0, 0, 0, 0);
+  return recentAlerts.filter(timestamp => timestamp >= midnight.getTime() && timestamp <= now)
+    .length;
+};
+
+/**
+ * Drop alert times that can no longer count toward today's cap
+ */
+export const pruneRecentAlerts = (recentAlerts: number[], now: number): number[] =>
+  recentAlerts.filter(timestamp => now - timestamp < MINUTES_PER_DAY * MS_PER_MINUTE);
+
+/**
+ * Decide whether the frequency caps allow another alert for a venue
+ */
+export const evaluateFrequencyCaps = ({
+  now,
+  frequency,
+  lastNotifiedAt,
+  venueCooldownHours,
+  ignoredCount,
+  recentAlerts,
+}: FrequencyCapInput): FrequencyCapDecision => {
+  if (lastNotifiedAt) {
+    const elapsedMinutes = (now - lastNotifiedAt) / MS_PER_MINUTE;
+    const cooldownMinutes = getBaseCooldownMinutes(frequency, venueCooldownHours);
+
+    if (elapsedMinutes <= cooldownMinutes) {
+      return { allowed: false, reason: 'cooldown' };
+    }
+    const weeklyMinutes = frequency.oncePerWeekPerVenue
+      ? Math.max(cooldownMinutes, MINUTES_PER_WEEK)
+      : cooldownMinutes;
+    if (elapsedMinutes <= weeklyMinutes) {
+      return { allowed: false, reason: 'once_per_week' };
+    }
+    if (
+      frequency.backoffOnIgnore &&
+      elapsedMinutes <= weeklyMinutes * getBackoffMultiplier(ignoredCount)
+    ) {
+      return { allowed: false, reason: 'ignored_backoff' };
+    }
+  }
+
+  if (frequency.dailyCap !== null && countAlertsToday(recentAlerts, now) >= frequency.dailyCap) {
+    return { allowed: false, reason: 'daily_cap' };
+  }
+
+  return { allowed: true };
+};
+
+/**
+ * Short label for a cooldown, e.g. "5 min", "4 hr", "1 day", "1 week"
+ */
+export const formatCooldown = (minutes: number): string => {
+  if (minutes < MINUTES_PER_HOUR) return `${minutes} min`;
+  if (minutes < MINUTES_PER_DAY) return `${minutes / MINUTES_PER_HOUR} hr`;
+  if (minutes % MINUTES_PER_WEEK === 0) {
+    const weeks = minutes / MINUTES_PER_WEEK;
+    return `${weeks} ${weeks === 1 ? 'week' : 'weeks'}`;
+  }
+  const days = Math.round(minutes / MINUTES_PER_DAY);
+  return `${days} ${days === 1 ? 'day' : 'days'}`;
+};
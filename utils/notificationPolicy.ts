@@ -0,0 +1,213 @@
+/**
+ * Notification policy for geofence alerts
+ *
+ * Decides whether a "You're near X" alert should be sent now, deferred to a later time, or
+ * suppressed entirely, based on the venue's opening hours and the user's quiet hours.
+ */
+import { type QuietHours } from '@/models/app-state';
+import { type VenueHours } from '@/models/venue';
+
+export type NotificationPolicyAction = 'notify' | 'defer' | 'suppress';
+
+export type NotificationPolicyReason =
+  | 'open'
+  | 'no_hours_data'
+  | 'quiet_hours'
+  | 'snoozed'
+  | 'venue_closed'
+  | 'venue_opening_soon';
+
+export interface NotificationPolicyDecision {
+  action: NotificationPolicyAction;
+  reason: NotificationPolicyReason;
+  // When a deferred alert should be delivered (epoch ms)
+  deferUntil?: number;
+  evaluatedAt: number;
+}
+
+export interface NotificationPolicyInput {
+  now: Date;
+  hours?: VenueHours;
+  quietHours?: QuietHours;
+  // Alerts for the venue are muted until this time (epoch ms)
+  snoozedUntil?: number;
+}
+
+// Alerts for venues opening within this window are deferred instead of suppressed
+export const OPENING_SOON_WINDOW_MINUTES = 60;
+
+const MINUTES_PER_DAY = 24 * 60;
+const MINUTES_PER_WEEK = 7 * MINUTES_PER_DAY;
+
+/**
+ * Parse "HHmm" (Foursquare) or "HH:mm" (preferences) into minutes after midnight
+ */
+export const parseTimeOfDay = (value: string): number | null => {
+  const match = /^\+?(\d{1,2}):?(\d{2})$/.exec(value.trim());
+  if (!match) {
+    return null;
+  }
+  const hours = parseInt(match[1], 10);
+  const minutes = parseInt(match[2], 10);
+  if (hours > 24 || minutes > 59) {
+    return null;
+  }
+  return hours * 60 + minutes;
+};
+
+/**
+ * Format minutes after midnight as an "HH:mm" preference value
+ */
+export const toTimeOfDay = (minutes: number): string => {
+  const wrapped = ((minutes % MINUTES_PER_DAY) + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${pad(Math.floor(wrapped / 60))}:${pad(wrapped % 60)}`;
+};
+
+// Start and end times offered for quiet hours, every half hour
+export const QUIET_HOURS_TIME_OPTIONS = Array.from({ length: MINUTES_PER_DAY / 30 }, (_, index) =>
+  toTimeOfDay(index * 30)
+);
+
+const minutesOfDay = (date: Date): number => date.getHours() * 60 + date.getMinutes();
+
+// Foursquare numbers days 1 (Monday) through 7 (Sunday)
+const foursquareDay = (date: Date): number => ((date.getDay() + 6) % 7) + 1;
+
+const addMinutes = (date: Date, minutes: number): number => {
+  const result = new Date(date.getTime());
+  result.setSeconds(0, 0);
+  return result.getTime() + minutes * 60 * 1000;
+};
+
+/**
+ * Whether a time falls inside the user's quiet hours
+ * @returns Minutes until quiet hours end, or null when outside quiet hours
+ */
+export const minutesUntilQuietHoursEnd = (now: Date, quietHours?: QuietHours): number | null => {
+  if (!quietHours?.enabled) {
+    return null;
+  }
+  const start = parseTimeOfDay(quietHours.start);
+  const end = parseTimeOfDay(quietHours.end);
+  if (start === null || end === null || start === end) {
+    return null;
+  }
+
+  const current = minutesOfDay(now);
+  const overnight = start > end;
+  const inside = overnight ? current >= start || current < end : current >= start && current < end;
+  if (!inside) {
+    return null;
+  }
+  return (end - current + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+};
+
+/**
+ * Opening periods of the week as [start, end) minute offsets from Monday 00:00
+ */
+const weeklyPeriods = (hours: VenueHours): [number, number][] =>
+  (hours.regular ?? []).flatMap(period => {
+    if (!period.day || !period.open || !period.close) {
+      return [];
+    }
+    const open = parseTimeOfDay(period.open);
+    const close = parseTimeOfDay(period.close);
+    if (open === null || close === null) {
+      return [];
+    }
+    const dayOffset = (period.day - 1) * MINUTES_PER_DAY;
+    // Closing at or before opening means the venue closes after midnight
+    const closeOffset = close <= open ? close + MINUTES_PER_DAY : close;
+    return [[dayOffset + open, dayOffset + closeOffset] as [number, number]];
+  });
+
+/**
+ * Check a venue's regular hours at a given time
+ * @returns Whether the venue is open, and minutes until it next opens when closed
+ */
+export const getVenueOpenState = (
+  now: Date,
+  hours?: VenueHours
+): { known: boolean; open: boolean; minutesUntilOpen: number | null } => {
+  const periods = hours ? weeklyPeriods(hours) : [];
+
+  if (periods.length === 0) {
+    // Fall back to the API's own open-now flag when regular hours are missing
+    const openNow = hours?.open_now ?? hours?.openNow ?? hours?.isOpen;
+    if (openNow === undefined) {
+      return { known: false, open: true, minutesUntilOpen: null };
+    }
+    return { known: true, open: openNow, minutesUntilOpen: null };
+  }
+
+  const current = (foursquareDay(now) - 1) * MINUTES_PER_DAY + minutesOfDay(now);
+  let minutesUntilOpen: number | null = null;
+
+  for (const [start, end] of periods) {
+    // Periods that cross Sunday midnight also cover the start of the week
+    for (const shift of [0, -MINUTES_PER_WEEK]) {
+      if (current >= start + shift && current < end + shift) {
+        return { known: true, open: true, minutesUntilOpen: 0 };
+      }
+    }
+    const untilOpen = (start - current + MINUTES_PER_WEEK) % MINUTES_PER_WEEK;
+    if (minutesUntilOpen === null || untilOpen < minutesUntilOpen) {
+      minutesUntilOpen = untilOpen;
+    }
+  }
+
+  return { known: true, open: false, minutesUntilOpen };
+};
+
+/**
+ * Decide what to do with a geofence alert
+ */
+export const evaluateNotificationPolicy = ({
+  now,
+  hours,
+  quietHours,
+  snoozedUntil,
+}: NotificationPolicyInput): NotificationPolicyDecision => {
+  const evaluatedAt = now.getTime();
+
+  if (snoozedUntil && snoozedUntil > evaluatedAt) {
+    return { action: 'suppress', reason: 'snoozed', evaluatedAt };
+  }
+
+  const venue = getVenueOpenState(now, hours);
+
+  if (venue.known && !venue.open) {
+    if (
+      venue.minutesUntilOpen !== null &&
+      venue.minutesUntilOpen <= OPENING_SOON_WINDOW_MINUTES &&
+      minutesUntilQuietHoursEnd(new Date(addMinutes(now, venue.minutesUntilOpen)), quietHours) ===
+        null
+    ) {
+      return {
+        action: 'defer',
+        reason: 'venue_opening_soon',
+        deferUntil: addMinutes(now, venue.minutesUntilOpen),
+        evaluatedAt,
+      };
+    }
+    return { action: 'suppress', reason: 'venue_closed', evaluatedAt };
+  }
+
+  const quietMinutesLeft = minutesUntilQuietHoursEnd(now, quietHours);
+  if (quietMinutesLeft !== null) {
+    const quietEnd = new Date(addMinutes(now, quietMinutesLeft));
+    const afterQuiet = getVenueOpenState(quietEnd, hours);
+    if (afterQuiet.open) {
+      return {
+        action: 'defer',
+        reason: 'quiet_hours',
+        deferUntil: quietEnd.getTime(),
+        evaluatedAt,
+      };
+    }
+    return { action: 'suppress', reason: 'quiet_hours', evaluatedAt };
+  }
+
+  return { action: 'notify', reason: venue.known ? 'open' : 'no_hours_data', evaluatedAt };
+};
@@ -0,0 +1,57 @@
+/**
+ * Cached search results, so repeating a recent search shows its results without a request
+ */
+import { type Venue } from '@/models/venue';
+import { type SearchVenuesRequest } from '@/store/slices/venuesSlice';
+
+// How long cached results are shown instead of searching again
+export const SEARCH_CACHE_TTL_MS = 5 * 60 * 1000;
+
+// Searches kept in the cache; the oldest are dropped first
+export const MAX_CACHED_SEARCHES = 10;
+
+export interface SearchCacheEntry {
+  venues: Venue[];
+  nextCursor: string | null;
+  cachedAt: number;
+}
+
+// About 100 m, so small location updates still hit the cache
+const roundCoordinate = (value: number) => value.toFixed(3);
+
+/**
+ * Identity of a search: the query, where it was run and everything that narrows it down
+ */
+export const getSearchCacheKey = (request: SearchVenuesRequest): string =>
+  JSON.stringify([
+    request.query.trim().toLowerCase(),
+    roundCoordinate(request.coordinates.latitude),
+    roundCoordinate(request.coordinates.longitude),
+    [...(request.categories ?? [])].sort(),
+    request.radius ?? null,
+    request.limit ?? null,
+    request.filters
+      ? {
+          ...request.filters,
+          priceTiers: [...request.filters.priceTiers].sort(),
+          cuisines: [...request.filters.cuisines].sort(),
+        }
+      : null,
+  ]);
+
+export const isFreshCacheEntry = (entry: SearchCacheEntry, now: number): boolean =>
+  now - entry.cachedAt < SEARCH_CACHE_TTL_MS;
+
+/**
+ * Store a search's results, dropping the oldest searches beyond the cache size
+ */
+export const addToSearchCache = (
+  cache: Record<string, SearchCacheEntry>,
+  key: string,
+  entry: SearchCacheEntry
+): Record<string, SearchCacheEntry> => {
+  const entries = Object.entries({ ...cache, [key]: entry })
+    .sort(([, a], [, b]) => b.cachedAt - a.cachedAt)
+    .slice(0, MAX_CACHED_SEARCHES);
+  return Object.fromEntries(entries);
+};
@@ -0,0 +1,159 @@
+/**
+ * Search filters: the options the filter sheet offers, how they map to search parameters and the
+ * checks applied to results where the provider cannot filter
+ */
+import { withFoursquareCategories } from '@/api/localPlacesProvider';
+import { type PlacesSearchParams } from '@/api/placesProvider';
+import { type SearchFilters, type Venue } from '@/models/venue';
+import { findCategory, venueMatchesCategories } from '@/utils/categoryTaxonomy';
+
+export const DEFAULT_SEARCH_FILTERS: SearchFilters = {
+  priceTiers: [],
+  openNow: false,
+  minRating: null,
+  maxDistanceMeters: null,
+  cuisines: [],
+};
+
+export const PRICE_TIERS = [1, 2, 3, 4];
+
+// Foursquare rates venues out of 10
+export const MIN_RATING_OPTIONS = [7, 8, 9];
+
+export const MAX_DISTANCE_OPTIONS = [
+  { meters: 1609, label: '1 mi' },
+  { meters: 4828, label: '3 mi' },
+  { meters: 8047, label: '5 mi' },
+  { meters: 16093, label: '10 mi' },
+];
+
+// Foursquare restaurant categories offered as cuisines
+export const CUISINE_OPTIONS = [
+  { id: '13068', name: 'American' },
+  { id: '13026', name: 'BBQ' },
+  { id: '13031', name: 'Burgers' },
+  { id: '13099', name: 'Chinese' },
+  { id: '13148', name: 'French' },
+  { id: '13199', name: 'Indian' },
+  { id: '13236', name: 'Italian' },
+  { id: '13263', name: 'Japanese' },
+  { id: '13303', name: 'Mexican' },
+  { id: '13064', name: 'Pizza' },
+  { id: '13338', name: 'Seafood' },
+  { id: '13383', name: 'Steakhouse' },
+  { id: '13306', name: 'Tacos' },
+  { id: '13352', name: 'Thai' },
+  { id: '13377', name: 'Vegetarian' },
+];
+
+export type SearchFilterChip =
+  | { key: string; label: string; filter: 'priceTiers'; value: number }
+  | { key: string; label: string; filter: 'cuisines'; value: string }
+  | { key: string; label: string; filter: 'openNow' | 'minRating' | 'maxDistanceMeters' };
+
+export const formatPriceTier = (tier: number) => '$'.repeat(tier);
+
+export const hasActiveFilters = (filters: SearchFilters) => getFilterChips(filters).length > 0;
+
+/**
+ * One removable chip per active filter value
+ */
+export const getFilterChips = (filters: SearchFilters): SearchFilterChip[] => {
+  const chips: SearchFilterChip[] = [];
+  for (const tier of [...filters.priceTiers].sort()) {
+    chips.push({
+      key: `price-${tier}`,
+      label: formatPriceTier(tier),
+      filter: 'priceTiers',
+      value: tier,
+    });
+  }
+  if (filters.openNow) {
+    chips.push({ key: 'open-now', label: 'Open now', filter: 'openNow' });
+  }
+  if (filters.minRating !== null) {
+    chips.push({ key: 'min-rating', label: `${filters.minRating}+ rating`, filter: 'minRating' });
+  }
+  if (filters.maxDistanceMeters !== null) {
+    const option = MAX_DISTANCE_OPTIONS.find(({ meters }) => meters === filters.maxDistanceMeters);
+    chips.push({
+      key: 'max-distance',
+      label: `Within ${option?.label ?? `${filters.maxDistanceMeters} m`}`,
+      filter: 'maxDistanceMeters',
+    });
+  }
+  for (const cuisine of filters.cuisines) {
+    const option = CUISINE_OPTIONS.find(({ id }) => id === cuisine);
+    chips.push({
+      key: `cuisine-${cuisine}`,
+      // Categories picked in the category browser are not among the cuisine options
+      label: option?.name ?? findCategory(cuisine)?.name ?? cuisine,
+      filter: 'cuisines',
+      value: cuisine,
+    });
+  }
+  return chips;
+};
+
+export const removeFilterChip = (filters: SearchFilters, chip: SearchFilterChip): SearchFilters => {
+  switch (chip.filter) {
+    case 'priceTiers':
+      return { ...filters, priceTiers: filters.priceTiers.filter(tier => tier !== chip.value) };
+    case 'cuisines':
+      return { ...filters, cuisines: filters.cuisines.filter(id => id !== chip.value) };
+    default:
+      return { ...filters, [chip.filter]: DEFAULT_SEARCH_FILTERS[chip.filter] };
+  }
+};
+
+/**
+ * Search parameters for the filters the Places API can apply itself
+ * Price tiers become a min/max range, so tiers that are not adjacent are narrowed down after
+ */
+export const toSearchParams = (
+  filters: SearchFilters
+): Pick<PlacesSearchParams, 'minPrice' | 'maxPrice' | 'openNow' | 'radius' | 'categories'> => ({
+  minPrice: filters.priceTiers.length > 0 ? Math.min(...filters.priceTiers) : undefined,
+  maxPrice: filters.priceTiers.length > 0 ? Math.max(...filters.priceTiers) : undefined,
+  openNow: filters.openNow || undefined,
+  radius: filters.maxDistanceMeters ?? undefined,
+  categories: filters.cuisines.length > 0 ? filters.cuisines : undefined,
+});
+
+const getPriceTier = ({ price }: Venue) => (typeof price === 'number' ? price : price?.tier);
+
+const isOpenNow = (venue: Venue) =>
+  venue.hours?.open_now ?? venue.hours?.openNow ?? venue.hours?.isOpen;
+
+/**
+ * Drop results that do not match the filters
+ * Covers what the search parameters cannot express, and providers that ignore them. Venues
+ * without the data a filter needs are dropped, since they cannot be shown to match.
+ */
+export const applySearchFilters = (venues: Venue[], filters: SearchFilters): Venue[] =>
+  venues.filter(venue => {
+    if (filters.priceTiers.length > 0 && !filters.priceTiers.includes(getPriceTier(venue) ?? 0)) {
+      return false;
+    }
+    if (filters.openNow && !isOpenNow(venue)) {
+      return false;
+    }
+    if (filters.minRating !== null && (venue.rating ?? 0) < filters.minRating) {
+      return false;
+    }
+    if (
+      filters.maxDistanceMeters !== null &&
+      venue.distance !== undefined &&
+      venue.distance > filters.maxDistanceMeters
+    ) {
+      return false;
+    }
+    // Local venues have OSM categories, matched through the Foursquare ones they stand for
+    if (
+      filters.cuisines.length > 0 &&
+      !venueMatchesCategories({ categories: withFoursquareCategories(venue) }, filters.cuisines)
+    ) {
+      return false;
+    }
+    return true;
+  });
@@ -0,0 +1,66 @@
+/**
+ * Search history, recently viewed venues and saved searches: keeping the lists short and free of
+ * repeats
+ */
+import { type RecentVenue, type SavedSearch, type SearchHistoryEntry } from '@/models/search';
+import { type CanonicalVenue, type SearchFilters } from '@/models/venue';
+
+export const MAX_SEARCH_HISTORY = 25;
+export const MAX_RECENT_VENUES = 20;
+
+const normalizeQuery = (query: string) => query.trim().toLowerCase();
+
+// Filters in a form that compares equal regardless of the order values were picked in
+const getFiltersKey = (filters: SearchFilters) =>
+  JSON.stringify({
+    ...filters,
+    priceTiers: [...filters.priceTiers].sort(),
+    cuisines: [...filters.cuisines].sort(),
+  });
+
+export const isSameSearch = (
+  a: { query: string; filters: SearchFilters },
+  b: { query: string; filters: SearchFilters }
+): boolean =>
+  normalizeQuery(a.query) === normalizeQuery(b.query) &&
+  getFiltersKey(a.filters) === getFiltersKey(b.filters);
+
+/**
+ * Put a search at the top of the history, replacing an earlier run of the same search
+ */
+export const addToSearchHistory = (
+  history: SearchHistoryEntry[],
+  entry: SearchHistoryEntry
+): SearchHistoryEntry[] =>
+  [entry, ...history.filter(existing => !isSameSearch(existing, entry))].slice(
+    0,
+    MAX_SEARCH_HISTORY
+  );
+
+/**
+ * Put a venue at the top of the recently viewed list, replacing an earlier view
+ */
+export const addRecentVenue = (venues: RecentVenue[], venue: RecentVenue): RecentVenue[] =>
+  [venue, ...venues.filter(existing => existing.id !== venue.id)].slice(0, MAX_RECENT_VENUES);
+
+export const toRecentVenue = (
+  venue: CanonicalVenue,
+  viewedAt: number = Date.now()
+): RecentVenue => ({
+  id: venue.id,
+  name: venue.name,
+  category: venue.categories[0]?.name,
+  iconUrl: venue.iconUrl,
+  viewedAt,
+});
+
+/**
+ * Combine the saved searches on the device with those stored with the user's account
+ * The account's copy wins for searches in both; the newest searches come first.
+ */
+export const mergeSavedSearches = (local: SavedSearch[], remote: SavedSearch[]): SavedSearch[] => {
+  const remoteIds = new Set(remote.map(search => search.id));
+  return [...remote, ...local.filter(search => !remoteIds.has(search.id))].sort(
+    (a, b) => b.createdAt - a.createdAt
+  );
+};
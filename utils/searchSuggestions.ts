@@ -0,0 +1,83 @@
+/**
+ * Typeahead suggestions for the search screen
+ */
+import { type BucketListItem } from '@/models/bucket-list';
+import { type FoursquareAutocompleteResult } from '@/models/foursquare';
+import { type VenueCategory } from '@/models/venue';
+
+// Saved venues shown ahead of the API suggestions
+export const MAX_SAVED_SUGGESTIONS = 3;
+
+export type SearchSuggestion =
+  | { kind: 'saved'; key: string; venueId: string; title: string; subtitle?: string }
+  | { kind: 'place'; key: string; venueId: string; title: string; subtitle?: string }
+  | { kind: 'search'; key: string; query: string; title: string; category?: VenueCategory };
+
+const normalize = (text: string) => text.trim().toLowerCase();
+
+const savedVenueId = (item: BucketListItem): string | undefined =>
+  item.venueId || item.venue?.id || item.fsq_id;
+
+/**
+ * Saved venues first, then places and searches from the autocomplete API
+ * Places that are already saved only appear once, as saved
+ */
+export const buildSearchSuggestions = (
+  query: string,
+  savedItems: BucketListItem[],
+  results: FoursquareAutocompleteResult[]
+): SearchSuggestion[] => {
+  const term = normalize(query);
+  if (!term) {
+    return [];
+  }
+
+  const suggestions: SearchSuggestion[] = [];
+  const seenVenueIds = new Set<string>();
+
+  for (const item of savedItems) {
+    const venueId = savedVenueId(item);
+    if (!venueId || !normalize(item.venue?.name ?? '').includes(term)) {
+      continue;
+    }
+    seenVenueIds.add(venueId);
+    suggestions.push({
+      kind: 'saved',
+      key: `saved-${venueId}`,
+      venueId,
+      title: item.venue.name,
+      subtitle: item.venue.location?.formattedAddress,
+    });
+    if (suggestions.length === MAX_SAVED_SUGGESTIONS) {
+      break;
+    }
+  }
+
+  for (const result of results) {
+    if (result.type === 'place' && result.place) {
+      const venueId = result.place.fsq_id || result.place.id;
+      if (!venueId || seenVenueIds.has(venueId)) {
+        continue;
+      }
+      seenVenueIds.add(venueId);
+      suggestions.push({
+        kind: 'place',
+        key: `place-${venueId}`,
+        venueId,
+        title: result.text.primary,
+        subtitle: result.text.secondary,
+      });
+    } else if (result.type === 'search') {
+      const searchQuery = result.search?.query || result.text.primary;
+      suggestions.push({
+        kind: 'search',
+        key: `search-${searchQuery}`,
+        query: searchQuery,
+        title: result.text.primary,
+        category: result.search?.category,
+      });
+    }
+  }
+
+  return suggestions;
+};
@@ -0,0 +1,285 @@
+/**
+ * Normalizing, validating and migrating venues
+ *
+ * Venues reach the app in several shapes: Foursquare v3 responses, the older v2-style fields
+ * (`lat`/`lng`, `formattedAddress`, `contact.phone`), bucket list venues saved before the
+ * canonical model (`address`, `category`, `photo`) and Supabase `venue_data` rows holding any of
+ * those. Everything is converted to a CanonicalVenue at the boundary, so the rest of the app reads
+ * one set of fields.
+ */
+import {
+  type CanonicalVenue,
+  type Coordinates,
+  type VenuePrice,
+  VENUE_SCHEMA_VERSION,
+} from '@/models/venue';
+
+export class VenueValidationError extends Error {
+  readonly issues: string[];
+
+  constructor(issues: string[]) {
+    super(`Invalid venue: ${issues.join('; ')}`);
+    this.name = 'VenueValidationError';
+    this.issues = issues;
+  }
+}
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const toText = (value: unknown): string | undefined => {
+  if (typeof value === 'number') {
+    return String(value);
+  }
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+};
+
+const toNumber = (value: unknown): number | undefined =>
+  typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+
+const isValidCoordinates = (value: unknown): value is Coordinates =>
+  isObject(value) &&
+  toNumber(value.latitude) !== undefined &&
+  toNumber(value.longitude) !== undefined &&
+  Math.abs(value.latitude) <= 90 &&
+  Math.abs(value.longitude) <= 180 &&
+  // 0,0 is what empty legacy records default to, not a real venue
+  !(value.latitude === 0 && value.longitude === 0);
+
+const photoUrl = (photo: { prefix?: string; suffix?: string }, size: string) =>
+  photo.prefix && photo.suffix ? `${photo.prefix}${size}${photo.suffix}` : undefined;
+
+/**
+ * Problems that stop a value from being used as a CanonicalVenue; empty when it is valid
+ */
+export const getVenueIssues = (value: unknown): string[] => {
+  if (!isObject(value)) {
+    return ['venue is not an object'];
+  }
+  const issues: string[] = [];
+  if (typeof value.schemaVersion !== 'number') {
+    issues.push('schemaVersion is missing');
+  }
+  if (!toText(value.id)) {
+    issues.push('id is missing');
+  }
+  if (!toText(value.name)) {
+    issues.push('name is missing');
+  }
+  if (
+    !Array.isArray(value.categories) ||
+    value.categories.some(
+      (category: unknown) => !isObject(category) || typeof category.name !== 'string'
+    )
+  ) {
+    issues.push('categories must be a list of named categories');
+  }
+  if (!isObject(value.location)) {
+    issues.push('location must be an object');
+  }
+  if (value.coordinates !== undefined && !isValidCoordinates(value.coordinates)) {
+    issues.push('coordinates are out of range');
+  }
+  if (!Array.isArray(value.photos)) {
+    issues.push('photos must be a list');
+  }
+  if (!isObject(value.contact)) {
+    issues.push('contact must be an object');
+  }
+  if (value.rating !== undefined && toNumber(value.rating) === undefined) {
+    issues.push('rating must be a number');
+  }
+  return issues;
+};
+
+export const isCanonicalVenue = (value: unknown): value is CanonicalVenue =>
+  getVenueIssues(value).length === 0;
+
+const getCoordinates = (raw: Record<string, any>): Coordinates | undefined => {
+  const candidates = [
+    raw.coordinates,
+    raw.geocodes?.main,
+    { latitude: raw.location?.lat, longitude: raw.location?.lng },
+    { latitude: raw.location?.latitude, longitude: raw.location?.longitude },
+  ];
+  const found = candidates.find(isValidCoordinates);
+  return found ? { latitude: found.latitude, longitude: found.longitude } : undefined;
+};
+
+const getCategories = (raw: Record<string, any>): CanonicalVenue['categories'] => {
+  if (Array.isArray(raw.categories) && raw.categories.length > 0) {
+    return raw.categories.filter(isObject).map(category => ({
+      id: toText(category.id ?? category.fsq_id) ?? '',
+      name: toText(category.name) ?? 'Unknown Category',
+      ...(isObject(category.icon)
+        ? { icon: { prefix: category.icon.prefix, suffix: category.icon.suffix } }
+        : {}),
+    }));
+  }
+  // Legacy bucket list venues only kept the primary category's name
+  const name = toText(raw.category);
+  return name ? [{ id: '', name }] : [];
+};
+
+const getLocation = (raw: Record<string, any>): CanonicalVenue['location'] => {
+  const location = isObject(raw.location) ? raw.location : {};
+  const address = toText(location.address);
+  const city = toText(location.city ?? location.locality);
+  const region = toText(location.region ?? location.state);
+  const formattedAddress =
+    toText(location.formattedAddress ?? location.formatted_address) ??
+    // Legacy bucket list venues stored a single address line
+    toText(raw.address) ??
+    ([address, city, region].filter(Boolean).join(', ') || undefined);
+
+  return {
+    address: address ?? toText(raw.address),
+    crossStreet: toText(location.crossStreet ?? location.cross_street),
+    city,
+    region,
+    postalCode: toText(location.postalCode ?? location.postcode),
+    country: toText(location.country),
+    neighborhood: Array.isArray(location.neighborhood) ? location.neighborhood : undefined,
+    formattedAddress,
+  };
+};
+
+const getPrice = (price: unknown): VenuePrice | undefined => {
+  if (isObject(price)) {
+    return price as VenuePrice;
+  }
+  // Foursquare v3 returns the tier alone
+  const tier = toNumber(price);
+  return tier ? { tier, message: '$'.repeat(tier) } : undefined;
+};
+
+/**
+ * Convert a venue in any shape the app has seen into a CanonicalVenue
+ * @param fallbackId Id to use when the payload has none, e.g. the id it was requested by
+ * @throws VenueValidationError when the payload cannot describe a venue
+ */
+export const normalizeVenue = (raw: unknown, fallbackId?: string): CanonicalVenue => {
+  if (!isObject(raw)) {
+    throw new VenueValidationError(['venue is not an object']);
+  }
+
+  const categories = getCategories(raw);
+  const photos = Array.isArray(raw.photos)
+    ? raw.photos
+        .filter(isObject)
+        .map(
+          photo => ({ ...photo, id: toText(photo.id) ?? '' } as CanonicalVenue['photos'][number])
+        )
+    : [];
+  const primaryIcon = (categories.find(category => category.icon) ?? categories[0])?.icon;
+  const contact = isObject(raw.contact) ? raw.contact : {};
+
+  const venue: CanonicalVenue = {
+    schemaVersion: VENUE_SCHEMA_VERSION,
+    id: toText(raw.fsq_id ?? raw.id) ?? toText(fallbackId) ?? '',
+    name: toText(raw.name) ?? '',
+    categories,
+    location: getLocation(raw),
+    coordinates: getCoordinates(raw),
+    photos,
+    heroImageUrl:
+      toText(raw.heroImageUrl) ??
+      toText(raw.photo) ??
+      (photos[0] ? photoUrl(photos[0], 'original') : undefined),
+    iconUrl: toText(raw.iconUrl) ?? (primaryIcon ? photoUrl(primaryIcon, '88') : undefined),
+    // Legacy records stored 0 for venues without a rating
+    rating: toNumber(raw.rating) || undefined,
+    price: getPrice(raw.price),
+    hours: isObject(raw.hours) ? raw.hours : undefined,
+    contact: {
+      phone: toText(contact.phone ?? contact.formattedPhone ?? raw.tel),
+      website: toText(contact.website ?? contact.url ?? raw.website ?? raw.url),
+      email: toText(contact.email ?? raw.email),
+      twitter: toText(contact.twitter ?? raw.social_media?.twitter),
+      instagram: toText(contact.instagram ?? raw.social_media?.instagram),
+      facebook: toText(contact.facebook ?? raw.social_media?.facebook_id),
+    },
+    description: toText(raw.description),
+    verified: typeof raw.verified === 'boolean' ? raw.verified : undefined,
+    stats: isObject(raw.stats) ? raw.stats : undefined,
+    distance: toNumber(raw.distance),
+    timezone: toText(raw.timezone),
+  };
+
+  const issues = getVenueIssues(venue);
+  if (issues.length > 0) {
+    throw new VenueValidationError(issues);
+  }
+  return venue;
+};
+
+// Each migration takes stored data at its version to the next one
+// Version 0 is anything saved before venues carried a schemaVersion
+const VENUE_MIGRATIONS: Record<number, (data: Record<string, any>) => Record<string, any>> = {
+  0: data => normalizeVenue(data),
+};
+
+/**
+ * Bring a stored venue (bucket list storage, Supabase `venue_data`) up to the current schema
+ * @throws VenueValidationError when the stored data cannot be migrated to a valid venue
+ */
+export const migrateVenueData = (data: unknown, fallbackId?: string): CanonicalVenue => {
+  if (!isObject(data)) {
+    throw new VenueValidationError(['venue is not an object']);
+  }
+
+  let migrated: Record<string, any> = { ...data };
+  let version = typeof data.schemaVersion === 'number' ? data.schemaVersion : 0;
+  if (fallbackId && !toText(migrated.id) && !toText(migrated.fsq_id)) {
+    migrated.id = fallbackId;
+  }
+  while (version < VENUE_SCHEMA_VERSION) {
+    const migrate = VENUE_MIGRATIONS[version];
+    if (!migrate) {
+      throw new VenueValidationError([`no migration from schema version ${version}`]);
+    }
+    migrated = migrate(migrated);
+    version += 1;
+    migrated.schemaVersion = version;
+  }
+
+  const issues = getVenueIssues(migrated);
+  if (issues.length > 0) {
+    throw new VenueValidationError(issues);
+  }
+  return migrated as CanonicalVenue;
+};
+
+/**
+ * migrateVenueData for stored records that may be beyond repair
+ * @returns null when the venue is missing or invalid, so callers can fetch it again
+ */
+export const migrateStoredVenue = (data: unknown, fallbackId?: string): CanonicalVenue | null => {
+  if (!isObject(data) || Object.keys(data).length === 0) {
+    return null;
+  }
+  try {
+    return migrateVenueData(data, fallbackId);
+  } catch (error) {
+    console.warn(`[venueModel] Discarding stored venue ${fallbackId ?? ''}:`, error);
+    return null;
+  }
+};
+
+/**
+ * Stand-in for a stored venue that cannot be migrated, from its id and whatever is still readable
+ * Keeps the bucket list item on screen until the venue has been fetched again.
+ */
+export const salvageStoredVenue = (data: unknown, venueId: string): CanonicalVenue => {
+  const raw = isObject(data) ? data : {};
+  return {
+    schemaVersion: VENUE_SCHEMA_VERSION,
+    id: venueId,
+    name: toText(raw.name) ?? '',
+    categories: getCategories(raw),
+    location: getLocation(raw),
+    coordinates: getCoordinates(raw),
+    photos: [],
+    contact: {},
+  };
+};
@@ -0,0 +1,36 @@
+/**
+ * Helpers for paging through venue search results
+ */
+import { type Venue } from '@/models/venue';
+
+// Results per page for paginated searches
+export const SEARCH_PAGE_SIZE = 20;
+
+/**
+ * Stable identity of a venue across pages and API versions
+ */
+export const getVenueKey = (venue: Pick<Venue, 'id' | 'fsq_id'>): string | undefined =>
+  venue.fsq_id || venue.id || undefined;
+
+/**
+ * Append a page of results, dropping venues that are already listed
+ * Pages can overlap when results shift between requests
+ */
+export const appendUniqueVenues = <T extends Pick<Venue, 'id' | 'fsq_id'>>(
+  existing: T[],
+  page: T[]
+): T[] => {
+  const seen = new Set(existing.map(getVenueKey).filter(Boolean));
+  const added: T[] = [];
+  for (const venue of page) {
+    const key = getVenueKey(venue);
+    if (key && seen.has(key)) {
+      continue;
+    }
+    if (key) {
+      seen.add(key);
+    }
+    added.push(venue);
+  }
+  return added.length > 0 ? [...existing, ...added] : existing;
+};